@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CatalogRecord" ADD COLUMN "leader" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "CatalogField" ADD COLUMN "ind1" TEXT;
+ALTER TABLE "CatalogField" ADD COLUMN "ind2" TEXT;
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "DialogSession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "description" TEXT NOT NULL,
+    "language" TEXT NOT NULL DEFAULT 'pt',
+    "templateId" TEXT,
+    "state" JSONB NOT NULL,
+    "lastResponse" JSONB,
+    "recordId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
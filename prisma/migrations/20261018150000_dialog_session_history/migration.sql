@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "DialogSession" ADD COLUMN "history" JSONB;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CatalogField" ADD COLUMN "provenance" JSONB;
@@ -1,15 +1,23 @@
-import { POST } from "@/app/api/uni-dialog/route"
+/**
+ * @jest-environment node
+ */
+import { GET, POST } from "@/app/api/uni-dialog/route"
 import { templateCache } from "@/lib/template-cache"
 import { promptOptimizer } from "@/lib/prompt-optimizer"
 import { databaseService } from "@/lib/database"
+import { type DialogSession, dialogSessionService } from "@/lib/dialog-sessions"
 import OpenAI from "openai"
-import type { CatalogResponse, Template } from "@/app/types/unimarc"
+import { NextRequest } from "next/server"
+import { dialogStream } from "@/lib/dialog-stream"
+import type { CatalogResponse, ConversationState, DialogProgress, Template } from "@/app/types/unimarc"
 
 // Mock das dependências externas
 jest.mock("@/lib/template-cache")
 jest.mock("@/lib/prompt-optimizer")
 jest.mock("@/lib/database")
+jest.mock("@/lib/dialog-sessions")
 jest.mock("next/server", () => ({
+    ...jest.requireActual("next/server"),
     NextResponse: {
         json: jest.fn((data) => ({ json: () => Promise.resolve(data), status: 200 })),
     },
@@ -22,7 +30,7 @@ jest.mock("openai", () => {
     return jest.fn(() => ({
         chat: {
             completions: {
-                create: mockChatCompletionsCreate
+                create: (...args: unknown[]) => mockChatCompletionsCreate(...args)
             }
         }
     }));
@@ -32,6 +40,38 @@ jest.mock("openai", () => {
 const mockTemplateCache = templateCache as jest.Mocked<typeof templateCache>
 const mockPromptOptimizer = promptOptimizer as jest.Mocked<typeof promptOptimizer>
 const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>
+const mockDialogSessionService = dialogSessionService as jest.Mocked<typeof dialogSessionService>
+
+// Pedido POST à rota do diálogo com o corpo indicado
+const postRequest = (body: Record<string, unknown>) =>
+    new NextRequest("http://localhost/api/uni-dialog", { method: "POST", body: JSON.stringify(body) })
+
+// Resposta da OpenAI (sem streaming) com o texto indicado
+const completion = (content: string): OpenAI.Chat.Completions.ChatCompletion => ({
+    id: "chatcmpl-123",
+    created: 123,
+    model: "gpt-4o",
+    object: "chat.completion",
+    choices: [{ index: 0, finish_reason: "stop", logprobs: null, message: { role: "assistant", content, refusal: null } }],
+})
+
+// Sessões em memória no lugar da base de dados
+const sessionStore = new Map<string, DialogSession>()
+
+// Guarda uma cópia do estado numa sessão nova e devolve o id a enviar no pedido
+const session = (state: unknown, lastResponse: CatalogResponse | null = null): string => {
+    const id = `session${sessionStore.size + 1}`
+    sessionStore.set(id, {
+        id,
+        description: "um livro",
+        language: "pt",
+        state: structuredClone(state) as ConversationState,
+        lastResponse,
+        recordId: null,
+        history: [],
+    })
+    return id
+}
 
 const mockTemplate: Template = {
     id: "temp1",
@@ -164,6 +204,19 @@ describe("Catalog API Route (POST)", () => {
             object: "chat.completion",
         } as any)
         mockDatabaseService.saveRecord.mockResolvedValue("record123")
+        sessionStore.clear()
+        mockDialogSessionService.load.mockImplementation(async (id) => {
+            const stored = sessionStore.get(id)
+            return stored ? structuredClone(stored) : null
+        })
+        mockDialogSessionService.create.mockImplementation(async (description, language = "pt") => {
+            const id = session({ step: "template-selection", filledFields: {}, remainingFields: [] })
+            return { ...structuredClone(sessionStore.get(id)!), description, language }
+        })
+        mockDialogSessionService.save.mockImplementation(async (id, state, response, history = []) => {
+            const stored = sessionStore.get(id)!
+            sessionStore.set(id, structuredClone({ ...stored, state, lastResponse: response, history }))
+        })
     })
 
     it("should select a template and transition to bulk-auto-fill", async () => {
@@ -202,14 +255,13 @@ describe("Catalog API Route (POST)", () => {
         const req = {
             json: () =>
                 Promise.resolve({
-                    description: "um livro",
-                    conversationState: {
+                    sessionId: session({
                         step: "bulk-auto-fill",
                         currentTemplate: mockTemplate,
                         filledFields: {},
                         remainingFields: [],
                         autoFilledCount: 0,
-                    },
+                    }),
                 }),
         } as any
 
@@ -223,19 +275,167 @@ describe("Catalog API Route (POST)", () => {
         expect(mockPromptOptimizer.buildPrompt).toHaveBeenCalledWith("bulk-field-filling", "um livro", expect.any(Object))
     })
 
+    it("should only show the auto-filled values that passed the checks", async () => {
+        mockChatCompletionsCreate.mockResolvedValueOnce(completion('{"001": "12345", "101": {"a": "klingon"}}'))
+        const sessionId = session({
+            step: "bulk-auto-fill",
+            currentTemplate: mockTemplate,
+            filledFields: {},
+            remainingFields: [],
+            autoFilledCount: 0,
+        })
+
+        const data: CatalogResponse = await (await POST(postRequest({ sessionId }))).json()
+
+        // The unknown language code is dropped and asked instead, so it is not shown as auto-filled
+        expect(data.type).toBe("bulk-auto-filled")
+        expect(data.filledFields).toEqual({ "001": "12345" })
+        expect(data.conversationState?.filledFields).toEqual({ "001": "12345" })
+        expect(data.conversationState?.remainingFields).toContain("101")
+    })
+
+    it("should keep the confidence of the AI values and ask to confirm those below the threshold", async () => {
+        process.env.AI_CONFIRMATION_THRESHOLD = "0.5"
+        const send = (sessionId: string, body: Record<string, unknown>) =>
+            POST(postRequest({ sessionId, ...body })).then((res) => res.json() as Promise<CatalogResponse>)
+        mockChatCompletionsCreate.mockResolvedValueOnce(
+            completion(
+                '{"001": "12345", "101": {"a": "por"}, "200": {"a": "Memorial do Convento", "f": "Saramago"}, "_confidence": {"001": 0.3, "101$a": 0.95, "200$a": 0.9, "200$f": 0.6}}',
+            ),
+        )
+        const sessionId = session({
+            step: "bulk-auto-fill",
+            currentTemplate: mockTemplate,
+            filledFields: {},
+            remainingFields: [],
+            autoFilledCount: 0,
+        })
+
+        try {
+            const bulk = await send(sessionId, {})
+            expect(bulk.type).toBe("bulk-auto-filled")
+            expect(bulk.conversationState?.fieldConfidence).toEqual({ "001": 0.3, "101$a": 0.95, "200$a": 0.9, "200$f": 0.6 })
+            expect(bulk.conversationState?.confirmingFields).toEqual(["001"])
+
+            // Values below the threshold are confirmed before any other question
+            const confirm = await send(sessionId, { userResponse: "" })
+            expect(confirm.type).toBe("low-confidence-confirmation")
+            expect(confirm.question).toBe(
+                "A IA preencheu o campo 001 com pouca confiança: 12345 (30%). Deseja manter este valor? (sim/não)",
+            )
+
+            // "não" drops the value and asks the field like any other
+            const question = await send(sessionId, { userResponse: "não" })
+            expect(question.type).toBe("field-question")
+            expect(question.field).toBe("001")
+            expect(question.conversationState?.filledFields["001"]).toBeUndefined()
+            expect(question.conversationState?.fieldConfidence).toEqual({ "101$a": 0.95, "200$a": 0.9, "200$f": 0.6 })
+
+            // Values below the review level stay highlighted
+            const review = await send(sessionId, { userResponse: "__REVIEW_FIELDS__" })
+            expect(review.lowConfidence).toEqual({ "200$f": 0.6 })
+        } finally {
+            delete process.env.AI_CONFIRMATION_THRESHOLD
+        }
+    })
+
+    it("should record the provenance of the AI values and of the values the user replaced", async () => {
+        const send = (sessionId: string, body: Record<string, unknown>) =>
+            POST(postRequest({ sessionId, ...body })).then((res) => res.json() as Promise<CatalogResponse>)
+        mockChatCompletionsCreate.mockResolvedValueOnce(
+            completion('{"001": "12345", "200": {"a": "Memorial do Convento", "f": "Saramago"}}'),
+        )
+        const sessionId = session({
+            step: "bulk-auto-fill",
+            currentTemplate: mockTemplate,
+            filledFields: {},
+            remainingFields: [],
+            autoFilledCount: 0,
+        })
+        const ai = { source: "ai", model: "gpt-4o" }
+
+        const bulk = await send(sessionId, {})
+        expect(bulk.conversationState?.provenance).toEqual({ "001": [ai], "200": [ai] })
+
+        // The value given after __EDIT_FIELD__ is the user's and records the AI value it replaced
+        const question = await send(sessionId, { userResponse: "__EDIT_FIELD__", fieldToEdit: "001" })
+        expect(question.field).toBe("001")
+        const answered = await send(sessionId, { userResponse: "67890" })
+        expect(answered.conversationState?.filledFields["001"]).toBe("67890")
+        expect(answered.conversationState?.provenance).toEqual({
+            "001": [{ source: "user", replaced: ai }],
+            "200": [ai],
+        })
+
+        // The draft is saved with the provenance of each value
+        expect(mockDatabaseService.saveDraft).toHaveBeenLastCalledWith(
+            expect.objectContaining({ provenance: answered.conversationState?.provenance }),
+            null,
+        )
+    })
+
+    it("should stream progress events and each field as it is parsed", async () => {
+        // Resposta da OpenAI em streaming, cortada a meio dos valores
+        const chunks = ['```json\n{"001": "123', '45", "101": {"a": ', '"por"}}\n```']
+        const stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk> = {
+            async *[Symbol.asyncIterator]() {
+                for (const content of chunks) {
+                    yield {
+                        id: "chatcmpl-123",
+                        created: 123,
+                        model: "gpt-4o",
+                        object: "chat.completion.chunk",
+                        choices: [{ index: 0, delta: { content }, finish_reason: null }],
+                    }
+                }
+            },
+        }
+        mockChatCompletionsCreate.mockResolvedValueOnce(stream)
+
+        const req = postRequest({
+            stream: true,
+            sessionId: session({
+                step: "bulk-auto-fill",
+                currentTemplate: mockTemplate,
+                filledFields: {},
+                remainingFields: [],
+                autoFilledCount: 0,
+            }),
+        })
+
+        const res = await POST(req)
+        expect(res.headers.get("Content-Type")).toBe("text/event-stream")
+
+        const { events } = dialogStream.parseEvents(await res.text())
+        expect(events.map(({ event, data }) => (event === "progress" ? (data as DialogProgress).stage : event))).toEqual([
+            "bulk-auto-fill",
+            "field-parsed",
+            "field-parsed",
+            "bulk-auto-filled",
+            "result",
+        ])
+        expect(events[1].data).toEqual(expect.objectContaining({ field: "001", value: "12345" }))
+        expect(events[2].data).toEqual(expect.objectContaining({ field: "101", value: { a: "por" } }))
+        expect(events[3].data).toEqual(expect.objectContaining({ count: 2 }))
+
+        const data = events[4].data as CatalogResponse
+        expect(data.type).toBe("bulk-auto-filled")
+        expect(data.conversationState?.filledFields).toEqual({ "001": "12345", "101": { a: "por" } })
+        expect(mockChatCompletionsCreate).toHaveBeenCalledWith(expect.objectContaining({ stream: true }))
+    })
+
     it("should ask for the next field if not all fields are filled", async () => {
         const req = {
             json: () =>
                 Promise.resolve({
-                    description: "um livro",
-                    conversationState: {
+                    sessionId: session({
                         step: "field-filling",
                         currentTemplate: mockTemplate,
                         filledFields: { "001": "12345" },
                         remainingFields: ["003", "200", "101"], // Simplified for test
                         askedField: undefined,
                         askedSubfield: undefined,
-                    },
+                    }),
                 }),
         } as any
 
@@ -244,7 +444,7 @@ describe("Catalog API Route (POST)", () => {
 
         expect(data.type).toBe("field-question")
         expect(data.field).toBe("003")
-        expect(data.question).toContain("IDENTIFICADOR DE REGISTO PERSISTENTE [003] (opcional)")
+        expect(data.question).toBe("Por favor, forneça: Identificador de Registo Persistente [003] (opcional).")
         expect(data.conversationState?.askedField).toBe("003")
     })
 
@@ -252,16 +452,15 @@ describe("Catalog API Route (POST)", () => {
         const req = {
             json: () =>
                 Promise.resolve({
-                    description: "um livro",
                     userResponse: "identificador-003",
-                    conversationState: {
+                    sessionId: session({
                         step: "field-filling",
                         currentTemplate: mockTemplate,
                         filledFields: { "001": "12345" },
                         remainingFields: ["003", "200", "101"],
                         askedField: "003",
                         askedSubfield: undefined,
-                    },
+                    }),
                 }),
         } as any
 
@@ -274,20 +473,149 @@ describe("Catalog API Route (POST)", () => {
         expect(data.conversationState?.remainingFields).not.toContain("003")
     })
 
+    it("should save a draft after every answered field and complete it on confirmation", async () => {
+        mockDatabaseService.saveDraft.mockResolvedValueOnce("draft1")
+        const sessionId = session({
+            step: "field-filling",
+            currentTemplate: mockTemplate,
+            filledFields: { "001": "12345" },
+            remainingFields: ["003", "200", "101"],
+            askedField: "003",
+        })
+
+        const res = await POST(postRequest({ sessionId, userResponse: "identificador-003" }))
+        const data: CatalogResponse = await res.json()
+
+        expect(data.draftId).toBe("draft1")
+        expect(mockDatabaseService.saveDraft).toHaveBeenCalledWith(
+            expect.objectContaining({ templateId: mockTemplate.id, filledFields: { "001": "12345", "003": "identificador-003" } }),
+            null,
+        )
+
+        // Sem respostas novas (ex: só perguntar o próximo campo) o rascunho não volta a ser gravado
+        mockDatabaseService.saveDraft.mockClear()
+        await POST(postRequest({ sessionId }))
+        expect(mockDatabaseService.saveDraft).not.toHaveBeenCalled()
+
+        // A confirmação transforma o rascunho da sessão no registo gravado
+        sessionStore.set(sessionId, {
+            ...sessionStore.get(sessionId)!,
+            recordId: "draft1",
+            state: {
+                step: "confirmation",
+                currentTemplate: mockTemplate,
+                filledFields: { "001": "12345", "101": { a: "por" }, "200": { a: "Título" } },
+                remainingFields: [],
+            },
+        })
+        const saved: CatalogResponse = await (await POST(postRequest({ sessionId }))).json()
+
+        expect(saved.type).toBe("record-saved")
+        expect(mockDatabaseService.saveRecord).toHaveBeenCalledWith(expect.objectContaining({ draftId: "draft1" }))
+    })
+
+    it("should resume a draft at the next remaining field", async () => {
+        mockDialogSessionService.resumeDraft.mockImplementationOnce(async (recordId) => {
+            const id = session({
+                step: "field-filling",
+                currentTemplate: mockTemplate,
+                filledFields: { "001": "12345", "003": "abc" },
+                remainingFields: ["200", "101"],
+            })
+            return { ...structuredClone(sessionStore.get(id)!), recordId }
+        })
+
+        const res = await POST(postRequest({ draftId: "draft1" }))
+        const data: CatalogResponse = await res.json()
+
+        expect(mockDialogSessionService.resumeDraft).toHaveBeenCalledWith("draft1")
+        expect(data.type).toBe("field-question")
+        expect(data.field).toBe("200")
+        expect(data.conversationState?.filledFields).toEqual({ "001": "12345", "003": "abc" })
+
+        mockDialogSessionService.resumeDraft.mockResolvedValueOnce(null)
+        const missing = await POST(postRequest({ draftId: "unknown" }))
+        expect((await missing.json()).error).toBe("Rascunho não encontrado.")
+    })
+
+    it("should open a saved record in review and update it on confirmation", async () => {
+        const filledFields = { "001": "12345", "101": { a: "por" }, "200": { a: "Título", f: "Autor" } }
+        const provenance = { "001": [{ source: "import" }], "200": [{ source: "user" }] }
+        mockDialogSessionService.editRecord.mockImplementationOnce(async (recordId) => {
+            const id = session({
+                step: "review-fields",
+                currentTemplate: mockTemplate,
+                filledFields,
+                remainingFields: [],
+                editingRecordId: recordId,
+                provenance,
+            })
+            return { ...structuredClone(sessionStore.get(id)!), recordId }
+        })
+        mockDatabaseService.findDuplicate.mockResolvedValueOnce(null)
+        mockDatabaseService.updateRecord.mockResolvedValueOnce("record1")
+
+        const opened: CatalogResponse = await (await POST(postRequest({ recordId: "record1" }))).json()
+
+        expect(mockDialogSessionService.editRecord).toHaveBeenCalledWith("record1")
+        expect(opened.type).toBe("review-fields-display")
+        expect(opened.filledFields).toEqual(filledFields)
+
+        const res = await POST(postRequest({ sessionId: opened.sessionId, userResponse: "__CONTINUE_FROM_REVIEW__" }))
+        const data: CatalogResponse = await res.json()
+
+        expect(data.type).toBe("record-saved")
+        expect(data.recordId).toBe("record1")
+        // Duplicate detection skips the record being edited
+        expect(mockDatabaseService.findDuplicate).toHaveBeenCalledWith(expect.any(Array), mockTemplate.name, "record1")
+        expect(mockDatabaseService.updateRecord).toHaveBeenCalledWith(
+            "record1",
+            filledFields,
+            mockTemplate,
+            "00000nam  2200000   450 ",
+            "pt",
+            provenance,
+        )
+        expect(mockDatabaseService.saveRecord).not.toHaveBeenCalled()
+        expect(mockDatabaseService.saveDraft).not.toHaveBeenCalled()
+
+        mockDialogSessionService.editRecord.mockResolvedValueOnce(null)
+        const missing = await POST(postRequest({ recordId: "unknown" }))
+        expect((await missing.json()).error).toBe("Registo não encontrado.")
+    })
+
+    it("should not update an edited record that duplicates another one", async () => {
+        mockDatabaseService.findDuplicate.mockResolvedValueOnce("record2")
+        const req = postRequest({
+            sessionId: session({
+                step: "confirmation",
+                currentTemplate: mockTemplate,
+                filledFields: { "001": "12345", "101": { a: "por" }, "200": { a: "Título", f: "Autor" } },
+                remainingFields: [],
+                editingRecordId: "record1",
+            }),
+        })
+
+        const data: CatalogResponse = await (await POST(req)).json()
+
+        expect(data.type).toBe("error")
+        expect(data.error).toContain("record2")
+        expect(mockDatabaseService.updateRecord).not.toHaveBeenCalled()
+    })
+
     it("should process user response for a data field with subfields", async () => {
         const req = {
             json: () =>
                 Promise.resolve({
-                    description: "um livro",
                     userResponse: "O Senhor dos Anéis",
-                    conversationState: {
+                    sessionId: session({
                         step: "field-filling",
                         currentTemplate: mockTemplate,
                         filledFields: { "001": "12345", "003": "identificador-003" },
                         remainingFields: ["200", "101"],
                         askedField: "200",
                         askedSubfield: "a", // Asking for subfield 'a' of 200
-                    },
+                    }),
                 }),
         } as any
 
@@ -300,18 +628,314 @@ describe("Catalog API Route (POST)", () => {
         expect(data.conversationState?.currentRepeatOccurrence?.subfields).toEqual({ a: "O Senhor dos Anéis" })
     })
 
+    it("should undo the last answer one step at a time", async () => {
+        const ask = (sessionId: string, userResponse: string) =>
+            POST(postRequest({ sessionId, userResponse })).then((res) => res.json() as Promise<CatalogResponse>)
+        const sessionId = session(
+            {
+                step: "field-filling",
+                currentTemplate: mockTemplate,
+                filledFields: { "001": "12345", "003": "identificador-003" },
+                remainingFields: ["200", "101"],
+                askedField: "200",
+                askedSubfield: "a",
+            },
+            { type: "field-question", field: "200", subfield: "a", question: "Título?" },
+        )
+
+        const titleData = await ask(sessionId, "O Senhor dos Anéis")
+        expect(titleData.subfield).toBe("f")
+        const skipData = await ask(sessionId, "")
+        expect(skipData.type).toBe("repeat-confirmation")
+        expect(skipData.canUndo).toBe(true)
+
+        // Undoing the skipped subfield asks $f again and keeps the title
+        const undoSkip = await ask(sessionId, "__UNDO__")
+        expect(undoSkip.type).toBe("field-question")
+        expect(undoSkip.subfield).toBe("f")
+        expect(undoSkip.conversationState?.currentRepeatOccurrence?.subfields).toEqual({ a: "O Senhor dos Anéis" })
+
+        // Undoing the title asks $a again without it
+        const undoTitle = await ask(sessionId, "__UNDO__")
+        expect(undoTitle.question).toBe("Título?")
+        expect(undoTitle.conversationState?.askedSubfield).toBe("a")
+        expect(undoTitle.conversationState?.currentRepeatOccurrence).toBeUndefined()
+        expect(undoTitle.canUndo).toBe(false)
+
+        const nothingLeft = await ask(sessionId, "__UNDO__")
+        expect(nothingLeft.question).toBe("Título?")
+        expect(nothingLeft.error).toBe("Não há nenhuma resposta para desfazer.")
+    })
+
+    it("should ask only mandatory subfields in mandatory mode, then offer optional groups", async () => {
+        const ask = (sessionId: string, userResponse: string) =>
+            POST(postRequest({ sessionId, userResponse })).then((res) => res.json() as Promise<CatalogResponse>)
+        const sessionId = session({
+            step: "field-filling",
+            mode: "mandatory",
+            currentTemplate: mockTemplate,
+            filledFields: { "001": "12345", "101": { a: "por" } },
+            remainingFields: ["200"],
+            optionalGroups: [{ id: "descricao", name: "Descrição e responsabilidade", fields: ["210"] }],
+        })
+
+        const titleQuestion = await ask(sessionId, "")
+        expect(titleQuestion.subfield).toBe("a")
+
+        // $f is optional, so 200 is complete after $a
+        const repeatQuestion = await ask(sessionId, "O Senhor dos Anéis")
+        expect(repeatQuestion.type).toBe("repeat-confirmation")
+        expect(repeatQuestion.conversationState?.filledFields["200"]).toEqual([{ a: "O Senhor dos Anéis" }])
+
+        const offer = await ask(sessionId, "não")
+        expect(offer.type).toBe("optional-fields-offer")
+        expect(offer.optionalGroups?.map((group) => group.id)).toEqual(["descricao"])
+
+        // The chosen group is asked in full
+        const publicationQuestion = await ask(sessionId, "descricao")
+        expect(publicationQuestion.field).toBe("210")
+        expect(publicationQuestion.subfield).toBe("c")
+
+        const complete = await ask(sessionId, "__SKIP_REST__")
+        expect(complete.type).toBe("record-complete")
+        expect(complete.conversationState?.step).toBe("confirmation")
+        expect(complete.conversationState?.remainingFields).toEqual([])
+    })
+
+    it("should refuse to skip the rest while mandatory fields are missing", async () => {
+        const req = postRequest({
+            userResponse: "__SKIP_REST__",
+            sessionId: session(
+                {
+                    step: "field-filling",
+                    currentTemplate: mockTemplate,
+                    filledFields: { "001": "12345" },
+                    remainingFields: ["003", "200", "101"],
+                    askedField: "003",
+                },
+                { type: "field-question", field: "003", question: "Identificador?" },
+            ),
+        })
+
+        const res = await POST(req)
+        const data: CatalogResponse = await res.json()
+
+        expect(data.type).toBe("field-question")
+        expect(data.question).toBe("Identificador?")
+        expect(data.error).toBe("Ainda faltam campos obrigatórios: 200, 101")
+    })
+
+    it("should ask every subfield of a field in one grouped question", async () => {
+        const send = (sessionId: string, body: Record<string, unknown>) =>
+            POST(postRequest({ sessionId, ...body })).then((res) => res.json() as Promise<CatalogResponse>)
+        const sessionId = session({
+            step: "field-filling",
+            groupedQuestions: true,
+            currentTemplate: mockTemplate,
+            filledFields: { "001": "12345" },
+            remainingFields: ["210"],
+        })
+
+        const form = await send(sessionId, { userResponse: "" })
+        expect(form.type).toBe("subfield-form")
+        expect(form.subfieldForm?.map(({ code, name }) => [code, name])).toEqual([
+            ["c", "Local de publicação"],
+            ["d", "Data de publicação"],
+        ])
+        expect(form.conversationState?.askedForm).toEqual(["c", "d"])
+
+        // Invalid values come back with the form, per subfield
+        const reask = await send(sessionId, { subfieldAnswers: { c: "Lisboa", d: "no ano passado" } })
+        expect(reask.type).toBe("subfield-form")
+        expect(reask.formErrors?.d).toContain("no ano passado")
+        expect(reask.formErrors?.c).toBeUndefined()
+        expect(reask.formValues).toEqual({ c: "Lisboa", d: "no ano passado" })
+
+        const repeat = await send(sessionId, { subfieldAnswers: { c: "Lisboa", d: "1995" } })
+        expect(repeat.type).toBe("repeat-confirmation")
+        expect(repeat.conversationState?.filledFields["210"]).toEqual([{ c: "Lisboa", d: "1995" }])
+        expect(repeat.conversationState?.askedForm).toBeUndefined()
+    })
+
+    it("should ask the questions and recognise the answers in the language of the request", async () => {
+        const send = (sessionId: string, body: Record<string, unknown>) =>
+            POST(postRequest({ sessionId, language: "en", ...body })).then((res) => res.json() as Promise<CatalogResponse>)
+        const sessionId = session({
+            step: "field-filling",
+            groupedQuestions: true,
+            currentTemplate: mockTemplate,
+            filledFields: { "001": "12345" },
+            remainingFields: ["210"],
+        })
+
+        const form = await send(sessionId, { userResponse: "" })
+        expect(form.question).toMatch(/^Please fill in: 210 \[210\] \(optional\)/)
+
+        const repeat = await send(sessionId, { subfieldAnswers: { c: "Lisboa", d: "1995" } })
+        expect(repeat.type).toBe("repeat-confirmation")
+        expect(repeat.question).toBe("You completed every subfield of 210. Do you want to add another occurrence of this field? (yes/no)")
+
+        // "yes" repeats the field in English
+        const again = await send(sessionId, { userResponse: "yes" })
+        expect(again.type).toBe("subfield-form")
+        expect(again.conversationState?.askedField).toBe("210")
+
+        const unknownSession = await send("unknown", { userResponse: "yes" })
+        expect(unknownSession.error).toBe("Cataloguing session not found.")
+    })
+
+    it("should ask for defined indicators before the subfields and store the answer", async () => {
+        const templateWithIndicators: Template = {
+            ...mockTemplate,
+            dataFields: mockTemplate.dataFields.map((f) =>
+                f.tag === "200"
+                    ? { ...f, translations: [{ ...f.translations[0], ind1Name: "Significado do título", ind1Tips: ["1 - significativo"] }] }
+                    : f,
+            ),
+        }
+        const state = {
+            step: "field-filling",
+            currentTemplate: templateWithIndicators,
+            filledFields: {},
+            remainingFields: ["200"],
+        }
+
+        const askRes = await POST(postRequest({ sessionId: session(state) }))
+        const askData: CatalogResponse = await askRes.json()
+
+        expect(askData.subfield).toBe("ind1")
+        expect(askData.question).toContain("Significado do título")
+        expect(askData.subfieldTips).toContain("1 - significativo")
+
+        const answerRes = await POST(postRequest({ userResponse: "1", sessionId: askData.sessionId }))
+        const answerData: CatalogResponse = await answerRes.json()
+
+        expect(answerData.subfield).toBe("a")
+        expect(answerData.conversationState?.currentRepeatOccurrence?.subfields).toEqual({ ind1: "1" })
+    })
+
+    it("should re-ask an ISBN with an invalid check digit and store a valid one", async () => {
+        const templateWithIsbn: Template = {
+            ...mockTemplate,
+            dataFields: [
+                ...mockTemplate.dataFields,
+                {
+                    id: "df4",
+                    tag: "010",
+                    repeatable: true,
+                    mandatory: false,
+                    translations: [{ id: "t6", language: "pt", name: "ISBN" }],
+                    subFieldDef: [
+                        { id: "sf7", code: "a", repeatable: false, mandatory: false, dataFieldId: "df4", createdAt: "" },
+                    ],
+                    createdAt: "",
+                },
+            ],
+        }
+        const state = {
+            step: "field-filling",
+            currentTemplate: templateWithIsbn,
+            filledFields: {},
+            remainingFields: ["010"],
+            askedField: "010",
+            askedSubfield: "a",
+        }
+
+        const invalidRes = await POST(postRequest({ userResponse: "0-306-40615-3", sessionId: session(state) }))
+        const invalidData: CatalogResponse = await invalidRes.json()
+
+        expect(invalidData.type).toBe("field-question")
+        expect(invalidData.field).toBe("010")
+        expect(invalidData.subfield).toBe("a")
+        expect(invalidData.error).toContain("dígito de controlo inválido")
+        expect(invalidData.question).toContain("Indique novamente")
+
+        const validRes = await POST(postRequest({ userResponse: "0-306-40615-2", sessionId: invalidData.sessionId }))
+        const validData: CatalogResponse = await validRes.json()
+
+        expect(validData.type).toBe("repeat-confirmation")
+        expect(validData.conversationState?.filledFields["010"]).toEqual([{ a: "0-306-40615-2" }])
+    })
+
+    it("should suggest language codes and store the code for a language name", async () => {
+        const state = {
+            step: "field-filling",
+            currentTemplate: mockTemplate,
+            filledFields: {},
+            remainingFields: ["101"],
+            askedField: "101",
+            askedSubfield: "a",
+        }
+
+        const unknownRes = await POST(postRequest({ userResponse: "élfico", sessionId: session(state) }))
+        const unknownData: CatalogResponse = await unknownRes.json()
+
+        expect(unknownData.type).toBe("field-question")
+        expect(unknownData.field).toBe("101")
+        expect(unknownData.error).toContain("código de língua")
+        expect(unknownData.suggestedCodes?.[0]).toEqual({ code: "por", label: "Português" })
+
+        const nameRes = await POST(postRequest({ userResponse: "Português", sessionId: unknownData.sessionId }))
+        const nameData: CatalogResponse = await nameRes.json()
+
+        expect(nameData.subfield).toBe("b")
+        expect(nameData.conversationState?.currentRepeatOccurrence?.subfields).toEqual({ a: "por" })
+    })
+
+    it("should re-ask a publication date that fails its subfield rule", async () => {
+        const state = {
+            step: "field-filling",
+            currentTemplate: mockTemplate,
+            filledFields: {},
+            remainingFields: ["210"],
+            askedField: "210",
+            askedSubfield: "d",
+            currentRepeatOccurrence: { tag: "210", subfields: { c: "Lisboa" } },
+        }
+
+        const res = await POST(postRequest({ userResponse: "no ano passado", sessionId: session(state) }))
+        const data: CatalogResponse = await res.json()
+
+        expect(data.type).toBe("field-question")
+        expect(data.subfield).toBe("d")
+        expect(data.error).toContain("data de publicação")
+        expect(data.subfieldTips).toContain("Formato: data de publicação (ex: 1995, [1995?], c1995, 1995-2001)")
+        expect(data.conversationState?.currentRepeatOccurrence?.subfields).toEqual({ c: "Lisboa" })
+    })
+
+    it("should explain a rejected answer in the language of the request", async () => {
+        const state = {
+            step: "field-filling",
+            currentTemplate: mockTemplate,
+            filledFields: {},
+            remainingFields: ["210"],
+            askedField: "210",
+            askedSubfield: "d",
+            currentRepeatOccurrence: { tag: "210", subfields: { c: "Lisboa" } },
+        }
+
+        const res = await POST(postRequest({ userResponse: "last year", language: "en", sessionId: session(state) }))
+        const data: CatalogResponse = await res.json()
+
+        expect(data.type).toBe("field-question")
+        expect(data.error).toBe(
+            '"last year" is not valid in 210$d: date in an invalid format. Expected: date of publication (e.g. 1995, [1995?], c1995, 1995-2001)',
+        )
+        expect(data.question).toMatch(/^⚠️ "last year" is not valid in 210\$d: .*\. Please answer again\.\n\n/)
+        expect(data.subfieldTips).toContain("Format: date of publication (e.g. 1995, [1995?], c1995, 1995-2001)")
+    })
+
     it('should handle "review-fields" command', async () => {
         const req = {
             json: () =>
                 Promise.resolve({
-                    description: "um livro",
                     userResponse: "__REVIEW_FIELDS__",
-                    conversationState: {
+                    sessionId: session({
                         step: "field-filling",
                         currentTemplate: mockTemplate,
                         filledFields: { "001": "12345", "200": { a: "Título" } },
                         remainingFields: ["003", "101"],
-                    },
+                    }),
                 }),
         } as any
 
@@ -327,15 +951,14 @@ describe("Catalog API Route (POST)", () => {
         const req = {
             json: () =>
                 Promise.resolve({
-                    description: "um livro",
                     userResponse: "__EDIT_FIELD__",
                     fieldToEdit: "001",
-                    conversationState: {
+                    sessionId: session({
                         step: "review-fields",
                         currentTemplate: mockTemplate,
                         filledFields: { "001": "OLD_VALUE", "200": { a: "Título" } },
                         remainingFields: ["003", "101"],
-                    },
+                    }),
                 }),
         } as any
 
@@ -349,12 +972,29 @@ describe("Catalog API Route (POST)", () => {
         expect(data.conversationState?.remainingFields[0]).toBe("001") // 001 should be first in remaining
     })
 
+    it("should refuse to edit a field the template does not define", async () => {
+        const state = {
+            step: "review-fields",
+            currentTemplate: mockTemplate,
+            filledFields: { "001": "12345", "200": { a: "Título" } },
+            remainingFields: ["003", "101"],
+        }
+
+        const res = await POST(postRequest({ userResponse: "__EDIT_FIELD__", fieldToEdit: "999", sessionId: session(state) }))
+        const data: CatalogResponse = await res.json()
+
+        expect(data.type).toBe("review-fields-display")
+        expect(data.error).toBe("O campo 999 não faz parte do template e não pode ser editado.")
+        expect(data.conversationState?.step).toBe("review-fields")
+        expect(data.conversationState?.remainingFields).toEqual(["003", "101"])
+        expect(data.conversationState?.askedField).toBeUndefined()
+    })
+
     it("should transition to confirmation if all fields are filled", async () => {
         const req = {
             json: () =>
                 Promise.resolve({
-                    description: "um livro",
-                    conversationState: {
+                    sessionId: session({
                         step: "field-filling",
                         currentTemplate: mockTemplate,
                         filledFields: {
@@ -374,7 +1014,7 @@ describe("Catalog API Route (POST)", () => {
                         remainingFields: [], // All fields are filled
                         askedField: undefined,
                         askedSubfield: undefined,
-                    },
+                    }),
                 }),
         } as any
 
@@ -387,27 +1027,19 @@ describe("Catalog API Route (POST)", () => {
     })
 
     it("should save the record and return record-saved type", async () => {
-        mockChatCompletionsCreate.mockResolvedValueOnce({
-            choices: [{ message: { content: "001 12345\n200 $aTítulo$fAutor" } }],
-            id: "chatcmpl-123",
-            created: 123,
-            model: "gpt-4",
-            object: "chat.completion",
-        } as any)
-
         const req = {
             json: () =>
                 Promise.resolve({
-                    description: "um livro",
-                    conversationState: {
+                    sessionId: session({
                         step: "confirmation",
                         currentTemplate: mockTemplate,
                         filledFields: {
                             "001": "12345",
+                            "101": { a: "por" },
                             "200": { a: "Título", f: "Autor" },
                         },
                         remainingFields: [],
-                    },
+                    }),
                 }),
         } as any
 
@@ -417,16 +1049,99 @@ describe("Catalog API Route (POST)", () => {
         expect(data.type).toBe("record-saved")
         expect(data.recordId).toBe("record123")
         expect(data.textUnimarc).toContain("001 12345")
+        expect(mockChatCompletionsCreate).not.toHaveBeenCalled()
         expect(mockDatabaseService.saveRecord).toHaveBeenCalledTimes(1)
         expect(mockDatabaseService.saveRecord).toHaveBeenCalledWith(
             expect.objectContaining({
                 templateId: mockTemplate.id,
-                filledFields: { "001": "12345", "200": { a: "Título", f: "Autor" } },
-                textUnimarc: "001 12345\n200 $aTítulo$fAutor",
+                filledFields: { "001": "12345", "101": { a: "por" }, "200": { a: "Título", f: "Autor" } },
+                textUnimarc: "LDR 00000nam  2200000   450 \n001 12345\n101  $apor\n200  $aTítulo$fAutor",
+                leader: "00000nam  2200000   450 ",
             }),
         )
     })
 
+    it("should refuse to save a record that fails validation", async () => {
+        const req = postRequest({
+            sessionId: session({
+                step: "confirmation",
+                currentTemplate: mockTemplate,
+                filledFields: { "001": "12345", "200": { f: "Autor" } },
+                remainingFields: [],
+            }),
+        })
+
+        const res = await POST(req)
+        const data: CatalogResponse = await res.json()
+
+        expect(data.type).toBe("review-fields-display")
+        expect(data.validationIssues).toEqual(
+            expect.arrayContaining([
+                expect.objectContaining({ severity: "error", tag: "101" }),
+                expect.objectContaining({ severity: "error", tag: "200", subfield: "a" }),
+            ]),
+        )
+        expect(data.conversationState?.step).toBe("review-fields")
+        expect(data.conversationState?.remainingFields).toEqual(["101"])
+        expect(mockDatabaseService.saveRecord).not.toHaveBeenCalled()
+    })
+
+    it("should keep the conversation in the session and leave the template out of the response", async () => {
+        const sessionId = session({
+            step: "field-filling",
+            currentTemplate: mockTemplate,
+            filledFields: {},
+            remainingFields: ["003"],
+            autoFilledCount: 0,
+        })
+        const req = postRequest({ sessionId })
+
+        const res = await POST(req)
+        const data: CatalogResponse = await res.json()
+
+        expect(data.sessionId).toBe(sessionId)
+        expect(data.conversationState?.askedField).toBe("003")
+        expect(data.conversationState?.currentTemplate).toBeUndefined()
+        expect(mockDialogSessionService.save).toHaveBeenCalledWith(
+            sessionId,
+            expect.objectContaining({ askedField: "003", currentTemplate: mockTemplate }),
+            expect.objectContaining({ type: "field-question" }),
+            [],
+        )
+        expect(sessionStore.get(sessionId)?.state.askedField).toBe("003")
+    })
+
+    it("should reject an unknown session", async () => {
+        const req = postRequest({ sessionId: "inexistente", userResponse: "abc" })
+
+        const res = await POST(req)
+        const data: CatalogResponse = await res.json()
+
+        expect(data.type).toBe("error")
+        expect(data.error).toBe("Sessão de catalogação não encontrada.")
+        expect(mockDialogSessionService.save).not.toHaveBeenCalled()
+    })
+
+    it("should resume a session with its last response", async () => {
+        const sessionId = session({ step: "field-filling", currentTemplate: mockTemplate, filledFields: {}, remainingFields: [] })
+        const stored = sessionStore.get(sessionId)!
+        mockDialogSessionService.load.mockResolvedValueOnce({
+            ...stored,
+            state: { ...stored.state, askedField: "003" },
+            lastResponse: { type: "field-question", field: "003", question: "Qual o identificador?" },
+        })
+        const req = new NextRequest(`http://localhost/api/uni-dialog?sessionId=${sessionId}`)
+
+        const res = await GET(req)
+        const data: CatalogResponse = await res.json()
+
+        expect(data.type).toBe("field-question")
+        expect(data.question).toBe("Qual o identificador?")
+        expect(data.description).toBe("um livro")
+        expect(data.conversationState?.askedField).toBe("003")
+        expect(data.conversationState?.currentTemplate).toBeUndefined()
+    })
+
     it("should handle template not found", async () => {
         mockChatCompletionsCreate.mockResolvedValueOnce({
             choices: [{ message: { content: "Template Inexistente" } }],
@@ -437,7 +1152,7 @@ describe("Catalog API Route (POST)", () => {
         } as any)
 
         const req = {
-            json: () => Promise.resolve({ description: "um livro", conversationState: { step: "template-selection" } }),
+            json: () => Promise.resolve({ sessionId: session({ step: "template-selection", filledFields: {}, remainingFields: [] }) }),
         } as any
 
         const res = await POST(req)
@@ -450,7 +1165,7 @@ describe("Catalog API Route (POST)", () => {
 
     it("should handle invalid conversation state", async () => {
         const req = {
-            json: () => Promise.resolve({ description: "um livro", conversationState: { step: "invalid-step" } }),
+            json: () => Promise.resolve({ sessionId: session({ step: "invalid-step" }) }),
         } as any
 
         const res = await POST(req)
@@ -459,4 +1174,52 @@ describe("Catalog API Route (POST)", () => {
         expect(data.type).toBe("error")
         expect(data.error).toContain("Estado inválido da conversação.")
     })
+
+    it("should reject a stored state with an illegal combination", async () => {
+        const req = postRequest({
+            sessionId: session({
+                step: "field-filling",
+                currentTemplate: mockTemplate,
+                filledFields: {},
+                remainingFields: ["200"],
+                askedSubfield: "a",
+            }),
+            userResponse: "Título",
+        })
+
+        const res = await POST(req)
+        const data: CatalogResponse = await res.json()
+
+        expect(data.type).toBe("error")
+        expect(data.error).toBe('Estado inválido da conversação. askedSubfield "a" sem askedField.')
+    })
+
+    it("should reject a command that is not a transition of the current step", async () => {
+        const req = postRequest({
+            sessionId: session({ step: "bulk-auto-fill", currentTemplate: mockTemplate, filledFields: {}, remainingFields: [] }),
+            userResponse: "__REVIEW_FIELDS__",
+        })
+
+        const res = await POST(req)
+        const data: CatalogResponse = await res.json()
+
+        expect(data.type).toBe("error")
+        expect(data.error).toContain('Transição inválida: "bulk-auto-fill" -> "review-fields"')
+        // The session keeps its state
+        expect(mockDialogSessionService.save).not.toHaveBeenCalled()
+        expect(mockChatCompletionsCreate).not.toHaveBeenCalled()
+    })
+
+    it("should refuse answers once the cataloguing is completed", async () => {
+        const req = postRequest({
+            sessionId: session({ step: "completed", currentTemplate: mockTemplate, filledFields: {}, remainingFields: [] }),
+            userResponse: "sim",
+        })
+
+        const res = await POST(req)
+        const data: CatalogResponse = await res.json()
+
+        expect(data.type).toBe("error")
+        expect(data.error).toBe("Estado inválido da conversação. A catalogação desta sessão já terminou.")
+    })
 })
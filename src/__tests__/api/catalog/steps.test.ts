@@ -0,0 +1,100 @@
+import type OpenAI from "openai"
+import { handleCommand } from "@/app/api/uni-dialog/steps/commands"
+import { handleTemplateSelection } from "@/app/api/uni-dialog/steps/template-selection"
+import { handleConfirmation } from "@/app/api/uni-dialog/steps/confirmation"
+import type { DialogContext } from "@/app/api/uni-dialog/steps/context"
+import { databaseService } from "@/lib/database"
+import { dialogMessages } from "@/lib/dialog-messages"
+import type { CatalogRequest, CatalogResponse, ConversationState, Template } from "@/app/types/unimarc"
+
+jest.mock("@/lib/database", () => ({ databaseService: { saveRecord: jest.fn() } }))
+
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>
+
+const template: Template = {
+    id: "temp1",
+    name: "Livro",
+    controlFields: [{ id: "cf1", tag: "001", repeatable: false, mandatory: true, translations: [], createdAt: "" }],
+    dataFields: [
+        {
+            id: "df1",
+            tag: "200",
+            repeatable: false,
+            mandatory: true,
+            translations: [],
+            subFieldDef: [{ id: "sf1", code: "a", repeatable: false, mandatory: true, dataFieldId: "df1", createdAt: "" }],
+            createdAt: "",
+        },
+    ],
+    createdAt: "",
+}
+
+// Each step is called with a context like the one built by the route; respond() returns the response body
+const context = (state: ConversationState, request: CatalogRequest = {}, completion = "") => {
+    const create = jest.fn().mockResolvedValue({ choices: [{ message: { content: completion } }] })
+    const respond = jest.fn(async (body: CatalogResponse) => body)
+    const ctx = {
+        state,
+        session: { id: "session1", description: "um livro", language: "pt", state, lastResponse: null, recordId: null, history: [] },
+        history: [],
+        request,
+        description: "um livro",
+        language: "pt",
+        messages: dialogMessages.get("pt"),
+        templates: [template],
+        openai: { chat: { completions: { create } } } as unknown as OpenAI,
+        onProgress: jest.fn(),
+        respond,
+    } as unknown as DialogContext
+    return { ctx, respond, create }
+}
+
+describe("uni-dialog steps", () => {
+    beforeEach(() => {
+        jest.clearAllMocks()
+    })
+
+    it("should leave answers that are not commands to the step handlers", async () => {
+        const { ctx, respond } = context(
+            { step: "field-filling", currentTemplate: template, filledFields: {}, remainingFields: ["200"] },
+            { userResponse: "Título" },
+        )
+
+        expect(await handleCommand(ctx)).toBeUndefined()
+        expect(respond).not.toHaveBeenCalled()
+    })
+
+    it("should select the template named by the AI and keep the session options", async () => {
+        const { ctx, respond, create } = context(
+            { step: "template-selection", filledFields: {}, remainingFields: [], mode: "mandatory", groupedQuestions: true },
+            {},
+            "Livro",
+        )
+
+        await handleTemplateSelection(ctx)
+
+        expect(create).toHaveBeenCalledTimes(1)
+        const body = respond.mock.calls[0][0]
+        expect(body.type).toBe("template-selected")
+        expect(body.conversationState).toEqual(
+            expect.objectContaining({ step: "bulk-auto-fill", currentTemplate: template, mode: "mandatory", groupedQuestions: true }),
+        )
+    })
+
+    it("should send a record with missing mandatory fields to review instead of saving it", async () => {
+        const { ctx, respond } = context({
+            step: "confirmation",
+            currentTemplate: template,
+            filledFields: { "001": "1" },
+            remainingFields: [],
+        })
+
+        await handleConfirmation(ctx)
+
+        const body = respond.mock.calls[0][0]
+        expect(body.type).toBe("review-fields-display")
+        expect(body.conversationState?.step).toBe("review-fields")
+        expect(body.conversationState?.remainingFields).toEqual(["200"])
+        expect(mockDatabaseService.saveRecord).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+import { PUT } from "@/app/api/records/[id]/route"
+import { databaseService } from "@/lib/database"
+import { templateCache } from "@/lib/template-cache"
+import { NextRequest } from "next/server"
+import type { Template } from "@/app/types/unimarc"
+
+jest.mock("@/lib/template-cache", () => ({ templateCache: { getTemplates: jest.fn() } }))
+jest.mock("@/lib/database", () => ({ databaseService: { getRecord: jest.fn(), updateRecord: jest.fn() } }))
+jest.mock("next/server", () => ({
+    ...jest.requireActual("next/server"),
+    NextResponse: {
+        json: jest.fn((data, init) => ({ json: () => Promise.resolve(data), status: init?.status ?? 200 })),
+    },
+}))
+
+const mockTemplateCache = templateCache as jest.Mocked<typeof templateCache>
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>
+
+const template: Template = {
+    id: "temp1",
+    name: "Livro",
+    controlFields: [{ id: "cf1", tag: "001", repeatable: false, mandatory: true, translations: [], createdAt: "" }],
+    dataFields: [
+        {
+            id: "df1",
+            tag: "200",
+            repeatable: false,
+            mandatory: true,
+            translations: [],
+            subFieldDef: [
+                { id: "sf1", code: "a", repeatable: false, mandatory: true, dataFieldId: "df1", createdAt: "" },
+                { id: "sf2", code: "f", repeatable: true, mandatory: false, dataFieldId: "df1", createdAt: "" },
+            ],
+            createdAt: "",
+        },
+    ],
+    createdAt: "",
+}
+
+// Registo gravado com os valores propostos pela IA
+const storedRecord = {
+    id: "rec1",
+    recordTemplateId: "temp1",
+    fields: [
+        { tag: "001", value: "12345", subfields: null, fieldType: "CONTROL", ind1: null, ind2: null, provenance: { source: "ai" } },
+        { tag: "200", value: null, subfields: { a: "Memorial" }, fieldType: "DATA", ind1: " ", ind2: " ", provenance: { source: "ai" } },
+    ],
+}
+
+// Pedido PUT de edição do registo rec1 com o corpo indicado
+const putRequest = (body: string) => new NextRequest("http://localhost/api/records/rec1", { method: "PUT", body })
+
+const put = async (body: string) => {
+    const res = await PUT(putRequest(body), { params: { id: "rec1" } })
+    return { status: res.status, data: await res.json() }
+}
+
+describe("Records API Route (PUT)", () => {
+    beforeEach(() => {
+        jest.clearAllMocks()
+        mockTemplateCache.getTemplates.mockResolvedValue(
+            { templates: [template] } as Awaited<ReturnType<typeof templateCache.getTemplates>>,
+        )
+        mockDatabaseService.getRecord.mockResolvedValue(
+            storedRecord as unknown as Awaited<ReturnType<typeof databaseService.getRecord>>,
+        )
+    })
+
+    it("should reject a body that is not JSON", async () => {
+        const { status, data } = await put("{ textUnimarc: ")
+
+        expect(status).toBe(400)
+        expect(data.error).toBe("O corpo do pedido não é JSON válido")
+        expect(mockDatabaseService.getRecord).not.toHaveBeenCalled()
+    })
+
+    it("should return the syntax errors of the text by line", async () => {
+        const { status, data } = await put(JSON.stringify({ textUnimarc: "001 12345\n999  $ax" }))
+
+        expect(status).toBe(400)
+        expect(data.lineErrors).toEqual([expect.objectContaining({ line: 2 })])
+        expect(mockDatabaseService.updateRecord).not.toHaveBeenCalled()
+    })
+
+    it("should not save a record with validation errors", async () => {
+        const { status, data } = await put(JSON.stringify({ textUnimarc: "200  $aMemorial" }))
+
+        expect(status).toBe(400)
+        expect(data.validationIssues).toEqual([expect.objectContaining({ severity: "error", tag: "001" })])
+        expect(mockDatabaseService.updateRecord).not.toHaveBeenCalled()
+    })
+
+    it("should keep the provenance of unchanged fields and mark the edited ones as the user's", async () => {
+        const { status } = await put(JSON.stringify({ textUnimarc: "001 12345\n200  $aMemorial do Convento" }))
+
+        expect(status).toBe(200)
+        expect(mockDatabaseService.updateRecord).toHaveBeenCalledWith(
+            "rec1",
+            { "001": "12345", "200": { a: "Memorial do Convento" } },
+            template,
+            null,
+            "pt",
+            {
+                "001": [{ source: "ai" }],
+                "200": [expect.objectContaining({ source: "user", replaced: { source: "ai" } })],
+            },
+        )
+    })
+})
@@ -0,0 +1,52 @@
+/**
+ * @jest-environment node
+ */
+import { POST } from "@/app/api/records/validate/route"
+import { templateCache } from "@/lib/template-cache"
+import { NextRequest } from "next/server"
+import type { Template } from "@/app/types/unimarc"
+
+jest.mock("@/lib/template-cache", () => ({ templateCache: { getTemplates: jest.fn() } }))
+jest.mock("next/server", () => ({
+    ...jest.requireActual("next/server"),
+    NextResponse: {
+        json: jest.fn((data, init) => ({ json: () => Promise.resolve(data), status: init?.status ?? 200 })),
+    },
+}))
+
+const mockTemplateCache = templateCache as jest.Mocked<typeof templateCache>
+
+const template: Template = {
+    id: "temp1",
+    name: "Livro",
+    controlFields: [{ id: "cf1", tag: "001", repeatable: false, mandatory: true, translations: [], createdAt: "" }],
+    dataFields: [],
+    createdAt: "",
+}
+
+const validate = async (body: string) => {
+    const res = await POST(new NextRequest("http://localhost/api/records/validate", { method: "POST", body }))
+    return { status: res.status, data: await res.json() }
+}
+
+describe("Records API Route (validate)", () => {
+    beforeEach(() => {
+        mockTemplateCache.getTemplates.mockResolvedValue(
+            { templates: [template] } as Awaited<ReturnType<typeof templateCache.getTemplates>>,
+        )
+    })
+
+    it("should reject a body that is not JSON", async () => {
+        const { status, data } = await validate('{ "templateId": ')
+
+        expect(status).toBe(400)
+        expect(data.error).toBe("O corpo do pedido não é JSON válido")
+    })
+
+    it("should validate a record written as UNIMARC text", async () => {
+        const { status, data } = await validate(JSON.stringify({ templateId: "temp1", textUnimarc: "001 12345" }))
+
+        expect(status).toBe(200)
+        expect(data).toEqual({ valid: true, issues: [], lineErrors: [] })
+    })
+})
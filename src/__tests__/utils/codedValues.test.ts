@@ -0,0 +1,52 @@
+import { codedValueService } from "@/lib/coded-values"
+
+describe("codedValueService", () => {
+    it("should map codes, names and variants to language and country codes", () => {
+        expect(codedValueService.lookup("language", "português")?.code).toBe("por")
+        expect(codedValueService.lookup("language", "PORTUGUES")?.code).toBe("por")
+        expect(codedValueService.lookup("language", "English")?.code).toBe("eng")
+        expect(codedValueService.lookup("language", "fr")?.code).toBe("fre")
+        expect(codedValueService.lookup("country", "Portugal")?.code).toBe("PT")
+        expect(codedValueService.lookup("country", "pt")?.code).toBe("PT")
+        expect(codedValueService.lookup("country", "Inglaterra")?.code).toBe("GB")
+        expect(codedValueService.lookup("country", "Atlântida")).toBeNull()
+    })
+
+    it("should check answers only for coded subfields", () => {
+        expect(codedValueService.check("101", "a", "Espanhol")).toMatchObject({ valid: true, code: "spa", label: "Espanhol" })
+        expect(codedValueService.check("102", "a", "xyz")).toMatchObject({ valid: false, code: null })
+        expect(codedValueService.check("200", "a", "Português")).toBeNull()
+    })
+
+    it("should suggest the most common codes with labels in the interface language", () => {
+        expect(codedValueService.suggest("101", "a", "en", 3)).toEqual([
+            { code: "por", label: "Portuguese" },
+            { code: "eng", label: "English" },
+            { code: "spa", label: "Spanish" },
+        ])
+        expect(codedValueService.suggest("200", "a")).toEqual([])
+    })
+
+    it("should detect the language named in a description", () => {
+        expect(codedValueService.detectLanguage("Edição bilingue, texto em inglês")).toBe("eng")
+        expect(codedValueService.detectLanguage("Ensaio sobre a Cegueira, Lisboa : Caminho, 1995")).toBeNull()
+    })
+
+    it("should normalize auto-filled coded values and drop unknown ones", () => {
+        const { filledFields, rejected } = codedValueService.normalizeFields({
+            "101": { ind1: "0", a: ["Português", "ingles"] },
+            "102": { a: "Terra Média" },
+            "100": { a: "20261018d1995    m  y0xxxy50      ba" },
+            "200": { a: "Título" },
+        })
+
+        expect(filledFields["101"]).toEqual({ ind1: "0", a: ["por", "eng"] })
+        expect(filledFields["102"]).toBeUndefined()
+        expect(filledFields["100"]).toBeUndefined()
+        expect(filledFields["200"]).toEqual({ a: "Título" })
+        expect(rejected.map((r) => [r.tag, r.subfield, r.occurrenceRemoved])).toEqual([
+            ["100", "a", true],
+            ["102", "a", true],
+        ])
+    })
+})
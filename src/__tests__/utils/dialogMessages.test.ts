@@ -0,0 +1,42 @@
+import { DIALOG_LANGUAGES, dialogMessages } from "@/lib/dialog-messages"
+
+describe("dialogMessages", () => {
+    it("should use the catalogue of the base language and fall back to Portuguese", () => {
+        expect(dialogMessages.resolveLanguage("en")).toBe("en")
+        expect(dialogMessages.resolveLanguage("es-ES")).toBe("es")
+        expect(dialogMessages.resolveLanguage("PT_br")).toBe("pt")
+        expect(dialogMessages.resolveLanguage("fr")).toBe("pt")
+        expect(dialogMessages.resolveLanguage(undefined)).toBe("pt")
+        expect(dialogMessages.get("de").invalidState).toBe("Estado inválido da conversação.")
+    })
+
+    it("should recognise yes/no answers in the language of the dialog", () => {
+        expect(dialogMessages.parseYesNo(" Sim ", "pt")).toBe(true)
+        expect(dialogMessages.parseYesNo("não", "pt")).toBe(false)
+        expect(dialogMessages.parseYesNo("yes", "en")).toBe(true)
+        expect(dialogMessages.parseYesNo("no", "en")).toBe(false)
+        expect(dialogMessages.parseYesNo("sí", "es")).toBe(true)
+        expect(dialogMessages.parseYesNo("si", "es")).toBe(true)
+        // "sim" is not an answer in English, "yes" is not one in Portuguese
+        expect(dialogMessages.parseYesNo("sim", "en")).toBeNull()
+        expect(dialogMessages.parseYesNo("yes", "pt")).toBeNull()
+    })
+
+    it("should write the yes/no hint of the questions with the first word of each list", () => {
+        expect(dialogMessages.yesNoHint("pt")).toBe("(sim/não)")
+        expect(dialogMessages.yesNoHint("en")).toBe("(yes/no)")
+        expect(dialogMessages.yesNoHint("es")).toBe("(sí/no)")
+    })
+
+    it("should have every message and optional group name in every language", () => {
+        const keysOf = (value: object): string[] =>
+            Object.entries(value).flatMap(([key, item]) =>
+                item && typeof item === "object" && !Array.isArray(item) ? keysOf(item).map((sub) => `${key}.${sub}`) : [key],
+            )
+        const expected = keysOf(dialogMessages.get("pt")).sort()
+
+        for (const language of DIALOG_LANGUAGES) {
+            expect(keysOf(dialogMessages.get(language)).sort()).toEqual(expected)
+        }
+    })
+})
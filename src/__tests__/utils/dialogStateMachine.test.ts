@@ -0,0 +1,71 @@
+import { dialogStateMachine } from "@/lib/dialog-state-machine"
+import type { Template } from "@/app/types/unimarc"
+
+const template: Template = {
+    id: "temp1",
+    name: "Livro",
+    controlFields: [],
+    dataFields: [],
+    createdAt: "",
+}
+
+describe("dialogStateMachine", () => {
+    it("should allow only the declared step transitions", () => {
+        expect(dialogStateMachine.canTransition("template-selection", "bulk-auto-fill")).toBe(true)
+        expect(dialogStateMachine.canTransition("field-filling", "review-fields")).toBe(true)
+        expect(dialogStateMachine.canTransition("confirmation", "completed")).toBe(true)
+        expect(dialogStateMachine.canTransition("template-selection", "review-fields")).toBe(false)
+        expect(dialogStateMachine.canTransition("completed", "field-filling")).toBe(false)
+
+        expect(dialogStateMachine.checkTransition("bulk-auto-fill", "bulk-auto-fill")).toBeNull()
+        expect(dialogStateMachine.checkTransition("bulk-auto-fill", "confirmation")).toBe(
+            'Transição inválida: "bulk-auto-fill" -> "confirmation" (a partir de "bulk-auto-fill" só: bulk-auto-fill, field-filling)',
+        )
+    })
+
+    it("should accept a valid state", () => {
+        expect(
+            dialogStateMachine.validate({
+                step: "field-filling",
+                currentTemplate: template,
+                filledFields: { "200": { a: "Título" } },
+                remainingFields: ["210"],
+                askedField: "210",
+                askedSubfield: "ind1",
+                autoFilledCount: 1,
+                leader: "00000nam  2200000   450 ",
+                mode: "mandatory",
+                optionalGroups: [{ id: "notes", fields: ["300"] }],
+            }),
+        ).toEqual([])
+    })
+
+    it("should report wrong types and unknown steps", () => {
+        expect(dialogStateMachine.validate(null)).toEqual(["O estado da conversação tem de ser um objeto"])
+        expect(
+            dialogStateMachine.validate({ step: "invalid-step", filledFields: [], remainingFields: ["2000"], autoFilledCount: -1 }),
+        ).toEqual([
+            'O passo "invalid-step" não existe',
+            "filledFields tem de ser um objeto (tag -> valor)",
+            "remainingFields tem de ser uma lista de tags de 3 dígitos",
+            "autoFilledCount tem de ser um número inteiro não negativo",
+        ])
+    })
+
+    it("should report illegal combinations", () => {
+        expect(
+            dialogStateMachine.validate({
+                step: "confirmation",
+                filledFields: {},
+                remainingFields: ["200"],
+                askedSubfield: "a",
+                optionalGroups: [{ id: "notes", fields: ["300"] }],
+            }),
+        ).toEqual([
+            'askedSubfield "a" sem askedField',
+            'O passo "confirmation" precisa de um template',
+            'O passo "confirmation" não pode ter campos por preencher (200)',
+            'Só o modo "mandatory" tem grupos de campos opcionais',
+        ])
+    })
+})
@@ -0,0 +1,25 @@
+import { dialogStream } from "@/lib/dialog-stream"
+
+describe("dialogStream", () => {
+    it("should format and parse progress and result events", () => {
+        const text =
+            dialogStream.formatEvent({ event: "progress", data: { stage: "template-selected", message: "Template selecionado: Livro" } }) +
+            dialogStream.formatEvent({ event: "result", data: { type: "template-selected" } })
+
+        expect(dialogStream.parseEvents(text)).toEqual({
+            events: [
+                { event: "progress", data: { stage: "template-selected", message: "Template selecionado: Livro" } },
+                { event: "result", data: { type: "template-selected" } },
+            ],
+            rest: "",
+        })
+    })
+
+    it("should keep an incomplete event for the next chunk", () => {
+        const text = dialogStream.formatEvent({ event: "progress", data: { stage: "duplicate-check", message: "A verificar" } })
+        const { events, rest } = dialogStream.parseEvents(text.slice(0, 20))
+
+        expect(events).toEqual([])
+        expect(dialogStream.parseEvents(rest + text.slice(20)).events).toHaveLength(1)
+    })
+})
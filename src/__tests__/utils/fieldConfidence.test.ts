@@ -0,0 +1,47 @@
+import { fieldConfidenceService } from "@/lib/field-confidence"
+
+describe("fieldConfidenceService", () => {
+    afterEach(() => {
+        delete process.env.AI_CONFIRMATION_THRESHOLD
+    })
+
+    it("should take the confidence out of the AI fields and accept percentages", () => {
+        const { fields, confidence } = fieldConfidenceService.extract({
+            "001": "1",
+            "200": { a: "Título" },
+            _confidence: { "001": 0.4, "200$a": "85%", "200$f": 70, "210$d": "talvez", "215$a": -1 },
+        })
+
+        expect(fields).toEqual({ "001": "1", "200": { a: "Título" } })
+        expect(confidence).toEqual({ "001": 0.4, "200$a": 0.85, "200$f": 0.7 })
+    })
+
+    it("should keep only the confidence of the values that were filled", () => {
+        const confidence = { "001": 0.4, "003": 0.2, "200$a": 0.9, "200$f": 0.5, "210$d": 0.3 }
+        const filledFields = { "001": "1", "200": [{ a: "A" }, { a: "B", f: "Autor" }], "210": { c: "Lisboa" } }
+
+        expect(fieldConfidenceService.forFields(confidence, filledFields)).toEqual({ "001": 0.4, "200$a": 0.9, "200$f": 0.5 })
+    })
+
+    it("should only ask to confirm fields when a threshold is configured", () => {
+        const confidence = { "001": 0.4, "200$a": 0.9, "200$f": 0.5, "101$a": 0.6 }
+
+        expect(fieldConfidenceService.fieldsToConfirm(confidence)).toEqual([])
+        expect(fieldConfidenceService.lowConfidence(confidence)).toEqual({ "001": 0.4, "200$f": 0.5, "101$a": 0.6 })
+
+        process.env.AI_CONFIRMATION_THRESHOLD = "0.55"
+        expect(fieldConfidenceService.fieldsToConfirm(confidence)).toEqual(["001", "200"])
+
+        process.env.AI_CONFIRMATION_THRESHOLD = "2"
+        expect(fieldConfidenceService.getConfirmationThreshold()).toBe(0)
+    })
+
+    it("should describe and forget the values of a field", () => {
+        const confidence = { "200$a": 0.9, "200$f": 0.5, "2001": 0.1, "001": 0.4 }
+        const filledFields = { "001": "1", "200": [{ ind1: "1", a: "A", f: "Autor" }, { a: "B" }] }
+
+        expect(fieldConfidenceService.describe(confidence, filledFields, "200")).toEqual(["$a A | B (90%)", "$f Autor (50%)"])
+        expect(fieldConfidenceService.describe(confidence, filledFields, "001")).toEqual(["1 (40%)"])
+        expect(fieldConfidenceService.forget(confidence, "200")).toEqual({ "2001": 0.1, "001": 0.4 })
+    })
+})
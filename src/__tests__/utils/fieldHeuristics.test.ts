@@ -0,0 +1,86 @@
+import { fieldInference } from "@/lib/field-heuristics"
+import type { Template } from "@/app/types/unimarc"
+
+const dataField = (tag: string, codes: string[]) => ({
+    id: tag,
+    tag,
+    repeatable: false,
+    mandatory: false,
+    translations: [],
+    subFieldDef: codes.map((code) => ({
+        id: `${tag}${code}`,
+        code,
+        repeatable: false,
+        mandatory: false,
+        dataFieldId: tag,
+        createdAt: "",
+    })),
+    createdAt: "",
+})
+
+const template = (name: string, fields: Array<[string, string[]]>): Template => ({
+    id: name,
+    name,
+    controlFields: [],
+    dataFields: fields.map(([tag, codes]) => dataField(tag, codes)),
+    createdAt: "",
+})
+
+const unimarcBook = template("Livro", [
+    ["100", ["a"]],
+    ["101", ["a"]],
+    ["200", ["a", "f"]],
+    ["210", ["a", "c", "d"]],
+    ["215", ["a"]],
+    ["700", ["a", "b"]],
+])
+
+const description = `Livro "Ensaio sobre a Cegueira" por José Saramago, Lisboa : Caminho, 1995, 310 páginas`
+
+describe("fieldInference", () => {
+    it("should detect the schema from the title tag", () => {
+        expect(fieldInference.detectSchema(unimarcBook)).toBe("unimarc")
+        expect(fieldInference.detectSchema(template("MARC", [["245", ["a"]]]))).toBe("marc21")
+    })
+
+    it("should infer UNIMARC fields and subfields for UNIMARC templates", () => {
+        const inferred = fieldInference.inferFields(description, unimarcBook)
+
+        expect(inferred["200"]).toEqual({ a: "Ensaio sobre a Cegueira", f: "José Saramago" })
+        expect(inferred["700"]).toEqual({ a: "Saramago", b: "José" })
+        expect(inferred["210"]).toEqual({ a: "Lisboa", c: "Caminho", d: "1995" })
+        expect(inferred["215"]).toEqual({ a: "310 p." })
+        expect(inferred["101"]).toEqual({ a: "por" })
+        expect(inferred["245"]).toBeUndefined()
+    })
+
+    it("should generate 36 characters of coded data in 100$a", () => {
+        const codedData = (fieldInference.inferFields(description, unimarcBook)["100"] as Record<string, string>).a
+
+        expect(codedData).toHaveLength(36)
+        expect(codedData.slice(8, 17)).toBe("d1995    ")
+        expect(codedData.slice(22, 25)).toBe("por")
+
+        const serial = { ...unimarcBook, name: "Publicação Periódica" }
+        const serialData = (fieldInference.inferFields("Revista de 2001", serial)["100"] as Record<string, string>).a
+        expect(serialData.slice(8, 17)).toBe("a20019999")
+    })
+
+    it("should keep the MARC21 rules for MARC21 templates", () => {
+        const marc21 = template("MARC21", [["245", []], ["100", []], ["264", []], ["300", []]])
+        const inferred = fieldInference.inferFields(description, marc21)
+
+        expect(inferred).toEqual({
+            "245": "Ensaio sobre a Cegueira",
+            "100": "José Saramago",
+            "264": "1995",
+            "300": "310 p.",
+        })
+    })
+
+    it("should only auto-fill tags of the template's rule set", () => {
+        expect(fieldInference.canAutoFill("215", unimarcBook)).toBe(true)
+        expect(fieldInference.canAutoFill("245", unimarcBook)).toBe(false)
+        expect(fieldInference.canAutoFill("245")).toBe(true)
+    })
+})
@@ -0,0 +1,66 @@
+import { fieldPriority } from "@/lib/field-priority"
+import type { DataField, Template } from "@/app/types/unimarc"
+
+const titleField: DataField = {
+    id: "df1",
+    tag: "200",
+    repeatable: false,
+    mandatory: true,
+    translations: [{ id: "t1", language: "pt", name: "Título", ind1Name: "Significado do título" }],
+    subFieldDef: [
+        { id: "sf1", code: "a", repeatable: false, mandatory: true, dataFieldId: "df1", createdAt: "" },
+        { id: "sf2", code: "e", repeatable: true, mandatory: false, dataFieldId: "df1", createdAt: "" },
+        { id: "sf3", code: "f", repeatable: true, mandatory: true, dataFieldId: "df1", createdAt: "" },
+    ],
+    createdAt: "",
+}
+
+const template: Template = {
+    id: "temp1",
+    name: "Livro",
+    controlFields: [{ id: "cf1", tag: "001", repeatable: false, mandatory: true, translations: [], createdAt: "" }],
+    dataFields: [
+        titleField,
+        { ...titleField, id: "df2", tag: "210", mandatory: false },
+        { ...titleField, id: "df3", tag: "330", mandatory: false },
+        { ...titleField, id: "df4", tag: "606", mandatory: false },
+        { ...titleField, id: "df5", tag: "801", mandatory: false },
+    ],
+    createdAt: "",
+}
+
+describe("fieldPriority", () => {
+    it("should queue every field in the default mode", () => {
+        const tags = ["001", "200", "210", "330", "606", "801"]
+        expect(fieldPriority.getFieldsToAsk(template, tags)).toEqual({ fields: tags, optionalGroups: [] })
+    })
+
+    it("should queue mandatory fields and group the optional ones by importance", () => {
+        const { fields, optionalGroups } = fieldPriority.getFieldsToAsk(
+            template,
+            ["001", "200", "210", "330", "606", "801"],
+            "mandatory",
+        )
+
+        expect(fields).toEqual(["001", "200"])
+        expect(optionalGroups.map(({ id, fields }) => [id, fields])).toEqual([
+            ["descricao", ["210"]],
+            ["assuntos", ["606"]],
+            ["notas", ["330"]],
+            ["outros", ["801"]],
+        ])
+    })
+
+    it("should ask only mandatory subfields and no indicators of mandatory fields in mandatory mode", () => {
+        expect(fieldPriority.getIndicatorsToAsk(titleField)).toEqual(["ind1"])
+        expect(fieldPriority.getIndicatorsToAsk(titleField, "mandatory")).toEqual([])
+        expect(fieldPriority.getSubfieldsToAsk(titleField, "mandatory")).toEqual(["a", "f"])
+        expect(fieldPriority.getSubfieldsToAsk({ ...titleField, mandatory: false }, "mandatory")).toEqual(["a", "e", "f"])
+
+        expect(fieldPriority.getNextSubfield(titleField, undefined, "mandatory")).toBe("a")
+        expect(fieldPriority.getNextSubfield(titleField, "a", "mandatory")).toBe("f")
+        expect(fieldPriority.getNextSubfield(titleField, "e", "mandatory")).toBe("f")
+        expect(fieldPriority.getNextSubfield(titleField, "f", "mandatory")).toBeUndefined()
+        expect(fieldPriority.getNextSubfield(titleField, "a")).toBe("e")
+    })
+})
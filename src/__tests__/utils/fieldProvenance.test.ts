@@ -0,0 +1,51 @@
+import { fieldProvenanceService } from "@/lib/field-provenance"
+
+describe("fieldProvenanceService", () => {
+    const ai = { source: "ai" as const, model: "gpt-4o" }
+
+    it("should give the same provenance to every occurrence of the filled fields", () => {
+        expect(fieldProvenanceService.forFields({ "001": "1", "700": [{ a: "A" }, { a: "B" }] }, ai)).toEqual({
+            "001": [ai],
+            "700": [ai, ai],
+        })
+    })
+
+    it("should keep the provenance of unchanged values and record what the user replaced", () => {
+        const provenance = fieldProvenanceService.forFields(
+            { "001": "1", "200": { a: "Título", f: "Autor" }, "700": [{ a: "A" }] },
+            ai,
+        )
+
+        // Only $f is corrected: $a keeps the AI provenance
+        let tracked = fieldProvenanceService.track(
+            provenance,
+            "200",
+            { a: "Título", f: "Autor" },
+            { a: "Título", f: "Outro autor" },
+            { source: "user" },
+        )
+        expect(tracked["200"]).toEqual([{ source: "user", replaced: ai, subfields: { a: ai } }])
+        expect(fieldProvenanceService.ofSubfield(tracked["200"][0], "a")).toEqual(ai)
+
+        // A new occurrence is the user's; the existing one keeps its provenance
+        tracked = fieldProvenanceService.track(tracked, "700", [{ a: "A" }], [{ a: "A" }, { a: "B" }], { source: "user" })
+        expect(tracked["700"]).toEqual([ai, { source: "user" }])
+
+        // A rejected (deleted) value keeps its provenance, so the next answer is recorded as replacing it
+        tracked = fieldProvenanceService.track(tracked, "001", undefined, "123", { source: "user" })
+        expect(tracked["001"]).toEqual([{ source: "user", replaced: ai }])
+    })
+
+    it("should report the values by provenance and the accuracy of each model", () => {
+        const report = fieldProvenanceService.report([
+            { subfields: { ind1: "1", a: "Título", f: "Autor" }, provenance: { source: "user", replaced: ai, subfields: { a: ai } } },
+            { subfields: { a: "Saramago" }, provenance: ai },
+            { subfields: null, provenance: { source: "import" } },
+            { subfields: null, provenance: null },
+        ])
+
+        expect(report.values).toEqual({ ai: 2, user: 1, import: 1 })
+        expect(report.unknown).toBe(1)
+        expect(report.accuracy).toEqual([{ source: "ai", model: "gpt-4o", kept: 2, corrected: 1, accuracy: 2 / 3 }])
+    })
+})
@@ -0,0 +1,44 @@
+import { indicatorService } from "@/lib/indicators"
+import type { DataField } from "@/app/types/unimarc"
+
+const field: DataField = {
+    id: "df1",
+    tag: "200",
+    repeatable: false,
+    mandatory: true,
+    translations: [
+        { id: "t1", language: "pt", name: "Título", ind1Name: "Significado do título", ind1Tips: ["0 - não significativo", "1 - significativo"] },
+        { id: "t2", language: "en", name: "Title", ind2Name: "Undefined" },
+    ],
+    subFieldDef: [],
+    createdAt: "",
+}
+
+describe("indicatorService", () => {
+    it("should only return indicators that have a translated name or tips", () => {
+        const indicators = indicatorService.getDefinedIndicators(field, "pt")
+
+        expect(indicators).toEqual([
+            { key: "ind1", name: "Significado do título", tips: ["0 - não significativo", "1 - significativo"] },
+            { key: "ind2", name: "Undefined", tips: [] },
+        ])
+        expect(indicatorService.getDefinedIndicators({ ...field, translations: [] })).toEqual([])
+    })
+
+    it("should normalize blank and single character answers", () => {
+        expect(indicatorService.normalize("")).toBe(" ")
+        expect(indicatorService.normalize("#")).toBe(" ")
+        expect(indicatorService.normalize(" 1 ")).toBe("1")
+        expect(indicatorService.normalize("12")).toBeNull()
+    })
+
+    it("should split indicators from subfields", () => {
+        expect(indicatorService.split({ ind1: "1", ind2: "xx", a: "Título" })).toEqual({
+            ind1: "1",
+            ind2: " ",
+            subfields: { a: "Título" },
+        })
+        expect(indicatorService.hasSubfields({ ind1: "1" })).toBe(false)
+        expect(indicatorService.hasSubfields({ ind1: "1", a: "x" })).toBe(true)
+    })
+})
@@ -0,0 +1,70 @@
+import { isbdPunctuation } from "@/lib/isbd-punctuation"
+
+describe("isbdPunctuation", () => {
+    it("should strip ISBD punctuation but keep abbreviations", () => {
+        expect(isbdPunctuation.strip("Ensaio sobre a cegueira :")).toBe("Ensaio sobre a cegueira")
+        expect(isbdPunctuation.strip("/ José Saramago.")).toBe("José Saramago")
+        expect(isbdPunctuation.strip("Lisboa ;")).toBe("Lisboa")
+        expect(isbdPunctuation.strip("Comunicação.")).toBe("Comunicação")
+        expect(isbdPunctuation.strip("310 p.")).toBe("310 p.")
+        expect(isbdPunctuation.strip("s.d.")).toBe("s.d.")
+        expect(isbdPunctuation.strip("E depois...")).toBe("E depois...")
+    })
+
+    it("should store subfields without punctuation in generated mode", () => {
+        const subfields = isbdPunctuation.normalizeSubfields(
+            "200",
+            { a: "Ensaio sobre a cegueira :", e: "romance /", f: "José Saramago." },
+            "generated",
+        )
+
+        expect(subfields).toEqual({ a: "Ensaio sobre a cegueira", e: "romance", f: "José Saramago" })
+    })
+
+    it("should store the preceding punctuation in stored mode, idempotently", () => {
+        const once = isbdPunctuation.normalizeSubfields("210", { a: ["Lisboa", "Porto"], c: "Caminho", d: "1995." }, "stored")
+        expect(once).toEqual({ a: ["Lisboa ;", "Porto :"], c: "Caminho,", d: "1995" })
+        expect(isbdPunctuation.normalizeSubfields("210", once, "stored")).toEqual(once)
+    })
+
+    it("should only touch the punctuation of ISBD subfields", () => {
+        // URLs, notes and values ending in punctuation that is not an ISBD separator keep it
+        expect(isbdPunctuation.strip("C++")).toBe("C++")
+        for (const mode of ["generated", "stored"] as const) {
+            expect(isbdPunctuation.normalizeSubfields("856", { u: "https://example.org/" }, mode)).toEqual({ u: "https://example.org/" })
+            expect(isbdPunctuation.normalizeSubfields("300", { a: "Inclui índice." }, mode)).toEqual({ a: "Inclui índice." })
+        }
+        expect(isbdPunctuation.normalizeSubfields("200", { a: "C++", f: "Bjarne Stroustrup" }, "generated")).toEqual({
+            a: "C++",
+            f: "Bjarne Stroustrup",
+        })
+        expect(isbdPunctuation.normalizeSubfields("200", { a: "C++", f: "Bjarne Stroustrup" }, "stored")).toEqual({
+            a: "C++ /",
+            f: "Bjarne Stroustrup",
+        })
+        // 200$b is not an ISBD subfield: it keeps its value and gets no punctuation before $e
+        expect(isbdPunctuation.normalizeSubfields("200", { a: "Título", b: "Texto impresso.", e: "romance" }, "stored")).toEqual({
+            a: "Título",
+            b: "Texto impresso.",
+            e: "romance",
+        })
+        expect(isbdPunctuation.formatDisplay("856", { u: "https://example.org/" })).toBe("https://example.org/")
+        expect(isbdPunctuation.formatDisplay("200", { a: "C++ /", f: "Bjarne Stroustrup" })).toBe("C++ / Bjarne Stroustrup")
+    })
+
+    it("should generate the ISBD display from either form", () => {
+        const display = "Ensaio sobre a cegueira : romance / José Saramago"
+        expect(isbdPunctuation.formatDisplay("200", { a: "Ensaio sobre a cegueira", e: "romance", f: "José Saramago" })).toBe(display)
+        expect(isbdPunctuation.formatDisplay("200", { a: "Ensaio sobre a cegueira :", e: "romance /", f: "José Saramago" })).toBe(display)
+    })
+
+    it("should read the mode from the environment", () => {
+        const previous = process.env.ISBD_PUNCTUATION
+        process.env.ISBD_PUNCTUATION = "stored"
+        expect(isbdPunctuation.getMode()).toBe("stored")
+        process.env.ISBD_PUNCTUATION = "outro"
+        expect(isbdPunctuation.getMode()).toBe("generated")
+        if (previous === undefined) delete process.env.ISBD_PUNCTUATION
+        else process.env.ISBD_PUNCTUATION = previous
+    })
+})
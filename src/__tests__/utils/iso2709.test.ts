@@ -0,0 +1,118 @@
+import { iso2709Codec, FIELD_TERMINATOR, RECORD_TERMINATOR, SUBFIELD_DELIMITER } from "@/lib/iso2709"
+
+// Registo com "count" notas 300 de "size" caracteres
+const largeRecord = (count: number, size: number) => ({
+    fields: Array.from({ length: count }, () => ({ tag: "300", value: "", subfields: { a: "x".repeat(size) }, fieldType: "DATA" })),
+})
+
+const record = {
+    fields: [
+        { tag: "200", value: "", subfields: { a: "Memorial do Convento", f: "José Saramago" }, fieldType: "DATA" },
+        { tag: "001", value: "12345", subfields: null, fieldType: "CONTROL" },
+        { tag: "102", value: "", subfields: { a: ["PT", "BR"] }, fieldType: "DATA" },
+    ],
+}
+
+describe("iso2709Codec", () => {
+    it("should build a leader with record length and base address", () => {
+        const encoded = iso2709Codec.encodeRecord(record)
+        const leader = encoded.slice(0, 24)
+
+        expect(leader).toHaveLength(24)
+        expect(Number(leader.slice(0, 5))).toBe(Buffer.byteLength(encoded, "utf8"))
+        expect(leader.slice(10, 12)).toBe("22")
+        expect(leader.slice(20, 24)).toBe("450 ")
+        // Diretório com 3 entradas de 12 caracteres + terminador
+        expect(Number(leader.slice(12, 17))).toBe(24 + 3 * 12 + 1)
+    })
+
+    it("should write directory entries in tag order with UTF-8 byte lengths", () => {
+        const encoded = iso2709Codec.encodeRecord(record)
+        const directory = encoded.slice(24, 24 + 36)
+
+        const title = `  ${SUBFIELD_DELIMITER}aMemorial do Convento${SUBFIELD_DELIMITER}fJosé Saramago${FIELD_TERMINATOR}`
+        expect(directory.slice(0, 12)).toBe("001000600000")
+        expect(directory.slice(12, 24)).toBe("102001100006")
+        expect(directory.slice(24, 36)).toBe(`200${String(Buffer.byteLength(title, "utf8")).padStart(4, "0")}00017`)
+    })
+
+    it("should encode subfields, repeated subfields and terminators", () => {
+        const encoded = iso2709Codec.encodeRecord(record)
+
+        expect(encoded).toContain(`12345${FIELD_TERMINATOR}`)
+        expect(encoded).toContain(`  ${SUBFIELD_DELIMITER}aPT${SUBFIELD_DELIMITER}aBR${FIELD_TERMINATOR}`)
+        expect(encoded.endsWith(RECORD_TERMINATOR)).toBe(true)
+    })
+
+    it("should keep the stored leader values other than computed positions", () => {
+        const encoded = iso2709Codec.encodeRecord({ leader: "00000cas  2200000   450 ", fields: record.fields })
+        expect(encoded.slice(5, 8)).toBe("cas")
+    })
+
+    it("should concatenate records in a collection", () => {
+        const single = iso2709Codec.encodeRecord(record)
+        const collection = iso2709Codec.encodeCollection([record, record])
+        expect(collection).toBe(single + single)
+    })
+
+    it("should decode an encoded record back into fields", () => {
+        const encoded = Buffer.from(iso2709Codec.encodeRecord(record), "utf8")
+        const decoded = iso2709Codec.decodeRecord(encoded)
+
+        expect(decoded.leader).toBe(encoded.subarray(0, 24).toString("utf8"))
+        expect(decoded.fields).toEqual([
+            { tag: "001", fieldType: "CONTROL", value: "12345", subfields: null },
+            { tag: "102", fieldType: "DATA", value: null, subfields: { a: ["PT", "BR"] }, ind1: " ", ind2: " " },
+            {
+                tag: "200",
+                fieldType: "DATA",
+                value: null,
+                subfields: { a: "Memorial do Convento", f: "José Saramago" },
+                ind1: " ",
+                ind2: " ",
+            },
+        ])
+    })
+
+    it("should encode and decode indicators", () => {
+        const encoded = iso2709Codec.encodeRecord({
+            fields: [{ tag: "200", value: null, subfields: { a: "Título" }, fieldType: "DATA", ind1: "1", ind2: null }],
+        })
+
+        expect(encoded).toContain(`1 ${SUBFIELD_DELIMITER}aTítulo${FIELD_TERMINATOR}`)
+        const [field] = iso2709Codec.decodeRecord(Buffer.from(encoded, "utf8")).fields
+        expect([field.ind1, field.ind2]).toEqual(["1", " "])
+    })
+
+    it("should split a collection into records and ignore line breaks between them", () => {
+        const single = iso2709Codec.encodeRecord(record)
+        const records = iso2709Codec.splitRecords(Buffer.from(`${single}\n${single}\n`, "utf8"))
+
+        expect(records).toHaveLength(2)
+        expect(iso2709Codec.decodeRecord(records[1]).fields).toHaveLength(3)
+    })
+
+    it("should refuse fields longer than the 4-digit directory length", () => {
+        // Indicadores (2) + IS1 + código (2) + 9994 caracteres + IS2 = 9999 bytes: ainda cabe
+        expect(() => iso2709Codec.encodeRecord(largeRecord(1, 9994))).not.toThrow()
+        expect(() => iso2709Codec.encodeRecord(largeRecord(1, 9995))).toThrow("O campo 300 tem 10000 bytes")
+        // Os comprimentos são em bytes UTF-8
+        const accented = { fields: [{ tag: "200", value: "", subfields: { a: "é".repeat(5000) }, fieldType: "DATA" }] }
+        expect(() => iso2709Codec.encodeRecord(accented)).toThrow("O campo 200 tem 10005 bytes")
+    })
+
+    it("should refuse fields that start beyond the 5-digit directory position", () => {
+        // 12 campos de 9000 bytes: o último começa na posição 99000, o 13.º na 108000
+        expect(() => iso2709Codec.encodeRecord(largeRecord(13, 8995))).toThrow("começa na posição 108000")
+    })
+
+    it("should refuse records longer than the 5-digit leader length", () => {
+        expect(() => iso2709Codec.encodeRecord(largeRecord(11, 8995))).not.toThrow()
+        expect(() => iso2709Codec.encodeRecord(largeRecord(12, 8995))).toThrow(/O registo tem \d+ bytes e excede o máximo de 99999/)
+    })
+
+    it("should reject records with an invalid base address", () => {
+        const broken = Buffer.from("00050nam  22ABCDE   450 " + "0".repeat(30), "utf8")
+        expect(() => iso2709Codec.decodeRecord(broken)).toThrow("Endereço base inválido")
+    })
+})
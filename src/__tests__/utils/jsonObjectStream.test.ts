@@ -0,0 +1,24 @@
+import { JsonObjectStreamParser } from "@/lib/json-object-stream"
+
+describe("JsonObjectStreamParser", () => {
+    it("should return each top-level property as soon as its value is complete", () => {
+        const parser = new JsonObjectStreamParser()
+
+        expect(parser.push('```json\n{"001": "12')).toEqual([])
+        expect(parser.push('3", "200": {"a": "Memorial, do ')).toEqual([["001", "123"]])
+        expect(parser.push('Convento", "f": ["Saramago"]}')).toEqual([])
+        expect(parser.push(', "101": {"a": "por"}}\n```')).toEqual([
+            ["200", { a: "Memorial, do Convento", f: ["Saramago"] }],
+            ["101", { a: "por" }],
+        ])
+    })
+
+    it("should handle escaped quotes and braces inside strings", () => {
+        const parser = new JsonObjectStreamParser()
+
+        expect(parser.push('{"330": "Um \\"romance\\" {histórico}", "215": "1 vol."}')).toEqual([
+            ["330", 'Um "romance" {histórico}'],
+            ["215", "1 vol."],
+        ])
+    })
+})
@@ -0,0 +1,84 @@
+import { MarcCrosswalk, marcCrosswalk } from "@/lib/marc-crosswalk"
+import type { ImportedRecord } from "@/lib/unimarc-serializer"
+
+const marc21Record: ImportedRecord = {
+    leader: "01234cam a2200289 i 4500",
+    fields: [
+        { tag: "001", fieldType: "CONTROL", value: "12345", subfields: null },
+        { tag: "008", fieldType: "CONTROL", value: "200101s2020    po            000 0 por d", subfields: null },
+        { tag: "020", fieldType: "DATA", value: null, subfields: { a: "9789722021234", q: "brochado" } },
+        { tag: "100", fieldType: "DATA", value: null, subfields: { a: "Saramago, José", d: "1922-2010" } },
+        { tag: "245", fieldType: "DATA", value: null, subfields: { a: "Memorial do Convento", c: "José Saramago", h: "[texto]" } },
+        { tag: "264", fieldType: "DATA", value: null, subfields: { a: "Lisboa", b: "Caminho", c: "2020" } },
+        { tag: "650", fieldType: "DATA", value: null, subfields: { a: "Romance", y: "Século XX", z: "Portugal" } },
+    ],
+}
+
+describe("marcCrosswalk", () => {
+    it("should convert core MARC21 fields and subfields into UNIMARC", () => {
+        const { record } = marcCrosswalk.marc21ToUnimarc(marc21Record)
+
+        expect(record.fields).toEqual([
+            { tag: "001", fieldType: "CONTROL", value: "12345", subfields: null },
+            { tag: "010", fieldType: "DATA", value: null, subfields: { a: "9789722021234", b: "brochado" } },
+            { tag: "700", fieldType: "DATA", value: null, subfields: { a: "Saramago, José", f: "1922-2010" } },
+            { tag: "200", fieldType: "DATA", value: null, subfields: { a: "Memorial do Convento", f: "José Saramago" } },
+            { tag: "210", fieldType: "DATA", value: null, subfields: { a: "Lisboa", c: "Caminho", d: "2020" } },
+            { tag: "606", fieldType: "DATA", value: null, subfields: { a: "Romance", z: "Século XX", y: "Portugal" } },
+        ])
+    })
+
+    it("should report unmapped tags and subfields", () => {
+        const { unmappedTags, unmappedSubfields } = marcCrosswalk.marc21ToUnimarc(marc21Record)
+
+        expect(unmappedTags).toEqual(["008"])
+        expect(unmappedSubfields).toEqual(["245$h"])
+    })
+
+    it("should keep record type from the leader and use the UNIMARC entry map", () => {
+        const { record } = marcCrosswalk.marc21ToUnimarc(marc21Record)
+
+        expect(record.leader).toHaveLength(24)
+        expect(record.leader?.slice(5, 8)).toBe("cam")
+        expect(record.leader?.slice(20, 24)).toBe("450 ")
+    })
+
+    it("should convert UNIMARC back to MARC21 using 260 for publication", () => {
+        const { record } = marcCrosswalk.marc21ToUnimarc(marc21Record)
+        const { record: marc21, unmappedTags } = marcCrosswalk.unimarcToMarc21(record)
+
+        expect(unmappedTags).toEqual([])
+        expect(marc21.fields.map((f) => f.tag)).toEqual(["001", "020", "100", "245", "260", "650"])
+        expect(marc21.fields.find((f) => f.tag === "650")?.subfields).toEqual({ a: "Romance", y: "Século XX", z: "Portugal" })
+        expect(marc21.leader?.slice(20, 24)).toBe("4500")
+        // Character coding: the encoders write UTF-8
+        expect(marc21.leader?.[9]).toBe("a")
+        expect(record.leader?.[9]).toBe(" ")
+    })
+
+    it("should export stored records, splitting legacy occurrences", () => {
+        const exported = marcCrosswalk.exportAsMarc21({
+            fields: [
+                { tag: "200", value: null, subfields: { a: "Título" }, fieldType: "DATA" },
+                { tag: "606", value: null, subfields: { occurrences: [{ a: "História" }, { a: "Arte" }] }, fieldType: "DATA" },
+                { tag: "801", value: null, subfields: { a: "PT" }, fieldType: "DATA" },
+            ],
+        })
+
+        expect(exported.fields).toEqual([
+            { tag: "245", value: null, subfields: { a: "Título" }, fieldType: "DATA" },
+            { tag: "650", value: null, subfields: { a: "História" }, fieldType: "DATA" },
+            { tag: "650", value: null, subfields: { a: "Arte" }, fieldType: "DATA" },
+        ])
+        expect(exported.unmappedTags).toEqual(["801"])
+    })
+
+    it("should accept extra mappings", () => {
+        const crosswalk = new MarcCrosswalk()
+        crosswalk.registerMapping({ marc21: "008", unimarc: "100", subfields: {} })
+
+        const { unmappedTags } = crosswalk.marc21ToUnimarc(marc21Record)
+        expect(unmappedTags).toEqual([])
+        expect(marcCrosswalk.getMappings().some((m) => m.marc21 === "008")).toBe(false)
+    })
+})
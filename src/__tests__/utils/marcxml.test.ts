@@ -0,0 +1,56 @@
+import { marcXmlCodec } from "@/lib/marcxml"
+
+const record = {
+    leader: "00000nam  2200000   450 ",
+    fields: [
+        { tag: "200", value: "", subfields: { a: "Título & Cia <1>", f: ["Autor1", "Autor2"] }, fieldType: "DATA", ind1: "1" },
+        { tag: "001", value: "12345", subfields: null, fieldType: "CONTROL" },
+    ],
+}
+
+describe("marcXmlCodec", () => {
+    it("should serialize leader, control fields and data fields", () => {
+        const xml = marcXmlCodec.encodeCollection([record])
+
+        expect(xml).toContain(`<collection xmlns="http://www.loc.gov/MARC21/slim">`)
+        expect(xml).toContain("<leader>00000nam  2200000   450 </leader>")
+        expect(xml).toContain(`<controlfield tag="001">12345</controlfield>`)
+        expect(xml).toContain(`<datafield tag="200" ind1="1" ind2=" ">`)
+        expect(xml).toContain(`<subfield code="a">Título &amp; Cia &lt;1&gt;</subfield>`)
+        expect(xml.indexOf('tag="001"')).toBeLessThan(xml.indexOf('tag="200"'))
+    })
+
+    it("should round-trip a serialized collection", () => {
+        const [parsed] = marcXmlCodec.parseCollection(marcXmlCodec.encodeCollection([record]))
+
+        expect(parsed.leader).toBe(record.leader)
+        expect(parsed.fields).toEqual([
+            { tag: "001", fieldType: "CONTROL", value: "12345", subfields: null },
+            {
+                tag: "200",
+                fieldType: "DATA",
+                value: null,
+                subfields: { a: "Título & Cia <1>", f: ["Autor1", "Autor2"] },
+                ind1: "1",
+                ind2: " ",
+            },
+        ])
+    })
+
+    it("should parse namespaced elements", () => {
+        const xml = `<marc:collection xmlns:marc="http://www.loc.gov/MARC21/slim">
+            <marc:record><marc:datafield tag="700" ind1=" " ind2="1"><marc:subfield code="a">Saramago</marc:subfield></marc:datafield></marc:record>
+            <marc:record><marc:controlfield tag="001">2</marc:controlfield></marc:record>
+        </marc:collection>`
+
+        const records = marcXmlCodec.parseCollection(xml)
+        expect(records).toHaveLength(2)
+        expect(records[0].fields[0].subfields).toEqual({ a: "Saramago" })
+        expect(records[0].fields[0].ind2).toBe("1")
+        expect(records[1].leader).toBeNull()
+    })
+
+    it("should throw when there are no records", () => {
+        expect(() => marcXmlCodec.parseCollection("<collection></collection>")).toThrow("nenhum elemento <record>")
+    })
+})
@@ -0,0 +1,114 @@
+import { databaseService } from "@/lib/database"
+import { iso2709Codec, RECORD_TERMINATOR } from "@/lib/iso2709"
+import { recordImportService } from "@/lib/record-import"
+import type { ImportedRecord } from "@/lib/unimarc-serializer"
+import type { Template } from "@/app/types/unimarc"
+
+jest.mock("@/lib/database", () => ({ databaseService: { findDuplicate: jest.fn(), saveRecord: jest.fn() } }))
+
+const mockFindDuplicate = databaseService.findDuplicate as jest.Mock
+const mockSaveRecord = databaseService.saveRecord as jest.Mock
+
+const template: Template = {
+    id: "temp1",
+    name: "Livro",
+    controlFields: [{ id: "cf1", tag: "001", repeatable: false, mandatory: true, translations: [], createdAt: "" }],
+    dataFields: [
+        {
+            id: "df1",
+            tag: "200",
+            repeatable: false,
+            mandatory: true,
+            translations: [],
+            subFieldDef: [
+                { id: "sf1", code: "a", repeatable: false, mandatory: true, dataFieldId: "df1", createdAt: "" },
+                { id: "sf2", code: "f", repeatable: true, mandatory: false, dataFieldId: "df1", createdAt: "" },
+            ],
+            createdAt: "",
+        },
+    ],
+    createdAt: "",
+}
+
+const book = (id: string, title: string, ...extra: ImportedRecord["fields"]): ImportedRecord => ({
+    leader: null,
+    fields: [
+        { tag: "001", fieldType: "CONTROL", value: id, subfields: null },
+        { tag: "200", fieldType: "DATA", value: null, subfields: { a: title } },
+        ...extra,
+    ],
+})
+
+describe("recordImportService", () => {
+    beforeEach(() => {
+        jest.clearAllMocks()
+    })
+
+    it("should save new records, skip duplicates and report the fields outside the template", async () => {
+        mockFindDuplicate.mockResolvedValueOnce(null).mockResolvedValueOnce("existing-1").mockResolvedValueOnce(null)
+        mockSaveRecord.mockResolvedValueOnce("rec-1").mockResolvedValueOnce("rec-2")
+        const data = Buffer.from(
+            iso2709Codec.encodeCollection([
+                book("1", "Memorial do Convento"),
+                book("2", "Levantado do Chão"),
+                book("3", "Ensaio sobre a Cegueira", { tag: "300", fieldType: "DATA", value: null, subfields: { a: "Nota" } }),
+            ]),
+        )
+
+        const report = await recordImportService.importIso2709(data, template)
+
+        expect(report.total).toBe(3)
+        expect(report.created).toEqual([
+            { index: 0, recordId: "rec-1", title: "Memorial do Convento" },
+            { index: 2, recordId: "rec-2", title: "Ensaio sobre a Cegueira" },
+        ])
+        expect(report.duplicates).toEqual([{ index: 1, existingRecordId: "existing-1", title: "Levantado do Chão" }])
+        expect(report.unmappedFields).toEqual([{ index: 2, tags: ["300"] }])
+        expect(report.failed).toEqual([])
+        expect(mockSaveRecord).toHaveBeenCalledTimes(2)
+        expect(mockSaveRecord.mock.calls[0][0]).toEqual(
+            expect.objectContaining({
+                templateId: "temp1",
+                filledFields: { "001": "1", "200": { a: "Memorial do Convento" } },
+            }),
+        )
+    })
+
+    it("should report records that cannot be read or saved and import the others", async () => {
+        mockFindDuplicate.mockResolvedValue(null)
+        mockSaveRecord.mockRejectedValueOnce(new Error("Base de dados indisponível")).mockResolvedValueOnce("rec-2")
+        const data = Buffer.from(
+            iso2709Codec.encodeRecord(book("1", "Memorial do Convento")) +
+                `estragado${RECORD_TERMINATOR}` +
+                iso2709Codec.encodeRecord(book("3", "Ensaio sobre a Cegueira")),
+        )
+
+        const report = await recordImportService.importIso2709(data, template)
+
+        expect(report.total).toBe(3)
+        expect(report.failed).toEqual([
+            { index: 0, error: "Base de dados indisponível" },
+            { index: 1, error: "Registo ISO 2709 demasiado curto" },
+        ])
+        expect(report.created).toEqual([{ index: 2, recordId: "rec-2", title: "Ensaio sobre a Cegueira" }])
+    })
+
+    it("should convert MARC21 records and report the tags without a UNIMARC mapping", async () => {
+        mockFindDuplicate.mockResolvedValue(null)
+        mockSaveRecord.mockResolvedValue("rec-1")
+        const marc21: ImportedRecord = {
+            leader: "00000cam a2200000 i 4500",
+            fields: [
+                { tag: "001", fieldType: "CONTROL", value: "1", subfields: null },
+                { tag: "008", fieldType: "CONTROL", value: "200101s2020    po            000 0 por d", subfields: null },
+                { tag: "245", fieldType: "DATA", value: null, subfields: { a: "Memorial do Convento", h: "[texto]" } },
+            ],
+        }
+
+        const report = await recordImportService.importMarcXml([marc21], template, "pt", "marc21")
+
+        expect(report.unmappedMarc21).toEqual([{ index: 0, tags: ["008", "245$h"] }])
+        expect(report.created).toEqual([{ index: 0, recordId: "rec-1", title: "Memorial do Convento" }])
+        expect(mockSaveRecord.mock.calls[0][0].templateDesc).toContain("MARCXML (MARC21)")
+    })
+})
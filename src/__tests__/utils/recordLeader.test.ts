@@ -0,0 +1,38 @@
+import { recordLeaderService } from "@/lib/record-leader"
+import { DEFAULT_LEADER } from "@/lib/iso2709"
+
+describe("recordLeaderService", () => {
+    it("should derive type of record and bibliographic level from the template", () => {
+        expect(recordLeaderService.fromTemplate({ name: "Livro" })).toBe(DEFAULT_LEADER)
+        expect(recordLeaderService.fromTemplate({ name: "Publicação Periódica" }).slice(6, 8)).toBe("as")
+        expect(recordLeaderService.fromTemplate({ name: "CD Áudio" }).slice(6, 8)).toBe("jm")
+        expect(recordLeaderService.fromTemplate({ name: "DVD", description: "Filmes em DVD" }).slice(6, 8)).toBe("gm")
+    })
+
+    it("should change a single editable position", () => {
+        const leader = recordLeaderService.setPosition(DEFAULT_LEADER, 17, "3")
+
+        expect(leader).toHaveLength(24)
+        expect(leader[17]).toBe("3")
+        expect(leader.slice(0, 17)).toBe(DEFAULT_LEADER.slice(0, 17))
+    })
+
+    it("should reject computed positions and values outside the vocabulary", () => {
+        expect(() => recordLeaderService.setPosition(DEFAULT_LEADER, 0, "1")).toThrow("não é editável")
+        expect(() => recordLeaderService.setPosition(DEFAULT_LEADER, 7, "x")).toThrow("inválido")
+    })
+
+    it("should describe editable positions with their current labels", () => {
+        const positions = recordLeaderService.describe(DEFAULT_LEADER)
+
+        expect(positions.find((p) => p.position === 6)).toEqual(
+            expect.objectContaining({ value: "a", label: "Texto impresso" }),
+        )
+        expect(positions.find((p) => p.position === 7)?.label).toBe("Monografia")
+    })
+
+    it("should fall back when the stored leader is missing or malformed", () => {
+        expect(recordLeaderService.normalize(null)).toBe(DEFAULT_LEADER)
+        expect(recordLeaderService.normalize("curto", "00000cas  2200000   450 ")).toBe("00000cas  2200000   450 ")
+    })
+})
@@ -0,0 +1,88 @@
+import { recordValidator } from "@/lib/record-validator"
+import type { Template } from "@/app/types/unimarc"
+
+const template: Template = {
+    id: "temp1",
+    name: "Livro",
+    controlFields: [{ id: "cf1", tag: "001", repeatable: false, mandatory: true, translations: [], createdAt: "" }],
+    dataFields: [
+        {
+            id: "df1",
+            tag: "200",
+            repeatable: false,
+            mandatory: true,
+            translations: [],
+            subFieldDef: [
+                { id: "sf1", code: "a", repeatable: false, mandatory: true, dataFieldId: "df1", createdAt: "" },
+                { id: "sf2", code: "f", repeatable: true, mandatory: false, dataFieldId: "df1", createdAt: "" },
+            ],
+            createdAt: "",
+        },
+        {
+            id: "df2",
+            tag: "606",
+            repeatable: true,
+            mandatory: false,
+            translations: [],
+            subFieldDef: [{ id: "sf3", code: "a", repeatable: false, mandatory: true, dataFieldId: "df2", createdAt: "" }],
+            createdAt: "",
+        },
+    ],
+    createdAt: "",
+}
+
+describe("recordValidator", () => {
+    it("should accept a record that matches the template", () => {
+        const result = recordValidator.validate(
+            { "001": "1", "200": { ind1: "1", a: "Título", f: ["A", "B"] }, "606": [{ a: "X" }, { a: "Y" }] },
+            template,
+        )
+
+        expect(result).toEqual({ valid: true, issues: [] })
+    })
+
+    it("should report missing mandatory fields and subfields", () => {
+        const result = recordValidator.validate({ "200": { f: "Autor" }, "606": [{ a: "X" }, { x: "Y" }] }, template)
+
+        expect(result.valid).toBe(false)
+        expect(result.issues).toEqual(
+            expect.arrayContaining([
+                expect.objectContaining({ severity: "error", tag: "001" }),
+                expect.objectContaining({ severity: "error", tag: "200", subfield: "a" }),
+                expect.objectContaining({ severity: "error", tag: "606", subfield: "a", occurrence: 1 }),
+                expect.objectContaining({ severity: "warning", tag: "606", subfield: "x", occurrence: 1 }),
+            ]),
+        )
+    })
+
+    it("should reject repeated values in non-repeatable fields and subfields", () => {
+        const result = recordValidator.validate(
+            { "001": "1", "200": [{ a: "Título1" }, { a: ["Título2", "Título3"] }] },
+            template,
+        )
+
+        expect(result.issues.filter((i) => i.severity === "error").map((i) => [i.tag, i.subfield])).toEqual([
+            ["200", undefined],
+            ["200", "a"],
+        ])
+    })
+
+    it("should flag invalid indicators and tags outside the template", () => {
+        const result = recordValidator.validate({ "001": "1", "200": { ind2: "??", a: "T" }, "999": "x" }, template)
+
+        expect(result.valid).toBe(false)
+        expect(result.issues).toEqual([
+            expect.objectContaining({ severity: "warning", tag: "999" }),
+            expect.objectContaining({ severity: "error", tag: "200", message: expect.stringContaining("ind2") }),
+        ])
+    })
+
+    it("should write the messages in the language of the dialog", () => {
+        const result = recordValidator.validate({ "200": { a: "T" }, "999": "x" }, template, "en")
+
+        expect(result.issues.map((issue) => issue.message)).toEqual([
+            "Field 999 does not exist in the template",
+            "Mandatory field 001 is not filled",
+        ])
+    })
+})
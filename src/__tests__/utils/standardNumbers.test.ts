@@ -0,0 +1,87 @@
+import { standardNumberService } from "@/lib/standard-numbers"
+
+describe("standardNumberService", () => {
+    it("should validate ISBN-10 and normalize it to ISBN-13", () => {
+        expect(standardNumberService.isbn("0-306-40615-2")).toEqual({
+            type: "ISBN",
+            valid: true,
+            normalized: "9780306406157",
+            display: "0-306-40615-2",
+        })
+        expect(standardNumberService.isbn("ISBN 080442957X").normalized).toBe("9780804429573")
+    })
+
+    it("should validate ISBN-13 and keep the hyphenated display form", () => {
+        const check = standardNumberService.isbn("978 0 306 40615 7")
+
+        expect(check.valid).toBe(true)
+        expect(check.normalized).toBe("9780306406157")
+        expect(check.display).toBe("978-0-306-40615-7")
+    })
+
+    it("should reject wrong check digits and malformed numbers", () => {
+        expect(standardNumberService.isbn("0-306-40615-3")).toEqual(
+            expect.objectContaining({ valid: false, error: expect.stringContaining("esperado 2") }),
+        )
+        expect(standardNumberService.isbn("9770306406157").valid).toBe(false)
+        expect(standardNumberService.isbn("12345").error).toContain("10 ou 13 dígitos")
+    })
+
+    it("should write the errors in the language of the dialog", () => {
+        expect(standardNumberService.check("010", "a", "0-306-40615-3", "en")?.error).toBe(
+            "The ISBN 0-306-40615-3 has an invalid check digit (expected 2)",
+        )
+        expect(standardNumberService.check("011", "a", "1234", "es")?.error).toContain("no es un ISSN válido")
+    })
+
+    it("should validate ISSN and always display it as NNNN-NNNN", () => {
+        expect(standardNumberService.issn("03178471")).toEqual(
+            expect.objectContaining({ valid: true, normalized: "03178471", display: "0317-8471" }),
+        )
+        expect(standardNumberService.issn("ISSN 2049-3630").valid).toBe(true)
+        expect(standardNumberService.issn("0317-8472").valid).toBe(false)
+    })
+
+    it("should only check 010$a and 011$a", () => {
+        expect(standardNumberService.check("010", "a", "123")?.valid).toBe(false)
+        expect(standardNumberService.check("010", "b", "broch.")).toBeNull()
+        expect(standardNumberService.comparisonKey("010", "a", "0306406152")).toBe(
+            standardNumberService.comparisonKey("010", "a", "978-0-306-40615-7"),
+        )
+    })
+
+    it("should normalize filled fields and drop invalid numbers", () => {
+        const { filledFields, rejected } = standardNumberService.normalizeFields({
+            "010": [{ a: "9780306406157", b: "broch." }, { a: "0-306-40615-3" }],
+            "011": { a: "03178471" },
+            "200": { a: "Título" },
+        })
+
+        expect(filledFields).toEqual({
+            "010": [{ a: "9780306406157", b: "broch." }],
+            "011": { a: "0317-8471" },
+            "200": { a: "Título" },
+        })
+        expect(rejected).toEqual([expect.objectContaining({ tag: "010", value: "0-306-40615-3", occurrenceRemoved: true })])
+    })
+
+    it("should check every number of a repeated subfield and reject values that are not text", () => {
+        expect(standardNumberService.check("010", "a", ["9780306406157", "0-306-40615-3"])?.valid).toBe(false)
+        expect(standardNumberService.check("010", "a", ["9780306406157", "0306406152"])?.valid).toBe(true)
+        expect(standardNumberService.check("010", "a", 9780306406157)?.valid).toBe(false)
+        expect(standardNumberService.check("011", "a", { issn: "0317-8471" })?.error).toContain("tem de ser um texto")
+
+        const { filledFields, rejected } = standardNumberService.normalizeFields({
+            "010": [{ a: ["9780306406157", "0-306-40615-3", "0306406152"] }, { a: 9780306406157 }],
+            "011": { a: "0317-8471", b: "impresso" },
+        })
+        expect(filledFields).toEqual({
+            "010": [{ a: ["9780306406157", "0306406152"] }],
+            "011": { a: "0317-8471", b: "impresso" },
+        })
+        expect(rejected.map((r) => [r.tag, r.value, r.occurrenceRemoved])).toEqual([
+            ["010", "0-306-40615-3", false],
+            ["010", "9780306406157", true],
+        ])
+    })
+})
@@ -0,0 +1,63 @@
+import { subfieldForm } from "@/lib/subfield-form"
+import type { DataField } from "@/app/types/unimarc"
+
+const languageField: DataField = {
+    id: "df1",
+    tag: "101",
+    repeatable: false,
+    mandatory: true,
+    translations: [{ id: "t1", language: "pt", name: "Língua", ind1Name: "Indicador de tradução" }],
+    subFieldDef: [
+        {
+            id: "sf1",
+            code: "a",
+            repeatable: true,
+            mandatory: true,
+            translations: [{ id: "st1", language: "pt", label: "Língua do texto", tips: ["Código ISO 639-2"], subfieldId: "sf1" }],
+            dataFieldId: "df1",
+            createdAt: "",
+        },
+        { id: "sf2", code: "c", repeatable: false, mandatory: false, dataFieldId: "df1", createdAt: "" },
+    ],
+    createdAt: "",
+}
+
+describe("subfieldForm", () => {
+    it("should list indicators and subfields with their names, tips and suggested codes", () => {
+        const codes = subfieldForm.getCodes(languageField)
+        expect(codes).toEqual(["ind1", "a", "c"])
+        expect(subfieldForm.getCodes(languageField, "all", "pt", "a")).toEqual(["a", "c"])
+
+        const [indicator, text, original] = subfieldForm.buildEntries(languageField, codes)
+        expect(indicator).toEqual({ code: "ind1", name: "Indicador de tradução", mandatory: false, repeatable: false, tips: [] })
+        expect(text).toEqual(
+            expect.objectContaining({ code: "a", name: "Língua do texto", mandatory: true, repeatable: true, tips: ["Código ISO 639-2"] }),
+        )
+        expect(text.suggestedCodes?.[0]).toEqual({ code: "por", label: "Português" })
+        expect(original.name).toBe("c")
+    })
+
+    it("should normalize the answers of the whole occurrence", () => {
+        const result = subfieldForm.check(languageField, ["ind1", "a", "c"], { ind1: "1", a: ["Português", "eng"], c: "" })
+
+        expect(result).toEqual({ valid: true, subfields: { ind1: "1", a: ["por", "eng"] }, errors: {} })
+    })
+
+    it("should report invalid answers per subfield", () => {
+        const result = subfieldForm.check(languageField, ["ind1", "a", "c"], { ind1: "12", a: "élfico", c: ["fre", "ger"], x: "?" })
+
+        expect(result.valid).toBe(false)
+        expect(Object.keys(result.errors).sort()).toEqual(["a", "c", "ind1", "x"])
+        expect(result.errors.c).toBe("O subcampo $c não é repetível")
+    })
+
+    it("should write the errors of the form in the language of the dialog", () => {
+        const result = subfieldForm.check(languageField, ["ind1", "a", "c"], { ind1: "12", a: "elvish", c: ["fre", "ger"] }, "en")
+
+        expect(result.errors).toEqual({
+            ind1: '"12" is not a valid indicator (use a single character or #)',
+            a: '"elvish" does not match any ISO 639-2 language code',
+            c: "Subfield $c is not repeatable",
+        })
+    })
+})
@@ -0,0 +1,78 @@
+import { subfieldRuleService } from "@/lib/subfield-rules"
+
+describe("subfieldRuleService", () => {
+    it("should accept ISBD publication dates and reject anything else", () => {
+        for (const date of ["1995", "[1995]", "[1995?]", "c1995", "[199-?]", "1995-2001", "s.d."]) {
+            expect(subfieldRuleService.check("210", "d", date)).toEqual({ valid: true })
+        }
+
+        const check = subfieldRuleService.check("210", "d", "no ano passado")
+        expect(check?.valid).toBe(false)
+        expect(check?.error).toContain("210$d")
+        expect(check?.error).toContain("data de publicação")
+    })
+
+    it("should apply ranges, enumerations, lengths and calendar dates", () => {
+        expect(subfieldRuleService.check("210", "d", "3020")?.error).toContain("fora do intervalo")
+        expect(subfieldRuleService.check("106", "a", "q")?.error).toContain("valores permitidos")
+        expect(subfieldRuleService.check("106", "a", "r")?.valid).toBe(true)
+        expect(subfieldRuleService.check("100", "a", "20261018d1995")?.error).toContain("em vez de 36")
+        expect(subfieldRuleService.check("801", "c", "20260231")?.error).toContain("data inexistente")
+        expect(subfieldRuleService.check("801", "c", "20260228")?.valid).toBe(true)
+    })
+
+    it("should only check targets with rules", () => {
+        expect(subfieldRuleService.check("200", "a", "qualquer título")).toBeNull()
+        expect(subfieldRuleService.check("215", "a", "muitas páginas")?.valid).toBe(false)
+        expect(subfieldRuleService.check("215", "a", "XII, 310 p.")?.valid).toBe(true)
+    })
+
+    it("should describe the rule and write the errors in the language of the dialog", () => {
+        expect(subfieldRuleService.describe("215", "d", "en")).toBe("dimensions in centimetres (e.g. 24 cm, 21 x 30 cm)")
+        expect(subfieldRuleService.describe("215", "d", "fr")).toBe("dimensões em centímetros (ex: 24 cm, 21 x 30 cm)")
+        expect(subfieldRuleService.check("106", "a", "q", "en")?.error).toBe(
+            '"q" is not valid in 106$a: is not one of the allowed values. Expected: physical medium designator (d, e, f, g, h, i, r or z)',
+        )
+        expect(subfieldRuleService.check("801", "c", "20260231", "es")?.error).toContain("fecha inexistente")
+    })
+
+    it("should check every value of a repeated subfield and reject values that are not text", () => {
+        expect(subfieldRuleService.check("700", "4", ["070", "tradutor"])?.error).toContain('"tradutor"')
+        expect(subfieldRuleService.check("700", "4", ["070", "730"])).toEqual({ valid: true })
+        expect(subfieldRuleService.check("210", "d", 1995)?.error).toContain("tem de ser um texto")
+        expect(subfieldRuleService.check("005", undefined, { data: "20261018" })?.valid).toBe(false)
+
+        const { filledFields, rejected } = subfieldRuleService.normalizeFields({
+            "005": 20261018120000,
+            "210": { a: "Lisboa", d: 1995 },
+            "700": { a: "Saramago", 4: ["070", { codigo: "730" }] },
+        })
+        expect(filledFields).toEqual({ "210": { a: "Lisboa" }, "700": { a: "Saramago", 4: ["070"] } })
+        expect(rejected.map((r) => [r.tag, r.subfield, r.value])).toEqual([
+            ["210", "d", "1995"],
+            ["700", "4", '{"codigo":"730"}'],
+            ["005", undefined, "20261018120000"],
+        ])
+    })
+
+    it("should drop auto-filled values that fail their rules", () => {
+        const { filledFields, rejected } = subfieldRuleService.normalizeFields({
+            "005": "ontem",
+            "210": [{ a: "Lisboa", d: "recentemente" }, { d: "antigamente" }],
+            "215": { a: "310 p.", d: "grande" },
+            "200": { a: "Título" },
+        })
+
+        expect(filledFields).toEqual({
+            "210": [{ a: "Lisboa" }],
+            "215": { a: "310 p." },
+            "200": { a: "Título" },
+        })
+        expect(rejected.map((r) => [r.tag, r.subfield, r.occurrenceRemoved])).toEqual([
+            ["210", "d", false],
+            ["210", "d", true],
+            ["215", "d", false],
+            ["005", undefined, true],
+        ])
+    })
+})
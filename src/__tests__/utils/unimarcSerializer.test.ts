@@ -0,0 +1,191 @@
+import { unimarcSerializer } from "@/lib/unimarc-serializer"
+import type { Template } from "@/app/types/unimarc"
+
+const template: Template = {
+    id: "temp1",
+    name: "Livro",
+    controlFields: [
+        { id: "cf1", tag: "001", repeatable: false, mandatory: true, translations: [], createdAt: "" },
+    ],
+    dataFields: [
+        {
+            id: "df1",
+            tag: "200",
+            repeatable: true,
+            mandatory: true,
+            translations: [],
+            subFieldDef: [
+                { id: "sf1", code: "a", repeatable: false, mandatory: true, dataFieldId: "df1", createdAt: "" },
+                { id: "sf2", code: "b", repeatable: false, mandatory: false, dataFieldId: "df1", createdAt: "" },
+                { id: "sf3", code: "f", repeatable: false, mandatory: false, dataFieldId: "df1", createdAt: "" },
+            ],
+            createdAt: "",
+        },
+        {
+            id: "df2",
+            tag: "102",
+            repeatable: false,
+            mandatory: false,
+            translations: [],
+            subFieldDef: [
+                { id: "sf4", code: "a", repeatable: true, mandatory: false, dataFieldId: "df2", createdAt: "" },
+                { id: "sf5", code: "b", repeatable: false, mandatory: false, dataFieldId: "df2", createdAt: "" },
+            ],
+            createdAt: "",
+        },
+    ],
+    createdAt: "",
+}
+
+describe("unimarcSerializer", () => {
+    it("should serialize control and data fields", () => {
+        const text = unimarcSerializer.serialize({ "001": "12345", "200": { a: "Título", f: "Autor" } }, template)
+        expect(text).toBe("001 12345\n200  $aTítulo$fAutor")
+    })
+
+    it("should put the record label first when one is given", () => {
+        const text = unimarcSerializer.serialize({ "001": "12345" }, template, "00000nam  2200000   450 ")
+        expect(text).toBe("LDR 00000nam  2200000   450 \n001 12345")
+    })
+
+    it("should generate one line per occurrence of a repeatable field", () => {
+        const text = unimarcSerializer.serialize(
+            { "200": [{ a: "Título1", b: "Subtítulo1" }, { a: "Título2", b: "não" }] },
+            template,
+        )
+        expect(text).toBe("200  $aTítulo1$bSubtítulo1\n200  $aTítulo2")
+    })
+
+    it("should repeat the subfield code for each value of a repeatable subfield", () => {
+        const text = unimarcSerializer.serialize({ "102": { a: ["ValorA1", "", "ValorA2"], b: "ValorB" } }, template)
+        expect(text).toBe("102  $aValorA1$aValorA2$bValorB")
+    })
+
+    it("should skip invalid values and empty occurrences", () => {
+        const text = unimarcSerializer.serialize({ "001": "n/a", "200": { a: "não", f: "" }, "102": { b: "Portugal" } }, template)
+        expect(text).toBe("102  $bPortugal")
+    })
+
+    it("should order fields by tag and subfields by template definition", () => {
+        const text = unimarcSerializer.serialize({ "200": { f: "Autor", a: "Título" }, "001": "1" }, template)
+        expect(text).toBe("001 1\n200  $aTítulo$fAutor")
+    })
+
+    it("should write indicators after the tag and keep them out of the subfields", () => {
+        const occurrences = unimarcSerializer.toOccurrences({ "200": { ind1: "1", a: "Título" } }, template)
+
+        expect(unimarcSerializer.formatText(occurrences)).toBe("2001 $aTítulo")
+        expect(occurrences[0].subfields).toEqual({ a: "Título" })
+        expect(unimarcSerializer.toRecordFields(occurrences)[0]).toEqual(expect.objectContaining({ ind1: "1", ind2: " " }))
+    })
+
+    it("should return normalized occurrences matching the serialized lines", () => {
+        const occurrences = unimarcSerializer.toOccurrences({ "001": "1", "200": [{ a: "A" }, { a: "B" }] }, template)
+        expect(occurrences.map((o) => [o.tag, o.fieldType, o.value, o.subfields])).toEqual([
+            ["001", "CONTROL", "1", null],
+            ["200", "DATA", null, { a: "A" }],
+            ["200", "DATA", null, { a: "B" }],
+        ])
+    })
+
+    it("should rebuild filledFields from occurrences using template repeatability", () => {
+        const { filledFields, unknownTags } = unimarcSerializer.fromOccurrences(
+            [
+                { tag: "001", fieldType: "CONTROL", value: "1", subfields: null },
+                { tag: "200", fieldType: "DATA", value: null, subfields: { a: "A" } },
+                { tag: "200", fieldType: "DATA", value: null, subfields: { a: "B" }, ind1: "1", ind2: " " },
+                { tag: "102", fieldType: "DATA", value: null, subfields: { a: "PT", b: ["X", "Y"] } },
+                { tag: "999", fieldType: "DATA", value: null, subfields: { a: "?" } },
+            ],
+            template,
+        )
+
+        expect(filledFields).toEqual({ "001": "1", "200": [{ a: "A" }, { ind1: "1", a: "B" }], "102": { a: ["PT"], b: "X" } })
+        expect(unknownTags).toEqual(["999"])
+    })
+
+    it("should rebuild filledFields from saved record fields", () => {
+        const filledFields = { "001": "1", "200": [{ ind1: "1", a: "A" }, { a: "B" }], "102": { a: ["PT"], b: "X" } }
+        const fields = unimarcSerializer.toRecordFields(unimarcSerializer.toOccurrences(filledFields, template))
+
+        expect(unimarcSerializer.fromRecordFields(fields, template)).toEqual(filledFields)
+    })
+
+    it("should store the provenance of each occurrence in the record fields and read it back", () => {
+        const ai = { source: "ai" as const, model: "gpt-4o" }
+        const filledFields = { "001": "1", "200": [{ a: "A" }, { a: "B" }] }
+        const provenance = { "001": [ai], "200": [ai, { source: "user" as const, replaced: ai }] }
+        const fields = unimarcSerializer.toRecordFields(unimarcSerializer.toOccurrences(filledFields, template, provenance))
+
+        expect(fields.map((field) => field.provenance)).toEqual([ai, ai, { source: "user", replaced: ai }])
+        expect(unimarcSerializer.fromRecordFieldsWithProvenance(fields, template)).toEqual({ filledFields, provenance })
+        // Fields saved before the provenance was recorded have none
+        const saved = fields.map((field) => ({ ...field, provenance: null }))
+        expect(unimarcSerializer.fromRecordFieldsWithProvenance(saved, template).provenance).toEqual({})
+    })
+
+    it("should serialize objects of tags outside the template as subfields and never as text", () => {
+        const occurrences = unimarcSerializer.toOccurrences({ "999": { a: "Nota local" }, "001": { a: "X" } }, template)
+
+        expect(occurrences).toEqual([
+            expect.objectContaining({ tag: "999", fieldType: "DATA", value: null, subfields: { a: "Nota local" } }),
+        ])
+        expect(unimarcSerializer.serialize({ "999": { a: "Nota local" } })).toBe("999  $aNota local")
+    })
+
+    it("should drop subfield values that are objects instead of saving them as text", () => {
+        const occurrences = unimarcSerializer.toOccurrences(
+            { "200": { a: { x: "Título" }, f: ["Autor", { nome: "Outro" }] }, "700": { a: { x: "Saramago" } } },
+            template,
+        )
+
+        expect(occurrences).toEqual([expect.objectContaining({ tag: "200", subfields: { f: ["Autor"] } })])
+        expect(unimarcSerializer.formatText(occurrences)).not.toContain("[object Object]")
+    })
+
+    it("should escape dollar signs in subfield values and read them back", () => {
+        const filledFields = { "001": "US$1", "200": [{ a: "Preço: $5 \\ 10$", f: "A$B" }] }
+        const text = unimarcSerializer.serialize(filledFields, template)
+
+        expect(text).toBe("001 US$1\n200  $aPreço: \\$5 \\\\ 10\\$$fA\\$B")
+        const parsed = unimarcSerializer.parseText(text, template)
+        expect(parsed.errors).toEqual([])
+        expect(parsed.filledFields).toEqual(filledFields)
+    })
+
+    it("should parse edited text back into filledFields", () => {
+        const text = [
+            "LDR 00000cam  2200000   450 ",
+            "001 12345",
+            "102  $aPT$aES$bLisboa",
+            "2001 $aTítulo1$bSubtítulo1",
+            "",
+            "200  $aTítulo2",
+        ].join("\n")
+
+        const { leader, filledFields, errors } = unimarcSerializer.parseText(text, template)
+
+        expect(errors).toEqual([])
+        expect(leader).toBe("00000cam  2200000   450 ")
+        expect(filledFields).toEqual({
+            "001": "12345",
+            "200": [{ ind1: "1", a: "Título1", b: "Subtítulo1" }, { a: "Título2" }],
+            "102": { a: ["PT", "ES"], b: "Lisboa" },
+        })
+        expect(unimarcSerializer.serialize(filledFields, template, leader!)).toBe(text.replace("\n\n", "\n"))
+    })
+
+    it("should report syntax and template errors by line", () => {
+        const text = ["001 1", "001 2", "20 $aX", "200  Título", "102  $bA$bB", "200  $zX", "999  $aX", "LDR 00000nam"].join("\n")
+
+        expect(unimarcSerializer.parseText(text, template).errors).toEqual([
+            { line: 2, message: "O campo 001 não é repetível" },
+            { line: 3, message: 'Tag inválida: "20 "' },
+            { line: 4, message: "O campo 200 não tem subcampos (ex: 200  $a...)" },
+            { line: 5, message: "O subcampo $b do campo 102 não é repetível" },
+            { line: 6, message: "O subcampo $z não existe no campo 200" },
+            { line: 7, message: "O campo 999 não existe no template" },
+            { line: 8, message: "A etiqueta de registo (LDR) tem de ser a primeira linha" },
+        ])
+    })
+})
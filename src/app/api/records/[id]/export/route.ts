@@ -0,0 +1,71 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { RecordStatus } from "@prisma/client"
+import { databaseService } from "@/lib/database"
+import { iso2709Codec } from "@/lib/iso2709"
+import { marcXmlCodec } from "@/lib/marcxml"
+import { marcCrosswalk } from "@/lib/marc-crosswalk"
+
+export const runtime = "nodejs"
+
+/**
+ * Exportação de um registo: GET /api/records/[id]/export?format=iso2709|marcxml&schema=unimarc|marc21
+ * Só registos completos: um rascunho dá 404, como um registo inexistente.
+ * Com schema=marc21, as tags sem correspondência são indicadas no cabeçalho X-Unmapped-Tags.
+ */
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+    try {
+        const { searchParams } = new URL(req.url)
+        const format = searchParams.get("format") || "iso2709"
+        const schema = searchParams.get("schema") || "unimarc"
+
+        if (format !== "iso2709" && format !== "marcxml") {
+            return NextResponse.json({ error: `Formato não suportado: ${format}` }, { status: 400 })
+        }
+
+        if (schema !== "unimarc" && schema !== "marc21") {
+            return NextResponse.json({ error: `Esquema não suportado: ${schema}` }, { status: 400 })
+        }
+
+        // Os rascunhos não são exportados
+        const stored = await databaseService.getRecord(params.id, RecordStatus.COMPLETE)
+
+        if (!stored) {
+            return NextResponse.json({ error: "Registro não encontrado" }, { status: 404 })
+        }
+
+        const { unmappedTags = [], ...record } =
+            schema === "marc21" ? { id: stored.id, ...marcCrosswalk.exportAsMarc21(stored) } : { ...stored, unmappedTags: [] }
+        // Tags sem correspondência em MARC21 (omitidas do ficheiro)
+        const reportHeaders: Record<string, string> = unmappedTags.length > 0 ? { "X-Unmapped-Tags": unmappedTags.join(",") } : {}
+
+        if (format === "marcxml") {
+            return new NextResponse(marcXmlCodec.encodeCollection([record]), {
+                headers: {
+                    "Content-Type": "application/xml; charset=utf-8",
+                    "Content-Disposition": `attachment; filename="${record.id}.xml"`,
+                    ...reportHeaders,
+                },
+            })
+        }
+
+        // Registos que excedem os comprimentos do formato ISO 2709 não são exportáveis
+        let encoded: string
+        try {
+            encoded = iso2709Codec.encodeRecord(record)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            return NextResponse.json({ error: `O registo não cabe no formato ISO 2709: ${message}` }, { status: 422 })
+        }
+
+        return new NextResponse(encoded, {
+            headers: {
+                "Content-Type": "application/marc; charset=utf-8",
+                "Content-Disposition": `attachment; filename="${record.id}.mrc"`,
+                ...reportHeaders,
+            },
+        })
+    } catch (error) {
+        console.error("Erro ao exportar registro:", error)
+        return NextResponse.json({ error: "Erro ao exportar registro" }, { status: 500 })
+    }
+}
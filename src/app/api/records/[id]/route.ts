@@ -1,5 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { databaseService } from "@/lib/database"
+import { templateCache } from "@/lib/template-cache"
+import { unimarcSerializer } from "@/lib/unimarc-serializer"
+import { recordValidator } from "@/lib/record-validator"
+import { fieldProvenanceService } from "@/lib/field-provenance"
 
 export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
     try {
@@ -24,4 +28,74 @@ export async function DELETE(req: NextRequest, { params }: { params: { id: strin
         console.error("Erro ao remover registro:", error)
         return NextResponse.json({ error: "Erro ao remover registro" }, { status: 500 })
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Edição do registo como texto UNIMARC: PUT /api/records/[id] com { textUnimarc, language? }
+ *
+ * O texto é lido de volta para filledFields (ver UnimarcSerializer.parseText) e o registo é
+ * regravado com databaseService.updateRecord. Erros de sintaxe são devolvidos por linha (400)
+ * e registos com erros de validação (ver RecordValidator) não são gravados.
+ * Os valores que não mudaram mantêm a origem gravada; os alterados passam a ser do utilizador.
+ */
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+    let body: { textUnimarc?: unknown; language?: string }
+    try {
+        body = await req.json()
+    } catch {
+        return NextResponse.json({ error: "O corpo do pedido não é JSON válido" }, { status: 400 })
+    }
+
+    try {
+        const { textUnimarc, language = "pt" } = body ?? {}
+
+        if (typeof textUnimarc !== "string" || !textUnimarc.trim()) {
+            return NextResponse.json({ error: "O texto UNIMARC é obrigatório" }, { status: 400 })
+        }
+
+        const record = await databaseService.getRecord(params.id)
+        if (!record) {
+            return NextResponse.json({ error: "Registro não encontrado" }, { status: 404 })
+        }
+
+        const { templates } = await templateCache.getTemplates()
+        const template = templates.find((t) => t.id === record.recordTemplateId)
+        if (!template) {
+            return NextResponse.json({ error: "Template não encontrado" }, { status: 404 })
+        }
+
+        const { leader, filledFields, errors } = unimarcSerializer.parseText(textUnimarc, template)
+        if (errors.length > 0) {
+            return NextResponse.json({ error: "O texto UNIMARC tem erros", lineErrors: errors }, { status: 400 })
+        }
+        if (Object.keys(filledFields).length === 0) {
+            return NextResponse.json({ error: "O registo não tem campos" }, { status: 400 })
+        }
+
+        const validation = recordValidator.validate(filledFields, template)
+        if (!validation.valid) {
+            return NextResponse.json(
+                { error: "O registo tem erros de validação", validationIssues: validation.issues },
+                { status: 400 },
+            )
+        }
+
+        // Origem dos valores: a gravada, atualizada nos campos que o texto alterou
+        // (campos iguais ficam como estavam, mesmo os gravados antes de a origem ser registada)
+        const stored = unimarcSerializer.fromRecordFieldsWithProvenance(record.fields, template)
+        const provenance = Object.keys(filledFields)
+            .filter((tag) => JSON.stringify(stored.filledFields[tag]) !== JSON.stringify(filledFields[tag]))
+            .reduce(
+                (tracked, tag) =>
+                    fieldProvenanceService.track(tracked, tag, stored.filledFields[tag], filledFields[tag], { source: "user" }),
+                stored.provenance,
+            )
+
+        await databaseService.updateRecord(params.id, filledFields, template, leader, language, provenance)
+
+        return NextResponse.json(await databaseService.getRecord(params.id))
+    } catch (error) {
+        console.error("Erro ao atualizar registro:", error)
+        return NextResponse.json({ error: "Erro ao atualizar registro" }, { status: 500 })
+    }
+}
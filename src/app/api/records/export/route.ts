@@ -0,0 +1,82 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { databaseService } from "@/lib/database"
+import { iso2709Codec } from "@/lib/iso2709"
+import { marcXmlCodec } from "@/lib/marcxml"
+import { marcCrosswalk } from "@/lib/marc-crosswalk"
+
+export const runtime = "nodejs"
+
+/**
+ * Exportação em massa: GET /api/records/export?format=iso2709|marcxml&schema=unimarc|marc21&ids=id1,id2
+ * Sem "ids", exporta todos os registos do catálogo num único ficheiro; os rascunhos nunca são exportados.
+ * Com schema=marc21, os registos são convertidos com o crosswalk: campos sem correspondência são omitidos
+ * e as suas tags indicadas no cabeçalho X-Unmapped-Tags (separadas por vírgulas).
+ */
+export async function GET(req: NextRequest) {
+    try {
+        const { searchParams } = new URL(req.url)
+        const format = searchParams.get("format") || "iso2709"
+        const schema = searchParams.get("schema") || "unimarc"
+        const ids = searchParams.get("ids")?.split(",").map((id) => id.trim()).filter(Boolean)
+
+        if (format !== "iso2709" && format !== "marcxml") {
+            return NextResponse.json({ error: `Formato não suportado: ${format}` }, { status: 400 })
+        }
+
+        if (schema !== "unimarc" && schema !== "marc21") {
+            return NextResponse.json({ error: `Esquema não suportado: ${schema}` }, { status: 400 })
+        }
+
+        const stored = await databaseService.getRecordsForExport(ids)
+        const converted = schema === "marc21" ? stored.map((record) => marcCrosswalk.exportAsMarc21(record)) : null
+        const records = converted ?? stored
+        // Tags UNIMARC sem correspondência em MARC21 (omitidas do ficheiro), indicadas no cabeçalho X-Unmapped-Tags
+        const unmappedTags = [...new Set((converted ?? []).flatMap((record) => record.unmappedTags))].sort()
+        const reportHeaders: Record<string, string> = unmappedTags.length > 0 ? { "X-Unmapped-Tags": unmappedTags.join(",") } : {}
+
+        if (records.length === 0) {
+            return NextResponse.json({ error: "Nenhum registro encontrado para exportar" }, { status: 404 })
+        }
+
+        const fileName = `catalogo-${schema === "marc21" ? "marc21-" : ""}${new Date().toISOString().slice(0, 10)}`
+
+        if (format === "marcxml") {
+            return new NextResponse(marcXmlCodec.encodeCollection(records), {
+                headers: {
+                    "Content-Type": "application/xml; charset=utf-8",
+                    "Content-Disposition": `attachment; filename="${fileName}.xml"`,
+                    ...reportHeaders,
+                },
+            })
+        }
+
+        // Registos que excedem os comprimentos do formato ISO 2709 não são exportáveis: são indicados
+        // em vez de gerar um ficheiro com diretórios corrompidos
+        const encoded: string[] = []
+        const notExportable: Array<{ id: string; error: string }> = []
+        records.forEach((record, index) => {
+            try {
+                encoded.push(iso2709Codec.encodeRecord(record))
+            } catch (error) {
+                notExportable.push({ id: stored[index].id, error: error instanceof Error ? error.message : String(error) })
+            }
+        })
+        if (notExportable.length > 0) {
+            return NextResponse.json(
+                { error: "Há registos que não cabem no formato ISO 2709", notExportable },
+                { status: 422 },
+            )
+        }
+
+        return new NextResponse(encoded.join(""), {
+            headers: {
+                "Content-Type": "application/marc; charset=utf-8",
+                "Content-Disposition": `attachment; filename="${fileName}.mrc"`,
+                ...reportHeaders,
+            },
+        })
+    } catch (error) {
+        console.error("Erro ao exportar registros:", error)
+        return NextResponse.json({ error: "Erro ao exportar registros" }, { status: 500 })
+    }
+}
@@ -0,0 +1,73 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { templateCache } from "@/lib/template-cache"
+import { marcXmlCodec } from "@/lib/marcxml"
+import { recordImportService } from "@/lib/record-import"
+import type { ImportedRecord } from "@/lib/unimarc-serializer"
+
+export const runtime = "nodejs"
+
+/**
+ * Importação de registos: POST /api/records/import?templateId=...&format=iso2709|marcxml&schema=unimarc|marc21&language=pt
+ *
+ * O corpo do pedido é o conteúdo do ficheiro: ISO 2709 (.mrc) ou XML (<collection> ou <record>).
+ * Sem "format", o formato é detetado pelo conteúdo (XML começa por "<").
+ * Com schema=marc21, os registos são convertidos para UNIMARC antes de serem mapeados.
+ * Cada registo é mapeado para o template indicado, verificado contra duplicados e gravado;
+ * a resposta é um relatório com registos criados, duplicados ignorados e campos fora do template.
+ */
+export async function POST(req: NextRequest) {
+    try {
+        const { searchParams } = new URL(req.url)
+        const templateId = searchParams.get("templateId")
+        const language = searchParams.get("language") || "pt"
+        const schema = searchParams.get("schema") || "unimarc"
+
+        if (!templateId) {
+            return NextResponse.json({ error: "O parâmetro templateId é obrigatório" }, { status: 400 })
+        }
+
+        if (schema !== "unimarc" && schema !== "marc21") {
+            return NextResponse.json({ error: `Esquema não suportado: ${schema}` }, { status: 400 })
+        }
+
+        const { templates } = await templateCache.getTemplates()
+        const template = templates.find((t) => t.id === templateId)
+
+        if (!template) {
+            return NextResponse.json({ error: "Template não encontrado" }, { status: 404 })
+        }
+
+        const data = Buffer.from(await req.arrayBuffer())
+        if (data.length === 0) {
+            return NextResponse.json({ error: "Ficheiro vazio" }, { status: 400 })
+        }
+
+        const format = searchParams.get("format") || (data.toString("utf8").trimStart().startsWith("<") ? "marcxml" : "iso2709")
+
+        if (format === "iso2709") {
+            const report = await recordImportService.importIso2709(data, template, language, schema)
+            return NextResponse.json(report)
+        }
+
+        if (format === "marcxml") {
+            // Só os erros de leitura do documento são do pedido; falhas ao gravar seguem para o erro 500
+            let records: ImportedRecord[]
+            try {
+                records = marcXmlCodec.parseCollection(data.toString("utf8"))
+            } catch (error) {
+                return NextResponse.json(
+                    { error: "XML inválido", details: error instanceof Error ? error.message : "Erro desconhecido" },
+                    { status: 400 },
+                )
+            }
+
+            const report = await recordImportService.importMarcXml(records, template, language, schema)
+            return NextResponse.json(report)
+        }
+
+        return NextResponse.json({ error: `Formato não suportado: ${format}` }, { status: 400 })
+    } catch (error) {
+        console.error("Erro ao importar registros:", error)
+        return NextResponse.json({ error: "Erro ao importar registros" }, { status: 500 })
+    }
+}
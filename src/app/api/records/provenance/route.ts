@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { databaseService } from "@/lib/database"
+
+/**
+ * Origem dos valores dos registos gravados: GET /api/records/provenance
+ *
+ * A resposta é { values, unknown, accuracy }: número de valores por origem (ai, user, import),
+ * valores gravados antes de a origem ser registada e, para cada origem automática (por modelo,
+ * na IA), os valores mantidos, os corrigidos pelo utilizador e a exatidão.
+ */
+export async function GET() {
+    try {
+        const report = await databaseService.getProvenanceReport()
+        return NextResponse.json(report)
+    } catch (error) {
+        console.error("Erro ao calcular a origem dos valores:", error)
+        return NextResponse.json({ error: "Erro ao calcular a origem dos valores" }, { status: 500 })
+    }
+}
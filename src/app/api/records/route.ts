@@ -1,4 +1,5 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { RecordStatus } from "@prisma/client"
 import { databaseService } from "@/lib/database"
 
 export async function GET(req: NextRequest) {
@@ -6,8 +7,10 @@ export async function GET(req: NextRequest) {
         const { searchParams } = new URL(req.url)
         const page = Number.parseInt(searchParams.get("page") || "1")
         const limit = Number.parseInt(searchParams.get("limit") || "20")
+        // ?status=draft lista os rascunhos do diálogo de catalogação
+        const status = searchParams.get("status") === "draft" ? RecordStatus.DRAFT : RecordStatus.COMPLETE
 
-        const result = await databaseService.listRecords(page, limit)
+        const result = await databaseService.listRecords(page, limit, status)
 
         return NextResponse.json(result)
     } catch (error) {
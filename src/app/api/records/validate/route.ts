@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { templateCache } from "@/lib/template-cache"
+import { recordValidator } from "@/lib/record-validator"
+import { unimarcSerializer } from "@/lib/unimarc-serializer"
+
+/**
+ * Validação de registos contra um template: POST /api/records/validate
+ *
+ * Corpo: { templateId, filledFields } ou { templateId, textUnimarc }.
+ * O texto UNIMARC é lido com UnimarcSerializer.parseText; erros de sintaxe são devolvidos
+ * em lineErrors e tornam o registo inválido. A resposta é { valid, issues, lineErrors? }.
+ */
+export async function POST(req: NextRequest) {
+    let body: { templateId?: string; filledFields?: Record<string, unknown>; textUnimarc?: string }
+    try {
+        body = await req.json()
+    } catch {
+        return NextResponse.json({ error: "O corpo do pedido não é JSON válido" }, { status: 400 })
+    }
+
+    try {
+        const { templateId, filledFields, textUnimarc } = body ?? {}
+
+        if (!templateId) {
+            return NextResponse.json({ error: "O parâmetro templateId é obrigatório" }, { status: 400 })
+        }
+
+        const hasFields = filledFields && typeof filledFields === "object" && !Array.isArray(filledFields)
+        if (!hasFields && typeof textUnimarc !== "string") {
+            return NextResponse.json({ error: "Indique filledFields ou textUnimarc" }, { status: 400 })
+        }
+
+        const { templates } = await templateCache.getTemplates()
+        const template = templates.find((t) => t.id === templateId)
+
+        if (!template) {
+            return NextResponse.json({ error: "Template não encontrado" }, { status: 404 })
+        }
+
+        if (hasFields) {
+            return NextResponse.json(recordValidator.validate(filledFields, template))
+        }
+
+        // Sem filledFields, textUnimarc é um texto (verificado acima)
+        const parsed = unimarcSerializer.parseText(textUnimarc!, template)
+        const result = recordValidator.validate(parsed.filledFields, template)
+        return NextResponse.json({
+            valid: result.valid && parsed.errors.length === 0,
+            issues: result.issues,
+            lineErrors: parsed.errors,
+        })
+    } catch (error) {
+        console.error("Erro ao validar registo:", error)
+        return NextResponse.json({ error: "Erro ao validar registo" }, { status: 500 })
+    }
+}
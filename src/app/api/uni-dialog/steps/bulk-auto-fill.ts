@@ -0,0 +1,298 @@
+import type { CatalogResponse } from "@/app/types/unimarc"
+import { fieldInference } from "@/lib/field-heuristics"
+import { promptOptimizer } from "@/lib/prompt-optimizer"
+import { isValidFieldValue } from "@/lib/is-valid-field-value"
+import { BLANK_INDICATOR, indicatorService } from "@/lib/indicators"
+import { standardNumberService } from "@/lib/standard-numbers"
+import { codedValueService } from "@/lib/coded-values"
+import { subfieldRuleService } from "@/lib/subfield-rules"
+import { fieldPriority } from "@/lib/field-priority"
+import { JsonObjectStreamParser } from "@/lib/json-object-stream"
+import { CONFIDENCE_KEY, fieldConfidenceService } from "@/lib/field-confidence"
+import { fieldProvenanceService } from "@/lib/field-provenance"
+import type { DialogContext, StepResponse } from "./context"
+
+/**
+ * STEP 2: Bulk Auto-Filling
+ * Uses AI to automatically fill as many fields as possible based on the item description and
+ * selected template, then moves on to field filling (returns undefined) to ask the first remaining field
+ */
+export async function handleBulkAutoFill(ctx: DialogContext): Promise<StepResponse> {
+    const { state, respond, description, language, messages, onProgress, openai } = ctx
+    const { stream } = ctx.request
+
+    console.log("=== INICIANDO PREENCHIMENTO AUTOMÁTICO EM MASSA ===")
+    // Safety check - should always have a template at this point
+    if (!state.currentTemplate) {
+        console.log("ERROR: No current template found")
+        return respond(
+            {
+                type: "error",
+                error: messages.templateNotFound,
+            } as CatalogResponse,
+            { status: 400 },
+        )
+    }
+
+    // Log template details for debugging
+    console.log("Current template for bulk fill:", state.currentTemplate.name)
+    console.log("Template has control fields:", state.currentTemplate.controlFields.length)
+    console.log("Template has data fields:", state.currentTemplate.dataFields.length)
+
+    try {
+        // Build optimized prompt for bulk field filling
+        const { prompt, systemMessage, maxTokens, temperature, model } = promptOptimizer.buildPrompt(
+            "bulk-field-filling",       // Specific prompt type for bulk filling
+            description,        // Item description
+            { currentTemplate: state.currentTemplate, language },       // Template context and language
+        )
+
+        // Logging for monitoring (truncated for readability)
+        console.log("Bulk filling prompt:", prompt.substring(0, 200) + "...")
+        console.log("Using model:", model)
+        onProgress({ stage: "bulk-auto-fill", message: messages.autoFilling })
+
+        const chatMessages = [
+            { role: "system" as const, content: systemMessage },        // System instructions
+            { role: "user" as const, content: prompt },     // Use query with template info
+        ]
+
+        // Call OpenAI to generate field values in bulk
+        let aiResponse = ""
+        if (stream) {
+            // Streaming mode: report each field as soon as its value is complete in the AI output
+            const parser = new JsonObjectStreamParser()
+            const chunks = await openai.chat.completions.create({
+                model,
+                messages: chatMessages,
+                temperature,
+                max_tokens: maxTokens,
+                stream: true,
+            })
+            for await (const chunk of chunks) {
+                const content = chunk.choices[0]?.delta?.content ?? ""
+                aiResponse += content
+                for (const [tag, value] of parser.push(content)) {
+                    if (tag === CONFIDENCE_KEY) continue
+                    onProgress({ stage: "field-parsed", message: messages.fieldParsed(tag), field: tag, value })
+                }
+            }
+            aiResponse = aiResponse.trim()
+        } else {
+            const completion = await openai.chat.completions.create({
+                model,
+                messages: chatMessages,
+                temperature,
+                max_tokens: maxTokens,
+            })
+            aiResponse = completion.choices[0]?.message?.content?.trim() || ""
+        }
+
+        // Extract and process AI response
+        console.log("AI Response for bulk filling:", aiResponse)
+
+        // Parse the JSON response from AI
+        let bulkFilledFields: Record<string, unknown> = {}
+        // Confidence of each value, sent by the AI next to the fields ("_confidence")
+        let aiConfidence: Record<string, number> = {}
+        try {
+            // Clean the response by removing markdown code block markers
+            const cleanResponse = aiResponse.replace(/```json\n?|\n?```/g, "").trim()
+            const extracted = fieldConfidenceService.extract(JSON.parse(cleanResponse))     // Parse JSON
+            bulkFilledFields = extracted.fields
+            aiConfidence = extracted.confidence
+            console.log("Parsed bulk filled fields:", bulkFilledFields)
+            console.log("Confidence of the bulk filled values:", aiConfidence)
+        } catch (parseError) {
+            // Handle JSON parsing errors gracefully
+            console.warn("Erro ao fazer parse do JSON da OpenAI:", parseError)
+            console.warn("Resposta original:", aiResponse)
+        }
+
+        // Validate template fields for debugging validation process
+        const validatedFields: Record<string, unknown> = {}
+        let autoFilledCount = 0
+
+        console.log(
+            "Template control fields for validation:",
+            state.currentTemplate.controlFields.map((f) => f.tag),
+        )
+        console.log(
+            "Template data fields for validation:",
+            state.currentTemplate.dataFields.map((f) => f.tag),
+        )
+
+        // Iterate through all AI-generated field values
+        for (const [tag, value] of Object.entries(bulkFilledFields)) {
+            // Find the field definition in template
+            const fieldDef = [...state.currentTemplate.controlFields, ...state.currentTemplate.dataFields].find(
+                (f) => f.tag === tag,
+            )
+            // Skip if field doesn't exist in template
+            if (!fieldDef) {
+                console.warn(`Campo ${tag} não existe no template, ignorando`)
+                continue
+            }
+
+            // Log validation details  for debugging
+            console.log(
+                `Validating field ${tag}. Value: ${JSON.stringify(value)}. Is valid: ${isValidFieldValue(value, fieldDef)}. Field is repeatable: ${fieldDef.repeatable}`,
+            )
+
+            // Process only valid field values
+            if (isValidFieldValue(value, fieldDef)) {
+                // Handle object values (typically data fields with subfields)
+                if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+                    // Filter out invalid subfields
+                    const filteredValue: Record<string, unknown> = {}
+                    for (const [subcode, subvalue] of Object.entries(value)) {
+                        if (indicatorService.isIndicatorKey(subcode)) {
+                            // Indicators proposed by the AI are kept only when valid and not blank
+                            const indicator = indicatorService.normalize(subvalue)
+                            if (indicator && indicator !== BLANK_INDICATOR) filteredValue[subcode] = indicator
+                        } else if (isValidFieldValue(subvalue)) {
+                            filteredValue[subcode] = subvalue
+                        }
+                    }
+                    // Only add if we have valid subfields (indicators alone are not enough)
+                    if (indicatorService.hasSubfields(filteredValue)) {
+                        if (fieldDef.repeatable) {
+                            // Initialize array if needed for repeatable fields
+                            if (!Array.isArray(validatedFields[tag])) {
+                                validatedFields[tag] = []
+                            }
+                            ; (validatedFields[tag] as unknown[]).push(filteredValue)
+                        } else {
+                            validatedFields[tag] = filteredValue
+                        }
+                        autoFilledCount++
+                    }
+                } else if (Array.isArray(value)) {
+                    // Handle arrays for repeatable fields
+                    if (fieldDef.repeatable) {
+                        validatedFields[tag] = []
+                        for (const item of value as unknown[]) {
+                            if (typeof item === "object" && item !== null) {
+                                // Array of subfield objects
+                                const filteredItem: Record<string, unknown> = {}
+                                for (const [subcode, subvalue] of Object.entries(item)) {
+                                    if (indicatorService.isIndicatorKey(subcode)) {
+                                        const indicator = indicatorService.normalize(subvalue)
+                                        if (indicator && indicator !== BLANK_INDICATOR) filteredItem[subcode] = indicator
+                                    } else if (isValidFieldValue(subvalue)) {
+                                        filteredItem[subcode] = subvalue
+                                    }
+                                }
+                                if (indicatorService.hasSubfields(filteredItem)) {
+                                    ; (validatedFields[tag] as unknown[]).push(filteredItem)
+                                    autoFilledCount++
+                                }
+                            } else {
+                                // Array of simple values
+                                if (isValidFieldValue(item)) {
+                                    ; (validatedFields[tag] as unknown[]).push(item)
+                                    autoFilledCount++
+                                }
+                            }
+                        }
+                    } else {
+                        console.warn(`Campo ${tag} não é repetível, mas recebeu um array. Ignorando array.`)
+                    }
+                } else {
+                    // Simple field value (not an object or array)
+                    if (fieldDef.repeatable) {
+                        if (!Array.isArray(validatedFields[tag])) {
+                            validatedFields[tag] = []
+                        }
+                        ; (validatedFields[tag] as unknown[]).push(value)
+                    } else {
+                        validatedFields[tag] = value
+                    }
+                    autoFilledCount++
+                }
+                console.log(`Campo ${tag} preenchido automaticamente:`, value)
+            } else {
+                console.log(`Campo ${tag} com valor inválido, será perguntado ao utilizador:`, value)
+            }
+        }
+
+        // Standard numbers (ISBN in 010$a, ISSN in 011$a) are kept only with valid check digits,
+        // in their display form; rejected occurrences are asked to the user instead
+        const standardNumbers = standardNumberService.normalizeFields(validatedFields)
+        for (const rejected of standardNumbers.rejected) {
+            console.warn(`Número normalizado rejeitado no campo ${rejected.tag}: ${rejected.error}`)
+            if (rejected.occurrenceRemoved) autoFilledCount--
+        }
+
+        // Coded values (languages in 101, country in 102, cataloguing language in 100$a) must come
+        // from their code lists; names like "português" are converted and unknown values dropped
+        const codedValues = codedValueService.normalizeFields(standardNumbers.filledFields)
+        for (const rejected of codedValues.rejected) {
+            console.warn(`Valor codificado rejeitado no campo ${rejected.tag}$${rejected.subfield}: ${rejected.error}`)
+            if (rejected.occurrenceRemoved) autoFilledCount--
+        }
+
+        // Values that fail the typed subfield rules (dates, extent, URLs...) are dropped and asked instead
+        const ruleChecked = subfieldRuleService.normalizeFields(codedValues.filledFields)
+        for (const rejected of ruleChecked.rejected) {
+            console.warn(`Valor rejeitado pelas regras do campo ${rejected.tag}: ${rejected.error}`)
+            if (rejected.occurrenceRemoved) autoFilledCount--
+        }
+        const checkedFields = ruleChecked.filledFields
+
+        // Determine which fields still need to be filled
+        const allTemplateFields = fieldInference.getAllTemplateFields(state.currentTemplate)
+
+        // Log field information for debugging
+        console.log("All template fields (from inference):", allTemplateFields)
+        console.log("Validated fields after bulk fill:", Object.keys(checkedFields))
+        const remainingFields = allTemplateFields.filter((field) => !(field in checkedFields))
+        console.log("Remaining fields after bulk fill (before state update):", remainingFields)
+
+        // Update state with results of bulk filling
+        // In "mandatory" mode only the mandatory fields are queued; optional ones are offered in groups at the end
+        const fieldsToAsk = fieldPriority.getFieldsToAsk(state.currentTemplate, remainingFields, state.mode)
+        state.filledFields = checkedFields
+        state.remainingFields = fieldsToAsk.fields
+        state.optionalGroups = fieldsToAsk.optionalGroups
+        state.autoFilledCount = autoFilledCount
+        // Confidence is kept only for the values that were accepted; values below the configured
+        // threshold are shown to the user to confirm before any other question
+        state.fieldConfidence = fieldConfidenceService.forFields(aiConfidence, checkedFields)
+        state.confirmingFields = fieldConfidenceService.fieldsToConfirm(state.fieldConfidence)
+        // Every accepted value is recorded as proposed by the model that filled it
+        state.provenance = fieldProvenanceService.forFields(checkedFields, { source: "ai", model })
+        state.step = "field-filling"        // Advance to the next step
+        onProgress({
+            stage: "bulk-auto-filled",
+            message: messages.autoFilledCount(autoFilledCount),
+            count: autoFilledCount,
+        })
+
+        // Return response based on whether any fields were auto-filled
+        if (autoFilledCount > 0) {
+            console.log("=== RETURNING BULK AUTO-FILLED RESPONSE ===")
+            return respond({
+                type: "bulk-auto-filled",
+                message: messages.autoFilledCount(autoFilledCount),
+                filledFields: checkedFields,        // Values that passed every check (rejected ones are asked instead)
+                conversationState: state,
+            } as CatalogResponse)
+        } else {
+            // If no fields were auto-filled, continue to manual filling
+            console.log("=== NO FIELDS AUTO-FILLED, CONTINUING TO MANUAL FILLING ===")
+            state.step = "field-filling"
+        }
+    } catch (error) {
+        // Error handling for bulk fill process
+        console.error("Erro no preenchimento automático em massa:", error)
+        // On error, get all template fields and proceed with manual filling
+        const allTemplateFields = fieldInference.getAllTemplateFields(state.currentTemplate)
+        const fieldsToAsk = fieldPriority.getFieldsToAsk(state.currentTemplate, allTemplateFields, state.mode)
+        state.remainingFields = fieldsToAsk.fields
+        state.optionalGroups = fieldsToAsk.optionalGroups
+        state.step = "field-filling"
+    }
+
+    return undefined
+}
@@ -0,0 +1,199 @@
+import type { CatalogResponse, ConversationState } from "@/app/types/unimarc"
+import { recordLeaderService } from "@/lib/record-leader"
+import { indicatorService } from "@/lib/indicators"
+import { recordValidator } from "@/lib/record-validator"
+import { fieldConfidenceService } from "@/lib/field-confidence"
+import { fieldProvenanceService } from "@/lib/field-provenance"
+import { canUndo, type DialogContext, type StepResponse } from "./context"
+
+/**
+ * Review screen with every filled field, the AI values with low confidence and the editable record label
+ * Used by __REVIEW_FIELDS__, __EDIT_LEADER__, records that fail validation and when a saved record is opened for editing
+ */
+export function reviewFieldsDisplay(state: ConversationState): CatalogResponse {
+    // States created before the leader existed get one derived from the template
+    state.leader = recordLeaderService.normalize(state.leader, recordLeaderService.fromTemplate(state.currentTemplate))
+
+    return {
+        type: "review-fields-display",
+        filledFields: state.filledFields,       // All completed fields
+        leader: state.leader,       // Current record label
+        leaderPositions: recordLeaderService.describe(state.leader),        // Editable leader positions
+        lowConfidence: fieldConfidenceService.lowConfidence(state.fieldConfidence),     // AI values to check
+        conversationState: state,       // Upload state for client to persist
+    } as CatalogResponse
+}
+
+/**
+ * Special commands sent as the user response: undo the last answer, skip the remaining optional
+ * fields, review the filled fields and edit a field or the record label
+ * Returns undefined when the request is not a command, or when the command moved the state back
+ * to field filling to ask the next field
+ */
+export async function handleCommand(ctx: DialogContext): Promise<StepResponse> {
+    const { state, session, history, messages, respond } = ctx
+    const { userResponse, fieldToEdit, leaderEdit } = ctx.request
+
+    // Handle special command to undo the last answer while filling fields
+    // The state from before that answer is restored and its question is asked again, so only
+    // that answer is reverted (a subfield, a repeat confirmation or a skipped field)
+    if (userResponse === "__UNDO__") {
+        console.log("=== UNDOING LAST ANSWER ===")
+        const previous = canUndo(state, history) ? history.pop() : undefined
+        if (!previous) {
+            return respond(
+                {
+                    ...(session.lastResponse ?? { type: "error" }),
+                    error: messages.nothingToUndo,
+                } as CatalogResponse,
+                { status: 400 },        // HTTP 400 Bad Request
+            )
+        }
+
+        return respond({ ...previous.response, conversationState: previous.state } as CatalogResponse)
+    }
+
+    // Handle special command to stop asking once every mandatory field is filled
+    // The occurrence being filled is kept, the remaining (optional) questions are dropped and the
+    // record goes straight to confirmation
+    if (userResponse === "__SKIP_REST__" && state.step === "field-filling" && state.currentTemplate) {
+        console.log("=== SKIPPING THE REMAINING OPTIONAL FIELDS ===")
+        const filledFields = { ...state.filledFields }
+        const occurrence = state.currentRepeatOccurrence
+        if (occurrence && indicatorService.hasSubfields(occurrence.subfields)) {
+            const existing = filledFields[occurrence.tag]
+            const isRepeatable = state.currentTemplate.dataFields.some((f) => f.tag === occurrence.tag && f.repeatable)
+            filledFields[occurrence.tag] = isRepeatable
+                ? [...(Array.isArray(existing) ? existing : existing ? [existing] : []), occurrence.subfields]
+                : occurrence.subfields
+        }
+
+        // Same check as the confirmation step: mandatory fields that are still missing
+        const missingTags = recordValidator
+            .validate(filledFields, state.currentTemplate)
+            .issues.filter((issue) => issue.severity === "error" && !(issue.tag in filledFields))
+            .map((issue) => issue.tag)
+        if (missingTags.length > 0) {
+            return respond(
+                {
+                    ...(session.lastResponse ?? { type: "error" }),
+                    error: messages.mandatoryFieldsMissing([...new Set(missingTags)]),
+                } as CatalogResponse,
+                { status: 400 },        // HTTP 400 Bad Request
+            )
+        }
+
+        if (session.lastResponse) history.push({ state: structuredClone(state), response: session.lastResponse })
+        if (occurrence) {
+            state.provenance = fieldProvenanceService.track(
+                state.provenance,
+                occurrence.tag,
+                state.filledFields[occurrence.tag],
+                filledFields[occurrence.tag],
+                { source: "user" },
+            )
+        }
+        state.filledFields = filledFields
+        state.remainingFields = []
+        state.optionalGroups = []
+        state.repeatingField = false
+        delete state.askedField
+        delete state.askedSubfield
+        delete state.repeatConfirmation
+        delete state.currentRepeatOccurrence
+        delete state.askedForm
+        delete state.confirmingFields       // AI values not confirmed yet are kept as they are
+        // The field filling step below finds nothing left to ask and advances to confirmation
+    }
+
+    // ============================================
+    // Field Review/Edit Logic
+    // ============================================
+    // Handle special command to enter field review mode
+    // This allows users to examine and potentially edit already-filled fields
+    if (userResponse === "__REVIEW_FIELDS__") {
+        console.log("=== ENTERING REVIEW FIELDS MODE ===")
+        state.step = "review-fields"        // Transition to review mode
+        const response = reviewFieldsDisplay(state)
+        console.log("DEBUG: State after entering review mode:", JSON.stringify(state, null, 2))
+
+        // Return response showing all filled fields for user review
+        return respond(response)
+    }
+
+    // Handle editing of a single leader position while in review mode
+    // The user stays in review mode so several positions can be changed in a row
+    if (userResponse === "__EDIT_LEADER__" && leaderEdit) {
+        console.log(`=== PROCESSING EDIT LEADER COMMAND: position ${leaderEdit.position} ===`)
+        const currentLeader = recordLeaderService.normalize(state.leader, recordLeaderService.fromTemplate(state.currentTemplate))
+        let error: string | undefined
+
+        try {
+            state.leader = recordLeaderService.setPosition(currentLeader, leaderEdit.position, leaderEdit.value)
+        } catch (e) {
+            // Invalid positions/values keep the previous leader and are reported back to the review screen
+            state.leader = currentLeader
+            error = e instanceof Error ? e.message : messages.invalidLeaderValue
+        }
+
+        state.step = "review-fields"
+        return respond({ ...reviewFieldsDisplay(state), error })
+    }
+
+    // Logic for editing a specific field identified by fieldToEdit parameter
+    // This handles the case where the user wants to modify a previously filled field
+    if (userResponse === "__EDIT_FIELD__" && fieldToEdit) {
+        console.log(`=== PROCESSING EDIT FIELD COMMAND: ${fieldToEdit} ===`)
+
+        // The tag comes from the client: only fields defined by the current template can be edited
+        const templateFields = [...(state.currentTemplate?.controlFields ?? []), ...(state.currentTemplate?.dataFields ?? [])]
+        if (!templateFields.some((field) => field.tag === fieldToEdit)) {
+            return respond(
+                { ...reviewFieldsDisplay(state), error: messages.fieldNotInTemplate(fieldToEdit) },
+                { status: 400 },        // HTTP 400 Bad Request
+            )
+        }
+
+        console.log("DEBUG: State BEFORE edit processing:", JSON.stringify(state, null, 2))
+
+        // Remove the field from filled fields so it can be re-filled
+        // The value given by the user replaces the AI value, together with its confidence
+        // (its provenance is kept, so the new answer is recorded as replacing it)
+        delete state.filledFields[fieldToEdit]
+        state.fieldConfidence = fieldConfidenceService.forget(state.fieldConfidence, fieldToEdit)
+        state.confirmingFields = state.confirmingFields?.filter((tag) => tag !== fieldToEdit)
+
+        // Add the field back to remaining fields (at the beginning)
+        // This ensures it will be the next field asked to the user
+        state.remainingFields = state.remainingFields.filter((f) => f !== fieldToEdit)
+        state.remainingFields.unshift(fieldToEdit)
+
+        // Prepare state to ask for this field again
+        state.askedField = fieldToEdit      // Field to be asked next
+        state.askedSubfield = undefined     // Reset subfield pointer
+        state.askedForm = undefined     // Reset grouped question
+        state.repeatingField = false        // Exit repetition cycle if active
+        state.currentRepeatOccurrence = undefined       // Clear any occurrence data
+        state.step = "field-filling"        // Return to field filling
+
+        console.log(`DEBUG: Field ${fieldToEdit} removed from filledFields and added to remainingFields.`)
+        console.log("DEBUG: State AFTER edit processing:", JSON.stringify(state, null, 2))
+    }
+
+    // Handle continuation from review mode
+    // This transitions back to the appropriate step after reviewing fields
+    if (userResponse === "__CONTINUE_FROM_REVIEW__") {
+        console.log("=== CONTINUING FROM REVIEW MODE ===")
+        // If no fields remain, move confirmation step
+        // Otherwise, return to field filling to complete remaining fields
+        // Optional field groups not offered yet ("mandatory" mode) are offered in field filling
+        if (state.remainingFields.length === 0 && !state.optionalGroups?.length) {
+            state.step = "confirmation"
+        } else {
+            state.step = "field-filling"
+        }
+        console.log("DEBUG: State after continuing from review:", JSON.stringify(state, null, 2))
+    }
+
+    return undefined
+}
@@ -0,0 +1,161 @@
+import type { CatalogResponse } from "@/app/types/unimarc"
+import { databaseService } from "@/lib/database"
+import { unimarcSerializer } from "@/lib/unimarc-serializer"
+import { recordLeaderService } from "@/lib/record-leader"
+import { recordValidator } from "@/lib/record-validator"
+import { isbdPunctuation } from "@/lib/isbd-punctuation"
+import type { DialogContext, StepResponse } from "./context"
+import { reviewFieldsDisplay } from "./commands"
+
+/**
+ * STEP 4: Confirmation and Storage
+ * The completed record is validated, converted to UNIMARC format and stored in the database
+ */
+export async function handleConfirmation(ctx: DialogContext): Promise<StepResponse> {
+    const { state, session, respond, language, messages, onProgress } = ctx
+
+    console.log("=== INICIANDO CONFIRMAÇÃO E GRAVAÇÃO ===")
+
+    // Safety check - ensure we have a template before proceeding
+    if (!state.currentTemplate) {
+        return respond(
+            {
+                type: "error",
+                error: messages.templateNotFoundForSave,
+            } as CatalogResponse,
+            { status: 400 },        // HTTP 400 Bad Request
+        )
+    }
+
+    // Validate the record against the template - records with errors are never saved
+    const validation = recordValidator.validate(state.filledFields, state.currentTemplate, language)
+    if (!validation.valid) {
+        console.log("Record failed validation:", JSON.stringify(validation.issues, null, 2))
+
+        // Missing fields go back to the queue, so continuing from review asks for them
+        const missingTags = validation.issues
+            .filter((issue) => issue.severity === "error" && !(issue.tag in state.filledFields))
+            .map((issue) => issue.tag)
+        state.remainingFields = [...new Set([...missingTags, ...state.remainingFields])]
+
+        // Send the user to review mode so the offending fields can be edited
+        state.step = "review-fields"
+
+        return respond({
+            ...reviewFieldsDisplay(state),
+            error: messages.validationFailed,
+            validationIssues: validation.issues,
+        })
+    }
+
+    try {
+        // Log filled fields before UNIMARC conversion and saving
+        // This provides a complete view of all collected data before conversion
+        console.log("Filled fields before UNIMARC conversion and saving:", JSON.stringify(state.filledFields, null, 2))
+        onProgress({ stage: "unimarc-conversion", message: messages.convertingToUnimarc })
+
+        // Normalize filled fields into occurrences (one per CatalogField row)
+        // Both the UNIMARC text and the persisted fields are derived from these,
+        // so the stored textUnimarc always matches the saved fields exactly.
+        // ISBD punctuation is stripped or added according to the library's configuration
+        const occurrences = isbdPunctuation.normalizeOccurrences(
+            unimarcSerializer.toOccurrences(state.filledFields, state.currentTemplate, state.provenance),
+        )
+
+        // Record label: the one edited in review, or derived from the template
+        const leader = recordLeaderService.normalize(state.leader, recordLeaderService.fromTemplate(state.currentTemplate))
+
+        // Convert fields to UNIMARC text deterministically
+        console.log("Converting filled fields to UNIMARC text format...")
+        const textUnimarc = unimarcSerializer.formatText(occurrences, leader)
+        console.log("Generated UNIMARC text:", textUnimarc)
+
+        // Prepare data for persistence
+        // This structures the data for storage in the database (with translated names and the provenance of each value)
+        const fieldsToSave = unimarcSerializer.toRecordFields(occurrences, language)
+
+        // Log fields prepared for saving (fieldToSave)
+        console.log("Fields prepared for saving (fieldsToSave):", JSON.stringify(fieldsToSave, null, 2))
+
+        // A saved record opened for editing is updated in place
+        if (state.editingRecordId) {
+            onProgress({ stage: "duplicate-check", message: messages.checkingDuplicates })
+            // The record being edited is not a duplicate of itself
+            const duplicateId = await databaseService.findDuplicate(fieldsToSave, state.currentTemplate.name, state.editingRecordId)
+            if (duplicateId) {
+                return respond(
+                    {
+                        type: "error",
+                        error: messages.duplicateOnUpdate(duplicateId),
+                    } as CatalogResponse,
+                    { status: 409 },        // HTTP 409 Conflict
+                )
+            }
+
+            const recordId = await databaseService.updateRecord(
+                state.editingRecordId,
+                state.filledFields,
+                state.currentTemplate,
+                leader,
+                language,
+                state.provenance,
+            )
+            console.log("Record updated with ID:", recordId)
+
+            return respond({
+                type: "record-saved",
+                message: messages.recordUpdated(recordId),
+                record: state.filledFields,
+                recordId,
+                textUnimarc,
+                conversationState: {
+                    ...state,
+                    step: "completed",
+                },
+            } as CatalogResponse)
+        }
+
+        // Persist to database
+        console.log("Saving record to database...")
+        // saveRecord checks for duplicates before writing
+        onProgress({ stage: "duplicate-check", message: messages.checkingDuplicates })
+
+        // Call the database serice to save the complete record
+        const recordId = await databaseService.saveRecord({
+            templateId: state.currentTemplate.id,
+            templateName: state.currentTemplate.name,
+            templateDesc: `Registo catalogado automaticamente - ${new Date().toLocaleDateString()}`,
+            filledFields: state.filledFields,       // The original filled data
+            template: state.currentTemplate,        // The template used for cataloging
+            textUnimarc,        // The generated UNIMARC text
+            fields: fieldsToSave,
+            leader,     // The record label (24 characters)
+            draftId: session.recordId,      // The session's draft becomes the saved record
+        })
+        console.log("Record saved with ID:", recordId)
+
+        // Return success response with record information
+        return respond({
+            type: "record-saved",
+            message: messages.recordSaved(recordId, state.autoFilledCount || 0),
+            record: state.filledFields,
+            recordId,
+            textUnimarc,
+            conversationState: {
+                ...state,
+                step: "completed",      // Mark the conversation as completed
+            },
+        } as CatalogResponse)
+    } catch (error) {
+        // Handle any errors during saving process
+        console.error("Erro ao gravar registo:", error)
+        return respond(
+            {
+                type: "error",
+                error: messages.saveFailed,
+                details: error instanceof Error ? error.message : messages.unknownError,
+            } as CatalogResponse,
+            { status: 500 },        // HTTP  500 Internal Server Error
+        )
+    }
+}
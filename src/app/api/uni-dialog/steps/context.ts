@@ -0,0 +1,38 @@
+import type { NextResponse } from "next/server"
+import type OpenAI from "openai"
+import type { CatalogRequest, CatalogResponse, ConversationState, DialogProgress, Template } from "@/app/types/unimarc"
+import type { DialogMessages } from "@/lib/dialog-messages"
+import type { DialogSession, DialogStep } from "@/lib/dialog-sessions"
+
+/**
+ * Everything a dialog step needs to handle one request of a cataloguing session
+ */
+export interface DialogContext {
+    state: ConversationState        // Conversation state loaded from the session (changed in place by the steps)
+    session: DialogSession
+    history: DialogStep[]           // Answers given in the dialog, so the last one can be undone (__UNDO__)
+    request: CatalogRequest         // Request body (user response, field to edit, subfield answers...)
+    description: string
+    language: string
+    messages: DialogMessages        // Questions and messages in the language of the request
+    templates: Template[]
+    openai: OpenAI
+    onProgress: (progress: DialogProgress) => void
+    // Saves the state in the session and builds the response (see handleDialog)
+    respond: (body: CatalogResponse, init?: ResponseInit) => Promise<NextResponse>
+}
+
+/**
+ * Response of a step, or undefined when the step moved the state on to the next step
+ * without answering (e.g. bulk auto-fill continues straight into field filling)
+ */
+export type StepResponse = NextResponse | undefined
+
+export type StepHandler = (ctx: DialogContext) => Promise<StepResponse>
+
+/**
+ * Whether __UNDO__ can revert an answer: only while filling fields or before confirming the record
+ */
+export function canUndo(state: ConversationState, history: DialogStep[]): boolean {
+    return (state.step === "field-filling" || state.step === "confirmation") && history.length > 0
+}
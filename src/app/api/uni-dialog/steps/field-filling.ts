@@ -0,0 +1,781 @@
+import type { CatalogResponse, ConversationState, DataField, SubFieldDef, Translation } from "@/app/types/unimarc"
+import { isValidFieldValue } from "@/lib/is-valid-field-value"
+import { BLANK_INDICATOR, indicatorService } from "@/lib/indicators"
+import { standardNumberService } from "@/lib/standard-numbers"
+import { codedValueService } from "@/lib/coded-values"
+import { subfieldRuleService } from "@/lib/subfield-rules"
+import { fieldPriority } from "@/lib/field-priority"
+import { subfieldForm } from "@/lib/subfield-form"
+import { dialogMessages } from "@/lib/dialog-messages"
+import { fieldProvenanceService } from "@/lib/field-provenance"
+import type { DialogContext, StepResponse } from "./context"
+import { handleLowConfidence } from "./low-confidence"
+
+/**
+ * Records the user as the provenance of the values of a field changed by an answer
+ * Values given before (by the AI or in earlier answers) keep their provenance
+ */
+function trackUserAnswer(state: ConversationState, tag: string, previous: unknown): void {
+    state.provenance = fieldProvenanceService.track(state.provenance, tag, previous, state.filledFields[tag], {
+        source: "user",
+    })
+}
+
+/**
+ * Stores the occurrence being filled (state.currentRepeatOccurrence) in filledFields and clears it
+ * Repeatable fields collect their occurrences in an array; occurrences without valid subfields are
+ * not stored (and clear the value of a non-repeatable field)
+ */
+function storeCurrentOccurrence(state: ConversationState, fieldDef: DataField): void {
+    const subfields = state.currentRepeatOccurrence?.subfields
+    const previous = structuredClone(state.filledFields[fieldDef.tag])
+
+    if (indicatorService.hasSubfields(subfields)) {
+        if (fieldDef.repeatable) {
+            // If the main field is repeatable, add to an array of occurrences
+            if (!Array.isArray(state.filledFields[fieldDef.tag])) {
+                state.filledFields[fieldDef.tag] = []
+            }
+            ; (state.filledFields[fieldDef.tag] as unknown[]).push(subfields)
+        } else {
+            // If the main field is NOT repeatable, assign the subfields object directly
+            state.filledFields[fieldDef.tag] = subfields
+        }
+        trackUserAnswer(state, fieldDef.tag, previous)
+        console.log(`Completed occurrence for ${fieldDef.tag}:`, subfields)
+    } else {
+        // No valid subfields were provided for this occurrence
+        console.log(`Occurrence for ${fieldDef.tag} has no valid subfields, not storing.`)
+        if (!fieldDef.repeatable) {
+            delete state.filledFields[fieldDef.tag]
+        }
+    }
+
+    delete state.currentRepeatOccurrence
+}
+
+/**
+ * STEP 3: Individual Field Filling
+ * Handles interactive field-by-field completion with the user
+ */
+export async function handleFieldFilling(ctx: DialogContext): Promise<StepResponse> {
+    // AI values with low confidence are confirmed before any other question
+    const confirmation = await handleLowConfidence(ctx)
+    if (confirmation) return confirmation
+
+    const { state, session, history, respond, language, messages } = ctx
+    const { userResponse, subfieldAnswers } = ctx.request
+
+    console.log("=== INICIANDO PREENCHIMENTO INDIVIDUAL DE CAMPOS ===")
+    // Safety check - should always have a template at this point
+    if (!state.currentTemplate) {
+        return respond(
+            {
+                type: "error",
+                error: messages.templateNotFound,
+            } as CatalogResponse,
+            { status: 400 },
+        )
+    }
+
+    // Log current state for debugging
+    // These logs help track the field filling process and troubleshoot issues
+    console.log("Remaining fields to fill:", state.remainingFields)     // Shows which field still needs user input
+    console.log("Currently asked field:", state.askedField)     // Indicates which field is currently being processed
+    console.log("User response received:", userResponse)        // Displays the raw response from the user
+
+    // Check if userResponse is a speecial command that has already been handled
+    // This prevents re-processing commands that were handled by previous logic sessions
+    // The commands are system commands
+    // rather than actual field values, so they need special handling
+    const isSpecialCommand = ["__EDIT_FIELD__", "__CONTINUE_FROM_REVIEW__", "__SKIP_REST__"].includes(userResponse || "")
+
+    // Error shown with the next question when an answer is rejected and asked again
+    let reaskError: string | undefined
+
+    // Typed checks of the answer: standard numbers (ISBN/ISSN check digits), coded values
+    // (languages, countries) and subfield rules (dates, extent, URLs...)
+    const answerError =
+        state.askedField &&
+        typeof userResponse === "string" &&
+        !isSpecialCommand &&
+        isValidFieldValue(userResponse.trim())
+            ? (standardNumberService.check(state.askedField, state.askedSubfield, userResponse, language)?.error ??
+              codedValueService.check(state.askedField, state.askedSubfield, userResponse, language)?.error ??
+              subfieldRuleService.check(state.askedField, state.askedSubfield, userResponse, language)?.error)
+            : undefined
+
+    // Answers to a grouped question (subfield form) are checked together
+    const formFieldDef =
+        state.askedForm && state.askedField
+            ? state.currentTemplate.dataFields.find((f) => f.tag === state.askedField)
+            : undefined
+    const formCheck =
+        formFieldDef && state.askedForm && subfieldAnswers
+            ? subfieldForm.check(formFieldDef, state.askedForm, subfieldAnswers, language)
+            : undefined
+    // Per-subfield errors shown when the form is asked again
+    let formErrors: Record<string, string> | undefined
+
+    // Remember the state before an accepted answer (rejected answers change nothing)
+    // together with the question it answered, so __UNDO__ can revert exactly this answer
+    const answersQuestion =
+        ["field-question", "repeat-confirmation", "optional-fields-offer", "subfield-form"].includes(
+            session.lastResponse?.type ?? "",
+        ) &&
+        (state.repeatConfirmation ||
+            state.askedField ||
+            state.optionalGroups?.some((group) => group.id === userResponse?.trim())) &&
+        (typeof userResponse === "string" || formCheck) &&
+        !isSpecialCommand
+    const isAccepted = state.repeatConfirmation ? true : state.askedForm ? !!formCheck?.valid : !answerError
+    if (answersQuestion && isAccepted) {
+        history.push({ state: structuredClone(state), response: { ...session.lastResponse!, error: undefined } })
+    }
+
+    // 1. Process user response to a REPETITION confirmation (if exists)
+    // This handles when user confirms or denies whether to repeat a field/subfield
+    // The repeatConfirmation state property indicates we're waiting for a yes/no answer
+    // about whether to add another ocurrence of a field or subfield
+    if (state.repeatConfirmation && userResponse !== undefined && userResponse !== null) {
+        // Determine if user wants to repeat based on their responses
+        // Only a "yes" in the language of the request ("sim", "yes", "sí"...) repeats
+        const wantsToRepeat = dialogMessages.parseYesNo(userResponse, language) === true
+
+        // Extract information about what needs to be repeated from the confirmation state
+        const fieldToRepeatTag = state.repeatConfirmation.field     // The field tag to repeat
+        const subfieldToRepeatCode = state.repeatConfirmation.subfield      // The subfield  code if applicable
+
+        // Clear the repeatingField flag based on user's choice
+        delete state.repeatConfirmation
+
+        // Update the repeatingField request based on user's choice
+        // This flag will influence how the field processing logic behaves
+        state.repeatingField = wantsToRepeat
+
+        if (wantsToRepeat) {
+            // User wants to add another occurrence of the field/subfiield
+            console.log(
+                `User wants to repeat ${fieldToRepeatTag}${subfieldToRepeatCode ? "$" + subfieldToRepeatCode : ""}`,
+            )
+
+            // Set the askedField/askedSubField back to what is being repeated
+            // This ensures thhe system ask for the same field/subfield again
+            state.askedField = fieldToRepeatTag
+            state.askedSubfield = subfieldToRepeatCode
+
+            // Don't return here. The 'while' loop below will generate the question
+            // for the repeated field/subField, allowing the process to continue naturally
+        } else {
+            // User does NOT want to repeat the field/subField
+            console.log(
+                `User does not want to repeat ${fieldToRepeatTag}${subfieldToRepeatCode ? "$" + subfieldToRepeatCode : ""}`,
+            )
+
+            // Since user said NO, advance to the next logial field/subfield
+            if (subfieldToRepeatCode) {
+                // This was a subfield repetition confirmation
+                // Find the field definition to understand its structure
+                const currentFieldDef = [...state.currentTemplate.controlFields, ...state.currentTemplate.dataFields].find(
+                    (f) => f.tag === fieldToRepeatTag,
+                ) as DataField | undefined
+
+                if (currentFieldDef) {
+                    // Find the next subfield to ask after the current one (only mandatory ones in "mandatory" mode)
+                    const nextSubfieldCode = fieldPriority.getNextSubfield(currentFieldDef, subfieldToRepeatCode, state.mode)
+
+                    if (nextSubfieldCode) {
+                        // There are more subfields to process for this main field
+                        // Move to the next subfield in sequence
+                        state.askedSubfield = nextSubfieldCode
+                    } else {
+                        // All subfields for this main field are completed
+                        // Remove the field from remaining fields and clean up state
+                        state.remainingFields = state.remainingFields.filter((f) => f !== fieldToRepeatTag)
+                        delete state.askedField
+                        delete state.askedSubfield
+                        delete state.currentRepeatOccurrence // Clear the occurrence since the main field is completed
+                    }
+                }
+            } else {
+                // This was a main field repetition confirmation (not a subfield)
+                // Remove the field from remaining fields and clean up state
+                state.remainingFields = state.remainingFields.filter((f) => f !== fieldToRepeatTag)
+                delete state.askedField
+                delete state.askedSubfield
+            }
+        }
+        // After processing the confirmation, the userResponse has been consumed for this iteration
+        // The 'while' loop below will determine the next question based on the updated state
+    }
+    // Process the choice of a group of optional fields (answer to "optional-fields-offer")
+    // The fields of the chosen group are queued and asked in full
+    else if (
+        state.optionalGroups &&
+        state.optionalGroups.length > 0 &&
+        !state.askedField &&
+        state.remainingFields.length === 0 &&
+        typeof userResponse === "string" &&
+        !isSpecialCommand
+    ) {
+        const chosenGroup = state.optionalGroups.find((group) => group.id === userResponse.trim())
+        if (chosenGroup) {
+            console.log(`User chose the optional field group "${chosenGroup.id}":`, chosenGroup.fields)
+            state.optionalGroups = state.optionalGroups.filter((group) => group.id !== chosenGroup.id)
+            state.remainingFields = chosenGroup.fields.filter((tag) => !(tag in state.filledFields))
+        } else {
+            reaskError = messages.notOptionalGroup(userResponse)
+        }
+    }
+    // Process the answers to a GROUPED question (subfield form): the whole occurrence at once
+    // Repeatable subfields may bring several values; the field is then offered for repetition as usual
+    else if (formFieldDef && !state.repeatConfirmation && (subfieldAnswers || typeof userResponse === "string") && !isSpecialCommand) {
+        if (!formCheck) {
+            reaskError = messages.formExpected
+        } else if (!formCheck.valid) {
+            formErrors = formCheck.errors
+            reaskError = messages.formInvalid
+            console.log(`Invalid form answers for ${formFieldDef.tag}:`, formErrors)
+        } else {
+            const previous = state.currentRepeatOccurrence?.tag === formFieldDef.tag ? state.currentRepeatOccurrence.subfields : {}
+            state.currentRepeatOccurrence = { tag: formFieldDef.tag, subfields: { ...previous, ...formCheck.subfields } }
+            storeCurrentOccurrence(state, formFieldDef)
+            delete state.askedForm
+
+            if (formFieldDef.repeatable && Object.keys(state.filledFields[formFieldDef.tag] || {}).length > 0) {
+                return respond({
+                    type: "repeat-confirmation",
+                    field: formFieldDef.tag,
+                    question: `${messages.repeatOccurrence(formFieldDef.tag)} ${dialogMessages.yesNoHint(language)}`,
+                    conversationState: {
+                        ...state,
+                        repeatingField: true,
+                        repeatConfirmation: { field: formFieldDef.tag },
+                    },
+                } as CatalogResponse)
+            }
+
+            state.remainingFields = state.remainingFields.filter((f) => f !== formFieldDef.tag)
+            delete state.askedField
+            delete state.askedSubfield
+            state.repeatingField = false
+        }
+    }
+    // 2. Process user response to an INDICATOR question (askedSubfield is "ind1"/"ind2")
+    // Indicators are asked before the subfields of each occurrence and stored alongside them
+    else if (
+        state.askedField &&
+        state.askedSubfield &&
+        indicatorService.isIndicatorKey(state.askedSubfield) &&
+        userResponse !== undefined &&
+        userResponse !== null &&
+        !isSpecialCommand
+    ) {
+        const dataFieldDef = state.currentTemplate.dataFields.find((f) => f.tag === state.askedField)
+        const indicatorKey = state.askedSubfield
+
+        if (!state.currentRepeatOccurrence || state.currentRepeatOccurrence.tag !== state.askedField) {
+            state.currentRepeatOccurrence = { tag: state.askedField, subfields: {} }
+        }
+
+        // Blank answers ("", "#") and invalid values leave the indicator blank
+        const indicator = indicatorService.normalize(userResponse)
+        if (indicator && indicator !== BLANK_INDICATOR) {
+            state.currentRepeatOccurrence.subfields[indicatorKey] = indicator
+        } else {
+            delete state.currentRepeatOccurrence.subfields[indicatorKey]
+            if (indicator === null) console.log(`Invalid indicator "${userResponse}" for ${state.askedField}, left blank`)
+        }
+        console.log(`User response for ${state.askedField} ${indicatorKey}: "${indicator ?? BLANK_INDICATOR}"`)
+
+        // Advance to the next defined indicator, or to the first subfield
+        const indicatorsToAsk = dataFieldDef ? fieldPriority.getIndicatorsToAsk(dataFieldDef, state.mode, language) : []
+        const nextIndicator = indicatorsToAsk[indicatorsToAsk.indexOf(indicatorKey) + 1]
+        state.askedSubfield = nextIndicator ?? (dataFieldDef && fieldPriority.getNextSubfield(dataFieldDef, undefined, state.mode))
+    }
+    // 3. Re-ask answers that fail the typed checks above (e.g. an ISBN with an invalid check digit,
+    // an unknown language or a publication date that is not a year).
+    // The state is left untouched, so the loop below asks the same subfield again with the error
+    else if (answerError) {
+        reaskError = answerError
+        console.log(`Invalid value for ${state.askedField}$${state.askedSubfield}: ${reaskError}`)
+    }
+    // 4. Process user response to FIELD QUESTION (if it exists and is NOT a special command)
+    // This section handles normal user responses to field value questions
+    else if (state.askedField && userResponse !== undefined && userResponse !== null && !isSpecialCommand) {
+        // Find the field definition for the currently asked fiield
+        // Search through  both control fields and data fields in the current template
+        const currentFieldDef = [...state.currentTemplate.controlFields, ...state.currentTemplate.dataFields].find(
+            (f) => f.tag === state.askedField,
+        )
+
+        // Check if the current field is repeatable (can have multiple values)
+        const isCurrentFieldRepeatable = currentFieldDef?.repeatable
+
+        // Clean the user response by trimming whitespace if it's a string
+        // This ensures consistent processing of user input
+        // Standard numbers are stored in their display form (ISSN always as NNNN-NNNN)
+        // and coded values as their code ("Portugal" -> "PT")
+        const rawResponse = typeof userResponse === "string" ? userResponse.trim() : ""
+        const trimmedResponse =
+            standardNumberService.check(state.askedField, state.askedSubfield, rawResponse)?.display ??
+            codedValueService.check(state.askedField, state.askedSubfield, rawResponse)?.code ??
+            rawResponse
+
+        // Detailed logging to help with debugging and understanding user interactions
+        console.log(
+            `Processing user response for ${state.askedField}${state.askedSubfield ? "$" + state.askedSubfield : ""}. Raw response: "${userResponse}"`,
+        )
+        console.log(`Trimmed response: "${trimmedResponse}"`)
+
+        // Validate the user response using the field validation utility
+        // This checks if the value is appropriate for this field type
+        const shouldStoreValue = isValidFieldValue(trimmedResponse, currentFieldDef)
+        console.log(`isValidFieldValue result for "${trimmedResponse}": ${shouldStoreValue}`)
+
+        // Check if this is a data field with subfields (as opposed to a simple control field)
+        // Data fields havve subFieldDef property with an array of subfield definitions
+        if (
+            currentFieldDef &&
+            "subFieldDef" in currentFieldDef &&
+            Array.isArray((currentFieldDef as DataField).subFieldDef) &&
+            (currentFieldDef as DataField).subFieldDef.length > 0
+        ) {
+            // It's a data field with subfields
+            // Cast to DataField type for TypeScript type safety
+            const dataFieldDef = currentFieldDef as DataField
+
+            // Find the definition of the current subfield being processed
+            const currentSubfieldDef = dataFieldDef.subFieldDef.find((sf) => sf.code === state.askedSubfield)
+
+            // Ensure currentRepeatOccurance exists for this field
+            // This object tracks the current occurrence of a repeatable field being filled
+            if (!state.currentRepeatOccurrence || state.currentRepeatOccurrence.tag !== state.askedField) {
+                state.currentRepeatOccurrence = { tag: state.askedField, subfields: {} }
+            }
+
+            // Process valid field values
+            if (shouldStoreValue) {
+                // Store values of repeatable subfields as arrays
+                // This allows multiple values for the same subfield code
+                if (currentSubfieldDef?.repeatable) {
+                    // Initialize the array if it doesn' exist
+                    if (!Array.isArray(state.currentRepeatOccurrence.subfields[state.askedSubfield!])) {
+                        state.currentRepeatOccurrence.subfields[state.askedSubfield!] = []
+                    }
+                    // Add the value to the array for repeatable subfields
+                    ; (state.currentRepeatOccurrence.subfields[state.askedSubfield!] as unknown[]).push(trimmedResponse)
+                } else {
+                    // For non-repeatable subfields, store the value directly
+                    state.currentRepeatOccurrence.subfields[state.askedSubfield!] = trimmedResponse
+                }
+                console.log(`User response for ${state.askedField}$${state.askedSubfield}: ${trimmedResponse}`)
+            } else {
+                // If the value is invalid, handle it appropriately based on subfield type
+                console.log(
+                    `Value for ${state.askedField}$${state.askedSubfield} is invalid. Current subfield repeatable: ${currentSubfieldDef?.repeatable}.`,
+                )
+
+                // For NON-repeatable subfields, remove any existing value
+                if (!currentSubfieldDef?.repeatable) {
+                    delete state.currentRepeatOccurrence.subfields[state.askedSubfield!]
+                    console.log(`Deleting subfield ${state.askedSubfield} from currentRepeatOccurrence.subfields.`)
+                } else {
+                    // For repeatable subfields, simply don't add the invalid value
+                    console.log(`Not adding invalid value for repeatable subfield ${state.askedSubfield}.`)
+                }
+                console.log(`Subcampo ${state.askedField}$${state.askedSubfield} deixado em branco`)
+            }
+
+            // If the subfield is repeatable AND the user provided a valid value
+            // ask for repetition permission to allow adding another value
+            if (currentSubfieldDef?.repeatable && shouldStoreValue) {
+                const confirmPrompt = `${messages.repeatSubfieldValue(state.askedField, state.askedSubfield!)} ${dialogMessages.yesNoHint(language)}`
+
+                // Return a responsee that asks for repetition confirmation
+                // This pauses the field processing until user responds
+                return respond({
+                    type: "repeat-confirmation",
+                    field: state.askedField,
+                    subfield: state.askedSubfield,
+                    question: confirmPrompt,
+                    conversationState: {
+                        ...state,
+                        repeatingField: true, // Indicates we're in a repetition cycle for this subfield
+                        repeatConfirmation: { field: state.askedField, subfield: state.askedSubfield }, // Stores the confirmation context
+                    },
+                } as CatalogResponse)
+            }
+
+            // If not repeating this subfield, advance to the next subfield or main field
+            // (only the mandatory subfields of mandatory fields are asked in "mandatory" mode)
+            const nextSubfieldCode = fieldPriority.getNextSubfield(dataFieldDef, state.askedSubfield, state.mode)
+
+            if (nextSubfieldCode) {
+                // There are more subfields to process for this field
+                // Move to the next subfield in the sequence
+                state.askedSubfield = nextSubfieldCode
+            } else {
+                // All subfields for the current occurrence are filled
+                // Store the occurrence (if it has any valid subfield) and clear it for the next one
+                storeCurrentOccurrence(state, dataFieldDef)
+
+                // If the main field is repeatable AND we just completed a valid occurrence
+                // ask for repetition confirmation to allow adding another occurrence
+                if (dataFieldDef.repeatable && Object.keys(state.filledFields[state.askedField] || {}).length > 0) {
+                    const confirmPrompt = `${messages.repeatOccurrence(state.askedField)} ${dialogMessages.yesNoHint(language)}`
+
+                    // Return a response that asks for field repetition confirmation
+                    return respond({
+                        type: "repeat-confirmation",
+                        field: state.askedField,
+                        question: confirmPrompt,
+                        conversationState: {
+                            ...state,
+                            repeatingField: true, // Indicates  we're in a repetition cycle for this main field
+                            repeatConfirmation: { field: state.askedField }, // Stores the confirmation context
+                        },
+                    } as CatalogResponse)
+                }
+
+                // Advance to the next main field
+                // Remove the current field from the remaining fields list since it's now completed
+                state.remainingFields = state.remainingFields.filter((f) => f !== state.askedField)
+
+                // Clean up the state by removing field-specific tracking properties
+                delete state.askedField     // Clear the currently asked field
+                delete state.askedSubfield      // Clear the currently asked subfield
+
+                // Reset the repeatingField flag since the main field is now completed
+                // This ensures we're enot in a repetition cycle for the next field
+                state.repeatingField = false
+
+                // Log completion of all subfields for this field and show remaining fields
+                console.log(`All subfields for ${dataFieldDef.tag} filled. Remaining main fields:`, state.remainingFields)
+            }
+        } else {
+            // Simple field (without subfields)
+            // This branch handles fields that don't have subfield structures
+
+            // Process valid field values
+            if (shouldStoreValue) {
+                const previous = structuredClone(state.filledFields[state.askedField])
+                // Handle repeatable simple fields (can have multiple values)
+                if (isCurrentFieldRepeatable) {
+                    // Initialize array if it doesn't exist for this repeatable field
+                    if (!Array.isArray(state.filledFields[state.askedField])) {
+                        state.filledFields[state.askedField] = []
+                    }
+                    // Add the value to the array for repeatable fields
+                    ; (state.filledFields[state.askedField] as unknown[]).push(trimmedResponse)
+                    console.log(`Field ${currentFieldDef?.tag} added: ${trimmedResponse}`)
+                } else {
+                    // For non-repeatable fields, store the value directly
+                    state.filledFields[state.askedField] = trimmedResponse
+                    console.log(`Field ${currentFieldDef?.tag} filled: ${trimmedResponse}`)
+                }
+                trackUserAnswer(state, state.askedField, previous)
+            } else {
+                // Handle invalid field values
+                console.log(
+                    `Value for ${state.askedField} is invalid. Current field repeatable: ${isCurrentFieldRepeatable}.`,
+                )
+
+                // For non-repeatable fields with invalid values, remove the field entirely
+                if (!isCurrentFieldRepeatable) {
+                    delete state.filledFields[state.askedField]
+                    console.log(`Deleting field ${state.askedField} from filledFields.`)
+                } else {
+                    // For repeatable fields, just don't add the invalid value
+                    console.log(`Not adding invalid value for repeatable field ${state.askedField}.`)
+                }
+                console.log(`Campo ${state.askedField} deixado em branco`)
+            }
+
+            // If the simple field is repeatable AND the user provided a valid value,
+            // ask for repetition confirmation to alloww adding another value
+            if (isCurrentFieldRepeatable && shouldStoreValue) {
+                const confirmPrompt = `${messages.repeatFieldValue(state.askedField)} ${dialogMessages.yesNoHint(language)}`
+
+                // Reteurn a response that asks for field repetition confirmation
+                return respond({
+                    type: "repeat-confirmation",
+                    field: state.askedField,
+                    question: confirmPrompt,
+                    conversationState: {
+                        ...state,
+                        repeatingField: true, // Indica que estamos num ciclo de repetição para este campo
+                        repeatConfirmation: { field: state.askedField }, // Armazena o contexto de confirmação
+                    },
+                } as CatalogResponse)
+            }
+
+            // After processing the field (whether valid or invalid)
+            // remove it from the remaining fields and clean up state
+            state.remainingFields = state.remainingFields.filter((f) => f !== state.askedField)
+            delete state.askedField
+            delete state.askedSubfield
+            state.repeatingField = false // Reset repeatingFiield flag
+
+            // Log completion of this field processing
+            console.log(`Field ${currentFieldDef?.tag} processed. Remaining main fields:`, state.remainingFields)
+        }
+
+        // Log state.filledFields user response processing
+        console.log("State.filledFields after user response processing:", JSON.stringify(state.filledFields, null, 2))
+    }
+
+    // 5. Process the next field/subfield to be asked
+    // This section determines what question to ask the user next
+    console.log("DEBUG: Entering field-filling loop determination.")
+    console.log("DEBUG: state.askedField at loop start:", state.askedField)
+    console.log("DEBUG: state.remainingFields at loop start:", state.remainingFields)
+
+    // Loop through remaining fields or continue with current field/subvield
+    // This while loop  ensures we keep asking questions until all fields are completed
+    while (state.remainingFields.length > 0 || (state.askedField && state.askedSubfield)) {
+
+        // Determine which field to process next
+        // If we're in the middle of a field (askedField exists), use that
+        // Otherwise, take the first field from remainingFields
+        const currentFieldTag = state.askedField || state.remainingFields[0]
+        console.log("DEBUG: currentFieldTag determined as:", currentFieldTag)
+
+        // Find the field definition for the current field
+        const currentFieldDef = [...state.currentTemplate.controlFields, ...state.currentTemplate.dataFields].find(
+            (f) => f.tag === currentFieldTag,
+        )
+
+        // Safeetey check: if field definition doesn't exist, skip and continue
+        if (!currentFieldDef) {
+            console.error(`Campo ${currentFieldTag} não encontrado na definição do template. A remover...`)
+            state.remainingFields.shift()       // Remove from remaining fields
+            delete state.askedField
+            delete state.askedSubfield
+            state.repeatingField = false
+            delete state.currentRepeatOccurrence // Clear if field definition is incorrect
+
+            continue        // Skip to next iteration
+        }
+
+        // Check if this is a data field with subfields
+        // Data fields have subFieldDef property with subfield definitions
+        const isDataFieldWithSubfields =
+            "subFieldDef" in currentFieldDef &&
+            Array.isArray((currentFieldDef as DataField).subFieldDef) &&
+            (currentFieldDef as DataField).subFieldDef.length > 0
+
+        // Initialize currentRepeatOccurrence if starting a new data field with subfields
+        // or if starting a new occurrence of a repeatable data field with subfields
+        // This object tracks the current occurrence bbeing filled
+        if (
+            isDataFieldWithSubfields &&
+            (!state.currentRepeatOccurrence || state.currentRepeatOccurrence.tag !== currentFieldTag)
+        ) {
+            state.currentRepeatOccurrence = { tag: currentFieldTag, subfields: {} }
+        } else if (!isDataFieldWithSubfields) {
+            // Clear currentRepeatOccurrence if not dealing with a data field with subfieds
+            delete state.currentRepeatOccurrence
+        }
+
+        // Determine which subfield to ask about (if dealing with a data field)
+        let subfieldToAskCode: string | undefined
+        let subfieldToAskDef: SubFieldDef | undefined
+
+        if (isDataFieldWithSubfields) {
+            const dataFieldDef = currentFieldDef as DataField
+
+            // If we're already in the middle of this field, continue with the current subfield (or indicator)
+            if (state.askedField === currentFieldTag && state.askedSubfield) {
+                subfieldToAskCode = state.askedSubfield
+                subfieldToAskDef = dataFieldDef.subFieldDef.find((sf) => sf.code === subfieldToAskCode)
+            } else {
+                // If starting a new occurrence or working with this field for the first time
+                // Start with the first defined indicator, or the first subfield to ask
+                const firstIndicator = fieldPriority.getIndicatorsToAsk(dataFieldDef, state.mode, language)[0]
+                subfieldToAskCode = firstIndicator ?? fieldPriority.getNextSubfield(dataFieldDef, undefined, state.mode)
+                subfieldToAskDef = dataFieldDef.subFieldDef.find((sf) => sf.code === subfieldToAskCode)
+            }
+        } else {
+            // For simple fields (without subfields), no subfield code to ask about
+            subfieldToAskCode = undefined
+        }
+
+        // Build the question with mandatory indication
+        // This section constructs the user-friendly question that will be presented to the user
+        // It incorporates field metadata, translations, and helpful tips
+        const fieldTranslation = currentFieldDef.translations.find((t: Translation) => t.language === language)
+        // Get the field name in the appropriate language, fall back to field tag if no translation
+        const fieldName = fieldTranslation?.name || currentFieldTag
+        // Extract tips for this field (helpful guidance for the user)
+        const tips = fieldTranslation?.tips ?? []
+        // Format tips as a readable string with emoji and bullet points if tips exist
+        const tipsText = tips.length > 0 ? `\n\n💡 ${messages.tips}:\n${tips.map((tip) => `• ${tip}`).join("\n")}` : ""
+        // Start building the question text with field name and tag
+        let questionText = `${messages.provide} ${fieldName} [${currentFieldTag}]`
+        // Variables to store subfield information for the response
+        let subfieldNameForResponse: string | null = null
+        let subfieldTips: string[] = []
+
+        // Grouped questions: every indicator and subfield of the occurrence in a single form
+        if (state.groupedQuestions && isDataFieldWithSubfields) {
+            const dataFieldDef = currentFieldDef as DataField
+            const formCodes = subfieldForm.getCodes(
+                dataFieldDef,
+                state.mode,
+                language,
+                state.askedField === currentFieldTag ? state.askedSubfield : undefined,
+            )
+            const formQuestion = `${messages.fill} ${fieldName} [${currentFieldTag}] (${currentFieldDef.mandatory ? messages.mandatory : messages.optional}).${tipsText}`
+
+            console.log("=== ASKING USER FOR FIELD (GROUPED) ===")
+            console.log("Field:", currentFieldTag, "Codes:", formCodes)
+
+            return respond({
+                type: "subfield-form",
+                field: currentFieldTag,
+                question: reaskError ? `⚠️ ${reaskError}. ${messages.fixMarkedValues}\n\n${formQuestion}` : formQuestion,
+                error: reaskError,
+                subfieldForm: subfieldForm.buildEntries(dataFieldDef, formCodes, language),
+                formErrors,
+                formValues: formErrors ? subfieldAnswers : undefined,
+                tips,
+                conversationState: {
+                    ...state,
+                    askedField: currentFieldTag,
+                    askedSubfield: undefined,
+                    askedForm: formCodes,
+                },
+            } as CatalogResponse)
+        }
+
+        // Indicator question: uses the translated indicator name and tips
+        const indicatorToAsk =
+            subfieldToAskCode && indicatorService.isIndicatorKey(subfieldToAskCode)
+                ? indicatorService
+                    .getDefinedIndicators(currentFieldDef, language)
+                    .find((i) => i.key === subfieldToAskCode)
+                : undefined
+
+        if (indicatorToAsk) {
+            const position = indicatorToAsk.key === "ind1" ? 1 : 2
+            questionText += ` - ${indicatorToAsk.name} (${messages.indicator(position)}) (${messages.optional})`
+            subfieldNameForResponse = indicatorToAsk.name
+            subfieldTips = [...indicatorToAsk.tips, messages.indicatorTip]
+        }
+        // Check if we're dealing with a subfield (data field with subfields)
+        else if (subfieldToAskCode) {
+            // Start with just the subfield code (e.g., $a)
+            let subfieldPart = `$${subfieldToAskCode}`
+
+            // Try to find a translation for the subfield
+            const subfieldTranslation = subfieldToAskDef?.translations?.find((t) => t.language === language)
+
+            // If we have a translated laber, use it in a user-friendly format
+            if (subfieldTranslation?.label) {
+                // Format as "Label ($a)" for better user experience
+                subfieldPart = `${subfieldTranslation.label} (${subfieldPart})`
+                subfieldNameForResponse = subfieldTranslation.label
+            } else {
+                // Fall back to using just the subfield code
+                subfieldNameForResponse = subfieldToAskCode
+            }
+
+            // Add mandatory/optional indication to the question
+            const mandatoryText = ` (${subfieldToAskDef?.mandatory ? messages.mandatory : messages.optional})`
+            questionText += ` - ${subfieldPart}${mandatoryText}`
+
+            // Get the tips for this specific subfield
+            subfieldTips = subfieldTranslation?.tips ?? []
+
+            // If the subfield is optional, add guidance about leaving it blank
+            if (!subfieldToAskDef?.mandatory) {
+                subfieldTips.unshift(messages.leaveBlankTip)
+            }
+
+            // Describe the expected format of subfields with typed rules (dates, extent...)
+            const format = subfieldRuleService.describe(currentFieldTag, subfieldToAskCode, language)
+            if (format) subfieldTips = [...subfieldTips, messages.formatTip(format)]
+        } else {
+            // This is a simple field (without subfields)
+            // Add mandatory/optional indication for the simple field
+            const mandatoryText = ` (${currentFieldDef.mandatory ? messages.mandatory : messages.optional})`
+            questionText += mandatoryText
+
+            // If the field is optional, add guidance about leaving it blank
+            if (!currentFieldDef.mandatory) {
+                tips.unshift(messages.leaveBlankTip)
+            }
+        }
+
+        // Append the tips to the question text (if any tips exist)
+        questionText += `.${tipsText}`
+
+        // Explain why the same question is being asked again
+        if (reaskError) questionText = `⚠️ ${reaskError}. ${messages.askAgain}\n\n${questionText}`
+
+        // Log the field question detail for debugging
+        console.log("=== ASKING USER FOR FIELD ===")
+        console.log("Field:", currentFieldTag)
+        console.log("Subfield:", subfieldToAskCode)
+        console.log("Question:", questionText)
+
+        // Return the response with the field question
+        // This pauses the conversation until the user provides a response
+        return respond({
+            type: "field-question",     // Response type indicating we're asking for field input
+            field: currentFieldTag,     // The field tag being asked about
+            subfield: subfieldToAskCode,        // The subfield code (if applicable)
+            subfieldName: subfieldNameForResponse || null,      // User-friendly subfield name
+            question: questionText,     // The complete question text to display to the user
+            error: reaskError,      // Why the previous answer was rejected (if it was)
+            suggestedCodes: codedValueService.suggest(currentFieldTag, subfieldToAskCode, language),     // Common codes for coded subfields
+            tips: tips,     // Field-level tips for guidance
+            subfieldTips: subfieldTips,     // Subfield-level tips (if applicable)
+            conversationState: {
+                ...state,       // Spread the current state
+                askedField: currentFieldTag,        // Track which field we're asking about
+                askedSubfield: subfieldToAskCode,       // Track whichh subfield we're asking about
+                repeatingField: state.repeatingField,       // Preserve the reapeatingField state
+                currentRepeatOccurrence: state.currentRepeatOccurrence,     // Preserve the current occurrence
+            },
+        } as CatalogResponse)
+    }
+
+    // Mandatory fields done ("mandatory" mode) - offer the optional fields, grouped by importance
+    // The user picks a group (its fields are then asked) or finishes with __SKIP_REST__
+    if (state.optionalGroups && state.optionalGroups.length > 0) {
+        console.log("=== OFFERING OPTIONAL FIELD GROUPS ===")
+        return respond({
+            type: "optional-fields-offer",
+            question: messages.optionalGroupsOffer,
+            error: reaskError,
+            // Group names in the language of the request (the state keeps the ids)
+            optionalGroups: state.optionalGroups.map((group) => ({
+                ...group,
+                name: messages.optionalGroupNames[group.id] ?? group.name,
+            })),
+            conversationState: state,
+        } as CatalogResponse)
+    }
+
+    // All fields filled - advance to confirmation
+    // This point is reached when all fields have been processed
+    console.log("=== ALL FIELDS FILLED - ADVANCING TO CONFIRMATION ===")
+    state.step = "confirmation"     // Transition to the confirmation step
+
+    // State before confirmation step
+    // Detailed log of the complete state before moving to confirmation
+    console.log("State before confirmation step:", JSON.stringify(state, null, 2))
+
+    // Return the final response indicating all fields are complete
+    return respond({
+        type: "record-complete",        // Response type indicating the record is complete
+        record: state.filledFields,     // All the field values that were coollected
+        conversationState: state,       // The current state to maintain context
+        template: {
+            id: state.currentTemplate.id,       // Template identifier
+            name: state.currentTemplate.name,       // Template name
+        },
+    } as CatalogResponse)
+}
@@ -0,0 +1,60 @@
+import type { CatalogResponse } from "@/app/types/unimarc"
+import { dialogMessages } from "@/lib/dialog-messages"
+import { fieldConfidenceService } from "@/lib/field-confidence"
+import type { DialogContext, StepResponse } from "./context"
+
+/**
+ * Confirmation of the AI values filled with low confidence (below AI_CONFIRMATION_THRESHOLD)
+ * Part of field filling: the fields in state.confirmingFields are shown one at a time before any other
+ * question. "Yes" keeps the value, "no" drops it and queues the field to be asked like any other
+ * Returns undefined when there is nothing left to confirm; an answer consumed here is removed from the
+ * request, so field filling does not read it as the answer to another question
+ */
+export async function handleLowConfidence(ctx: DialogContext): Promise<StepResponse> {
+    const { state, session, history, respond, language, messages } = ctx
+    const { userResponse } = ctx.request
+
+    const askedTag = state.confirmingFields?.[0]
+    if (!askedTag) return undefined
+
+    let error: string | undefined
+    const answersQuestion =
+        session.lastResponse?.type === "low-confidence-confirmation" &&
+        session.lastResponse.field === askedTag &&
+        typeof userResponse === "string" &&
+        !userResponse.startsWith("__")
+    if (answersQuestion) {
+        const keep = dialogMessages.parseYesNo(userResponse, language)
+        if (keep === null) {
+            error = messages.answerYesOrNo
+        } else {
+            console.log(`=== LOW CONFIDENCE VALUE OF ${askedTag} ${keep ? "KEPT" : "REJECTED"} ===`)
+            // Remember the state before the answer, so __UNDO__ asks the same confirmation again
+            history.push({ state: structuredClone(state), response: { ...session.lastResponse!, error: undefined } })
+
+            // A value confirmed or rejected by the user is no longer an AI guess
+            // A rejected value keeps its provenance, so the next answer is recorded as replacing it
+            state.confirmingFields = state.confirmingFields!.slice(1)
+            state.fieldConfidence = fieldConfidenceService.forget(state.fieldConfidence, askedTag)
+            if (!keep) {
+                delete state.filledFields[askedTag]
+                state.remainingFields = [askedTag, ...state.remainingFields.filter((tag) => tag !== askedTag)]
+            }
+            ctx.request = { ...ctx.request, userResponse: undefined }
+        }
+    }
+
+    const tag = state.confirmingFields?.[0]
+    if (!tag) return undefined
+
+    const values = fieldConfidenceService.describe(state.fieldConfidence, state.filledFields, tag)
+    const question = messages.lowConfidenceQuestion(tag, values)
+    return respond({
+        type: "low-confidence-confirmation",
+        field: tag,
+        question: `${error ? `⚠️ ${error}. ` : ""}${question} ${dialogMessages.yesNoHint(language)}`,
+        error,
+        lowConfidence: fieldConfidenceService.ofField(state.fieldConfidence, tag),
+        conversationState: state,
+    } as CatalogResponse)
+}
@@ -0,0 +1,99 @@
+import type { CatalogResponse } from "@/app/types/unimarc"
+import { promptOptimizer } from "@/lib/prompt-optimizer"
+import { recordLeaderService } from "@/lib/record-leader"
+import type { DialogContext, StepResponse } from "./context"
+
+/**
+ * STEP 1: Template Selection
+ * Uses AI to determine the most appropriate UNIMARC template based on the item description
+ */
+export async function handleTemplateSelection(ctx: DialogContext): Promise<StepResponse> {
+    const { state, respond, description, language, messages, templates, onProgress, openai } = ctx
+
+    console.log("=== INICIANDO SELEÇÃO DE TEMPLATE ===")
+    onProgress({ stage: "template-selection", message: messages.identifyingTemplate })
+
+    // Build optimized prompt for template selection
+    // The prompt optimizer tailors the prompt based on the specific use case
+    const { prompt, systemMessage, maxTokens, temperature, model } = promptOptimizer.buildPrompt(
+        "template-selection",       // Specific prompt type for template selection
+        description,        // Item description to analyze
+        { templates, language },        // Additional context: available templates and language
+    )
+
+    // Logging for debugging and monitoring
+    console.log("Template selection prompt:", prompt)
+    console.log(
+        "Available templates:",
+        templates.map((t) => t.name),       // Log just the template names for readability
+    )
+
+    // Call OpenAI to select the most appropriate template
+    const completion = await openai.chat.completions.create({
+        model,      // The AI model to use (determined by prompt optimizer)
+        messages: [
+            { role: "system", content: systemMessage },     // System instructions
+            { role: "user", content: prompt },      // User query with item description
+        ],
+        temperature,        // Controls randomness (lower = more deterministic)
+        max_tokens: maxTokens,      // Limit response length
+    })
+
+    // Process OpenAI response - extract the template name
+    const templateName = completion.choices[0]?.message?.content?.trim()
+    console.log("OpenAI selected template:", templateName)
+
+    // Find the actual template object based on the name
+    const selectedTemplate = templates.find((t) => t.name === templateName)
+    console.log("Found template:", selectedTemplate ? selectedTemplate.name : "NOT FOUND")
+
+    // If template is found, return options for manual selection
+    // This is a fallback for when AI cannot confidently identify a template
+    if (!selectedTemplate) {
+        console.log("=== TEMPLATE NOT FOUND - RETURNING OPTIONS ===")
+        return respond(
+            {
+                type: "template-not-found",
+                error: messages.templateNotIdentified,
+                options: templates.map((t) => ({ name: t.name, id: t.id })),
+            } as CatalogResponse,
+            { status: 400 },        // HTTP 400 Bad Request
+        )
+    }
+
+    // Prepare response with selected template and advance to the next step
+    console.log("=== TEMPLATE SELECTED - ADVANCING TO BULK AUTO-FILL ===")
+    console.log("Selected template ID:", selectedTemplate.id)
+    console.log("Selected template name:", selectedTemplate.name)
+    onProgress({ stage: "template-selected", message: messages.templateSelected(selectedTemplate.name) })
+
+    // Construct response with selected template and updated state
+    const response = {
+        type: "template-selected" as const,     // Response type for client handling
+        conversationState: {
+            step: "bulk-auto-fill" as const,        // Next step in workflow
+            currentTemplate: selectedTemplate,      // The selected template
+            filledFields: {},       // Reset filled fields
+            remainingFields: [],        // Will be populated in next step
+            autoFilledCount: 0,     // Reset counter
+            repeatingField: false,      // Reset repetition flag
+            repeatConfirmation: undefined,      // Reset confirmation data
+            currentRepeatOccurrence: undefined,     // Reset occurance data
+            leader: recordLeaderService.fromTemplate(selectedTemplate),     // Record label derived from the template
+            mode: state.mode,       // Options chosen when the session was started
+            groupedQuestions: state.groupedQuestions,
+        },
+        template: {
+            id: selectedTemplate.id,
+            name: selectedTemplate.name,
+            description: messages.templateSelected(selectedTemplate.name),
+        },
+    } as CatalogResponse
+
+    // Final logging before returning response
+    console.log("=== RETURNING TEMPLATE SELECTION RESPONSE ===")
+    console.log("Response type:", response.type)
+    console.log("Next step:", response.conversationState?.step)
+
+    return respond(response)
+}
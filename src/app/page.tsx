@@ -5,14 +5,52 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { useState, useEffect } from "react"
 // Importing custom component for displaying questions
 import QuestionDisplay from "@/components/question-display"
+// Importing custom component for grouped subfield questions
+import SubfieldForm from "@/components/subfield-form"
+// Streaming client for the uni-dialog route (progress events + final response)
+import { dialogStream } from "@/lib/dialog-stream"
+// Allowed transitions between the dialog steps
+import { dialogStateMachine } from "@/lib/dialog-state-machine"
+// Questions and labels in the language chosen for the dialog
+import { DIALOG_LANGUAGES, type DialogLanguage, dialogMessages } from "@/lib/dialog-messages"
 // Importing TypeScript type definitions for the app
-import type { CatalogResponse, ConversationState } from "@/app/types/unimarc"
+import type { CatalogResponse, ConversationState, DialogProgress } from "@/app/types/unimarc"
 // Importing additional UI components
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 // Importing icons from Lucide React library
-import { BookOpen, Edit } from "lucide-react"
+import { BookOpen, Edit, SkipForward, Undo2 } from "lucide-react"
+
+// Formats a filled field value for the review list
+// Data field occurrences show their indicators first ("#" = blank), then "$code value" pairs
+const formatFieldValue = (value: unknown): string => {
+  if (Array.isArray(value)) return value.map(formatFieldValue).join(" | ")
+  if (value && typeof value === "object") {
+    const { ind1, ind2, ...subfields } = value as Record<string, unknown>
+    const subfieldText = Object.entries(subfields)
+      .flatMap(([code, v]) => (Array.isArray(v) ? v : [v]).map((item) => `$${code} ${String(item)}`))
+      .join(" ")
+    return ind1 || ind2 ? `[${String(ind1 || "#")}${String(ind2 || "#")}] ${subfieldText}` : subfieldText
+  }
+  return String(value)
+}
+
+// Lowest confidence of the AI values of a field ("tag" or "tag$code" keys), or undefined if none is low
+const lowestConfidence = (lowConfidence: Record<string, number> | undefined, tag: string): number | undefined => {
+  const scores = Object.entries(lowConfidence ?? {})
+    .filter(([key]) => key === tag || key.startsWith(`${tag}$`))
+    .map(([, score]) => score)
+  return scores.length > 0 ? Math.min(...scores) : undefined
+}
+
+// First letter in upper case (answers of the yes/no buttons)
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1)
+
+// localStorage key of the cataloguing session in progress
+const SESSION_STORAGE_KEY = "uni-dialog-session"
+// localStorage key of the language chosen for the dialog
+const LANGUAGE_STORAGE_KEY = "uni-dialog-language"
 
 // Main component function for the homepage
 export default function HomePage() {
@@ -24,8 +62,112 @@ export default function HomePage() {
   const [description, setDescription] = useState("")
   // State for storing the user's response to questions
   const [userResponse, setUserResponse] = useState("")
-  // State for tracking the conversation state
+  // State for tracking the conversation state (read-only copy; the server keeps the session)
   const [conversationState, setConversationState] = useState<ConversationState | null>(null)
+  // Ask only the mandatory fields first (optional ones are offered in groups at the end)
+  const [mandatoryOnly, setMandatoryOnly] = useState(false)
+  // Ask all subfields of each field in a single form
+  const [groupedQuestions, setGroupedQuestions] = useState(false)
+  // Server-side cataloguing session id (also kept in localStorage and in the URL to resume it)
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  // Progress events streamed by the server for the request in flight
+  const [progress, setProgress] = useState<DialogProgress[]>([])
+  // Language of the questions and messages (sent with every request)
+  const [language, setLanguage] = useState<DialogLanguage>("pt")
+  const messages = dialogMessages.get(language)
+  const t = messages.ui
+
+  // Changes the dialog language; the next answer is already asked in the new language
+  const changeLanguage = (value: string) => {
+    const resolved = dialogMessages.resolveLanguage(value)
+    setLanguage(resolved)
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, resolved)
+  }
+
+  // Remembers the session so it can be resumed after a reload, or on another machine with the same URL
+  const rememberSession = (id: string | undefined) => {
+    if (!id) return
+    setSessionId(id)
+    localStorage.setItem(SESSION_STORAGE_KEY, id)
+    const url = new URL(window.location.href)
+    url.searchParams.set("session", id)
+    url.searchParams.delete("draft")    // A draft or record that was opened now continues in this session
+    url.searchParams.delete("record")
+    window.history.replaceState(null, "", url)
+  }
+
+  // Forgets the current session and goes back to the initial description form
+  const resetSession = () => {
+    setCurrentResponse(null)
+    setConversationState(null)
+    setDescription("")
+    setSessionId(null)
+    localStorage.removeItem(SESSION_STORAGE_KEY)
+    const url = new URL(window.location.href)
+    url.searchParams.delete("session")
+    window.history.replaceState(null, "", url)
+  }
+
+  // Resume the session from the URL (?session=...) or from the last one used in this browser
+  useEffect(() => {
+    const savedLanguage = dialogMessages.resolveLanguage(localStorage.getItem(LANGUAGE_STORAGE_KEY))
+    setLanguage(savedLanguage)
+
+    // Open a draft (?draft=...) or a saved record (?record=...) from the records list: the server rebuilds
+    // the state from its saved fields and asks the next remaining field (draft) or shows the review (record)
+    const openSavedRecord = async (payload: { draftId: string } | { recordId: string }) => {
+      setLoading(true)
+      try {
+        setProgress([])
+        const data = await dialogStream.post({ ...payload, language: savedLanguage }, (event) => setProgress((prev) => [...prev, event]))
+        rememberSession(data.sessionId)
+        setCurrentResponse(data)
+        setConversationState(data.conversationState || null)
+      } catch (error) {
+        console.error("Erro ao abrir o registo gravado:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    const draftId = new URLSearchParams(window.location.search).get("draft")
+    if (draftId) {
+      openSavedRecord({ draftId })
+      return
+    }
+    const recordId = new URLSearchParams(window.location.search).get("record")
+    if (recordId) {
+      openSavedRecord({ recordId })
+      return
+    }
+
+    const id = new URLSearchParams(window.location.search).get("session") ?? localStorage.getItem(SESSION_STORAGE_KEY)
+    if (!id) return
+
+    const resume = async () => {
+      setLoading(true)
+      try {
+        const res = await fetch(
+          `/api/uni-dialog?sessionId=${encodeURIComponent(id)}&language=${encodeURIComponent(savedLanguage)}`,
+        )
+        const data: CatalogResponse = await res.json()
+        if (!res.ok) {
+          localStorage.removeItem(SESSION_STORAGE_KEY)
+          return
+        }
+        rememberSession(data.sessionId)
+        setDescription(data.description ?? "")
+        if (data.language) changeLanguage(data.language)
+        setCurrentResponse(data)
+        setConversationState(data.conversationState || null)
+      } catch (error) {
+        console.error("Erro ao retomar a sessão de catalogação:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    resume()
+  }, [])
 
   // useEffect hook for auto-continuation logic
   // This handles automatic progression for certain types
@@ -65,23 +207,16 @@ export default function HomePage() {
     setLoading(true)
     try {
       // Prepare thee payload for the API request
-      const payload = { description }
+      const payload = { description, language, mode: mandatoryOnly ? "mandatory" : "all", groupedQuestions }
       console.log("Sending initial payload:", payload)
 
-      // Make API request to the uni-dialog endpoint
-      const res = await fetch("/api/uni-dialog", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      })
-
-      // Parse the response data
-      const data: CatalogResponse = await res.json()
+      // Make a streaming API request to the uni-dialog endpoint; progress events are shown as they arrive
+      setProgress([])
+      const data = await dialogStream.post(payload, (event) => setProgress((prev) => [...prev, event]))
       console.log("Received initial response:", data)
 
       // Update state with the response data
+      rememberSession(data.sessionId)
       setCurrentResponse(data)
       setConversationState(data.conversationState || null)
     } catch (error) {
@@ -93,31 +228,31 @@ export default function HomePage() {
 
   // Function to handle user responses to questions
   // Added fieldToEdit paramater for field editing functionality
-  const handleUserResponse = async (directResponse?: string, fieldToEdit?: string) => {
+  const handleUserResponse = async (
+    directResponse?: string,
+    fieldToEdit?: string,
+    leaderEdit?: { position: number; value: string },
+    subfieldAnswers?: Record<string, string | string[]>,
+  ) => {
     // Adicionado fieldToEdit
     console.log("handleUserResponse called with:", directResponse || userResponse)
     setLoading(true)
     try {
       // Prepare the payload for the API request
+      // Only the session id and the answer are sent; the state is loaded server-side
       const payload = {
-        description,
-        conversationState,
+        sessionId,
+        language,       // Language of the next question (can be changed during the session)
         userResponse: directResponse !== undefined ? directResponse : userResponse,
         fieldToEdit,    // Include fieldToEdit in the payload
+        leaderEdit,     // Include leaderEdit in the payload (leader position editing)
+        subfieldAnswers,        // Include the answers to a grouped question (subfield form)
       }
       console.log("Sending payload:", payload)
 
-      // Make API request to the uni-dialog endpoint
-      const res = await fetch("/api/uni-dialog", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      })
-
-      // Parse the response data
-      const data: CatalogResponse = await res.json()
+      // Make a streaming API request to the uni-dialog endpoint; progress events are shown as they arrive
+      setProgress([])
+      const data = await dialogStream.post(payload, (event) => setProgress((prev) => [...prev, event]))
       console.log("Received response:", data)
 
       // Update state with the response data
@@ -140,11 +275,26 @@ export default function HomePage() {
     handleUserResponse("__REVIEW_FIELDS__")   // Special command for the backend
   }
 
+  // Function to undo the last answer (the previous question is asked again)
+  const handleUndo = () => {
+    handleUserResponse("__UNDO__")    // Special command for the backend
+  }
+
+  // Function to skip the remaining optional fields and go to confirmation
+  const handleSkipRest = () => {
+    handleUserResponse("__SKIP_REST__")   // Special command for the backend
+  }
+
   // Function to handlee field editing
   const handleEditField = (fieldTag: string) => {
     handleUserResponse("__EDIT_FIELD__", fieldTag)    // Special command and field to edit
   }
 
+  // Function to handle editing a single leader (record label) position
+  const handleEditLeader = (position: number, value: string) => {
+    handleUserResponse("__EDIT_LEADER__", undefined, { position, value })   // Special command and leader change
+  }
+
   // Component render method
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center p-6 text-gray-900 font-poppins">
@@ -153,9 +303,24 @@ export default function HomePage() {
           <CardHeader className="w-full text-center">
             <CardTitle className="flex items-center justify-center gap-3 text-3xl font-extrabold text-gray-900">
               <BookOpen className="w-8 h-8 text-blue-600" />
-              <span>Sistema de Catalogação UNIMARC</span>
+              <span>{t.title}</span>
             </CardTitle>
-            <p className="text-gray-700 text-sm mt-2">Otimizado com IA para eficiência máxima</p>
+            <p className="text-gray-700 text-sm mt-2">{t.subtitle}</p>
+            <label className="mt-2 flex items-center justify-center gap-2 text-sm text-gray-600">
+              {t.language}
+              <select
+                value={language}
+                onChange={(e) => changeLanguage(e.target.value)}
+                disabled={loading}
+                className="text-sm text-gray-800 border border-gray-300 rounded-md p-1 bg-white"
+              >
+                {DIALOG_LANGUAGES.map((code) => (
+                  <option key={code} value={code}>
+                    {dialogMessages.get(code).languageName}
+                  </option>
+                ))}
+              </select>
+            </label>
           </CardHeader>
           <CardContent className="space-y-6 w-full flex-grow flex flex-col justify-center">
             {/* Status information display */}
@@ -167,44 +332,82 @@ export default function HomePage() {
                       {conversationState.step}
                     </Badge>
                     <span className="text-gray-700 font-medium">
-                      {Object.keys(conversationState.filledFields).length} campos preenchidos
+                      {t.filledFields(Object.keys(conversationState.filledFields).length)}
                     </span>
                   </div>
-                  <div className="text-gray-500">{conversationState.remainingFields.length} restantes</div>
+                  <div className="text-gray-500">{t.remainingFields(conversationState.remainingFields.length)}</div>
                 </div>
+                {currentResponse?.draftId && (
+                  <div className="mt-2 text-xs text-gray-500">{t.draftSaved}</div>
+                )}
                 {(conversationState.autoFilledCount ?? 0) > 0 && (
                   <div className="mt-2 text-xs text-emerald-600">
-                    ✨ {conversationState.autoFilledCount ?? 0} campos preenchidos automaticamente
+                    ✨ {messages.autoFilledCount(conversationState.autoFilledCount ?? 0)}
                   </div>
                 )}
               </div>
             )}
+            {/* Progress of the request in flight (streamed by the server) */}
+            {loading && progress.length > 0 && (
+              <div className="w-full max-w-lg mx-auto p-4 bg-gray-50 rounded-lg border border-gray-200 shadow-sm space-y-1 text-sm">
+                {progress.map((event, index) => (
+                  <div key={index} className="flex items-start gap-2 text-gray-700">
+                    <span className={event.stage === "field-parsed" ? "text-emerald-600" : "text-blue-600"}>
+                      {event.stage === "field-parsed" ? "✓" : "•"}
+                    </span>
+                    <span className="flex-1">
+                      {event.message}
+                      {event.stage === "field-parsed" && event.value !== undefined && (
+                        <span className="text-gray-500">: {formatFieldValue(event.value)}</span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
             {/* Initial input form */}
             {!currentResponse && (
               <div className="w-full max-w-md mx-auto space-y-4">
                 <Input
                   className="shadow-sm rounded-lg border-gray-300 bg-white text-gray-900 placeholder:text-gray-500 focus:border-blue-500 focus:ring-blue-500"
-                  placeholder="Ex: Livro 'Memorial do Convento' de José Saramago"
+                  placeholder={t.descriptionPlaceholder}
                   value={description}
                   onChange={(e) => setDescription(e.target.value)}
                   disabled={loading}
                 />
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={mandatoryOnly}
+                    onChange={(e) => setMandatoryOnly(e.target.checked)}
+                    disabled={loading}
+                  />
+                  {t.mandatoryOnly}
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={groupedQuestions}
+                    onChange={(e) => setGroupedQuestions(e.target.checked)}
+                    disabled={loading}
+                  />
+                  {t.groupedQuestions}
+                </label>
                 <Button
                   onClick={handleInitialRequest}
                   className="w-full rounded-lg shadow-md bg-blue-600 hover:bg-blue-700 text-white font-semibold transition-all duration-200 ease-in-out transform hover:scale-105"
                   disabled={loading}
                 >
-                  {loading ? "A iniciar..." : "Iniciar Catalogação"}
+                  {loading ? t.starting : t.start}
                 </Button>
               </div>
             )}
             {/* Responses and state displays */}
             {currentResponse && (
               <div className="w-full max-w-lg mx-auto space-y-6">
-                {/* Review/ Edit button */}
+                {/* Review/ Edit button: only in the steps that can go to review */}
                 {conversationState &&
-                  conversationState.step !== "template-selection" &&
-                  conversationState.step !== "completed" && (
+                  dialogStateMachine.canTransition(conversationState.step, "review-fields") && (
                     <div className="flex justify-center mt-4">
                       <Button
                         onClick={handleReviewFields}
@@ -212,18 +415,44 @@ export default function HomePage() {
                         variant="outline"
                         className="rounded-lg border-blue-500 text-blue-600 hover:bg-blue-50 hover:text-blue-700 transition-all duration-200 ease-in-out bg-transparent"
                       >
-                        <Edit className="w-4 h-4 mr-2" /> Rever e Editar Campos
+                        <Edit className="w-4 h-4 mr-2" /> {t.review}
                       </Button>
+                      {/* Back button: reverts the last answer */}
+                      {currentResponse.canUndo && (
+                        <Button
+                          onClick={handleUndo}
+                          disabled={loading}
+                          variant="outline"
+                          className="ml-2 rounded-lg border-gray-400 text-gray-600 hover:bg-gray-50 hover:text-gray-700 transition-all duration-200 ease-in-out bg-transparent"
+                        >
+                          <Undo2 className="w-4 h-4 mr-2" /> {t.back}
+                        </Button>
+                      )}
+                      {/* Skip button: goes to confirmation once the mandatory fields are filled */}
+                      {conversationState.step === "field-filling" && (
+                        <Button
+                          onClick={handleSkipRest}
+                          disabled={loading}
+                          variant="outline"
+                          className="ml-2 rounded-lg border-gray-400 text-gray-600 hover:bg-gray-50 hover:text-gray-700 transition-all duration-200 ease-in-out bg-transparent"
+                        >
+                          <SkipForward className="w-4 h-4 mr-2" /> {t.skipOptional}
+                        </Button>
+                      )}
                     </div>
                   )}
 
                 {/* User question display */}
                 {currentResponse.type === "field-question" && (
                   <>
-                    <QuestionDisplay response={currentResponse} />
+                    <QuestionDisplay response={currentResponse} language={language} />
+                    {/* Errors not already explained in the question (e.g. nothing to undo, mandatory fields missing) */}
+                    {currentResponse.error && !currentResponse.question?.includes(currentResponse.error) && (
+                      <p className="text-sm text-red-600">{currentResponse.error}</p>
+                    )}
                     <div className="flex gap-2 mt-4">
                       <Input
-                        placeholder="A sua resposta..."
+                        placeholder={t.answerPlaceholder}
                         value={userResponse}
                         onChange={(e) => setUserResponse(e.target.value)}
                         onKeyPress={(e) => e.key === "Enter" && handleUserResponse()}
@@ -235,30 +464,108 @@ export default function HomePage() {
                         disabled={loading}
                         className="rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold"
                       >
-                        {loading ? "A enviar..." : "Enviar"}
+                        {loading ? t.sending : t.send}
                       </Button>
                     </div>
+                    {/* Suggested codes for coded subfields (languages, countries) */}
+                    {currentResponse.suggestedCodes && currentResponse.suggestedCodes.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {currentResponse.suggestedCodes.map(({ code, label }) => (
+                          <Button
+                            key={code}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleUserResponse(code)}
+                            disabled={loading}
+                            className="rounded-full border-gray-300 text-gray-700"
+                          >
+                            {code} — {label}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
                   </>
                 )}
                 {/* Repeat confirmation */}
                 {currentResponse.type === "repeat-confirmation" && (
                   <Card className="p-4 bg-gray-50 border border-gray-200 text-amber-600 rounded-lg shadow-sm">
                     <p className="mb-4">{currentResponse.question}</p>
+                    {currentResponse.error && <p className="mb-4 text-sm text-red-600">{currentResponse.error}</p>}
                     <div className="flex gap-2">
                       <Button
-                        onClick={() => handleUserResponse("sim")}
+                        onClick={() => handleUserResponse(messages.yes[0])}
                         className="flex-1 bg-amber-500 hover:bg-amber-600 text-white font-semibold"
                         disabled={loading}
                       >
-                        {loading ? "A processar..." : "Sim"}
+                        {loading ? t.processing : capitalize(messages.yes[0])}
                       </Button>
                       <Button
-                        onClick={() => handleUserResponse("não")}
+                        onClick={() => handleUserResponse(messages.no[0])}
                         className="flex-1 bg-transparent text-amber-600 border border-amber-500 hover:bg-amber-500/10 font-semibold"
                         variant="outline"
                         disabled={loading}
                       >
-                        {loading ? "A processar..." : "Não"}
+                        {loading ? t.processing : capitalize(messages.no[0])}
+                      </Button>
+                    </div>
+                  </Card>
+                )}
+                {/* Confirmation of an AI value filled with low confidence */}
+                {currentResponse.type === "low-confidence-confirmation" && (
+                  <Card className="p-4 bg-gray-50 border border-gray-200 text-amber-600 rounded-lg shadow-sm">
+                    <p className="mb-4">{currentResponse.question}</p>
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={() => handleUserResponse(messages.yes[0])}
+                        className="flex-1 bg-amber-500 hover:bg-amber-600 text-white font-semibold"
+                        disabled={loading}
+                      >
+                        {loading ? t.processing : capitalize(messages.yes[0])}
+                      </Button>
+                      <Button
+                        onClick={() => handleUserResponse(messages.no[0])}
+                        className="flex-1 bg-transparent text-amber-600 border border-amber-500 hover:bg-amber-500/10 font-semibold"
+                        variant="outline"
+                        disabled={loading}
+                      >
+                        {loading ? t.processing : capitalize(messages.no[0])}
+                      </Button>
+                    </div>
+                  </Card>
+                )}
+                {/* Grouped question: all subfields of the field at once */}
+                {currentResponse.type === "subfield-form" && (
+                  <SubfieldForm
+                    response={currentResponse}
+                    loading={loading}
+                    language={language}
+                    onSubmit={(answers) => handleUserResponse(undefined, undefined, undefined, answers)}
+                  />
+                )}
+                {/* Optional field groups offered after the mandatory fields */}
+                {currentResponse.type === "optional-fields-offer" && (
+                  <Card className="p-4 bg-gray-50 border border-gray-200 text-gray-800 rounded-lg shadow-sm">
+                    <p className="mb-4">{currentResponse.question}</p>
+                    {currentResponse.error && <p className="mb-4 text-sm text-red-600">{currentResponse.error}</p>}
+                    <div className="flex flex-col gap-2">
+                      {currentResponse.optionalGroups?.map((group) => (
+                        <Button
+                          key={group.id}
+                          variant="outline"
+                          onClick={() => handleUserResponse(group.id)}
+                          disabled={loading}
+                          className="justify-between"
+                        >
+                          <span>{group.name}</span>
+                          <span className="text-xs text-gray-500">{group.fields.join(", ")}</span>
+                        </Button>
+                      ))}
+                      <Button
+                        onClick={handleSkipRest}
+                        disabled={loading}
+                        className="bg-blue-600 hover:bg-blue-700 text-white font-semibold"
+                      >
+                        {t.finishAndConfirm}
                       </Button>
                     </div>
                   </Card>
@@ -268,13 +575,13 @@ export default function HomePage() {
                   <Card className="p-4 bg-gray-50 border border-gray-200 text-green-600 rounded-lg shadow-sm">
                     <div className="flex items-center justify-between">
                       <div>
-                        <p className="font-semibold">Template selecionado:</p>
+                        <p className="font-semibold">{t.templateSelected}</p>
                         <p className="text-lg">{currentResponse.template?.name}</p>
                       </div>
                       {loading && (
                         <div className="flex items-center text-sm text-gray-500">
-                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-green-600 mr-2"></div>A
-                          analisar...
+                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-green-600 mr-2"></div>
+                          {t.analysing}
                         </div>
                       )}
                     </div>
@@ -284,18 +591,18 @@ export default function HomePage() {
                 {currentResponse.type === "bulk-auto-filled" && (
                   <Card className="p-4 bg-gray-50 border border-gray-200 text-lime-600 rounded-lg shadow-sm">
                     <div className="flex items-center justify-between mb-3">
-                      <p className="font-semibold">Preenchimento Automático Concluído!</p>
+                      <p className="font-semibold">{t.autoFillDone}</p>
                       {loading && (
                         <div className="flex items-center text-sm text-gray-500">
                           <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-lime-600 mr-2"></div>
-                          A continuar...
+                          {t.continuing}
                         </div>
                       )}
                     </div>
                     <p className="mb-3">{currentResponse.message}</p>
                     {currentResponse.filledFields && (
                       <div className="bg-gray-100 p-3 rounded border border-gray-200">
-                        <p className="font-medium mb-2 text-gray-800">Campos preenchidos automaticamente:</p>
+                        <p className="font-medium mb-2 text-gray-800">{t.autoFilledFields}</p>
                         <div className="space-y-2">
                           {Object.entries(currentResponse.filledFields).map(([field, value]) => (
                             <div key={field} className="flex items-start gap-2">
@@ -325,58 +632,123 @@ export default function HomePage() {
                 {/* Review fields display */}
                 {currentResponse.type === "review-fields-display" && (
                   <Card className="p-4 bg-gray-50 border border-gray-200 text-blue-600 rounded-lg shadow-sm">
-                    <p className="font-semibold mb-4">Campos Preenchidos:</p>
+                    {/* Validation issues that prevented the record from being saved */}
+                    {currentResponse.validationIssues && currentResponse.validationIssues.length > 0 && (
+                      <div className="mb-4 p-2 bg-red-50 border border-red-200 rounded-md">
+                        {currentResponse.error && <p className="text-sm font-semibold text-red-600">{currentResponse.error}</p>}
+                        <ul className="mt-1 space-y-1 list-disc list-inside">
+                          {currentResponse.validationIssues.map((issue, idx) => (
+                            <li
+                              key={idx}
+                              className={`text-sm ${issue.severity === "error" ? "text-red-600" : "text-amber-600"}`}
+                            >
+                              {issue.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <p className="font-semibold mb-4">{t.reviewFilledFields}</p>
+                    {/* AI values with low confidence are highlighted so they can be checked before saving */}
+                    {Object.keys(currentResponse.lowConfidence ?? {}).length > 0 && (
+                      <p className="mb-3 text-sm text-amber-600">{t.lowConfidenceHint}</p>
+                    )}
                     <div className="space-y-3 max-h-60 overflow-y-auto pr-2">
                       {currentResponse.filledFields && Object.keys(currentResponse.filledFields).length > 0 ? (
-                        Object.entries(currentResponse.filledFields).map(([fieldTag, value]) => (
-                          <div
-                            key={fieldTag}
-                            className="flex items-center justify-between p-2 bg-white rounded-md border border-gray-200 shadow-sm"
-                          >
-                            <div className="flex-1">
-                              <Badge variant="secondary" className="text-xs bg-gray-200 text-gray-700 mr-2">
-                                {fieldTag}
-                              </Badge>
-                              <span className="text-sm text-gray-800">
-                                {typeof value === "object"
-                                  ? JSON.stringify(value)
-                                  : String(value)}
-                              </span>
-                            </div>
-                            <Button
-                              onClick={() => handleEditField(fieldTag)}
-                              variant="ghost"
-                              size="sm"
-                              className="text-blue-500 hover:bg-blue-100"
-                              disabled={loading}
+                        Object.entries(currentResponse.filledFields).map(([fieldTag, value]) => {
+                          const confidence = lowestConfidence(currentResponse.lowConfidence, fieldTag)
+                          return (
+                            <div
+                              key={fieldTag}
+                              className={`flex items-center justify-between p-2 rounded-md border shadow-sm ${
+                                confidence !== undefined ? "bg-amber-50 border-amber-300" : "bg-white border-gray-200"
+                              }`}
                             >
-                              Editar
-                            </Button>
-                          </div>
-                        ))
+                              <div className="flex-1">
+                                <Badge variant="secondary" className="text-xs bg-gray-200 text-gray-700 mr-2">
+                                  {fieldTag}
+                                </Badge>
+                                <span className="text-sm text-gray-800">{formatFieldValue(value)}</span>
+                                {confidence !== undefined && (
+                                  <Badge variant="outline" className="ml-2 text-xs border-amber-400 text-amber-700">
+                                    {t.lowConfidence(Math.round(confidence * 100))}
+                                  </Badge>
+                                )}
+                              </div>
+                              <Button
+                                onClick={() => handleEditField(fieldTag)}
+                                variant="ghost"
+                                size="sm"
+                                className="text-blue-500 hover:bg-blue-100"
+                                disabled={loading}
+                              >
+                                {t.edit}
+                              </Button>
+                            </div>
+                          )
+                        })
                       ) : (
-                        <p className="text-gray-600">Nenhum campo preenchido ainda.</p>
+                        <p className="text-gray-600">{t.noFilledFields}</p>
                       )}
                     </div>
+                    {/* Record label (leader) positions */}
+                    {currentResponse.leaderPositions && (
+                      <div className="mt-4">
+                        <p className="font-semibold mb-2">{t.leader}</p>
+                        <p className="font-mono text-xs bg-gray-100 p-2 rounded border border-gray-200 text-gray-800 whitespace-pre">
+                          {currentResponse.leader}
+                        </p>
+                        {currentResponse.error && !currentResponse.validationIssues && (
+                          <p className="text-sm text-red-600 mt-2">{currentResponse.error}</p>
+                        )}
+                        <div className="space-y-2 mt-2">
+                          {currentResponse.leaderPositions.map((position) => (
+                            <div
+                              key={position.position}
+                              className="flex items-center justify-between gap-2 p-2 bg-white rounded-md border border-gray-200 shadow-sm"
+                            >
+                              <span className="text-sm text-gray-800">
+                                <Badge variant="secondary" className="text-xs bg-gray-200 text-gray-700 mr-2">
+                                  {position.position}
+                                </Badge>
+                                {position.name}
+                              </span>
+                              <select
+                                value={position.value}
+                                onChange={(e) => handleEditLeader(position.position, e.target.value)}
+                                disabled={loading}
+                                className="text-sm text-gray-800 border border-gray-300 rounded-md p-1 bg-white"
+                              >
+                                {Object.entries(position.values).map(([code, label]) => (
+                                  <option key={code} value={code}>
+                                    {code === " " ? "#" : code} - {label}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                     <Button
                       onClick={() => handleUserResponse("__CONTINUE_FROM_REVIEW__")}
                       className="mt-4 w-full rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold"
                       disabled={loading}
                     >
-                      {loading ? "A continuar..." : "Continuar Catalogação"}
+                      {loading ? t.continuing : t.continueCataloguing}
                     </Button>
                   </Card>
                 )}
                 {/* Record complete */}
                 {currentResponse.type === "record-complete" && (
                   <Card className="p-4 bg-gray-50 border border-gray-200 text-purple-600 rounded-lg shadow-sm">
-                    <p>Todos os campos preenchidos! Clique para confirmar e gravar.</p>
+                    <p>{t.recordComplete}</p>
                     <Button
                       onClick={() => handleUserResponse()}
                       className="mt-4 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold"
                       disabled={loading}
                     >
-                      Confirmar e Gravar
+                      {t.confirmAndSave}
                     </Button>
                   </Card>
                 )}
@@ -386,36 +758,30 @@ export default function HomePage() {
                     <p>
                       <strong>{currentResponse.message}</strong>
                     </p>
-                    <p className="mt-2 text-sm text-gray-500">UNIMARC gerado:</p>
+                    <p className="mt-2 text-sm text-gray-500">{t.generatedUnimarc}</p>
                     <pre className="bg-gray-100 p-3 rounded text-xs whitespace-pre-wrap mt-1 text-gray-800 border border-gray-200">
                       {currentResponse.textUnimarc}
                     </pre>
                     <Button
-                      onClick={() => {
-                        setCurrentResponse(null)
-                        setConversationState(null)
-                        setDescription("")
-                      }}
+                      onClick={resetSession}
                       className="mt-4 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold"
                     >
-                      Iniciar Nova Catalogação
+                      {t.newCataloguing}
                     </Button>
                   </Card>
                 )}
                 {/* Error display */}
                 {currentResponse.type === "error" && (
                   <Card className="p-4 bg-gray-50 border border-gray-200 text-red-600 rounded-lg shadow-sm">
-                    <p>Erro: {currentResponse.error}</p>
+                    <p>
+                      {t.error} {currentResponse.error}
+                    </p>
                     {currentResponse.details && <p className="text-sm text-gray-500">{currentResponse.details}</p>}
                     <Button
-                      onClick={() => {
-                        setCurrentResponse(null)
-                        setConversationState(null)
-                        setDescription("")
-                      }}
+                      onClick={resetSession}
                       className="mt-4 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold"
                     >
-                      Tentar Novamente
+                      {t.tryAgain}
                     </Button>
                   </Card>
                 )}
@@ -431,14 +797,10 @@ export default function HomePage() {
                       </ul>
                     )}
                     <Button
-                      onClick={() => {
-                        setCurrentResponse(null)
-                        setConversationState(null)
-                        setDescription("")
-                      }}
+                      onClick={resetSession}
                       className="mt-4 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold"
                     >
-                      Tentar Outra Descrição
+                      {t.tryAnotherDescription}
                     </Button>
                   </Card>
                 )}
@@ -1,6 +1,9 @@
 "use client"
 
 import { useEffect, useState } from "react"
+import type { FieldProvenance, OccurrenceProvenance, ProvenanceSource, ValidationIssue } from "@/app/types/unimarc"
+import { isbdPunctuation } from "@/lib/isbd-punctuation"
+import { fieldProvenanceService } from "@/lib/field-provenance"
 
 interface RecordSubField {
     code: string
@@ -13,24 +16,71 @@ interface RecordField {
     fieldType: string
     fieldName: string
     subfields?: { [key: string]: string | any } // JSON do Prisma, geralmente um objeto para subcampos
+    provenance?: OccurrenceProvenance | null // Origem dos valores (null em registos gravados antes de existir)
 }
 
 interface CatalogRecord {
     id: string
     createdAt: string
+    updatedAt: string
+    status: "DRAFT" | "COMPLETE"
     fields: RecordField[]
     textUnimarc: string
 }
 
+// Erro de sintaxe devolvido pela API ao gravar texto UNIMARC editado
+interface LineError {
+    line: number
+    message: string
+}
+
+// Estado da edição do texto UNIMARC de um registo
+interface UnimarcEdit {
+    text: string
+    saving: boolean
+    error?: string
+    lineErrors: LineError[]
+    validationIssues: ValidationIssue[]
+}
+
+// Registos completos ou rascunhos do diálogo de catalogação ("Os meus rascunhos")
+type RecordsView = "complete" | "draft"
+
+// Nome e cor de cada origem dos valores
+const PROVENANCE_BADGES: Record<ProvenanceSource, { label: string; className: string }> = {
+    ai: { label: "IA", className: "bg-purple-100 text-purple-800" },
+    user: { label: "Utilizador", className: "bg-green-100 text-green-800" },
+    import: { label: "Importação", className: "bg-yellow-100 text-yellow-800" },
+}
+
+// Origem de um valor: o modelo da IA e a origem do valor corrigido aparecem ao passar o rato
+function ProvenanceBadge({ provenance }: { provenance: FieldProvenance }) {
+    const badge = PROVENANCE_BADGES[provenance.source]
+    const details = [
+        provenance.model,
+        provenance.replaced &&
+            `corrigiu ${PROVENANCE_BADGES[provenance.replaced.source].label}${provenance.replaced.model ? ` (${provenance.replaced.model})` : ""}`,
+    ].filter(Boolean)
+    return (
+        <span className={`ml-1 px-1.5 py-0.5 rounded text-xs ${badge.className}`} title={details.join(" — ") || undefined}>
+            {badge.label}
+            {provenance.replaced ? " ✎" : ""}
+        </span>
+    )
+}
+
 export default function RecordsList() {
     const [records, setRecords] = useState<CatalogRecord[]>([])
     const [loading, setLoading] = useState(true)
+    const [view, setView] = useState<RecordsView>("complete")
     const [visibleUnimarc, setVisibleUnimarc] = useState<{ [id: string]: boolean }>({})
+    const [edits, setEdits] = useState<{ [id: string]: UnimarcEdit }>({})
 
     useEffect(() => {
         const fetchRecords = async () => {
+            setLoading(true)
             try {
-                const res = await fetch("/api/records") // Chamada para a sua API Route
+                const res = await fetch(view === "draft" ? "/api/records?status=draft" : "/api/records") // Chamada para a sua API Route
                 if (!res.ok) {
                     throw new Error(`HTTP error! status: ${res.status}`)
                 }
@@ -46,32 +96,139 @@ export default function RecordsList() {
             }
         }
         fetchRecords()
-    }, [])
+    }, [view])
 
     const toggleUnimarc = (id: string) => {
         setVisibleUnimarc((prev) => ({ ...prev, [id]: !prev[id] }))
     }
 
+    const startEdit = (record: CatalogRecord) => {
+        setEdits((prev) => ({ ...prev, [record.id]: { text: record.textUnimarc ?? "", saving: false, lineErrors: [], validationIssues: [] } }))
+    }
+
+    const cancelEdit = (id: string) => {
+        setEdits((prev) => {
+            const next = { ...prev }
+            delete next[id]
+            return next
+        })
+    }
+
+    const updateEdit = (id: string, changes: Partial<UnimarcEdit>) => {
+        setEdits((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }))
+    }
+
+    // Envia o texto editado; a API reconstrói os campos e devolve o registo atualizado ou os erros por linha
+    const saveEdit = async (id: string) => {
+        updateEdit(id, { saving: true, error: undefined, lineErrors: [], validationIssues: [] })
+        try {
+            const res = await fetch(`/api/records/${id}`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ textUnimarc: edits[id].text }),
+            })
+            const data = await res.json()
+
+            if (!res.ok) {
+                updateEdit(id, {
+                    saving: false,
+                    error: data.error,
+                    lineErrors: data.lineErrors ?? [],
+                    validationIssues: data.validationIssues ?? [],
+                })
+                return
+            }
+
+            setRecords((prev) => prev.map((rec) => (rec.id === id ? { ...rec, ...data } : rec)))
+            cancelEdit(id)
+        } catch (error) {
+            console.error("Erro ao atualizar registo:", error)
+            updateEdit(id, { saving: false, error: "Erro ao atualizar registo" })
+        }
+    }
+
+    // O servidor devolve o ficheiro como anexo, por isso basta navegar para o endpoint
+    const downloadExport = (url: string) => {
+        window.location.href = url
+    }
+
+    // Abre o diálogo de catalogação no próximo campo por preencher do rascunho
+    const continueDraft = (id: string) => {
+        window.location.href = `/?draft=${encodeURIComponent(id)}`
+    }
+
+    // Abre um registo gravado no diálogo de catalogação, na revisão dos campos
+    const editInDialog = (id: string) => {
+        window.location.href = `/?record=${encodeURIComponent(id)}`
+    }
+
     if (loading) return <div className="text-center">A carregar registos...</div>
 
     return (
         <div className="max-w-4xl mx-auto p-6 space-y-6">
+            {/* Registos completos ou rascunhos */}
+            <div className="flex gap-2">
+                <button
+                    onClick={() => setView("complete")}
+                    className={`px-3 py-1 text-sm rounded ${view === "complete" ? "bg-blue-500 text-white" : "bg-gray-200 text-gray-800 hover:bg-gray-300"}`}
+                >
+                    Registos
+                </button>
+                <button
+                    onClick={() => setView("draft")}
+                    className={`px-3 py-1 text-sm rounded ${view === "draft" ? "bg-blue-500 text-white" : "bg-gray-200 text-gray-800 hover:bg-gray-300"}`}
+                >
+                    Os meus rascunhos
+                </button>
+            </div>
+            {view === "draft" && records.length === 0 && <p className="text-sm text-gray-500">Não há rascunhos por concluir.</p>}
+            {/* Exportação de todo o catálogo num único ficheiro ISO 2709 */}
+            {view === "complete" && records.length > 0 && (
+                <div className="flex justify-end">
+                    <button
+                        onClick={() => downloadExport("/api/records/export?format=iso2709")}
+                        className="px-3 py-1 text-sm bg-gray-800 text-white rounded hover:bg-gray-900"
+                    >
+                        Exportar todos (.mrc)
+                    </button>
+                </div>
+            )}
             {records.map((record) => (
                 <div key={record.id} className="border rounded-xl p-4 shadow">
-                    <p className="text-sm text-gray-500 mb-2">Criado em: {new Date(record.createdAt).toLocaleString()}</p>
+                    <p className="text-sm text-gray-500 mb-2">
+                        {record.status === "DRAFT"
+                            ? `Rascunho alterado em: ${new Date(record.updatedAt).toLocaleString()}`
+                            : `Criado em: ${new Date(record.createdAt).toLocaleString()}`}
+                    </p>
                     <ul className="space-y-1">
                         {record.fields.map((field, idx) => (
                             <li key={idx} className="text-sm">
-                                <strong>{field.tag} - {field.fieldName}</strong> ({field.fieldType}):{" "}
+                                <strong>{field.tag} - {field.fieldName}</strong> ({field.fieldType})
+                                {/* Origem dos valores do campo (IA, utilizador, importação...) */}
+                                {field.provenance &&
+                                    fieldProvenanceService
+                                        .sourcesOf(field.provenance)
+                                        .map((provenance) => (
+                                            <ProvenanceBadge key={`${provenance.source}-${provenance.model ?? ""}`} provenance={provenance} />
+                                        ))}
+                                :{" "}
                                 {/* Renderiza subcampos se 'subfields' for um objeto e tiver chaves */}
                                 {field.subfields && typeof field.subfields === "object" && Object.keys(field.subfields).length > 0 ? (
-                                    <ul className="ml-4 mt-1 space-y-1 list-disc list-inside">
-                                        {Object.entries(field.subfields).map(([subCode, subValue], sidx) => (
-                                            <li key={sidx}>
-                                                <em>${subCode}</em>: {String(subValue)}
-                                            </li>
-                                        ))}
-                                    </ul>
+                                    <>
+                                        {/* Apresentação ISBD, com a pontuação gerada a partir dos subcampos */}
+                                        <span>{isbdPunctuation.formatDisplay(field.tag, field.subfields)}</span>
+                                        <ul className="ml-4 mt-1 space-y-1 list-disc list-inside">
+                                            {Object.entries(field.subfields).map(([subCode, subValue], sidx) => (
+                                                <li key={sidx}>
+                                                    <em>${subCode}</em>: {String(subValue)}
+                                                    {/* Subcampo com origem diferente da do campo */}
+                                                    {field.provenance?.subfields?.[subCode] && (
+                                                        <ProvenanceBadge provenance={field.provenance.subfields[subCode]} />
+                                                    )}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </>
                                 ) : (
                                     // Caso contrário, exibe o valor principal (que deve ser uma string)
                                     String(field.value) // Garante que o valor é tratado como string
@@ -79,6 +236,24 @@ export default function RecordsList() {
                             </li>
                         ))}
                     </ul>
+                    {/* Rascunho: continua no diálogo de catalogação */}
+                    {record.status === "DRAFT" && (
+                        <button
+                            onClick={() => continueDraft(record.id)}
+                            className="mt-4 mr-2 px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                        >
+                            Continuar catalogação
+                        </button>
+                    )}
+                    {/* Registo completo: edição no diálogo de catalogação */}
+                    {record.status === "COMPLETE" && (
+                        <button
+                            onClick={() => editInDialog(record.id)}
+                            className="mt-4 mr-2 px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                        >
+                            Editar no diálogo
+                        </button>
+                    )}
                     {/* Botão para mostrar/esconder o UNIMARC */}
                     <button
                         onClick={() => toggleUnimarc(record.id)}
@@ -86,12 +261,81 @@ export default function RecordsList() {
                     >
                         {visibleUnimarc[record.id] ? "Ocultar UNIMARC" : "Mostrar UNIMARC"}
                     </button>
+                    <button
+                        onClick={() => startEdit(record)}
+                        disabled={!!edits[record.id]}
+                        className="mt-4 ml-2 px-3 py-1 text-sm bg-amber-500 text-white rounded hover:bg-amber-600 disabled:opacity-50"
+                    >
+                        Editar UNIMARC
+                    </button>
+                    {/* Só os registos completos são exportados */}
+                    {record.status === "COMPLETE" && (
+                        <>
+                            <button
+                                onClick={() => downloadExport(`/api/records/${record.id}/export?format=iso2709`)}
+                                className="mt-4 ml-2 px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+                            >
+                                Exportar ISO 2709
+                            </button>
+                            <button
+                                onClick={() => downloadExport(`/api/records/${record.id}/export?format=marcxml`)}
+                                className="mt-4 ml-2 px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+                            >
+                                Exportar MARCXML
+                            </button>
+                        </>
+                    )}
 
                     {visibleUnimarc[record.id] && (
                         <div className="mt-2 p-2 bg-gray-50 rounded-md text-xs font-mono whitespace-pre-wrap">
                             {record.textUnimarc}
                         </div>
                     )}
+
+                    {/* Edição do registo como texto UNIMARC (uma ocorrência por linha) */}
+                    {edits[record.id] && (
+                        <div className="mt-2 space-y-2">
+                            <textarea
+                                value={edits[record.id].text}
+                                onChange={(e) => updateEdit(record.id, { text: e.target.value })}
+                                rows={Math.max(6, edits[record.id].text.split("\n").length + 1)}
+                                spellCheck={false}
+                                className="w-full p-2 border rounded-md text-xs font-mono"
+                            />
+                            {edits[record.id].error && (
+                                <div className="text-sm text-red-600">
+                                    <p>{edits[record.id].error}</p>
+                                    <ul className="list-disc list-inside">
+                                        {edits[record.id].lineErrors.map((lineError, idx) => (
+                                            <li key={idx}>
+                                                Linha {lineError.line}: {lineError.message}
+                                            </li>
+                                        ))}
+                                        {edits[record.id].validationIssues.map((issue, idx) => (
+                                            <li key={`v${idx}`} className={issue.severity === "warning" ? "text-amber-600" : undefined}>
+                                                {issue.message}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => saveEdit(record.id)}
+                                    disabled={edits[record.id].saving}
+                                    className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                                >
+                                    {edits[record.id].saving ? "A gravar..." : "Gravar"}
+                                </button>
+                                <button
+                                    onClick={() => cancelEdit(record.id)}
+                                    className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+                                >
+                                    Cancelar
+                                </button>
+                            </div>
+                        </div>
+                    )}
                 </div>
             ))}
         </div>
@@ -66,15 +66,58 @@ export interface TemplatesResponse {
 // Export FieldDefinition
 export type FieldDefinition = ControlField | DataField
 
+// Formato bibliográfico (conjunto de tags) de um registo ou template
+export type MarcSchema = "unimarc" | "marc21"
+
 export type ConversationStep =
     | "template-selection"
     | "bulk-auto-fill"
-    | "bulk-field-filling"
     | "field-filling"
     | "confirmation"
     | "completed"
     | "review-fields"
 
+// Prompts do PromptOptimizer: um por passo do diálogo e o do preenchimento em massa
+export type PromptStep = ConversationStep | "bulk-field-filling"
+
+// Campos perguntados no diálogo: todos, ou só os obrigatórios (com os opcionais oferecidos em grupos)
+export type DialogMode = "all" | "mandatory"
+
+// Grupo de campos opcionais oferecido no fim dos obrigatórios (modo "mandatory")
+export interface OptionalFieldGroup {
+    id: string
+    name: string
+    fields: string[]
+}
+
+// Indicador ou subcampo de uma pergunta agrupada (todos os subcampos de uma ocorrência num só formulário)
+export interface SubfieldFormEntry {
+    code: string // Código do subcampo, ou "ind1"/"ind2"
+    name: string
+    mandatory: boolean
+    repeatable: boolean // Os subcampos repetíveis aceitam vários valores (array)
+    tips: string[]
+    format?: string // Formato esperado (regras tipadas dos subcampos)
+    suggestedCodes?: Array<{ code: string; label: string }>
+}
+
+// Origem de um valor: preenchimento automático (IA), resposta do catalogador ou registo importado
+export type ProvenanceSource = "ai" | "user" | "import"
+
+export interface FieldProvenance {
+    source: ProvenanceSource
+    model?: string // Modelo que propôs o valor (source "ai")
+    replaced?: { source: ProvenanceSource; model?: string } // Origem do valor que este substituiu (ex: IA corrigida pelo utilizador)
+}
+
+// Origem de uma ocorrência de campo (uma linha de CatalogField); os subcampos só aparecem quando a origem difere
+export interface OccurrenceProvenance extends FieldProvenance {
+    subfields?: Record<string, FieldProvenance>
+}
+
+// Origem das ocorrências de cada campo, pela ordem de filledFields (tag -> uma entrada por ocorrência)
+export type RecordProvenance = Record<string, OccurrenceProvenance[]>
+
 export interface ConversationState {
     step: ConversationStep
     currentTemplate?: Template
@@ -89,17 +132,81 @@ export interface ConversationState {
         subfield?: string
     }
     currentRepeatOccurrence?: { tag: string; subfields: Record<string, any | any[]> } // MODIFICADO: subfields pode ser array
+    leader?: string // Etiqueta de registo (24 caracteres), derivada do template e editável na revisão
+    mode?: DialogMode // Por omissão "all"
+    optionalGroups?: OptionalFieldGroup[] // Grupos de opcionais ainda não escolhidos (modo "mandatory")
+    groupedQuestions?: boolean // Perguntar os subcampos de cada ocorrência num só formulário
+    askedForm?: string[] // Códigos do formulário a que se espera resposta (perguntas agrupadas)
+    editingRecordId?: string // Registo gravado em edição: a confirmação atualiza-o em vez de criar outro
+    fieldConfidence?: Record<string, number> // Confiança (0 a 1) dos valores da IA: "tag" ou "tag$código" -> confiança
+    confirmingFields?: string[] // Campos da IA com pouca confiança ainda por confirmar pelo utilizador
+    provenance?: RecordProvenance // Origem de cada ocorrência e subcampo preenchido
+}
+
+// Posição editável da etiqueta de registo e valores permitidos (código -> descrição)
+export interface LeaderPosition {
+    position: number
+    name: string
+    values: Record<string, string>
+}
+
+// Posição da etiqueta com o valor atual, para apresentação na revisão
+export interface LeaderPositionInfo extends LeaderPosition {
+    value: string
+    label: string
+}
+
+// Problema encontrado ao validar um registo contra o template
+export interface ValidationIssue {
+    severity: "error" | "warning"
+    tag: string
+    subfield?: string
+    occurrence?: number // Índice da ocorrência (campos repetíveis)
+    message: string
+}
+
+// Resultado da validação: válido quando não há erros (avisos não impedem a gravação)
+export interface ValidationResult {
+    valid: boolean
+    issues: ValidationIssue[]
 }
 
 export interface CatalogRequest {
-    description: string
+    sessionId?: string // Sessão de catalogação guardada no servidor (ausente = nova sessão)
+    description?: string // Obrigatória ao iniciar uma sessão
     language?: string
-    conversationState?: ConversationState
     userResponse?: string
     fieldToEdit?: string
+    leaderEdit?: { position: number; value: string } // Usado com o comando __EDIT_LEADER__
+    mode?: DialogMode // Só ao iniciar uma sessão
+    groupedQuestions?: boolean // Só ao iniciar uma sessão
+    subfieldAnswers?: Record<string, string | string[]> // Respostas a uma pergunta agrupada ("subfield-form")
+    stream?: boolean // Responder com Server-Sent Events (eventos de progresso + resposta final)
+    draftId?: string // Rascunho a continuar (cria uma sessão nova a partir dos campos gravados)
+    recordId?: string // Registo gravado a editar (cria uma sessão nova, aberta na revisão)
+}
+
+// Evento de progresso enviado em modo streaming
+export interface DialogProgress {
+    stage:
+    | "template-selection"
+    | "template-selected"
+    | "bulk-auto-fill"
+    | "field-parsed"
+    | "bulk-auto-filled"
+    | "unimarc-conversion"
+    | "duplicate-check"
+    message: string
+    field?: string // Campo lido (stage "field-parsed")
+    value?: unknown
+    count?: number // Número de campos preenchidos (stage "bulk-auto-filled")
 }
 
 export interface CatalogResponse {
+    sessionId?: string
+    draftId?: string // Rascunho gravado automaticamente com as respostas dadas até agora
+    description?: string // Descrição do item, devolvida ao retomar uma sessão
+    language?: string // Língua da sessão, devolvida ao retomar uma sessão
     type:
     | "template-selected"
     | "bulk-auto-filled"
@@ -111,6 +218,9 @@ export interface CatalogResponse {
     | "error"
     | "repeat-confirmation"
     | "review-fields-display"
+    | "optional-fields-offer"
+    | "subfield-form"
+    | "low-confidence-confirmation"
     conversationState?: ConversationState
     template?: { id: string; name: string; description?: string }
     field?: string
@@ -128,6 +238,16 @@ export interface CatalogResponse {
     subfieldTips?: string[]
     textUnimarc?: string
     filledFields?: Record<string, any>
+    leader?: string
+    leaderPositions?: LeaderPositionInfo[]
+    validationIssues?: ValidationIssue[]
+    suggestedCodes?: Array<{ code: string; label: string }>
+    canUndo?: boolean // Há uma resposta que pode ser desfeita com __UNDO__
+    optionalGroups?: OptionalFieldGroup[] // Grupos oferecidos numa resposta "optional-fields-offer"
+    subfieldForm?: SubfieldFormEntry[] // Subcampos de uma pergunta agrupada ("subfield-form")
+    formErrors?: Record<string, string> // Respostas rejeitadas do formulário (código -> motivo)
+    formValues?: Record<string, string | string[]> // Respostas enviadas, para voltar a preencher o formulário
+    lowConfidence?: Record<string, number> // Valores da IA com pouca confiança ("tag" ou "tag$código" -> confiança)
 }
 
 export type RecordField = {
@@ -137,6 +257,9 @@ export type RecordField = {
     fieldType: FieldType
     fieldName: string | null
     subfieldNames: Prisma.JsonValue | null
+    ind1?: string | null // Indicadores (apenas campos de dados; " " = em branco)
+    ind2?: string | null
+    provenance?: Prisma.JsonValue | null // Origem da ocorrência (OccurrenceProvenance)
 }
 
 export type SaveRecordPayload = {
@@ -147,4 +270,5 @@ export type SaveRecordPayload = {
     template: Template
     textUnimarc: string
     fields: RecordField[]
+    leader?: string
 }
@@ -5,11 +5,12 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Loader2, BookOpen, Disc, Film, CheckCircle, Bug } from "lucide-react"
+import { Loader2, BookOpen, Disc, Film, CheckCircle, Bug, Undo2 } from "lucide-react"
 import type { CatalogResponse, ConversationState } from "@/app/types/unimarc"
 
 // Importe o novo componente QuestionDisplay
 import QuestionDisplay from "@/components/question-display" // Certifique-se de que o caminho está correto
+import { dialogStream } from "@/lib/dialog-stream"
 
 export default function CatalogInterface() {
     const [description, setDescription] = useState("")
@@ -22,6 +23,8 @@ export default function CatalogInterface() {
 
     // Use a ref para armazenar o estado mais recente da conversa
     const conversationStateRef = useRef<ConversationState | null>(null)
+    // Id da sessão no servidor; o estado da conversa é guardado lá
+    const sessionIdRef = useRef<string | null>(null)
 
     useEffect(() => {
         conversationStateRef.current = conversationState
@@ -57,13 +60,14 @@ export default function CatalogInterface() {
         }
     }, [response?.type, loading]) // Dependências: reagir apenas ao tipo de resposta e estado de carregamento
 
-    const handleSubmit = async (isInitial = false) => {
+    // command: comando especial enviado em vez da resposta escrita (ex: __UNDO__)
+    const handleSubmit = async (isInitial = false, command?: string) => {
         // Prevenir múltiplas submissões ou chamadas quando já estiver carregando
         if (loading) return
 
         // Se não é inicial, e não há resposta do usuário, e estamos atualmente a pedir uma pergunta, então retornar.
         // Isso impede a auto-continuação quando a entrada do usuário é esperada.
-        if (!isInitial && !userResponse.trim() && response?.type === "field-question") {
+        if (!isInitial && !command && !userResponse.trim() && response?.type === "field-question") {
             console.log("handleSubmit: Skipping call - waiting for user input.")
             return
         }
@@ -71,9 +75,9 @@ export default function CatalogInterface() {
         setLoading(true)
         try {
             const payload = {
-                description: description, // Sempre enviar a descrição original
-                userResponse: isInitial ? undefined : userResponse,
-                conversationState: isInitial ? null : conversationStateRef.current, // Usar a ref para o estado mais recente
+                // A primeira chamada cria a sessão a partir da descrição; as seguintes enviam só o id
+                ...(isInitial ? { description } : { sessionId: sessionIdRef.current }),
+                userResponse: isInitial ? undefined : (command ?? userResponse),
                 language: "pt",
             }
 
@@ -83,17 +87,14 @@ export default function CatalogInterface() {
 
             if (isInitial) {
                 addToHistory("user", `Descrição: ${description}`)
+            } else if (command === "__UNDO__") {
+                addToHistory("user", "Voltar à pergunta anterior")
             } else if (userResponse) {
                 addToHistory("user", userResponse)
             }
 
-            const res = await fetch("/api/uni-dialog", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(payload),
-            })
-
-            const data: CatalogResponse = await res.json()
+            // Modo streaming: o progresso (template, campos lidos, duplicados...) aparece no histórico à medida que chega
+            const data = await dialogStream.post(payload, (progress) => addToHistory("progress", progress.message))
 
             if (debugMode) {
                 console.log("Received response:", data)
@@ -101,6 +102,7 @@ export default function CatalogInterface() {
 
             setResponse(data)
             setConversationState(data.conversationState || null) // Atualizar o estado
+            if (data.sessionId) sessionIdRef.current = data.sessionId
 
             // Adicionar resposta ao histórico
             switch (data.type) {
@@ -159,7 +161,6 @@ export default function CatalogInterface() {
         try {
             const payload = {
                 description: `${description} [TEMPLATE: ${templateName}]`,
-                conversationState: null,
                 language: "pt",
             }
             const res = await fetch("/api/uni-dialog", {
@@ -170,6 +171,7 @@ export default function CatalogInterface() {
             const data: CatalogResponse = await res.json()
             setResponse(data)
             setConversationState(data.conversationState || null)
+            sessionIdRef.current = data.sessionId ?? null
             addToHistory("user", `Template selecionado manualmente: ${templateName}`)
             // useEffect irá lidar com a auto-continuação
         } catch (error) {
@@ -183,6 +185,7 @@ export default function CatalogInterface() {
         setDescription("")
         setUserResponse("")
         setConversationState(null)
+        sessionIdRef.current = null
         setResponse(null)
         setHistory([])
     }
@@ -297,6 +300,12 @@ export default function CatalogInterface() {
                                     {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Enviar"}
                                 </Button>
                             </div>
+                            {response.canUndo && (
+                                <Button variant="ghost" size="sm" onClick={() => handleSubmit(false, "__UNDO__")} disabled={loading}>
+                                    <Undo2 className="w-4 h-4 mr-2" />
+                                    Voltar
+                                </Button>
+                            )}
                         </div>
                     )}
 
@@ -324,6 +333,17 @@ export default function CatalogInterface() {
                                 {loading ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
                                 Gravar Registro
                             </Button>
+                            {response.canUndo && (
+                                <Button
+                                    variant="outline"
+                                    onClick={() => handleSubmit(false, "__UNDO__")}
+                                    disabled={loading}
+                                    className="w-full bg-transparent"
+                                >
+                                    <Undo2 className="w-4 h-4 mr-2" />
+                                    Voltar
+                                </Button>
+                            )}
                         </div>
                     )}
 
@@ -392,11 +412,13 @@ export default function CatalogInterface() {
                                             ? "bg-blue-50 border-l-2 border-blue-500"
                                             : entry.type === "system"
                                                 ? "bg-gray-50 border-l-2 border-gray-500"
-                                                : "bg-red-50 border-l-2 border-red-500"
+                                                : entry.type === "progress"
+                                                    ? "bg-amber-50 border-l-2 border-amber-400"
+                                                    : "bg-red-50 border-l-2 border-red-500"
                                         }`}
                                 >
                                     <div className="flex items-center gap-2 mb-1">
-                                        {entry.type === "user" ? "👤" : entry.type === "system" ? "🤖" : "⚠️"}
+                                        {entry.type === "user" ? "👤" : entry.type === "system" ? "🤖" : entry.type === "progress" ? "⏳" : "⚠️"}
                                         <span className="text-xs text-muted-foreground">{entry.timestamp.toLocaleTimeString()}</span>
                                     </div>
                                     <div>{entry.content}</div>
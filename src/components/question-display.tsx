@@ -4,15 +4,19 @@ import type React from "react"
 import { Badge } from "@/components/ui/badge"
 import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from "@/components/ui/tooltip"
 import type { CatalogResponse } from "@/app/types/unimarc"
+import { dialogMessages } from "@/lib/dialog-messages"
 
 // Interface que define as props do componente
 interface QuestionDisplayProps {
     response: CatalogResponse       // A resposta deve seguir o tipo CatalogResponse
+    language?: string       // Língua do diálogo (a mesma da pergunta)
 }
 
 
 // Componente principal que exibe a pergunta e informações relaciondas
-export default function QuestionDisplay({ response }: QuestionDisplayProps) {
+export default function QuestionDisplay({ response, language }: QuestionDisplayProps) {
+    const messages = dialogMessages.get(language)
+
     // Verificação inicial: se não for do tipo field-question ou não tiver question, não renderiza
     if (response.type !== "field-question" || !response.question) {
         return null
@@ -37,11 +41,11 @@ export default function QuestionDisplay({ response }: QuestionDisplayProps) {
                 {/* Seção da pergunta principal */}
                 <div className="mb-4">
                     {/* Texto de instrução */}
-                    <p className="text-sm text-gray-500">Por favor, forneça:</p>
+                    <p className="text-sm text-gray-500">{messages.provide}</p>
                     {/* Título da pergunta */}
                     <h2 className="text-2xl font-semibold flex items-center mt-1">
                         {/* Processa o texto da pergunta: remove prefixo e conteúdo após colchetes */}
-                        {question.split("[")[0].replace("Por favor, forneça: ", "").trim()}
+                        {question.split("[")[0].replace(`${messages.provide} `, "").trim()}
                         {/* Badge que mostra o campo */}
                         <Badge variant="secondary" className="ml-2 bg-gray-200 text-gray-700">
                             [{field}]
@@ -74,7 +78,7 @@ export default function QuestionDisplay({ response }: QuestionDisplayProps) {
                 {subfield && (
                     <div className="mb-4 text-sm text-gray-600 flex items-center gap-2">
                         {/* Rótulo */}
-                        <span className="font-medium">Subcampo:</span>
+                        <span className="font-medium">{messages.ui.subfield}</span>
                         <Badge variant="outline" className="bg-gray-100 text-gray-800 border-gray-300">
                             {/* Mostra nome ou código do subcampo */}
                             {subfieldName || subfield} (${subfield})
@@ -0,0 +1,129 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { CatalogResponse } from "@/app/types/unimarc"
+import { dialogMessages } from "@/lib/dialog-messages"
+
+// Interface que define as props do componente
+interface SubfieldFormProps {
+    response: CatalogResponse       // Resposta do tipo subfield-form
+    loading: boolean
+    language?: string       // Língua do diálogo (a mesma da pergunta)
+    onSubmit: (answers: Record<string, string | string[]>) => void      // Envia as respostas de todos os subcampos
+}
+
+// Valores iniciais do formulário: as respostas rejeitadas voltam preenchidas
+const initialValues = (response: CatalogResponse): Record<string, string[]> =>
+    Object.fromEntries(
+        (response.subfieldForm ?? []).map(({ code }) => {
+            const value = response.formValues?.[code]
+            return [code, Array.isArray(value) ? value : [value ?? ""]]
+        }),
+    )
+
+// Pergunta agrupada: todos os indicadores e subcampos de uma ocorrência num só formulário
+export default function SubfieldForm({ response, loading, language, onSubmit }: SubfieldFormProps) {
+    const messages = dialogMessages.get(language)
+
+    // Valores por código; os subcampos repetíveis podem ter vários
+    const [values, setValues] = useState<Record<string, string[]>>(() => initialValues(response))
+
+    // Cada pergunta nova (ou repetida com erros) recomeça o formulário
+    useEffect(() => {
+        setValues(initialValues(response))
+    }, [response])
+
+    if (response.type !== "subfield-form" || !response.subfieldForm) {
+        return null
+    }
+
+    const setValue = (code: string, index: number, value: string) =>
+        setValues((prev) => ({ ...prev, [code]: (prev[code] ?? [""]).map((v, i) => (i === index ? value : v)) }))
+
+    const addValue = (code: string) => setValues((prev) => ({ ...prev, [code]: [...(prev[code] ?? []), ""] }))
+
+    // Subcampos repetíveis são enviados como array; os restantes como texto
+    const submit = () =>
+        onSubmit(
+            Object.fromEntries(
+                response.subfieldForm!.map(({ code, repeatable }) => {
+                    const entered = (values[code] ?? []).filter((v) => v.trim())
+                    return [code, repeatable ? entered : (entered[0] ?? "")]
+                }),
+            ),
+        )
+
+    return (
+        <div className="w-full max-w-3xl mx-auto p-4 text-gray-800 space-y-4">
+            {/* Pergunta com o nome do campo */}
+            <p className="whitespace-pre-line font-semibold">{response.question}</p>
+
+            {response.subfieldForm.map((entry) => (
+                <div key={entry.code} className="space-y-1">
+                    {/* Nome do subcampo, código e obrigatoriedade */}
+                    <label className="text-sm font-medium flex items-center gap-2">
+                        {entry.name}
+                        <Badge variant="secondary" className="bg-gray-200 text-gray-700">
+                            {entry.code.startsWith("ind") ? entry.code : `$${entry.code}`}
+                        </Badge>
+                        <span className="text-xs text-gray-500">{entry.mandatory ? messages.mandatory : messages.optional}</span>
+                    </label>
+
+                    {(values[entry.code] ?? [""]).map((value, index) => (
+                        <Input
+                            key={index}
+                            value={value}
+                            onChange={(e) => setValue(entry.code, index, e.target.value)}
+                            disabled={loading}
+                            className="rounded-lg border-gray-300 bg-white text-gray-900 shadow-sm"
+                        />
+                    ))}
+
+                    {/* Subcampos repetíveis: mais um valor */}
+                    {entry.repeatable && (
+                        <Button variant="ghost" size="sm" onClick={() => addValue(entry.code)} disabled={loading}>
+                            + {messages.ui.addValue}
+                        </Button>
+                    )}
+
+                    {/* Códigos sugeridos (línguas, países) */}
+                    {entry.suggestedCodes && entry.suggestedCodes.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                            {entry.suggestedCodes.map(({ code, label }) => (
+                                <Button
+                                    key={code}
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setValue(entry.code, (values[entry.code]?.length ?? 1) - 1, code)}
+                                    disabled={loading}
+                                    className="rounded-full border-gray-300 text-gray-700"
+                                >
+                                    {code} — {label}
+                                </Button>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Dicas e formato esperado */}
+                    {[...entry.tips, ...(entry.format ? [messages.formatTip(entry.format)] : [])].map((tip) => (
+                        <p key={tip} className="text-xs text-gray-500">
+                            💡 {tip}
+                        </p>
+                    ))}
+
+                    {/* Motivo da rejeição do valor */}
+                    {response.formErrors?.[entry.code] && (
+                        <p className="text-sm text-red-600">{response.formErrors[entry.code]}</p>
+                    )}
+                </div>
+            ))}
+
+            <Button onClick={submit} disabled={loading} className="w-full rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold">
+                {loading ? messages.ui.sending : messages.ui.send}
+            </Button>
+        </div>
+    )
+}
@@ -0,0 +1,257 @@
+/**
+ * Códigos de país ISO 3166-1 alfa-2 (UNIMARC 102$a e 044/008 nas conversões).
+ * Cada linha: [código, nome em português, nome em inglês, nome em espanhol, outras formas aceites].
+ * Inclui o código "XX" (país desconhecido), usado em UNIMARC quando o país não é identificável.
+ */
+export const COUNTRY_CODES: Array<[string, string, string, string, string[]?]> = [
+    ["PT", "Portugal", "Portugal", "Portugal", ["prt", "portuguesa"]],
+    ["BR", "Brasil", "Brazil", "Brasil", ["bra"]],
+    ["ES", "Espanha", "Spain", "España", ["esp"]],
+    ["FR", "França", "France", "Francia", ["fra"]],
+    ["GB", "Reino Unido", "United Kingdom", "Reino Unido", ["gbr", "uk", "inglaterra", "grã-bretanha", "great britain", "england"]],
+    ["US", "Estados Unidos", "United States", "Estados Unidos", ["usa", "eua", "estados unidos da américa", "united states of america"]],
+    ["DE", "Alemanha", "Germany", "Alemania", ["deu"]],
+    ["IT", "Itália", "Italy", "Italia", ["ita"]],
+    ["AO", "Angola", "Angola", "Angola", ["ago"]],
+    ["MZ", "Moçambique", "Mozambique", "Mozambique", ["moz"]],
+    ["CV", "Cabo Verde", "Cabo Verde", "Cabo Verde", ["cpv", "cape verde"]],
+    ["GW", "Guiné-Bissau", "Guinea-Bissau", "Guinea-Bisáu", ["gnb"]],
+    ["ST", "São Tomé e Príncipe", "Sao Tome and Principe", "Santo Tomé y Príncipe", ["stp"]],
+    ["TL", "Timor-Leste", "Timor-Leste", "Timor Oriental", ["tls", "east timor"]],
+    ["MO", "Macau", "Macao", "Macao", ["mac", "macao"]],
+    ["XX", "País desconhecido", "Unknown country", "País desconocido", ["desconhecido", "unknown"]],
+    ["AD", "Andorra", "Andorra", "Andorra"],
+    ["AE", "Emirados Árabes Unidos", "United Arab Emirates", "Emiratos Árabes Unidos"],
+    ["AF", "Afeganistão", "Afghanistan", "Afganistán"],
+    ["AG", "Antígua e Barbuda", "Antigua and Barbuda", "Antigua y Barbuda"],
+    ["AI", "Anguila", "Anguilla", "Anguila"],
+    ["AL", "Albânia", "Albania", "Albania"],
+    ["AM", "Arménia", "Armenia", "Armenia"],
+    ["AQ", "Antártida", "Antarctica", "Antártida"],
+    ["AR", "Argentina", "Argentina", "Argentina"],
+    ["AS", "Samoa Americana", "American Samoa", "Samoa Americana"],
+    ["AT", "Áustria", "Austria", "Austria"],
+    ["AU", "Austrália", "Australia", "Australia"],
+    ["AW", "Aruba", "Aruba", "Aruba"],
+    ["AX", "Ilhas Alanda", "Åland Islands", "Islas Åland"],
+    ["AZ", "Azerbaijão", "Azerbaijan", "Azerbaiyán"],
+    ["BA", "Bósnia e Herzegovina", "Bosnia and Herzegovina", "Bosnia y Herzegovina"],
+    ["BB", "Barbados", "Barbados", "Barbados"],
+    ["BD", "Bangladesh", "Bangladesh", "Bangladés"],
+    ["BE", "Bélgica", "Belgium", "Bélgica"],
+    ["BF", "Burkina Faso", "Burkina Faso", "Burkina Faso"],
+    ["BG", "Bulgária", "Bulgaria", "Bulgaria"],
+    ["BH", "Barém", "Bahrain", "Baréin"],
+    ["BI", "Burundi", "Burundi", "Burundi"],
+    ["BJ", "Benim", "Benin", "Benín"],
+    ["BL", "São Bartolomeu", "Saint Barthélemy", "San Bartolomé"],
+    ["BM", "Bermudas", "Bermuda", "Bermudas"],
+    ["BN", "Brunei", "Brunei Darussalam", "Brunéi"],
+    ["BO", "Bolívia", "Bolivia", "Bolivia"],
+    ["BQ", "Países Baixos Caribenhos", "Bonaire, Sint Eustatius and Saba", "Caribe Neerlandés"],
+    ["BS", "Baamas", "Bahamas", "Bahamas"],
+    ["BT", "Butão", "Bhutan", "Bután"],
+    ["BV", "Ilha Bouvet", "Bouvet Island", "Isla Bouvet"],
+    ["BW", "Botsuana", "Botswana", "Botsuana"],
+    ["BY", "Bielorrússia", "Belarus", "Bielorrusia"],
+    ["BZ", "Belize", "Belize", "Belice"],
+    ["CA", "Canadá", "Canada", "Canadá"],
+    ["CC", "Ilhas Cocos", "Cocos (Keeling) Islands", "Islas Cocos"],
+    ["CD", "República Democrática do Congo", "Democratic Republic of the Congo", "República Democrática del Congo"],
+    ["CF", "República Centro-Africana", "Central African Republic", "República Centroafricana"],
+    ["CG", "Congo", "Congo", "Congo"],
+    ["CH", "Suíça", "Switzerland", "Suiza"],
+    ["CI", "Costa do Marfim", "Côte d'Ivoire", "Costa de Marfil"],
+    ["CK", "Ilhas Cook", "Cook Islands", "Islas Cook"],
+    ["CL", "Chile", "Chile", "Chile"],
+    ["CM", "Camarões", "Cameroon", "Camerún"],
+    ["CN", "China", "China", "China"],
+    ["CO", "Colômbia", "Colombia", "Colombia"],
+    ["CR", "Costa Rica", "Costa Rica", "Costa Rica"],
+    ["CU", "Cuba", "Cuba", "Cuba"],
+    ["CW", "Curaçau", "Curaçao", "Curazao"],
+    ["CX", "Ilha do Natal", "Christmas Island", "Isla de Navidad"],
+    ["CY", "Chipre", "Cyprus", "Chipre"],
+    ["CZ", "Chéquia", "Czechia", "Chequia", ["república checa", "czech republic"]],
+    ["DJ", "Djibuti", "Djibouti", "Yibuti"],
+    ["DK", "Dinamarca", "Denmark", "Dinamarca"],
+    ["DM", "Domínica", "Dominica", "Dominica"],
+    ["DO", "República Dominicana", "Dominican Republic", "República Dominicana"],
+    ["DZ", "Argélia", "Algeria", "Argelia"],
+    ["EC", "Equador", "Ecuador", "Ecuador"],
+    ["EE", "Estónia", "Estonia", "Estonia"],
+    ["EG", "Egito", "Egypt", "Egipto"],
+    ["EH", "Saara Ocidental", "Western Sahara", "Sahara Occidental"],
+    ["ER", "Eritreia", "Eritrea", "Eritrea"],
+    ["ET", "Etiópia", "Ethiopia", "Etiopía"],
+    ["FI", "Finlândia", "Finland", "Finlandia"],
+    ["FJ", "Fiji", "Fiji", "Fiyi"],
+    ["FK", "Ilhas Falkland", "Falkland Islands", "Islas Malvinas"],
+    ["FM", "Micronésia", "Micronesia", "Micronesia"],
+    ["FO", "Ilhas Faroé", "Faroe Islands", "Islas Feroe"],
+    ["GA", "Gabão", "Gabon", "Gabón"],
+    ["GD", "Granada", "Grenada", "Granada"],
+    ["GE", "Geórgia", "Georgia", "Georgia"],
+    ["GF", "Guiana Francesa", "French Guiana", "Guayana Francesa"],
+    ["GG", "Guernsey", "Guernsey", "Guernsey"],
+    ["GH", "Gana", "Ghana", "Ghana"],
+    ["GI", "Gibraltar", "Gibraltar", "Gibraltar"],
+    ["GL", "Gronelândia", "Greenland", "Groenlandia"],
+    ["GM", "Gâmbia", "Gambia", "Gambia"],
+    ["GN", "Guiné", "Guinea", "Guinea"],
+    ["GP", "Guadalupe", "Guadeloupe", "Guadalupe"],
+    ["GQ", "Guiné Equatorial", "Equatorial Guinea", "Guinea Ecuatorial"],
+    ["GR", "Grécia", "Greece", "Grecia"],
+    ["GS", "Geórgia do Sul e Sandwich do Sul", "South Georgia and the South Sandwich Islands", "Islas Georgias del Sur y Sandwich del Sur"],
+    ["GT", "Guatemala", "Guatemala", "Guatemala"],
+    ["GU", "Guame", "Guam", "Guam"],
+    ["GY", "Guiana", "Guyana", "Guyana"],
+    ["HK", "Hong Kong", "Hong Kong", "Hong Kong"],
+    ["HM", "Ilhas Heard e McDonald", "Heard Island and McDonald Islands", "Islas Heard y McDonald"],
+    ["HN", "Honduras", "Honduras", "Honduras"],
+    ["HR", "Croácia", "Croatia", "Croacia"],
+    ["HT", "Haiti", "Haiti", "Haití"],
+    ["HU", "Hungria", "Hungary", "Hungría"],
+    ["ID", "Indonésia", "Indonesia", "Indonesia"],
+    ["IE", "Irlanda", "Ireland", "Irlanda"],
+    ["IL", "Israel", "Israel", "Israel"],
+    ["IM", "Ilha de Man", "Isle of Man", "Isla de Man"],
+    ["IN", "Índia", "India", "India"],
+    ["IO", "Território Britânico do Oceano Índico", "British Indian Ocean Territory", "Territorio Británico del Océano Índico"],
+    ["IQ", "Iraque", "Iraq", "Irak"],
+    ["IR", "Irão", "Iran", "Irán", ["irã"]],
+    ["IS", "Islândia", "Iceland", "Islandia"],
+    ["JE", "Jersey", "Jersey", "Jersey"],
+    ["JM", "Jamaica", "Jamaica", "Jamaica"],
+    ["JO", "Jordânia", "Jordan", "Jordania"],
+    ["JP", "Japão", "Japan", "Japón"],
+    ["KE", "Quénia", "Kenya", "Kenia", ["quênia"]],
+    ["KG", "Quirguistão", "Kyrgyzstan", "Kirguistán"],
+    ["KH", "Camboja", "Cambodia", "Camboya"],
+    ["KI", "Quiribáti", "Kiribati", "Kiribati"],
+    ["KM", "Comores", "Comoros", "Comoras"],
+    ["KN", "São Cristóvão e Neves", "Saint Kitts and Nevis", "San Cristóbal y Nieves"],
+    ["KP", "Coreia do Norte", "North Korea", "Corea del Norte"],
+    ["KR", "Coreia do Sul", "South Korea", "Corea del Sur"],
+    ["KW", "Koweit", "Kuwait", "Kuwait", ["kuwait"]],
+    ["KY", "Ilhas Caimão", "Cayman Islands", "Islas Caimán"],
+    ["KZ", "Cazaquistão", "Kazakhstan", "Kazajistán"],
+    ["LA", "Laos", "Laos", "Laos"],
+    ["LB", "Líbano", "Lebanon", "Líbano"],
+    ["LC", "Santa Lúcia", "Saint Lucia", "Santa Lucía"],
+    ["LI", "Listenstaine", "Liechtenstein", "Liechtenstein", ["liechtenstein"]],
+    ["LK", "Sri Lanca", "Sri Lanka", "Sri Lanka", ["sri lanka"]],
+    ["LR", "Libéria", "Liberia", "Liberia"],
+    ["LS", "Lesoto", "Lesotho", "Lesoto"],
+    ["LT", "Lituânia", "Lithuania", "Lituania"],
+    ["LU", "Luxemburgo", "Luxembourg", "Luxemburgo"],
+    ["LV", "Letónia", "Latvia", "Letonia"],
+    ["LY", "Líbia", "Libya", "Libia"],
+    ["MA", "Marrocos", "Morocco", "Marruecos"],
+    ["MC", "Mónaco", "Monaco", "Mónaco"],
+    ["MD", "Moldávia", "Moldova", "Moldavia"],
+    ["ME", "Montenegro", "Montenegro", "Montenegro"],
+    ["MF", "São Martinho", "Saint Martin (French part)", "San Martín"],
+    ["MG", "Madagáscar", "Madagascar", "Madagascar"],
+    ["MH", "Ilhas Marshall", "Marshall Islands", "Islas Marshall"],
+    ["MK", "Macedónia do Norte", "North Macedonia", "Macedonia del Norte"],
+    ["ML", "Mali", "Mali", "Malí"],
+    ["MM", "Mianmar", "Myanmar", "Myanmar", ["birmânia", "burma"]],
+    ["MN", "Mongólia", "Mongolia", "Mongolia"],
+    ["MP", "Marianas do Norte", "Northern Mariana Islands", "Islas Marianas del Norte"],
+    ["MQ", "Martinica", "Martinique", "Martinica"],
+    ["MR", "Mauritânia", "Mauritania", "Mauritania"],
+    ["MS", "Monserrate", "Montserrat", "Montserrat"],
+    ["MT", "Malta", "Malta", "Malta"],
+    ["MU", "Maurícia", "Mauritius", "Mauricio"],
+    ["MV", "Maldivas", "Maldives", "Maldivas"],
+    ["MW", "Maláui", "Malawi", "Malaui"],
+    ["MX", "México", "Mexico", "México"],
+    ["MY", "Malásia", "Malaysia", "Malasia"],
+    ["NA", "Namíbia", "Namibia", "Namibia"],
+    ["NC", "Nova Caledónia", "New Caledonia", "Nueva Caledonia"],
+    ["NE", "Níger", "Niger", "Níger"],
+    ["NF", "Ilha Norfolk", "Norfolk Island", "Isla Norfolk"],
+    ["NG", "Nigéria", "Nigeria", "Nigeria"],
+    ["NI", "Nicarágua", "Nicaragua", "Nicaragua"],
+    ["NL", "Países Baixos", "Netherlands", "Países Bajos", ["holanda", "holland"]],
+    ["NO", "Noruega", "Norway", "Noruega"],
+    ["NP", "Nepal", "Nepal", "Nepal"],
+    ["NR", "Nauru", "Nauru", "Nauru"],
+    ["NU", "Niue", "Niue", "Niue"],
+    ["NZ", "Nova Zelândia", "New Zealand", "Nueva Zelanda"],
+    ["OM", "Omã", "Oman", "Omán"],
+    ["PA", "Panamá", "Panama", "Panamá"],
+    ["PE", "Peru", "Peru", "Perú"],
+    ["PF", "Polinésia Francesa", "French Polynesia", "Polinesia Francesa"],
+    ["PG", "Papua-Nova Guiné", "Papua New Guinea", "Papúa Nueva Guinea"],
+    ["PH", "Filipinas", "Philippines", "Filipinas"],
+    ["PK", "Paquistão", "Pakistan", "Pakistán"],
+    ["PL", "Polónia", "Poland", "Polonia", ["polônia"]],
+    ["PM", "São Pedro e Miquelão", "Saint Pierre and Miquelon", "San Pedro y Miquelón"],
+    ["PN", "Pitcairn", "Pitcairn", "Islas Pitcairn"],
+    ["PR", "Porto Rico", "Puerto Rico", "Puerto Rico"],
+    ["PS", "Palestina", "Palestine", "Palestina"],
+    ["PW", "Palau", "Palau", "Palaos"],
+    ["PY", "Paraguai", "Paraguay", "Paraguay"],
+    ["QA", "Catar", "Qatar", "Catar"],
+    ["RE", "Reunião", "Réunion", "Reunión"],
+    ["RO", "Roménia", "Romania", "Rumania", ["romênia"]],
+    ["RS", "Sérvia", "Serbia", "Serbia"],
+    ["RU", "Rússia", "Russia", "Rusia", ["federação russa", "russian federation"]],
+    ["RW", "Ruanda", "Rwanda", "Ruanda"],
+    ["SA", "Arábia Saudita", "Saudi Arabia", "Arabia Saudí"],
+    ["SB", "Ilhas Salomão", "Solomon Islands", "Islas Salomón"],
+    ["SC", "Seicheles", "Seychelles", "Seychelles"],
+    ["SD", "Sudão", "Sudan", "Sudán"],
+    ["SE", "Suécia", "Sweden", "Suecia"],
+    ["SG", "Singapura", "Singapore", "Singapur"],
+    ["SH", "Santa Helena", "Saint Helena", "Santa Elena"],
+    ["SI", "Eslovénia", "Slovenia", "Eslovenia"],
+    ["SJ", "Svalbard e Jan Mayen", "Svalbard and Jan Mayen", "Svalbard y Jan Mayen"],
+    ["SK", "Eslováquia", "Slovakia", "Eslovaquia"],
+    ["SL", "Serra Leoa", "Sierra Leone", "Sierra Leona"],
+    ["SM", "São Marinho", "San Marino", "San Marino"],
+    ["SN", "Senegal", "Senegal", "Senegal"],
+    ["SO", "Somália", "Somalia", "Somalia"],
+    ["SR", "Suriname", "Suriname", "Surinam"],
+    ["SS", "Sudão do Sul", "South Sudan", "Sudán del Sur"],
+    ["SV", "El Salvador", "El Salvador", "El Salvador"],
+    ["SX", "São Martinho (Países Baixos)", "Sint Maarten (Dutch part)", "San Martín (Países Bajos)"],
+    ["SY", "Síria", "Syria", "Siria"],
+    ["SZ", "Essuatíni", "Eswatini", "Esuatini", ["suazilândia", "swaziland"]],
+    ["TC", "Ilhas Turcas e Caicos", "Turks and Caicos Islands", "Islas Turcas y Caicos"],
+    ["TD", "Chade", "Chad", "Chad"],
+    ["TF", "Terras Austrais Francesas", "French Southern Territories", "Territorios Australes Franceses"],
+    ["TG", "Togo", "Togo", "Togo"],
+    ["TH", "Tailândia", "Thailand", "Tailandia"],
+    ["TJ", "Tajiquistão", "Tajikistan", "Tayikistán"],
+    ["TK", "Toquelau", "Tokelau", "Tokelau"],
+    ["TM", "Turquemenistão", "Turkmenistan", "Turkmenistán"],
+    ["TN", "Tunísia", "Tunisia", "Túnez"],
+    ["TO", "Tonga", "Tonga", "Tonga"],
+    ["TR", "Turquia", "Türkiye", "Turquía", ["turkey"]],
+    ["TT", "Trindade e Tobago", "Trinidad and Tobago", "Trinidad y Tobago"],
+    ["TV", "Tuvalu", "Tuvalu", "Tuvalu"],
+    ["TW", "Taiwan", "Taiwan", "Taiwán"],
+    ["TZ", "Tanzânia", "Tanzania", "Tanzania"],
+    ["UA", "Ucrânia", "Ukraine", "Ucrania"],
+    ["UG", "Uganda", "Uganda", "Uganda"],
+    ["UM", "Ilhas Menores Distantes dos Estados Unidos", "United States Minor Outlying Islands", "Islas Ultramarinas Menores de Estados Unidos"],
+    ["UY", "Uruguai", "Uruguay", "Uruguay"],
+    ["UZ", "Usbequistão", "Uzbekistan", "Uzbekistán"],
+    ["VA", "Santa Sé", "Holy See", "Santa Sede", ["vaticano", "vatican"]],
+    ["VC", "São Vicente e Granadinas", "Saint Vincent and the Grenadines", "San Vicente y las Granadinas"],
+    ["VE", "Venezuela", "Venezuela", "Venezuela"],
+    ["VG", "Ilhas Virgens Britânicas", "British Virgin Islands", "Islas Vírgenes Británicas"],
+    ["VI", "Ilhas Virgens Americanas", "U.S. Virgin Islands", "Islas Vírgenes de los Estados Unidos"],
+    ["VN", "Vietname", "Viet Nam", "Vietnam", ["vietnã", "vietnam"]],
+    ["VU", "Vanuatu", "Vanuatu", "Vanuatu"],
+    ["WF", "Wallis e Futuna", "Wallis and Futuna", "Wallis y Futuna"],
+    ["WS", "Samoa", "Samoa", "Samoa"],
+    ["YE", "Iémen", "Yemen", "Yemen"],
+    ["YT", "Maiote", "Mayotte", "Mayotte"],
+    ["ZA", "África do Sul", "South Africa", "Sudáfrica"],
+    ["ZM", "Zâmbia", "Zambia", "Zambia"],
+    ["ZW", "Zimbabué", "Zimbabwe", "Zimbabue"],
+]
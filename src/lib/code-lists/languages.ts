@@ -0,0 +1,119 @@
+/**
+ * Códigos de língua ISO 639-2 (forma bibliográfica "B", usada em UNIMARC 101 e 100$a/22-24).
+ * Cada linha: [código, nome em português, nome em inglês, nome em espanhol, outras formas aceites].
+ * As outras formas incluem o código ISO 639-1, a forma terminológica "T" e adjetivos usuais.
+ */
+export const LANGUAGE_CODES: Array<[string, string, string, string, string[]?]> = [
+    ["por", "Português", "Portuguese", "Portugués", ["pt", "portuguesa"]],
+    ["eng", "Inglês", "English", "Inglés", ["en", "inglesa"]],
+    ["spa", "Espanhol", "Spanish", "Español", ["es", "castelhano", "castellano", "espanhola"]],
+    ["fre", "Francês", "French", "Francés", ["fr", "fra", "francesa"]],
+    ["ger", "Alemão", "German", "Alemán", ["de", "deu", "alemã"]],
+    ["ita", "Italiano", "Italian", "Italiano", ["it", "italiana"]],
+    ["lat", "Latim", "Latin", "Latín", ["la"]],
+    ["cat", "Catalão", "Catalan", "Catalán", ["ca", "catalã"]],
+    ["glg", "Galego", "Galician", "Gallego", ["gl", "galega"]],
+    ["mul", "Várias línguas", "Multiple languages", "Varias lenguas", ["multilingue", "multilíngue"]],
+    ["und", "Indeterminada", "Undetermined", "Indeterminada", ["desconhecida"]],
+    ["zxx", "Sem conteúdo linguístico", "No linguistic content", "Sin contenido lingüístico", ["sem texto", "instrumental"]],
+    ["afr", "Africâner", "Afrikaans", "Afrikáans", ["af"]],
+    ["alb", "Albanês", "Albanian", "Albanés", ["sq", "sqi"]],
+    ["amh", "Amárico", "Amharic", "Amhárico", ["am"]],
+    ["ara", "Árabe", "Arabic", "Árabe", ["ar"]],
+    ["arm", "Arménio", "Armenian", "Armenio", ["hy", "hye", "armênio"]],
+    ["aze", "Azeri", "Azerbaijani", "Azerí", ["az"]],
+    ["baq", "Basco", "Basque", "Vasco", ["eu", "eus", "euskera"]],
+    ["bel", "Bielorrusso", "Belarusian", "Bielorruso", ["be"]],
+    ["ben", "Bengali", "Bengali", "Bengalí", ["bn"]],
+    ["bos", "Bósnio", "Bosnian", "Bosnio", ["bs"]],
+    ["bre", "Bretão", "Breton", "Bretón", ["br"]],
+    ["bul", "Búlgaro", "Bulgarian", "Búlgaro", ["bg"]],
+    ["bur", "Birmanês", "Burmese", "Birmano", ["my", "mya"]],
+    ["chi", "Chinês", "Chinese", "Chino", ["zh", "zho", "mandarim"]],
+    ["cpp", "Crioulos de base portuguesa", "Creoles and pidgins, Portuguese-based", "Criollos de base portuguesa", ["crioulo", "crioulo cabo-verdiano"]],
+    ["cze", "Checo", "Czech", "Checo", ["cs", "ces", "tcheco"]],
+    ["dan", "Dinamarquês", "Danish", "Danés", ["da"]],
+    ["dut", "Neerlandês", "Dutch", "Neerlandés", ["nl", "nld", "holandês", "flamengo"]],
+    ["epo", "Esperanto", "Esperanto", "Esperanto", ["eo"]],
+    ["est", "Estónio", "Estonian", "Estonio", ["et", "estoniano"]],
+    ["fao", "Feroês", "Faroese", "Feroés", ["fo"]],
+    ["fin", "Finlandês", "Finnish", "Finés", ["fi"]],
+    ["fry", "Frísio", "Western Frisian", "Frisón", ["fy"]],
+    ["geo", "Georgiano", "Georgian", "Georgiano", ["ka", "kat"]],
+    ["gla", "Gaélico escocês", "Scottish Gaelic", "Gaélico escocés", ["gd"]],
+    ["gle", "Irlandês", "Irish", "Irlandés", ["ga"]],
+    ["grc", "Grego antigo", "Ancient Greek", "Griego antiguo", ["grego clássico"]],
+    ["gre", "Grego", "Modern Greek", "Griego", ["el", "ell", "grego moderno"]],
+    ["guj", "Guzerate", "Gujarati", "Guyaratí", ["gu"]],
+    ["hat", "Crioulo haitiano", "Haitian Creole", "Criollo haitiano", ["ht"]],
+    ["hau", "Haúça", "Hausa", "Hausa", ["ha"]],
+    ["heb", "Hebraico", "Hebrew", "Hebreo", ["he"]],
+    ["hin", "Hindi", "Hindi", "Hindi", ["hi"]],
+    ["hrv", "Croata", "Croatian", "Croata", ["hr"]],
+    ["hun", "Húngaro", "Hungarian", "Húngaro", ["hu"]],
+    ["ice", "Islandês", "Icelandic", "Islandés", ["is", "isl"]],
+    ["ind", "Indonésio", "Indonesian", "Indonesio", ["id"]],
+    ["jpn", "Japonês", "Japanese", "Japonés", ["ja"]],
+    ["kaz", "Cazaque", "Kazakh", "Kazajo", ["kk"]],
+    ["khm", "Khmer", "Khmer", "Jemer", ["km", "cambojano"]],
+    ["kin", "Quiniaruanda", "Kinyarwanda", "Kinyarwanda", ["rw"]],
+    ["kir", "Quirguiz", "Kyrgyz", "Kirguís", ["ky"]],
+    ["kmb", "Quimbundo", "Kimbundu", "Kimbundu", ["kimbundu"]],
+    ["kon", "Quicongo", "Kongo", "Kikongo", ["kg", "kikongo"]],
+    ["kor", "Coreano", "Korean", "Coreano", ["ko"]],
+    ["kur", "Curdo", "Kurdish", "Kurdo", ["ku"]],
+    ["lao", "Laosiano", "Lao", "Lao", ["lo"]],
+    ["lav", "Letão", "Latvian", "Letón", ["lv"]],
+    ["lin", "Lingala", "Lingala", "Lingala", ["ln"]],
+    ["lit", "Lituano", "Lithuanian", "Lituano", ["lt"]],
+    ["ltz", "Luxemburguês", "Luxembourgish", "Luxemburgués", ["lb"]],
+    ["mac", "Macedónio", "Macedonian", "Macedonio", ["mk", "mkd"]],
+    ["mal", "Malaiala", "Malayalam", "Malayalam", ["ml"]],
+    ["mao", "Maori", "Maori", "Maorí", ["mi", "mri"]],
+    ["mar", "Marata", "Marathi", "Maratí", ["mr"]],
+    ["may", "Malaio", "Malay", "Malayo", ["ms", "msa"]],
+    ["mlt", "Maltês", "Maltese", "Maltés", ["mt"]],
+    ["mon", "Mongol", "Mongolian", "Mongol", ["mn"]],
+    ["nep", "Nepalês", "Nepali", "Nepalí", ["ne"]],
+    ["nor", "Norueguês", "Norwegian", "Noruego", ["no"]],
+    ["oci", "Occitano", "Occitan", "Occitano", ["oc"]],
+    ["pan", "Panjabi", "Panjabi", "Panyabí", ["pa", "punjabi"]],
+    ["per", "Persa", "Persian", "Persa", ["fa", "fas", "farsi"]],
+    ["pol", "Polaco", "Polish", "Polaco", ["pl", "polonês"]],
+    ["pus", "Pastó", "Pashto", "Pastún", ["ps"]],
+    ["que", "Quíchua", "Quechua", "Quechua", ["qu"]],
+    ["roh", "Romanche", "Romansh", "Romanche", ["rm"]],
+    ["rum", "Romeno", "Romanian", "Rumano", ["ro", "ron"]],
+    ["rus", "Russo", "Russian", "Ruso", ["ru"]],
+    ["san", "Sânscrito", "Sanskrit", "Sánscrito", ["sa"]],
+    ["sgn", "Línguas gestuais", "Sign languages", "Lenguas de signos", ["língua gestual", "língua de sinais"]],
+    ["sin", "Cingalês", "Sinhala", "Cingalés", ["si"]],
+    ["slo", "Eslovaco", "Slovak", "Eslovaco", ["sk", "slk"]],
+    ["slv", "Esloveno", "Slovenian", "Esloveno", ["sl"]],
+    ["smo", "Samoano", "Samoan", "Samoano", ["sm"]],
+    ["som", "Somali", "Somali", "Somalí", ["so"]],
+    ["srp", "Sérvio", "Serbian", "Serbio", ["sr"]],
+    ["swa", "Suaíli", "Swahili", "Suajili", ["sw", "kiswahili"]],
+    ["swe", "Sueco", "Swedish", "Sueco", ["sv"]],
+    ["tam", "Tâmil", "Tamil", "Tamil", ["ta"]],
+    ["tat", "Tártaro", "Tatar", "Tártaro", ["tt"]],
+    ["tel", "Telugo", "Telugu", "Telugu", ["te"]],
+    ["tet", "Tétum", "Tetum", "Tetún", ["tetum"]],
+    ["tgk", "Tajique", "Tajik", "Tayiko", ["tg"]],
+    ["tgl", "Tagalo", "Tagalog", "Tagalo", ["tl", "filipino"]],
+    ["tha", "Tailandês", "Thai", "Tailandés", ["th"]],
+    ["tib", "Tibetano", "Tibetan", "Tibetano", ["bo", "bod"]],
+    ["tir", "Tigrínia", "Tigrinya", "Tigriña", ["ti"]],
+    ["tuk", "Turcomano", "Turkmen", "Turcomano", ["tk"]],
+    ["tur", "Turco", "Turkish", "Turco", ["tr"]],
+    ["ukr", "Ucraniano", "Ukrainian", "Ucraniano", ["uk"]],
+    ["umb", "Umbundo", "Umbundu", "Umbundu", ["umbundu"]],
+    ["urd", "Urdu", "Urdu", "Urdu", ["ur"]],
+    ["uzb", "Usbeque", "Uzbek", "Uzbeko", ["uz"]],
+    ["vie", "Vietnamita", "Vietnamese", "Vietnamita", ["vi"]],
+    ["wel", "Galês", "Welsh", "Galés", ["cy", "cym"]],
+    ["xho", "Xhosa", "Xhosa", "Xhosa", ["xh"]],
+    ["yid", "Iídiche", "Yiddish", "Ídish", ["yi"]],
+    ["yor", "Iorubá", "Yoruba", "Yoruba", ["yo"]],
+    ["zul", "Zulu", "Zulu", "Zulú", ["zu"]],
+]
@@ -0,0 +1,207 @@
+import { COUNTRY_CODES } from "./code-lists/countries"
+import { LANGUAGE_CODES } from "./code-lists/languages"
+import { dialogMessages } from "./dialog-messages"
+import { normalizeFilledFields, type FieldValueCheck, type RejectedFieldValue } from "./filled-fields"
+
+export type CodeVocabulary = "language" | "country"
+
+/**
+ * Subcampos UNIMARC que guardam códigos de listas fechadas:
+ * 101$a-$j = línguas (ISO 639-2/B), 102$a = país de publicação (ISO 3166-1 alfa-2)
+ */
+export const CODED_SUBFIELDS: Record<string, { subfields: string[]; vocabulary: CodeVocabulary }> = {
+    "101": { subfields: ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"], vocabulary: "language" },
+    "102": { subfields: ["a"], vocabulary: "country" },
+}
+
+/**
+ * Posições codificadas de 100$a (dados gerais de processamento) validadas contra as listas
+ */
+export const CODED_POSITIONS: Record<string, Array<{ subfield: string; start: number; length: number; vocabulary: CodeVocabulary }>> = {
+    "100": [{ subfield: "a", start: 22, length: 3, vocabulary: "language" }], // Língua de catalogação
+}
+
+/**
+ * Língua e país usados por omissão (agência de catalogação portuguesa)
+ */
+export const DEFAULT_LANGUAGE_CODE = "por"
+export const DEFAULT_COUNTRY_CODE = "PT"
+
+/**
+ * Códigos mais usados, sugeridos em primeiro lugar ao catalogador
+ */
+const COMMON_CODES: Record<CodeVocabulary, string[]> = {
+    language: ["por", "eng", "spa", "fre", "ger", "ita", "lat", "mul"],
+    country: ["PT", "BR", "ES", "FR", "GB", "US", "AO", "MZ"],
+}
+
+export interface CodedValue {
+    code: string
+    label: string
+}
+
+/**
+ * Resultado da verificação de um valor codificado; code é o código normalizado quando válido
+ */
+export interface CodedValueCheck {
+    vocabulary: CodeVocabulary
+    valid: boolean
+    code: string | null
+    label: string | null
+    error?: string
+}
+
+interface CodeEntry {
+    code: string
+    names: Record<string, string> // pt, en, es
+    keys: string[] // Formas normalizadas aceites (código, nomes e variantes)
+}
+
+/**
+ * Listas de códigos (línguas e países) e conversão de respostas em texto livre
+ * ("português", "Portugal", "Inglaterra") para os códigos esperados pelo UNIMARC
+ */
+export class CodedValueService {
+    private entries: Record<CodeVocabulary, CodeEntry[]>
+    private index: Record<CodeVocabulary, Map<string, CodeEntry>>
+
+    constructor() {
+        this.entries = {
+            language: LANGUAGE_CODES.map((row) => this.toEntry(row)),
+            country: COUNTRY_CODES.map((row) => this.toEntry(row)),
+        }
+        this.index = { language: this.buildIndex(this.entries.language), country: this.buildIndex(this.entries.country) }
+    }
+
+    /**
+     * Lista de códigos usada por um campo/subcampo, ou null se o destino aceita texto livre
+     */
+    getVocabulary(tag: string, subfield?: string): CodeVocabulary | null {
+        const definition = CODED_SUBFIELDS[tag]
+        return definition && subfield && definition.subfields.includes(subfield) ? definition.vocabulary : null
+    }
+
+    /**
+     * Procura um código pelo próprio código, nome (pt/en/es) ou variante, sem distinguir maiúsculas nem acentos
+     */
+    lookup(vocabulary: CodeVocabulary, answer: string, language = "pt"): CodedValue | null {
+        const entry = this.index[vocabulary].get(this.normalizeKey(answer))
+        return entry ? { code: entry.code, label: this.labelOf(entry, language) } : null
+    }
+
+    /**
+     * Verifica a resposta para um campo/subcampo; null quando o destino não usa uma lista de códigos
+     */
+    check(tag: string, subfield: string | undefined, value: unknown, language = "pt"): CodedValueCheck | null {
+        const vocabulary = this.getVocabulary(tag, subfield)
+        if (!vocabulary || typeof value !== "string") return null
+
+        const found = this.lookup(vocabulary, value, language)
+        if (found) return { vocabulary, valid: true, code: found.code, label: found.label }
+
+        const messages = dialogMessages.get(language).validation
+        return {
+            vocabulary,
+            valid: false,
+            code: null,
+            label: null,
+            error: messages.unknownCode(value.trim(), messages.vocabularies[vocabulary]),
+        }
+    }
+
+    /**
+     * Códigos sugeridos para o subcampo perguntado (os mais usados primeiro)
+     */
+    suggest(tag: string, subfield: string | undefined, language = "pt", limit = 8): CodedValue[] {
+        const vocabulary = this.getVocabulary(tag, subfield)
+        if (!vocabulary) return []
+
+        return COMMON_CODES[vocabulary]
+            .slice(0, limit)
+            .map((code) => this.lookup(vocabulary, code, language))
+            .filter((value): value is CodedValue => value !== null)
+    }
+
+    /**
+     * Deteta a primeira língua nomeada numa descrição (ex: "edição em inglês"), pela ordem da lista.
+     * Só são considerados nomes e variantes com mais de 3 letras, para não confundir códigos com palavras.
+     */
+    detectLanguage(description: string): string | null {
+        const words = ` ${this.normalizeKey(description).replace(/[^a-z0-9]+/g, " ")} `
+        const entry = this.entries.language.find(
+            ({ code, keys }) => !["mul", "und", "zxx"].includes(code) && keys.some((key) => key.length > 3 && words.includes(` ${key} `)),
+        )
+        return entry?.code ?? null
+    }
+
+    /**
+     * Normaliza os subcampos codificados (101, 102) e as posições codificadas de 100$a em filledFields:
+     * valores reconhecidos passam ao código e valores desconhecidos são retirados
+     */
+    normalizeFields(filledFields: Record<string, unknown>): {
+        filledFields: Record<string, unknown>
+        rejected: RejectedFieldValue[]
+    } {
+        return normalizeFilledFields(filledFields, (tag, subfield, value) => this.checkValue(tag, subfield, value))
+    }
+
+    /**
+     * Verificação de um valor para normalizeFields: o código de um subcampo codificado, ou o erro
+     * quando o valor (ou uma posição codificada de 100$a) não está na lista
+     */
+    private checkValue(tag: string, subfield: string | undefined, value: unknown, language = "pt"): FieldValueCheck {
+        const messages = dialogMessages.get(language).validation
+        if (this.getVocabulary(tag, subfield)) {
+            const check = this.check(tag, subfield, value, language)
+            if (!check) return { error: messages.invalidSubfieldValue(subfield!) }
+            return check.valid ? { value: check.code } : { error: check.error! }
+        }
+
+        for (const { start, length, vocabulary } of (CODED_POSITIONS[tag] ?? []).filter((p) => p.subfield === subfield)) {
+            if (typeof value !== "string") continue
+
+            const code = value.slice(start, start + length)
+            if (!this.index[vocabulary].has(this.normalizeKey(code))) {
+                return {
+                    error: messages.unknownCodeAt(code, `${start}-${start + length - 1}`, `${tag}$${subfield}`, messages.vocabularies[vocabulary]),
+                }
+            }
+        }
+        return null
+    }
+
+    private toEntry([code, pt, en, es, aliases = []]: [string, string, string, string, string[]?]): CodeEntry {
+        const keys = [code, pt, en, es, ...aliases].map((key) => this.normalizeKey(key))
+        return { code, names: { pt, en, es }, keys: Array.from(new Set(keys)) }
+    }
+
+    /**
+     * Índice por forma normalizada; em caso de conflito prevalece a primeira entrada (códigos mais usados)
+     */
+    private buildIndex(entries: CodeEntry[]): Map<string, CodeEntry> {
+        const index = new Map<string, CodeEntry>()
+        // Os códigos têm prioridade sobre nomes e variantes de outras entradas
+        for (const entry of entries) index.set(entry.keys[0], entry)
+        for (const entry of entries) {
+            for (const key of entry.keys.slice(1)) if (!index.has(key)) index.set(key, entry)
+        }
+        return index
+    }
+
+    private labelOf(entry: CodeEntry, language: string): string {
+        return entry.names[language] ?? entry.names.pt
+    }
+
+    /**
+     * Forma de comparação: minúsculas, sem acentos e sem espaços nas extremidades
+     */
+    private normalizeKey(value: string): string {
+        return value
+            .normalize("NFD")
+            .replace(/[\u0300-\u036f]/g, "")
+            .toLowerCase()
+            .trim()
+    }
+}
+
+export const codedValueService = new CodedValueService()
@@ -1,8 +1,13 @@
-import { FieldType, PersonRole, Prisma } from "@prisma/client"  // Importa tipos e enums gerados pelo Prisma a partir do schema da base de dados
+import { FieldType, PersonRole, Prisma, RecordStatus } from "@prisma/client"  // Importa tipos e enums gerados pelo Prisma a partir do schema da base de dados
 import { prisma } from "./prisma"   // Importa a instância do cliente Prisma, responsável pela comunicação com a base de dados
-import type { Template, DataField } from "@/app/types/unimarc"  // Importa tipos TypeScript definidos localmente para Template e DataField
+import type { RecordProvenance, Template } from "@/app/types/unimarc"  // Importa tipos TypeScript definidos localmente para Template
 import { JsonValue } from "@prisma/client/runtime/library"  // Tipo do Prisma para representar valores JSON válidos
 import OpenAI from "openai" // Importa a SDK da OpenAI para interagir com os modelos de IA
+import { recordLeaderService } from "./record-leader"  // Geração da etiqueta de registo (leader) a partir do template
+import { unimarcSerializer } from "./unimarc-serializer"  // Normalização dos campos e texto UNIMARC
+import { isbdPunctuation } from "./isbd-punctuation"  // Pontuação ISBD gravada ou gerada na apresentação
+import { standardNumberService } from "./standard-numbers"  // Validação e normalização de ISBN/ISSN
+import { fieldProvenanceService, type ProvenanceReport } from "./field-provenance"  // Origem dos valores gravados
 
 // Inicializar o cliente OpenAI
 const openai = new OpenAI({
@@ -18,17 +23,33 @@ export interface SaveRecordData {
     // Melhoria: tipar meljor este "any" para evitar erros silenciosos
     template: Template      // Objeto template completo
     textUnimarc: string     // Representação textual do registo em formato UNIMARC
+    leader?: string         // Etiqueta de registo (24 caracteres)
+    draftId?: string | null // Rascunho a concluir: passa a registo completo, com o mesmo ID
     fields: {
         tag: string     // Tag UNIMARC
         value?: string | null       // Valor textual do campo (se aplicável)
         subfields?: JsonValue       // Subcampos em formato JSON
+        ind1?: string | null        // Indicador 1 (campos de dados)
+        ind2?: string | null        // Indicador 2 (campos de dados)
         fieldType: FieldType        // Tipo de campo (enum vindo do Prisma)
         fieldName?: string | null   // Nome legível do campo
         subfieldNames?: JsonValue   // Nomes legíveis dos subcampos (JSON)
         isRepeatable?: boolean      // Se o campo pode aparecer mais do que uma vez  
+        provenance?: JsonValue      // Origem dos valores da ocorrência (OccurrenceProvenance)
     }[]     // Array de campos, cada um representa uma entrada UNIMARC com metadados associados
 }
 
+// Interface que define os dados de um rascunho gravado durante o diálogo de catalogação
+export interface SaveDraftData {
+    templateId: string      // ID único do template
+    templateName: string    // Nome legível do template
+    filledFields: Record<string, unknown>   // Campos já preenchidos no diálogo
+    template: Template      // Objeto template completo
+    leader?: string | null  // Etiqueta de registo (24 caracteres)
+    language?: string       // Língua dos nomes de campos/subcampos gravados
+    provenance?: RecordProvenance   // Origem de cada ocorrência preenchida
+}
+
 export class DatabaseService {
 
     /**
@@ -89,6 +110,7 @@ export class DatabaseService {
     private async checkDuplicateRecord(
         fields: SaveRecordData["fields"],   // Campos preenchidos do registo, extraídos da estrutura SaveRecordData
         templateName: string,       // Nome do template/material, usado para escolher a estratégia
+        excludeId?: string,     // Registo em edição: não conta como duplicado de si próprio
     ): Promise<{ isDuplicate: boolean; existingRecord?: any }> {
         try {
             // Log inicial para debug
@@ -111,7 +133,7 @@ export class DatabaseService {
             // Se encontrar um duplicado, retorna imediatamente
             for (const strategy of duplicateStrategies) {
                 console.log(`\n--- Trying strategy: ${strategy.name} ---`)
-                const result = await this.checkDuplicateByStrategy(strategy, fieldValues)
+                const result = await this.checkDuplicateByStrategy(strategy, fieldValues, excludeId)
 
                 if (result.isDuplicate) {
                     // Encontrou um duplicado - retorna o resultado com o registo existente
@@ -135,6 +157,17 @@ export class DatabaseService {
         }
     }
 
+    /**
+     * Versão pública da verificação de duplicados, usada por processos em lote (ex: importação)
+     * que precisam de distinguir duplicados de outros erros antes de gravar
+     * @param excludeId Registo a ignorar (o próprio registo, quando está a ser editado)
+     * @returns ID do registo existente, ou null se não houver duplicado
+     */
+    async findDuplicate(fields: SaveRecordData["fields"], templateName: string, excludeId?: string): Promise<string | null> {
+        const result = await this.checkDuplicateRecord(fields, templateName, excludeId)
+        return result.isDuplicate ? result.existingRecord?.id ?? null : null
+    }
+
     /**
      * Define estratégias de verificação de duplicados por tipo de material
      * Esta função retorna uma lista de objetos que descrevem quais campos/subcampos
@@ -323,10 +356,18 @@ export class DatabaseService {
         return null
     }
 
+    /**
+     * Primeiro valor de um subcampo (subcampos repetíveis são guardados como array)
+     */
+    private firstValue(value: unknown): unknown {
+        return Array.isArray(value) ? value[0] : value
+    }
+
     private extractISBN(record: any): string | null {
-        // Campo 010 subcampo a -> ISBN (normalizado sem espaços e traços)
+        // Campo 010 subcampo a -> ISBN (normalizado para ISBN-13, sem espaços e traços)
         if (record["010"] && record["010"].a) {
-            return String(record["010"].a).replace(/[-\s]/g, "").trim()
+            const isbn = this.firstValue(record["010"].a)
+            return standardNumberService.comparisonKey("010", "a", isbn) ?? String(isbn).replace(/[-\s]/g, "").trim()
         }
         return null
     }
@@ -397,6 +438,7 @@ export class DatabaseService {
     private async checkDuplicateByStrategy(
         strategy: any,
         fieldValues: Record<string, any>,
+        excludeId?: string,
     ): Promise<{ isDuplicate: boolean; existingRecord?: any }> {
         console.log(`Checking strategy: ${strategy.name}`)
         console.log(`Available field values:`, Object.keys(fieldValues))
@@ -404,38 +446,42 @@ export class DatabaseService {
         // === 1. Estratégia especial: ISBN ===
         // Se a estratégia for ISBN e o registo tiver campo "010" (ISBN), busca por correspondênciia direta na base de dados
         if (strategy.name === "ISBN" && fieldValues["010"]) {
-            const isbn = fieldValues["010"].a
-            if (isbn) {
-                // Limpa ISBN (remove hífens e espaços)
-                const cleanISBN = String(isbn).replace(/[-\s]/g, "").trim()
-
-                // Procura na base de dados por registo que tenha subcampo "a" do campo "010" contendo o ISBN limpo
-                const existingRecord = await prisma.catalogRecord.findFirst({
+            // Normaliza o ISBN (ISBN-10 convertido para ISBN-13, sem hífenes) para que
+            // diferenças de formato entre registos não escondam duplicados
+            const isbnKey = standardNumberService.comparisonKey("010", "a", this.firstValue(fieldValues["010"].a))
+            if (isbnKey) {
+                // Os registos guardam a forma de apresentação (com hífenes), por isso a comparação
+                // é feita sobre a chave normalizada de cada 010$a existente
+                const isbnFields = await prisma.catalogField.findMany({
                     where: {
-                        fields: {
-                            some: {
-                                tag: "010",
-                                subfields: {
-                                    path: "$.a",
-                                    string_contains: cleanISBN,
-                                },
-                            },
-                        },
+                        tag: "010",
+                        record: { status: RecordStatus.COMPLETE, id: excludeId ? { not: excludeId } : undefined },   // Rascunhos não contam como duplicados
                     },
-                    include: {
-                        fields: {
-                            where: {
-                                tag: {
-                                    in: strategy.fields,    // Carrega só campos relevantes para análise posterior
+                    select: { recordId: true, subfields: true },
+                })
+                const match = isbnFields.find((field) => {
+                    const subfields = field.subfields as Record<string, unknown> | null
+                    return standardNumberService.comparisonKey("010", "a", this.firstValue(subfields?.a)) === isbnKey
+                })
+
+                const existingRecord = match
+                    ? await prisma.catalogRecord.findUnique({
+                        where: { id: match.recordId },
+                        include: {
+                            fields: {
+                                where: {
+                                    tag: {
+                                        in: strategy.fields,    // Carrega só campos relevantes para análise posterior
+                                    },
                                 },
                             },
                         },
-                    },
-                })
+                    })
+                    : null
 
                 // Se encontrou, retorna como duplicado
                 if (existingRecord) {
-                    console.log(`ISBN duplicate found: ${cleanISBN}`)
+                    console.log(`ISBN duplicate found: ${isbnKey}`)
                     return { isDuplicate: true, existingRecord }
                 }
             }
@@ -498,6 +544,8 @@ export class DatabaseService {
         // === 3. Busca inicial na base de dados por registos que contenham pelo menos um dos campos definidos  ===
         const allRecords = await prisma.catalogRecord.findMany({
             where: {
+                status: RecordStatus.COMPLETE,  // Rascunhos não contam como duplicados
+                id: excludeId ? { not: excludeId } : undefined,     // Nem o próprio registo, quando está a ser editado
                 fields: {
                     some: {
                         tag: {
@@ -540,10 +588,15 @@ export class DatabaseService {
                                 const expectedValue = fieldValues[check.tag][code]
                                 const recordValue = recordSubfields[code]
 
-                                // Normaliza valores para comparação (remove vírgulas no fim, trim)
+                                // Normaliza valores para comparação (sem pontuação ISBD nas extremidades)
                                 if (expectedValue && recordValue) {
-                                    const cleanExpected = String(expectedValue).replace(/,$/, "").trim()
-                                    const cleanRecord = String(recordValue).replace(/,$/, "").trim()
+                                    // ISBN/ISSN comparam-se pela forma normalizada; o resto pelo texto
+                                    const cleanExpected =
+                                        standardNumberService.comparisonKey(check.tag, code, this.firstValue(expectedValue)) ??
+                                        isbdPunctuation.strip(String(expectedValue))
+                                    const cleanRecord =
+                                        standardNumberService.comparisonKey(check.tag, code, this.firstValue(recordValue)) ??
+                                        isbdPunctuation.strip(String(recordValue))
 
                                     if (cleanExpected !== cleanRecord) {
                                         subfieldMatch = false
@@ -601,7 +654,7 @@ export class DatabaseService {
      */
     async saveRecord(data: SaveRecordData): Promise<string> {
         try {
-            const { templateId, templateName, templateDesc, textUnimarc, template, fields } = data
+            const { templateId, templateName, templateDesc, textUnimarc, template, fields, leader, draftId } = data
 
             // Antes de salvar, verifica se já existe um registo duplicado para evitar redundância no catálogo
             // Esta validação é fundamental para manter a integridade e evitar registos repetidos
@@ -623,21 +676,39 @@ export class DatabaseService {
             // Converte os campos recebidos para o formato esperado pelo Prisma antes de os inserir
             const fieldsInput = this.prepareFieldsForPrisma(data.fields, template)
 
+            const recordData = {
+                templateName,
+                templateDesc: templateDesc || `Registro ${templateName}`,   // Se não houver descrição, cria um padrão
+                recordTemplateId: templateId,
+                textUnimarc,
+                leader: recordLeaderService.normalize(leader, recordLeaderService.fromTemplate(template)),
+                status: RecordStatus.COMPLETE,
+            }
+
+            // Se vier de um rascunho (ainda por concluir), o rascunho passa a registo completo
+            const draft = draftId
+                ? await prisma.catalogRecord.findFirst({ where: { id: draftId, status: RecordStatus.DRAFT }, select: { id: true } })
+                : null
+
             // Cria o registro principal na base de dados (catalogRecord) juntamente com os campos
-            const catalogRecord = await prisma.catalogRecord.create({
-                data: {
-                    templateName,
-                    templateDesc: templateDesc || `Registro ${templateName}`,   // Se não houver descrição, cria um padrão
-                    recordTemplateId: templateId,
-                    textUnimarc,
-                    fields: {
-                        create: fieldsInput,
+            // (no caso do rascunho, os seus campos são substituídos)
+            const catalogRecord = draft
+                ? await prisma.catalogRecord.update({
+                    where: { id: draft.id },
+                    data: { ...recordData, fields: { deleteMany: {}, create: fieldsInput } },
+                    include: { fields: true },
+                })
+                : await prisma.catalogRecord.create({
+                    data: {
+                        ...recordData,
+                        fields: {
+                            create: fieldsInput,
+                        },
                     },
-                },
-                include: {
-                    fields: true,   // Inclui os campos para uso posterior (associações com pessoas e editores)
-                },
-            })
+                    include: {
+                        fields: true,   // Inclui os campos para uso posterior (associações com pessoas e editores)
+                    },
+                })
 
             // === Processamento de Pessoas ===
             // Definimos as tags que potencialmente representam pessoas no UNIMARC (ex: 700 - autor principal)
@@ -788,6 +859,56 @@ export class DatabaseService {
         }
     }
 
+    /**
+     * Grava um rascunho do diálogo de catalogação (cria-o ou substitui os campos do existente)
+     *
+     * Os rascunhos não passam pela verificação de duplicados nem criam pessoas/editoras;
+     * isso acontece quando o rascunho é concluído com saveRecord (draftId).
+     * @param data Campos preenchidos até agora e o template usado
+     * @param draftId ID do rascunho já gravado na sessão (cria um novo se omitido)
+     * @returns ID do rascunho
+     */
+    async saveDraft(data: SaveDraftData, draftId?: string | null): Promise<string> {
+        try {
+            const { templateId, templateName, filledFields, template, language = "pt", provenance } = data
+
+            // Mesma normalização da gravação final, para que o rascunho possa ser retomado tal como está
+            const occurrences = isbdPunctuation.normalizeOccurrences(
+                unimarcSerializer.toOccurrences(filledFields, template, provenance),
+            )
+            const fieldsInput = this.prepareFieldsForPrisma(unimarcSerializer.toRecordFields(occurrences, language), template)
+            const leader = recordLeaderService.normalize(data.leader, recordLeaderService.fromTemplate(template))
+
+            const recordData = {
+                templateName,
+                templateDesc: `Rascunho - ${new Date().toLocaleDateString()}`,
+                recordTemplateId: templateId,
+                textUnimarc: unimarcSerializer.formatText(occurrences, leader),
+                leader,
+                status: RecordStatus.DRAFT,
+            }
+
+            // Só se atualiza um rascunho: um registo já concluído nunca volta a rascunho
+            const existing = draftId
+                ? await prisma.catalogRecord.findFirst({ where: { id: draftId, status: RecordStatus.DRAFT }, select: { id: true } })
+                : null
+
+            const draft = existing
+                ? await prisma.catalogRecord.update({
+                    where: { id: existing.id },
+                    data: { ...recordData, fields: { deleteMany: {}, create: fieldsInput } },
+                })
+                : await prisma.catalogRecord.create({
+                    data: { ...recordData, fields: { create: fieldsInput } },
+                })
+
+            return draft.id
+        } catch (error) {
+            console.error("Erro ao gravar rascunho:", error)
+            throw new Error("Falha ao gravar rascunho")
+        }
+    }
+
     /**
      * Busca autores e o número de registos associados a cada um
      * Esta função consulta a tabela 'person' e filtra pelos tipos
@@ -859,9 +980,12 @@ export class DatabaseService {
                 tag: field.tag,     // Código do campo UNIMARC
                 value: field.value ?? '',       // Valor de campo de controlo (string simples)
                 subfields: field.subfields ?? Prisma.JsonNull,      // Subcampos (para campos de dados)
+                ind1: field.ind1 ?? null,       // Indicadores (apenas campos de dados)
+                ind2: field.ind2 ?? null,
                 fieldType: field.fieldType,     // Tipo do campo (CONTROL ou DATA)
                 fieldName: field.fieldName ?? null,     // Nome amigável do campo, se existir
                 subfieldNames: field.subfieldNames ?? Prisma.JsonNull,      // Nomes amigáveis dos subcampos
+                provenance: field.provenance ?? Prisma.JsonNull,        // Origem dos valores (IA, utilizador...)
                 isRepeatable: fieldDef?.repeatable || false,    // Define se o campo pode se repetir
                 isMandatory: fieldDef?.mandatory || false       // Define se o campo é obrigatório
             };
@@ -869,151 +993,22 @@ export class DatabaseService {
     }
 
 
-    /**
-     * Prepara os campos para inserção na base de dados
-     * Esta função recebe os campos preenchidos (filledFields) e o template
-     * de definição (template), e retorna um array de objetos prontos
-     * para serem inseridos via Prisma
-     */
-    private prepareFields(filledFields: Record<string, any>, template: Template) {
-        // Array que armazena todos os campos prontos para criação na BD
-        const fieldsToCreate = [];
-
-        // Percorre todos os pares vindos do objeto filledFields
-        for (const [tag, value] of Object.entries(filledFields)) {
-
-            // Procura no template se essa tag corresponde a um campo de controlo
-            const controlField = template.controlFields.find((f) => f.tag === tag);
-
-            // Procura no template se essa tag corresponde a um campo de dados
-            const dataField = template.dataFields.find((f) => f.tag === tag);
-
-            if (controlField) {
-                // Caso seja um campo de controlo:
-                // Estes campos geralmente contêm valores fixos ou identificadores
-                // e não possuem subcampos
-                fieldsToCreate.push({
-                    tag,
-                    value: String(value),
-                    subfields: {},
-                    fieldType: "CONTROL" as const,
-                    isRepeatable: controlField.repeatable || false,
-                    isMandatory: controlField.mandatory || false
-                });
-            } else if (dataField) {
-                // Caso seja um campo de dados:
-                // Estes podem conter subcampos
-
-                // Faz o aprsing do valor para ssubcampos, utilizando a lógica definida em parseSubfields
-                const subfields = this.parseSubfields(value, dataField);
-
-                fieldsToCreate.push({
-                    tag,
-                    value: String(value),
-                    subfields,
-                    fieldType: "DATA" as const,
-                    isRepeatable: dataField.repeatable || false,
-                    isMandatory: dataField.mandatory || false
-                });
-            }
-        }
-
-        // Retorna todos os campos prontos para inserção na base de dados
-        return fieldsToCreate;
-    }
-
-    /**
-     * Analisa e estrutura subcampos para campos de dados.
-     * 
-     * Objetivo:
-     * - Converter o valor bruto (`value`) associado a um campo UNIMARC
-     * em uma estrutura padronizada de subcampos que pode ser guardada na base de dados.
-     * - Lidar tanto com valores simples (um único conjunto de subcampos)
-     * quanto com valores múltiplos (campos repetidos).
-     * @param value Valor bruto do campo (pode ser objeto, string, ou array de ocorrências).
-     * @param dataField Definição do campo no template, contendo metadados como tags e subcampos permitidos.
-     * @returns Objeto representando os subcampos já estruturados.
-     */
-    private parseSubfields(value: any, dataField: DataField): Record<string, any> {
-
-        // Caso o valor seja um array:
-        // Isso implica que o campo é repetível e que o utilizador forneceu
-        // múltiplas ocorrências desse mesmo campo
-        if (Array.isArray(value)) {
-            return {
-                // occurrences guarda um array, onde cada elemento é o resultado do parsing
-                // individual de cada ocorrência utilizando parseSingleSubfield
-                occurrences: value.map(v => this.parseSingleSubfield(v, dataField))
-            };
-        }
-
-        // Caso contrário, o valor representa apenas uma ocorrência do campo
-        // Chamamos parseSingleSubfield diretamente para processar e validar
-        return this.parseSingleSubfield(value, dataField);
-    }
-
-    /**
-     * Analisa um único valor e o converte em um objeto de subcampos,
-     * validando contra a definição do campo (`dataField`).
-     * 
-     * Regras principais:
-     * 1. Se o valor for string simples → colocar no subcampo "a" (subcampo principal).
-     * 2. Se for um objeto → validar códigos de subcampo com base na definição.
-     * 3. Se nada válido for encontrado → forçar para "a" como fallback.
-     * 
-     * @param value Valor bruto fornecido (string simples, objeto ou outro tipo).
-     * @param dataField Definição do campo de dados, contendo lista de subcampos permitidos.
-     * @returns Objeto { códigoSubcampo: valor } pronto para ser persistido.
-     */
-    private parseSingleSubfield(value: any, dataField: DataField): Record<string, string> {
-        // Objeto que armazenará o resultado final de subcampos válidos
-        const subfields: Record<string, string> = {};
-
-        // Caso 1: Valor simples (string) → atribui direto ao subcampo "a"
-        // Isso é comum em campos UNIMARC onde o subcampo 'a' é o principal
-        if (typeof value === "string") {
-            subfields.a = value;
-            return subfields;   // Já podemos retornar pois não há parsing extra a fazer
-        }
-
-        // Caso 2: Valor é um objeto (possivelmente com múltiplos subcampos)
-        if (typeof value === "object" && value !== null) {
-            // Percorre cada par (código, valor) do objeto recebido
-            for (const [code, subfieldValue] of Object.entries(value)) {
-                // Verifica se o código de subcampo existe na definição oficial do campo
-                const subfieldDef = dataField.subFieldDef.find((sf) => sf.code === code);
-
-                // Apenas aceita se o código for válido e o valor for string
-                if (subfieldDef && typeof subfieldValue === "string") {
-                    subfields[code] = subfieldValue;
-                }
-            }
-        }
-
-        // Caso 3: Nenhum subcampo válido encontrado → fallback para 'a'
-        // Isso garante que o dado não se perca mesmo que venha mal formatado
-        if (Object.keys(subfields).length === 0) {
-            subfields.a = String(value);    // Converte para string caso seja número, boolean, etc.
-        }
-
-        // Retorna o objeto de subcampos formatado e validado
-        return subfields;
-    }
-
     /**
      * Busca um registro de catálogo pelo seu ID único
      * @param id Identificador do registro no banco
+     * @param status Só devolve o registo se tiver este estado (ex: COMPLETE para excluir rascunhos)
      * @returns Objeto CatalogRecord encontrado (ou null se não existir)
      */
-    async getRecord(id: string) {
+    async getRecord(id: string, status?: RecordStatus) {
         try {
-            // Consulta única (findUnique) no Prisma, filtrando pelo campo 'id'
+            // Consulta única (findUnique) no Prisma, filtrando pelo campo 'id' (e pelo estado, se indicado)
             // Inclui também os campos relacionados, ordenados pelo código da tag (ascendente)
             return await prisma.catalogRecord.findUnique({
-                where: { id },
+                where: { id, status },
                 include: {
                     fields: {
-                        orderBy: { tag: "asc" },    // Organização por tag facilita exibição sequencial
+                        // Organização por tag facilita exibição sequencial; as ocorrências de cada tag pela ordem de gravação
+                        orderBy: [{ tag: "asc" }, { id: "asc" }],
                     },
                 },
             })
@@ -1025,13 +1020,38 @@ export class DatabaseService {
         }
     }
 
+    /**
+     * Busca registos completos (com todos os campos) para exportação
+     * @param ids IDs dos registos a exportar; se omitido, exporta todo o catálogo
+     * @returns Lista de registos com campos ordenados por tag
+     */
+    async getRecordsForExport(ids?: string[]) {
+        try {
+            return await prisma.catalogRecord.findMany({
+                // Só registos completos: os rascunhos ficam de fora, mesmo quando pedidos pelo ID
+                where: { status: RecordStatus.COMPLETE, ...(ids && ids.length > 0 ? { id: { in: ids } } : {}) },
+                include: {
+                    fields: {
+                        // Ordem sequencial exigida pelo diretório ISO 2709; as ocorrências de cada tag pela ordem de gravação
+                        orderBy: [{ tag: "asc" }, { id: "asc" }],
+                    },
+                },
+                orderBy: { createdAt: "asc" },  // Exporta pela ordem de criação
+            })
+        } catch (error) {
+            console.error("Erro ao buscar registros para exportação:", error)
+            throw new Error("Falha ao buscar registros para exportação")
+        }
+    }
+
     /**
      * Lista registros de catálogo com suporte a paginação
      * @param page Número da página (1 por padrão)
      * @param limit Quantidade de registros por página (20 por padrão)
+     * @param status Registos completos (por padrão) ou rascunhos
      * @returns { records, total, pages, currentPage }
      */
-    async listRecords(page = 1, limit = 20) {
+    async listRecords(page = 1, limit = 20, status: RecordStatus = RecordStatus.COMPLETE) {
         try {
             // Calcula quantos registros devem ser "pulados" no offset
             const skip = (page - 1) * limit
@@ -1040,9 +1060,11 @@ export class DatabaseService {
             // → Evita duas idas ao banco em sequência
             const [records, total] = await Promise.all([
                 prisma.catalogRecord.findMany({
+                    where: { status },
                     skip,   // Offset baseado na página
                     take: limit,    // Quantidade por página
-                    orderBy: { createdAt: "desc" }, // Mais recentes primeiro
+                    // Mais recentes primeiro (os rascunhos pela última alteração)
+                    orderBy: status === RecordStatus.DRAFT ? { updatedAt: "desc" } : { createdAt: "desc" },
                     include: {
                         fields: {
                             select: {
@@ -1051,11 +1073,12 @@ export class DatabaseService {
                                 fieldType: true,
                                 fieldName: true,
                                 subfields: true,
+                                provenance: true,
                             },
                         },
                     },
                 }),
-                prisma.catalogRecord.count(),   // Conta total de registros para calcular paginação
+                prisma.catalogRecord.count({ where: { status } }),   // Conta total de registros para calcular paginação
             ])
 
             // Retorna dados estruturados para paginação
@@ -1078,27 +1101,49 @@ export class DatabaseService {
      * @param id ID do registro que será atualizado
      * @param filledFields Objeto contendo os campos preenchidos (tag → valor/subcampos)
      * @param template Estrutura de template que define campos, subcampos, obrigatoriedade etc.
+     * @param leader Etiqueta de registo (mantém-se a atual se omitida)
+     * @param language Língua dos nomes de campos/subcampos gravados
+     * @param provenance Origem de cada ocorrência preenchida
      */
-    async updateRecord(id: string, filledFields: Record<string, any>, template: Template) {
+    async updateRecord(
+        id: string,
+        filledFields: Record<string, unknown>,
+        template: Template,
+        leader?: string | null,
+        language = "pt",
+        provenance?: RecordProvenance,
+    ) {
         try {
-            // Passo 1: Remove todos os campos existentes do registro
-            // → Estratégia simples: apaga tudo e insere de novo (pode ser otimizada para updates parciais)
-            await prisma.catalogField.deleteMany({
-                where: { recordId: id },
-            })
-
-            // Passo 2: Prepara os novos campos para inserção
-            // → Método 'prepareFields' transforma os dados brutos em estrutura compatível com o modelo Prisma
-            const fieldsToCreate = this.prepareFields(filledFields, template)
-
-            // Passo 3: Atualiza o registro no banco
-            // - Atualiza a data de modificação (updatedAt)
-            // - Cria os novos campos associados (relation create)
+            // Passo 1: Normaliza os campos com o mesmo serializador usado na criação,
+            // para que o textUnimarc corresponda exatamente às linhas de CatalogField
+            // (com a pontuação ISBD normalizada segundo a configuração da biblioteca)
+            const occurrences = isbdPunctuation.normalizeOccurrences(
+                unimarcSerializer.toOccurrences(filledFields, template, provenance),
+            )
+            const fieldsToCreate = this.prepareFieldsForPrisma(
+                unimarcSerializer.toRecordFields(occurrences, language),
+                template,
+            )
+
+            // A etiqueta atual é mantida se não vier uma nova
+            const current = await prisma.catalogRecord.findUnique({ where: { id }, select: { leader: true } })
+            const recordLeader = recordLeaderService.normalize(
+                leader ?? current?.leader,
+                recordLeaderService.fromTemplate(template),
+            )
+
+            // Passo 2: Atualiza o registro no banco numa única operação (atómica)
+            // - Atualiza a data de modificação (updatedAt), o texto UNIMARC e a etiqueta
+            // - Substitui os campos: apaga todos os existentes e cria os novos (relation deleteMany + create),
+            //   como em saveRecord e saveDraft, para que uma falha não deixe o registo sem campos
             await prisma.catalogRecord.update({
                 where: { id },
                 data: {
                     updatedAt: new Date(),
+                    leader: recordLeader,
+                    textUnimarc: unimarcSerializer.formatText(occurrences, recordLeader),
                     fields: {
+                        deleteMany: {},
                         create: fieldsToCreate,
                     },
                 },
@@ -1114,6 +1159,23 @@ export class DatabaseService {
         }
     }
 
+    /**
+     * Relatório da origem dos valores dos registos completos (IA, utilizador, importação)
+     * e da exatidão das propostas automáticas: valores gravados tal como propostos vs. corrigidos pelo utilizador
+     */
+    async getProvenanceReport(): Promise<ProvenanceReport> {
+        try {
+            const fields = await prisma.catalogField.findMany({
+                where: { record: { status: RecordStatus.COMPLETE } },
+                select: { subfields: true, provenance: true },
+            })
+            return fieldProvenanceService.report(fields)
+        } catch (error) {
+            console.error("Erro ao calcular a origem dos valores:", error)
+            throw new Error("Falha ao calcular a origem dos valores")
+        }
+    }
+
     /**
      * Remove um registo do catálogo
      * @param id ID do registro a ser removido
@@ -1168,12 +1230,13 @@ export class DatabaseService {
             // Isso evita que cada consulta espere a anterior terminar.
             const [totalRecords, recordsByTemplate, recentRecords] = await Promise.all([
 
-                // Conta o número total de registos no catálogo
-                prisma.catalogRecord.count(),
+                // Conta o número total de registos no catálogo (sem rascunhos)
+                prisma.catalogRecord.count({ where: { status: RecordStatus.COMPLETE } }),
 
                 // Agrupa registos por templateName e conta quantos registos há em cada grupo
                 prisma.catalogRecord.groupBy({
                     by: ["templateName"],   // Campo de agrupamento
+                    where: { status: RecordStatus.COMPLETE },
                     _count: {
                         id: true,   // Coonta quantos IDs existem por template
                     },
@@ -1187,6 +1250,7 @@ export class DatabaseService {
                 // Conta quantos registos foram criados nas últimas 23 horas
                 prisma.catalogRecord.count({
                     where: {
+                        status: RecordStatus.COMPLETE,
                         createdAt: {
                             // 'gte' significa "maior ou igual a"
                             // Aqui calcula-se a data/hora de 24h atrás a partir de agora
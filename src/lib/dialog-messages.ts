@@ -0,0 +1,538 @@
+/**
+ * Línguas do diálogo de catalogação (mensagens da rota /api/uni-dialog e da interface)
+ */
+export const DIALOG_LANGUAGES = ["pt", "en", "es"] as const
+export type DialogLanguage = (typeof DIALOG_LANGUAGES)[number]
+
+// Língua usada quando o pedido não indica nenhuma (ou indica uma sem catálogo)
+export const DEFAULT_DIALOG_LANGUAGE: DialogLanguage = "pt"
+
+const pt = {
+    languageName: "Português",
+    // Respostas aceites a perguntas sim/não (a primeira é a usada nos botões e nas perguntas)
+    yes: ["sim", "s"],
+    no: ["não", "nao", "n"],
+
+    // Erros do pedido e da sessão
+    invalidRequest: "Pedido inválido.",
+    noTemplates: "Nenhum template disponível no momento.",
+    sessionNotFound: "Sessão de catalogação não encontrada.",
+    draftNotFound: "Rascunho não encontrado.",
+    recordNotFound: "Registo não encontrado.",
+    descriptionRequired: "A descrição é obrigatória para iniciar uma sessão de catalogação.",
+    invalidState: "Estado inválido da conversação.",
+    reviewOnlyCommands: "A revisão só aceita os comandos de revisão (editar um campo, a etiqueta de registo ou continuar).",
+    sessionCompleted: "A catalogação desta sessão já terminou.",
+    stepDidNotRespond: (step: string) => `O passo "${step}" não respondeu ao pedido.`,
+    internalError: "Erro interno no servidor",
+    unknownError: "Erro desconhecido",
+    sessionIdRequired: "O parâmetro sessionId é obrigatório.",
+    resumeFailed: "Erro ao retomar a sessão de catalogação",
+
+    // Seleção de template e preenchimento automático
+    identifyingTemplate: "A identificar o template adequado...",
+    templateNotIdentified: "Template não identificado. Escolha manualmente:",
+    templateSelected: (name: string) => `Template selecionado: ${name}`,
+    templateNotFound: "Template não encontrado.",
+    autoFilling: "A preencher campos automaticamente...",
+    fieldParsed: (tag: string) => `Campo ${tag} lido`,
+    autoFilledCount: (count: number) => `${count} campos preenchidos automaticamente`,
+
+    // Perguntas de campos e subcampos
+    provide: "Por favor, forneça:",
+    fill: "Por favor, preencha:",
+    mandatory: "obrigatório",
+    optional: "opcional",
+    tips: "Dicas",
+    indicator: (position: number) => `indicador ${position}`,
+    indicatorTip: "Responda com um único carácter; deixe em branco ou use # para indicador em branco",
+    leaveBlankTip: "Pode deixar em branco se não se aplicar",
+    formatTip: (description: string) => `Formato: ${description}`,
+    askAgain: "Indique novamente.",
+    fixMarkedValues: "Corrija os valores assinalados.",
+    notOptionalGroup: (answer: string) => `"${answer}" não é um grupo de campos opcionais`,
+    formExpected: "Esta pergunta espera as respostas de todos os subcampos em conjunto",
+    formInvalid: "Há valores inválidos no formulário",
+    repeatOccurrence: (tag: string) => `Completou todos os subcampos de ${tag}. Deseja adicionar outra ocorrência deste campo?`,
+    repeatSubfieldValue: (tag: string, code: string) =>
+        `Adicionou um valor para ${tag}$${code}. Deseja adicionar outro valor para este mesmo subcampo?`,
+    repeatFieldValue: (tag: string) => `Adicionou um valor para ${tag}. Deseja adicionar outro valor para este mesmo campo?`,
+    optionalGroupsOffer: "Os campos obrigatórios estão preenchidos. Deseja preencher algum grupo de campos opcionais?",
+    optionalGroupNames: {
+        descricao: "Descrição e responsabilidade",
+        assuntos: "Assuntos e classificação",
+        notas: "Notas e resumo",
+        ligacoes: "Ligações e títulos relacionados",
+        outros: "Outros campos",
+    } as Record<string, string>,
+
+    // Comandos, revisão e gravação
+    nothingToUndo: "Não há nenhuma resposta para desfazer.",
+    mandatoryFieldsMissing: (tags: string[]) => `Ainda faltam campos obrigatórios: ${tags.join(", ")}`,
+    lowConfidenceQuestion: (tag: string, values: string[]) =>
+        `A IA preencheu o campo ${tag} com pouca confiança: ${values.join("; ")}. Deseja manter este valor?`,
+    answerYesOrNo: "Responda sim ou não",
+    invalidLeaderValue: "Valor inválido para a etiqueta de registo",
+    fieldNotInTemplate: (tag: string) => `O campo ${tag} não faz parte do template e não pode ser editado.`,
+    validationFailed: "O registo tem erros de validação e não foi gravado.",
+    templateNotFoundForSave: "Template não encontrado para gravação.",
+    convertingToUnimarc: "A converter o registo para UNIMARC...",
+    checkingDuplicates: "A verificar registos duplicados...",
+    duplicateOnUpdate: (id: string) => `Já existe outro registo igual no catálogo (ID: ${id}). O registo não foi atualizado.`,
+    recordUpdated: (id: string) => `Registo atualizado com sucesso! ID: ${id}.`,
+    recordSaved: (id: string, autoFilled: number) =>
+        `Registo gravado com sucesso! ID: ${id}. ${autoFilled} campos preenchidos automaticamente.`,
+    saveFailed: "Erro ao gravar registo na base de dados.",
+
+    // Erros de validação dos valores (números normalizados, códigos, regras de formato, formulário e registo)
+    validation: {
+        isbnCheckDigit: (value: string, expected: string) => `O ISBN ${value} tem um dígito de controlo inválido (esperado ${expected})`,
+        isbn13Prefix: (value: string) => `O ISBN-13 ${value} tem de começar por 978 ou 979`,
+        isbnLength: (value: string) => `"${value}" não é um ISBN válido: deve ter 10 ou 13 dígitos (o ISBN-10 pode terminar em X)`,
+        issnCheckDigit: (value: string, expected: string) => `O ISSN ${value} tem um dígito de controlo inválido (esperado ${expected})`,
+        issnLength: (value: string) => `"${value}" não é um ISSN válido: deve ter 8 caracteres (o último pode ser X)`,
+        numberNotText: (value: string, type: string) => `${value} não é um ${type} válido: o número tem de ser um texto`,
+        vocabularies: { language: "código de língua ISO 639-2", country: "código de país ISO 3166" } as Record<string, string>,
+        unknownCode: (value: string, vocabulary: string) => `"${value}" não corresponde a nenhum ${vocabulary}`,
+        unknownCodeAt: (code: string, positions: string, target: string, vocabulary: string) =>
+            `"${code}" nas posições ${positions} de ${target} não é um ${vocabulary}`,
+        invalidSubfieldValue: (code: string) => `Valor inválido no subcampo $${code}`,
+        ruleNotText: (value: string, target: string, expected: string) =>
+            `${value} não é válido em ${target}: o valor tem de ser um texto. Esperado: ${expected}`,
+        ruleFailed: (value: string, target: string, reason: string, expected: string) =>
+            `"${value}" não é válido em ${target}: ${reason}. Esperado: ${expected}`,
+        lengthInsteadOf: (length: number, expected: number) => `tem ${length} caracteres em vez de ${expected}`,
+        shorterThan: (min: number) => `tem menos de ${min} caracteres`,
+        longerThan: (max: number) => `tem mais de ${max} caracteres`,
+        notAllowedValue: "não é um dos valores permitidos",
+        invalidFormat: "formato inválido",
+        invalidDateFormat: "data em formato inválido",
+        nonexistentDate: "data inexistente",
+        outOfRange: (value: number, limits: string) => `${value} está fora do intervalo permitido (${limits})`,
+        rangeMin: (min: number) => `mínimo ${min}`,
+        rangeMax: (max: number) => `máximo ${max}`,
+        subfieldNotAsked: (code: string) => `O subcampo $${code} não faz parte desta pergunta`,
+        invalidIndicator: (value: string) => `"${value}" não é um indicador válido (use um único carácter ou #)`,
+        subfieldNotRepeatable: (code: string) => `O subcampo $${code} não é repetível`,
+        unknownField: (tag: string) => `O campo ${tag} não existe no template`,
+        mandatoryFieldMissing: (tag: string) => `O campo obrigatório ${tag} não está preenchido`,
+        fieldNotRepeatable: (tag: string, count: number) => `O campo ${tag} não é repetível e não pode ter várias ocorrências (${count})`,
+        controlFieldWithSubfields: (tag: string) => `O campo de controlo ${tag} não pode ter subcampos`,
+        fieldWithoutSubfields: (tag: string) => `O campo ${tag} não tem subcampos; o valor será gravado sem código de subcampo`,
+        invalidFieldIndicator: (tag: string, key: string, value: string) => `Indicador inválido no campo ${tag} (${key}): "${value}"`,
+        undefinedSubfield: (code: string, tag: string) => `O subcampo $${code} não está definido no campo ${tag}`,
+        subfieldTooManyValues: (code: string, tag: string, count: number) =>
+            `O subcampo $${code} do campo ${tag} não é repetível mas tem ${count} valores`,
+        invalidCode: (value: string, code: string, tag: string) => `O valor "${value}" do subcampo $${code} do campo ${tag} não é um código válido`,
+        mandatorySubfieldMissing: (code: string, tag: string) => `O subcampo obrigatório $${code} do campo ${tag} não está preenchido`,
+    },
+
+    // Interface (página do diálogo)
+    ui: {
+        title: "Sistema de Catalogação UNIMARC",
+        subtitle: "Otimizado com IA para eficiência máxima",
+        language: "Língua",
+        filledFields: (count: number) => `${count} campos preenchidos`,
+        remainingFields: (count: number) => `${count} restantes`,
+        draftSaved: "💾 Rascunho guardado automaticamente",
+        descriptionPlaceholder: "Ex: Livro 'Memorial do Convento' de José Saramago",
+        mandatoryOnly: "Perguntar só os campos obrigatórios (os opcionais são oferecidos no fim)",
+        groupedQuestions: "Perguntar os subcampos de cada campo em conjunto",
+        starting: "A iniciar...",
+        start: "Iniciar Catalogação",
+        review: "Rever e Editar Campos",
+        back: "Voltar",
+        skipOptional: "Saltar Opcionais",
+        answerPlaceholder: "A sua resposta...",
+        sending: "A enviar...",
+        send: "Enviar",
+        processing: "A processar...",
+        finishAndConfirm: "Terminar e Confirmar",
+        templateSelected: "Template selecionado:",
+        analysing: "A analisar...",
+        autoFillDone: "Preenchimento Automático Concluído!",
+        continuing: "A continuar...",
+        autoFilledFields: "Campos preenchidos automaticamente:",
+        reviewFilledFields: "Campos Preenchidos:",
+        edit: "Editar",
+        noFilledFields: "Nenhum campo preenchido ainda.",
+        leader: "Etiqueta de Registo:",
+        lowConfidence: (percent: number) => `Pouca confiança (${percent}%)`,
+        lowConfidenceHint: "⚠️ Os valores assinalados foram propostos pela IA com pouca confiança. Verifique-os antes de gravar.",
+        continueCataloguing: "Continuar Catalogação",
+        recordComplete: "Todos os campos preenchidos! Clique para confirmar e gravar.",
+        confirmAndSave: "Confirmar e Gravar",
+        generatedUnimarc: "UNIMARC gerado:",
+        newCataloguing: "Iniciar Nova Catalogação",
+        error: "Erro:",
+        tryAgain: "Tentar Novamente",
+        tryAnotherDescription: "Tentar Outra Descrição",
+        subfield: "Subcampo:",
+        addValue: "Adicionar valor",
+    },
+}
+
+export type DialogMessages = typeof pt
+
+const en: DialogMessages = {
+    languageName: "English",
+    yes: ["yes", "y"],
+    no: ["no", "n"],
+
+    invalidRequest: "Invalid request.",
+    noTemplates: "No templates are available at the moment.",
+    sessionNotFound: "Cataloguing session not found.",
+    draftNotFound: "Draft not found.",
+    recordNotFound: "Record not found.",
+    descriptionRequired: "A description is required to start a cataloguing session.",
+    invalidState: "Invalid conversation state.",
+    reviewOnlyCommands: "The review only accepts review commands (edit a field, the record label or continue).",
+    sessionCompleted: "The cataloguing of this session is already finished.",
+    stepDidNotRespond: (step: string) => `The step "${step}" did not answer the request.`,
+    internalError: "Internal server error",
+    unknownError: "Unknown error",
+    sessionIdRequired: "The sessionId parameter is required.",
+    resumeFailed: "Error resuming the cataloguing session",
+
+    identifyingTemplate: "Identifying the right template...",
+    templateNotIdentified: "Template not identified. Choose one manually:",
+    templateSelected: (name: string) => `Selected template: ${name}`,
+    templateNotFound: "Template not found.",
+    autoFilling: "Filling fields automatically...",
+    fieldParsed: (tag: string) => `Field ${tag} read`,
+    autoFilledCount: (count: number) => `${count} fields filled automatically`,
+
+    provide: "Please provide:",
+    fill: "Please fill in:",
+    mandatory: "mandatory",
+    optional: "optional",
+    tips: "Tips",
+    indicator: (position: number) => `indicator ${position}`,
+    indicatorTip: "Answer with a single character; leave it empty or use # for a blank indicator",
+    leaveBlankTip: "You can leave it empty if it does not apply",
+    formatTip: (description: string) => `Format: ${description}`,
+    askAgain: "Please answer again.",
+    fixMarkedValues: "Fix the highlighted values.",
+    notOptionalGroup: (answer: string) => `"${answer}" is not a group of optional fields`,
+    formExpected: "This question expects the answers of all subfields together",
+    formInvalid: "The form has invalid values",
+    repeatOccurrence: (tag: string) => `You completed every subfield of ${tag}. Do you want to add another occurrence of this field?`,
+    repeatSubfieldValue: (tag: string, code: string) =>
+        `You added a value for ${tag}$${code}. Do you want to add another value for this subfield?`,
+    repeatFieldValue: (tag: string) => `You added a value for ${tag}. Do you want to add another value for this field?`,
+    optionalGroupsOffer: "The mandatory fields are filled. Do you want to fill any group of optional fields?",
+    optionalGroupNames: {
+        descricao: "Description and responsibility",
+        assuntos: "Subjects and classification",
+        notas: "Notes and abstract",
+        ligacoes: "Links and related titles",
+        outros: "Other fields",
+    },
+
+    nothingToUndo: "There is no answer to undo.",
+    mandatoryFieldsMissing: (tags: string[]) => `Mandatory fields are still missing: ${tags.join(", ")}`,
+    lowConfidenceQuestion: (tag: string, values: string[]) =>
+        `The AI filled field ${tag} with low confidence: ${values.join("; ")}. Do you want to keep this value?`,
+    answerYesOrNo: "Answer yes or no",
+    invalidLeaderValue: "Invalid value for the record label",
+    fieldNotInTemplate: (tag: string) => `Field ${tag} is not part of the template and cannot be edited.`,
+    validationFailed: "The record has validation errors and was not saved.",
+    templateNotFoundForSave: "Template not found for saving.",
+    convertingToUnimarc: "Converting the record to UNIMARC...",
+    checkingDuplicates: "Checking for duplicate records...",
+    duplicateOnUpdate: (id: string) => `An identical record already exists in the catalogue (ID: ${id}). The record was not updated.`,
+    recordUpdated: (id: string) => `Record updated successfully! ID: ${id}.`,
+    recordSaved: (id: string, autoFilled: number) =>
+        `Record saved successfully! ID: ${id}. ${autoFilled} fields filled automatically.`,
+    saveFailed: "Error saving the record to the database.",
+
+    validation: {
+        isbnCheckDigit: (value: string, expected: string) => `The ISBN ${value} has an invalid check digit (expected ${expected})`,
+        isbn13Prefix: (value: string) => `The ISBN-13 ${value} must start with 978 or 979`,
+        isbnLength: (value: string) => `"${value}" is not a valid ISBN: it must have 10 or 13 digits (an ISBN-10 may end in X)`,
+        issnCheckDigit: (value: string, expected: string) => `The ISSN ${value} has an invalid check digit (expected ${expected})`,
+        issnLength: (value: string) => `"${value}" is not a valid ISSN: it must have 8 characters (the last one may be X)`,
+        numberNotText: (value: string, type: string) => `${value} is not a valid ${type}: the number must be text`,
+        vocabularies: { language: "ISO 639-2 language code", country: "ISO 3166 country code" } as Record<string, string>,
+        unknownCode: (value: string, vocabulary: string) => `"${value}" does not match any ${vocabulary}`,
+        unknownCodeAt: (code: string, positions: string, target: string, vocabulary: string) =>
+            `"${code}" in positions ${positions} of ${target} is not a ${vocabulary}`,
+        invalidSubfieldValue: (code: string) => `Invalid value in subfield $${code}`,
+        ruleNotText: (value: string, target: string, expected: string) =>
+            `${value} is not valid in ${target}: the value must be text. Expected: ${expected}`,
+        ruleFailed: (value: string, target: string, reason: string, expected: string) =>
+            `"${value}" is not valid in ${target}: ${reason}. Expected: ${expected}`,
+        lengthInsteadOf: (length: number, expected: number) => `has ${length} characters instead of ${expected}`,
+        shorterThan: (min: number) => `has fewer than ${min} characters`,
+        longerThan: (max: number) => `has more than ${max} characters`,
+        notAllowedValue: "is not one of the allowed values",
+        invalidFormat: "invalid format",
+        invalidDateFormat: "date in an invalid format",
+        nonexistentDate: "date does not exist",
+        outOfRange: (value: number, limits: string) => `${value} is outside the allowed range (${limits})`,
+        rangeMin: (min: number) => `minimum ${min}`,
+        rangeMax: (max: number) => `maximum ${max}`,
+        subfieldNotAsked: (code: string) => `Subfield $${code} is not part of this question`,
+        invalidIndicator: (value: string) => `"${value}" is not a valid indicator (use a single character or #)`,
+        subfieldNotRepeatable: (code: string) => `Subfield $${code} is not repeatable`,
+        unknownField: (tag: string) => `Field ${tag} does not exist in the template`,
+        mandatoryFieldMissing: (tag: string) => `Mandatory field ${tag} is not filled`,
+        fieldNotRepeatable: (tag: string, count: number) => `Field ${tag} is not repeatable and cannot have several occurrences (${count})`,
+        controlFieldWithSubfields: (tag: string) => `Control field ${tag} cannot have subfields`,
+        fieldWithoutSubfields: (tag: string) => `Field ${tag} has no subfields; the value will be saved without a subfield code`,
+        invalidFieldIndicator: (tag: string, key: string, value: string) => `Invalid indicator in field ${tag} (${key}): "${value}"`,
+        undefinedSubfield: (code: string, tag: string) => `Subfield $${code} is not defined in field ${tag}`,
+        subfieldTooManyValues: (code: string, tag: string, count: number) =>
+            `Subfield $${code} of field ${tag} is not repeatable but has ${count} values`,
+        invalidCode: (value: string, code: string, tag: string) => `The value "${value}" of subfield $${code} of field ${tag} is not a valid code`,
+        mandatorySubfieldMissing: (code: string, tag: string) => `Mandatory subfield $${code} of field ${tag} is not filled`,
+    },
+
+    ui: {
+        title: "UNIMARC Cataloguing System",
+        subtitle: "AI-assisted for maximum efficiency",
+        language: "Language",
+        filledFields: (count: number) => `${count} fields filled`,
+        remainingFields: (count: number) => `${count} remaining`,
+        draftSaved: "💾 Draft saved automatically",
+        descriptionPlaceholder: "E.g.: Book 'Baltasar and Blimunda' by José Saramago",
+        mandatoryOnly: "Ask only the mandatory fields (optional ones are offered at the end)",
+        groupedQuestions: "Ask all subfields of each field together",
+        starting: "Starting...",
+        start: "Start Cataloguing",
+        review: "Review and Edit Fields",
+        back: "Back",
+        skipOptional: "Skip Optional",
+        answerPlaceholder: "Your answer...",
+        sending: "Sending...",
+        send: "Send",
+        processing: "Processing...",
+        finishAndConfirm: "Finish and Confirm",
+        templateSelected: "Selected template:",
+        analysing: "Analysing...",
+        autoFillDone: "Automatic Filling Complete!",
+        continuing: "Continuing...",
+        autoFilledFields: "Fields filled automatically:",
+        reviewFilledFields: "Filled Fields:",
+        edit: "Edit",
+        noFilledFields: "No fields filled yet.",
+        leader: "Record Label:",
+        lowConfidence: (percent: number) => `Low confidence (${percent}%)`,
+        lowConfidenceHint: "⚠️ The highlighted values were proposed by the AI with low confidence. Check them before saving.",
+        continueCataloguing: "Continue Cataloguing",
+        recordComplete: "All fields are filled! Click to confirm and save.",
+        confirmAndSave: "Confirm and Save",
+        generatedUnimarc: "Generated UNIMARC:",
+        newCataloguing: "Start New Cataloguing",
+        error: "Error:",
+        tryAgain: "Try Again",
+        tryAnotherDescription: "Try Another Description",
+        subfield: "Subfield:",
+        addValue: "Add value",
+    },
+}
+
+const es: DialogMessages = {
+    languageName: "Español",
+    yes: ["sí", "si", "s"],
+    no: ["no", "n"],
+
+    invalidRequest: "Solicitud no válida.",
+    noTemplates: "No hay ninguna plantilla disponible en este momento.",
+    sessionNotFound: "Sesión de catalogación no encontrada.",
+    draftNotFound: "Borrador no encontrado.",
+    recordNotFound: "Registro no encontrado.",
+    descriptionRequired: "La descripción es obligatoria para iniciar una sesión de catalogación.",
+    invalidState: "Estado de la conversación no válido.",
+    reviewOnlyCommands: "La revisión solo acepta los comandos de revisión (editar un campo, la etiqueta de registro o continuar).",
+    sessionCompleted: "La catalogación de esta sesión ya ha terminado.",
+    stepDidNotRespond: (step: string) => `El paso "${step}" no respondió a la solicitud.`,
+    internalError: "Error interno del servidor",
+    unknownError: "Error desconocido",
+    sessionIdRequired: "El parámetro sessionId es obligatorio.",
+    resumeFailed: "Error al reanudar la sesión de catalogación",
+
+    identifyingTemplate: "Identificando la plantilla adecuada...",
+    templateNotIdentified: "Plantilla no identificada. Elija una manualmente:",
+    templateSelected: (name: string) => `Plantilla seleccionada: ${name}`,
+    templateNotFound: "Plantilla no encontrada.",
+    autoFilling: "Rellenando campos automáticamente...",
+    fieldParsed: (tag: string) => `Campo ${tag} leído`,
+    autoFilledCount: (count: number) => `${count} campos rellenados automáticamente`,
+
+    provide: "Por favor, indique:",
+    fill: "Por favor, rellene:",
+    mandatory: "obligatorio",
+    optional: "opcional",
+    tips: "Consejos",
+    indicator: (position: number) => `indicador ${position}`,
+    indicatorTip: "Responda con un único carácter; déjelo vacío o use # para un indicador en blanco",
+    leaveBlankTip: "Puede dejarlo vacío si no se aplica",
+    formatTip: (description: string) => `Formato: ${description}`,
+    askAgain: "Indíquelo de nuevo.",
+    fixMarkedValues: "Corrija los valores señalados.",
+    notOptionalGroup: (answer: string) => `"${answer}" no es un grupo de campos opcionales`,
+    formExpected: "Esta pregunta espera las respuestas de todos los subcampos a la vez",
+    formInvalid: "Hay valores no válidos en el formulario",
+    repeatOccurrence: (tag: string) => `Ha completado todos los subcampos de ${tag}. ¿Desea añadir otra ocurrencia de este campo?`,
+    repeatSubfieldValue: (tag: string, code: string) =>
+        `Ha añadido un valor para ${tag}$${code}. ¿Desea añadir otro valor para este mismo subcampo?`,
+    repeatFieldValue: (tag: string) => `Ha añadido un valor para ${tag}. ¿Desea añadir otro valor para este mismo campo?`,
+    optionalGroupsOffer: "Los campos obligatorios están rellenados. ¿Desea rellenar algún grupo de campos opcionales?",
+    optionalGroupNames: {
+        descricao: "Descripción y responsabilidad",
+        assuntos: "Materias y clasificación",
+        notas: "Notas y resumen",
+        ligacoes: "Enlaces y títulos relacionados",
+        outros: "Otros campos",
+    },
+
+    nothingToUndo: "No hay ninguna respuesta que deshacer.",
+    mandatoryFieldsMissing: (tags: string[]) => `Aún faltan campos obligatorios: ${tags.join(", ")}`,
+    lowConfidenceQuestion: (tag: string, values: string[]) =>
+        `La IA rellenó el campo ${tag} con poca confianza: ${values.join("; ")}. ¿Desea mantener este valor?`,
+    answerYesOrNo: "Responda sí o no",
+    invalidLeaderValue: "Valor no válido para la etiqueta de registro",
+    fieldNotInTemplate: (tag: string) => `El campo ${tag} no forma parte de la plantilla y no se puede editar.`,
+    validationFailed: "El registro tiene errores de validación y no se ha guardado.",
+    templateNotFoundForSave: "Plantilla no encontrada para guardar.",
+    convertingToUnimarc: "Convirtiendo el registro a UNIMARC...",
+    checkingDuplicates: "Comprobando registros duplicados...",
+    duplicateOnUpdate: (id: string) => `Ya existe otro registro igual en el catálogo (ID: ${id}). El registro no se ha actualizado.`,
+    recordUpdated: (id: string) => `¡Registro actualizado correctamente! ID: ${id}.`,
+    recordSaved: (id: string, autoFilled: number) =>
+        `¡Registro guardado correctamente! ID: ${id}. ${autoFilled} campos rellenados automáticamente.`,
+    saveFailed: "Error al guardar el registro en la base de datos.",
+
+    validation: {
+        isbnCheckDigit: (value: string, expected: string) => `El ISBN ${value} tiene un dígito de control no válido (se esperaba ${expected})`,
+        isbn13Prefix: (value: string) => `El ISBN-13 ${value} tiene que empezar por 978 o 979`,
+        isbnLength: (value: string) => `"${value}" no es un ISBN válido: debe tener 10 o 13 dígitos (el ISBN-10 puede terminar en X)`,
+        issnCheckDigit: (value: string, expected: string) => `El ISSN ${value} tiene un dígito de control no válido (se esperaba ${expected})`,
+        issnLength: (value: string) => `"${value}" no es un ISSN válido: debe tener 8 caracteres (el último puede ser X)`,
+        numberNotText: (value: string, type: string) => `${value} no es un ${type} válido: el número tiene que ser un texto`,
+        vocabularies: { language: "código de idioma ISO 639-2", country: "código de país ISO 3166" } as Record<string, string>,
+        unknownCode: (value: string, vocabulary: string) => `"${value}" no corresponde a ningún ${vocabulary}`,
+        unknownCodeAt: (code: string, positions: string, target: string, vocabulary: string) =>
+            `"${code}" en las posiciones ${positions} de ${target} no es un ${vocabulary}`,
+        invalidSubfieldValue: (code: string) => `Valor no válido en el subcampo $${code}`,
+        ruleNotText: (value: string, target: string, expected: string) =>
+            `${value} no es válido en ${target}: el valor tiene que ser un texto. Se esperaba: ${expected}`,
+        ruleFailed: (value: string, target: string, reason: string, expected: string) =>
+            `"${value}" no es válido en ${target}: ${reason}. Se esperaba: ${expected}`,
+        lengthInsteadOf: (length: number, expected: number) => `tiene ${length} caracteres en lugar de ${expected}`,
+        shorterThan: (min: number) => `tiene menos de ${min} caracteres`,
+        longerThan: (max: number) => `tiene más de ${max} caracteres`,
+        notAllowedValue: "no es uno de los valores permitidos",
+        invalidFormat: "formato no válido",
+        invalidDateFormat: "fecha en formato no válido",
+        nonexistentDate: "fecha inexistente",
+        outOfRange: (value: number, limits: string) => `${value} está fuera del intervalo permitido (${limits})`,
+        rangeMin: (min: number) => `mínimo ${min}`,
+        rangeMax: (max: number) => `máximo ${max}`,
+        subfieldNotAsked: (code: string) => `El subcampo $${code} no forma parte de esta pregunta`,
+        invalidIndicator: (value: string) => `"${value}" no es un indicador válido (use un único carácter o #)`,
+        subfieldNotRepeatable: (code: string) => `El subcampo $${code} no es repetible`,
+        unknownField: (tag: string) => `El campo ${tag} no existe en la plantilla`,
+        mandatoryFieldMissing: (tag: string) => `El campo obligatorio ${tag} no está rellenado`,
+        fieldNotRepeatable: (tag: string, count: number) => `El campo ${tag} no es repetible y no puede tener varias ocurrencias (${count})`,
+        controlFieldWithSubfields: (tag: string) => `El campo de control ${tag} no puede tener subcampos`,
+        fieldWithoutSubfields: (tag: string) => `El campo ${tag} no tiene subcampos; el valor se guardará sin código de subcampo`,
+        invalidFieldIndicator: (tag: string, key: string, value: string) => `Indicador no válido en el campo ${tag} (${key}): "${value}"`,
+        undefinedSubfield: (code: string, tag: string) => `El subcampo $${code} no está definido en el campo ${tag}`,
+        subfieldTooManyValues: (code: string, tag: string, count: number) =>
+            `El subcampo $${code} del campo ${tag} no es repetible pero tiene ${count} valores`,
+        invalidCode: (value: string, code: string, tag: string) => `El valor "${value}" del subcampo $${code} del campo ${tag} no es un código válido`,
+        mandatorySubfieldMissing: (code: string, tag: string) => `El subcampo obligatorio $${code} del campo ${tag} no está rellenado`,
+    },
+
+    ui: {
+        title: "Sistema de Catalogación UNIMARC",
+        subtitle: "Optimizado con IA para la máxima eficiencia",
+        language: "Idioma",
+        filledFields: (count: number) => `${count} campos rellenados`,
+        remainingFields: (count: number) => `${count} restantes`,
+        draftSaved: "💾 Borrador guardado automáticamente",
+        descriptionPlaceholder: "Ej.: Libro 'Memorial del convento' de José Saramago",
+        mandatoryOnly: "Preguntar solo los campos obligatorios (los opcionales se ofrecen al final)",
+        groupedQuestions: "Preguntar los subcampos de cada campo a la vez",
+        starting: "Iniciando...",
+        start: "Iniciar Catalogación",
+        review: "Revisar y Editar Campos",
+        back: "Volver",
+        skipOptional: "Omitir Opcionales",
+        answerPlaceholder: "Su respuesta...",
+        sending: "Enviando...",
+        send: "Enviar",
+        processing: "Procesando...",
+        finishAndConfirm: "Terminar y Confirmar",
+        templateSelected: "Plantilla seleccionada:",
+        analysing: "Analizando...",
+        autoFillDone: "¡Relleno Automático Completado!",
+        continuing: "Continuando...",
+        autoFilledFields: "Campos rellenados automáticamente:",
+        reviewFilledFields: "Campos Rellenados:",
+        edit: "Editar",
+        noFilledFields: "Aún no hay campos rellenados.",
+        leader: "Etiqueta de Registro:",
+        lowConfidence: (percent: number) => `Poca confianza (${percent}%)`,
+        lowConfidenceHint: "⚠️ Los valores señalados fueron propuestos por la IA con poca confianza. Revíselos antes de guardar.",
+        continueCataloguing: "Continuar Catalogación",
+        recordComplete: "¡Todos los campos rellenados! Haga clic para confirmar y guardar.",
+        confirmAndSave: "Confirmar y Guardar",
+        generatedUnimarc: "UNIMARC generado:",
+        newCataloguing: "Iniciar Nueva Catalogación",
+        error: "Error:",
+        tryAgain: "Intentar de Nuevo",
+        tryAnotherDescription: "Probar Otra Descripción",
+        subfield: "Subcampo:",
+        addValue: "Añadir valor",
+    },
+}
+
+const CATALOGUE: Record<DialogLanguage, DialogMessages> = { pt, en, es }
+
+/**
+ * Catálogo de mensagens do diálogo de catalogação (pt, en, es).
+ *
+ * A língua do pedido (CatalogRequest.language) escolhe as mensagens da rota e da interface e
+ * as respostas reconhecidas nas perguntas sim/não. Línguas sem catálogo usam o português;
+ * variantes regionais ("pt-BR", "en-GB") usam o catálogo da língua base.
+ */
+export class DialogMessageService {
+    /**
+     * Língua do catálogo a usar para uma língua pedida
+     */
+    resolveLanguage(language?: string | null): DialogLanguage {
+        const base = language?.trim().toLowerCase().split(/[-_]/)[0]
+        return DIALOG_LANGUAGES.find((code) => code === base) ?? DEFAULT_DIALOG_LANGUAGE
+    }
+
+    /**
+     * Mensagens de uma língua
+     */
+    get(language?: string | null): DialogMessages {
+        return CATALOGUE[this.resolveLanguage(language)]
+    }
+
+    /**
+     * Interpreta a resposta a uma pergunta sim/não: true (sim), false (não) ou null (não reconhecida)
+     */
+    parseYesNo(answer: string | null | undefined, language?: string | null): boolean | null {
+        const normalized = answer?.trim().toLowerCase() ?? ""
+        const messages = this.get(language)
+        if (messages.yes.includes(normalized)) return true
+        if (messages.no.includes(normalized)) return false
+        return null
+    }
+
+    /**
+     * Sufixo das perguntas sim/não, com as respostas esperadas (ex: "(sim/não)")
+     */
+    yesNoHint(language?: string | null): string {
+        const messages = this.get(language)
+        return `(${messages.yes[0]}/${messages.no[0]})`
+    }
+}
+
+export const dialogMessages = new DialogMessageService()
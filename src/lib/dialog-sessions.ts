@@ -0,0 +1,238 @@
+import { type Prisma, RecordStatus } from "@prisma/client"
+import type { CatalogResponse, ConversationState } from "../app/types/unimarc"
+import { fieldInference } from "./field-heuristics"
+import { fieldPriority } from "./field-priority"
+import { prisma } from "./prisma"
+import { recordLeaderService } from "./record-leader"
+import { templateCache } from "./template-cache"
+import { unimarcSerializer } from "./unimarc-serializer"
+
+/**
+ * Resposta já dada no diálogo, para a poder desfazer:
+ * o estado antes da resposta e a pergunta que estava a ser mostrada
+ */
+export interface DialogStep {
+    state: ConversationState
+    response: CatalogResponse
+}
+
+/**
+ * Opções do diálogo escolhidas ao iniciar a sessão
+ */
+export type DialogOptions = Pick<ConversationState, "mode" | "groupedQuestions">
+
+// Número máximo de respostas que se podem desfazer numa sessão
+const MAX_HISTORY = 200
+
+/**
+ * Sessão de catalogação carregada do servidor.
+ * O estado traz o template já resolvido a partir do templateCache (nunca a partir do cliente).
+ */
+export interface DialogSession {
+    id: string
+    description: string
+    language: string
+    state: ConversationState
+    lastResponse: CatalogResponse | null
+    recordId: string | null
+    history: DialogStep[]
+}
+
+/**
+ * Sessões do diálogo de catalogação guardadas na base de dados.
+ *
+ * O cliente envia apenas o id da sessão e a sua resposta; o estado da conversa é lido e gravado aqui.
+ * O template não é guardado no estado: fica só o templateId e a definição é lida do templateCache,
+ * para que não possa ser alterada pelo cliente. A última resposta é guardada para retomar a
+ * conversa depois de recarregar a página ou noutro computador, e o histórico de respostas
+ * permite desfazer a última (__UNDO__).
+ *
+ * O registo em recordId é o rascunho gravado a cada resposta e, depois da confirmação, o registo completo
+ * (ou o registo gravado que a sessão está a editar).
+ */
+export class DialogSessionService {
+    /**
+     * Cria uma sessão nova no passo de seleção de template, com as opções de perguntas escolhidas
+     */
+    async create(description: string, language = "pt", options: DialogOptions = {}): Promise<DialogSession> {
+        const state: ConversationState = {
+            step: "template-selection",
+            filledFields: {},
+            remainingFields: [],
+            autoFilledCount: 0,
+            repeatingField: false,
+            mode: options.mode ?? "all",
+            groupedQuestions: options.groupedQuestions ?? false,
+        }
+
+        const session = await prisma.dialogSession.create({
+            data: { description, language, state: this.toJson(state) },
+        })
+
+        return { id: session.id, description, language, state, lastResponse: null, recordId: null, history: [] }
+    }
+
+    /**
+     * Cria uma sessão que continua um rascunho: o estado é reconstruído a partir dos campos gravados
+     * e o diálogo retoma no próximo campo por preencher. null se o rascunho (ou o seu template) não existir.
+     * A descrição, a língua e as opções vêm da última sessão que gravou o rascunho, se ainda existir.
+     */
+    async resumeDraft(recordId: string): Promise<DialogSession | null> {
+        const draft = await prisma.catalogRecord.findFirst({
+            where: { id: recordId, status: RecordStatus.DRAFT },
+            // As ocorrências repetidas de uma tag voltam pela ordem em que foram gravadas (ids crescentes)
+            include: { fields: { orderBy: [{ tag: "asc" }, { id: "asc" }] } },
+        })
+        if (!draft) return null
+
+        const { templates } = await templateCache.getTemplates()
+        const template = templates.find((t) => t.id === draft.recordTemplateId)
+        if (!template) return null
+
+        const previous = await prisma.dialogSession.findFirst({ where: { recordId }, orderBy: { updatedAt: "desc" } })
+        const previousState = previous?.state as unknown as ConversationState | undefined
+        const description = previous?.description ?? draft.templateName
+        const language = previous?.language ?? "pt"
+        const mode = previousState?.mode ?? "all"
+
+        const { filledFields, provenance } = unimarcSerializer.fromRecordFieldsWithProvenance(draft.fields, template)
+        const remainingFields = fieldInference.getAllTemplateFields(template).filter((tag) => !(tag in filledFields))
+        const fieldsToAsk = fieldPriority.getFieldsToAsk(template, remainingFields, mode)
+
+        const state: ConversationState = {
+            step: "field-filling",
+            currentTemplate: template,
+            filledFields,
+            remainingFields: fieldsToAsk.fields,
+            optionalGroups: fieldsToAsk.optionalGroups,
+            autoFilledCount: previousState?.autoFilledCount ?? 0,
+            repeatingField: false,
+            leader: draft.leader ?? undefined,
+            mode,
+            groupedQuestions: previousState?.groupedQuestions ?? false,
+            provenance,
+        }
+
+        return this.createForRecord(description, language, state, recordId)
+    }
+
+    /**
+     * Cria uma sessão que edita um registo já gravado: os campos gravados são carregados para
+     * filledFields e o diálogo abre na revisão. A confirmação atualiza o registo (editingRecordId).
+     * null se o registo (ou o seu template) não existir.
+     */
+    async editRecord(recordId: string): Promise<DialogSession | null> {
+        const record = await prisma.catalogRecord.findFirst({
+            where: { id: recordId, status: RecordStatus.COMPLETE },
+            // Mesma ordem das ocorrências que em resumeDraft
+            include: { fields: { orderBy: [{ tag: "asc" }, { id: "asc" }] } },
+        })
+        if (!record) return null
+
+        const { templates } = await templateCache.getTemplates()
+        const template = templates.find((t) => t.id === record.recordTemplateId)
+        if (!template) return null
+
+        const previous = await prisma.dialogSession.findFirst({ where: { recordId }, orderBy: { updatedAt: "desc" } })
+        const previousState = previous?.state as unknown as ConversationState | undefined
+        const { filledFields, provenance } = unimarcSerializer.fromRecordFieldsWithProvenance(record.fields, template)
+
+        const state: ConversationState = {
+            step: "review-fields",
+            currentTemplate: template,
+            filledFields,
+            remainingFields: [],
+            autoFilledCount: 0,
+            repeatingField: false,
+            leader: recordLeaderService.normalize(record.leader, recordLeaderService.fromTemplate(template)),
+            mode: "all",
+            groupedQuestions: previousState?.groupedQuestions ?? false,
+            editingRecordId: record.id,
+            provenance,
+        }
+
+        return this.createForRecord(previous?.description ?? record.templateName, previous?.language ?? "pt", state, recordId)
+    }
+
+    /**
+     * Cria a sessão de um rascunho ou registo gravado, com o estado já reconstruído
+     */
+    private async createForRecord(
+        description: string,
+        language: string,
+        state: ConversationState,
+        recordId: string,
+    ): Promise<DialogSession> {
+        const { currentTemplate, ...storedState } = state
+        const session = await prisma.dialogSession.create({
+            data: {
+                description,
+                language,
+                templateId: currentTemplate?.id,
+                state: this.toJson(storedState),
+                recordId,
+            },
+        })
+
+        return { id: session.id, description, language, state, lastResponse: null, recordId, history: [] }
+    }
+
+    /**
+     * Carrega uma sessão; null se não existir.
+     * Se o template da sessão deixou de existir, o estado fica sem currentTemplate.
+     */
+    async load(id: string): Promise<DialogSession | null> {
+        const session = await prisma.dialogSession.findUnique({ where: { id } })
+        if (!session) return null
+
+        const state = session.state as unknown as ConversationState
+        const history = (session.history as unknown as DialogStep[] | null) ?? []
+        if (session.templateId) {
+            const { templates } = await templateCache.getTemplates()
+            state.currentTemplate = templates.find((t) => t.id === session.templateId)
+            // As respostas anteriores foram dadas com o mesmo template
+            for (const step of history) step.state.currentTemplate = state.currentTemplate
+        }
+
+        return {
+            id: session.id,
+            description: session.description,
+            language: session.language,
+            state,
+            lastResponse: (session.lastResponse as unknown as CatalogResponse | null) ?? null,
+            recordId: session.recordId,
+            history,
+        }
+    }
+
+    /**
+     * Grava o estado depois de um passo do diálogo, com a resposta enviada ao cliente
+     * e o histórico de respostas (só as últimas MAX_HISTORY)
+     */
+    async save(id: string, state: ConversationState, response: CatalogResponse, history: DialogStep[] = []): Promise<void> {
+        const { currentTemplate, ...storedState } = state
+        // O estado já fica em "state"; a resposta é guardada sem ele
+        const storedResponse: CatalogResponse = { ...response, conversationState: undefined }
+        const storedHistory = history.slice(-MAX_HISTORY).map((step) => ({
+            state: { ...step.state, currentTemplate: undefined },
+            response: { ...step.response, conversationState: undefined },
+        }))
+
+        await prisma.dialogSession.update({
+            where: { id },
+            data: {
+                templateId: currentTemplate?.id ?? null,
+                state: this.toJson(storedState),
+                lastResponse: this.toJson(storedResponse),
+                history: this.toJson(storedHistory),
+                ...(response.recordId || response.draftId ? { recordId: response.recordId ?? response.draftId } : {}),
+            },
+        })
+    }
+
+    private toJson(value: unknown): Prisma.InputJsonValue {
+        return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue
+    }
+}
+
+export const dialogSessionService = new DialogSessionService()
@@ -0,0 +1,186 @@
+import type { ConversationState, ConversationStep } from "../app/types/unimarc"
+import { isObject } from "./filled-fields"
+
+/**
+ * Transições declaradas entre os passos do diálogo de catalogação (passo atual -> passos seguintes).
+ *
+ * - template-selection: fica no passo se o template não for identificado
+ * - bulk-auto-fill: segue sempre para o preenchimento individual
+ * - field-filling: revisão (__REVIEW_FIELDS__) ou confirmação quando não há mais nada a perguntar
+ * - review-fields: volta ao preenchimento (__EDIT_FIELD__, __CONTINUE_FROM_REVIEW__) ou à confirmação
+ * - confirmation: gravação, revisão (registo com erros de validação) ou preenchimento (__UNDO__)
+ * - completed: final
+ */
+export const DIALOG_TRANSITIONS: Record<ConversationStep, readonly ConversationStep[]> = {
+    "template-selection": ["template-selection", "bulk-auto-fill"],
+    "bulk-auto-fill": ["bulk-auto-fill", "field-filling"],
+    "field-filling": ["field-filling", "review-fields", "confirmation"],
+    "review-fields": ["review-fields", "field-filling", "confirmation"],
+    confirmation: ["confirmation", "review-fields", "field-filling", "completed"],
+    completed: ["completed"],
+}
+
+// Passos em que o estado já tem de ter um template
+const STEPS_WITH_TEMPLATE: readonly ConversationStep[] = ["bulk-auto-fill", "field-filling", "review-fields", "confirmation", "completed"]
+
+const TAG_PATTERN = /^\d{3}$/
+// Códigos de subcampo e indicadores perguntados um a um
+const SUBFIELD_CODE_PATTERN = /^([a-z0-9]|ind[12])$/
+
+const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+
+const PROVENANCE_SOURCES: readonly string[] = ["ai", "user", "import"]
+
+// Origem de um valor: { source, model?, replaced? }; as ocorrências podem ter também a origem dos subcampos
+const isProvenance = (value: unknown, withSubfields = false): boolean =>
+    isObject(value) &&
+    PROVENANCE_SOURCES.includes(value.source as string) &&
+    (value.model === undefined || typeof value.model === "string") &&
+    (value.replaced === undefined || isProvenance(value.replaced)) &&
+    (value.subfields === undefined ||
+        (withSubfields && isObject(value.subfields) && Object.values(value.subfields).every((sf) => isProvenance(sf))))
+
+/**
+ * Máquina de estados do diálogo de catalogação (/api/uni-dialog).
+ *
+ * Valida o estado guardado na sessão antes de ser usado (tipos de cada propriedade e combinações
+ * ilegais, como askedSubfield sem askedField) e cada mudança de passo contra DIALOG_TRANSITIONS.
+ * Os erros são mensagens precisas, devolvidas ao cliente com HTTP 400.
+ */
+export class DialogStateMachine {
+    isStep(value: unknown): value is ConversationStep {
+        return typeof value === "string" && value in DIALOG_TRANSITIONS
+    }
+
+    canTransition(from: ConversationStep, to: ConversationStep): boolean {
+        return DIALOG_TRANSITIONS[from].includes(to)
+    }
+
+    /**
+     * Erro da mudança de passo, ou null se a transição estiver declarada
+     */
+    checkTransition(from: ConversationStep, to: ConversationStep): string | null {
+        if (this.canTransition(from, to)) return null
+        return `Transição inválida: "${from}" -> "${to}" (a partir de "${from}" só: ${DIALOG_TRANSITIONS[from].join(", ")})`
+    }
+
+    /**
+     * Valida um estado recebido (esquema em tempo de execução); devolve os erros encontrados
+     */
+    validate(value: unknown): string[] {
+        if (!isObject(value)) return ["O estado da conversação tem de ser um objeto"]
+
+        const errors: string[] = []
+        const state = value as Partial<Record<keyof ConversationState, unknown>>
+        const fail = (message: string) => errors.push(message)
+
+        // Tipos de cada propriedade
+        if (!this.isStep(state.step)) fail(`O passo "${String(state.step)}" não existe`)
+        if (!isObject(state.filledFields)) fail("filledFields tem de ser um objeto (tag -> valor)")
+        if (!isStringList(state.remainingFields) || !state.remainingFields.every((tag) => TAG_PATTERN.test(tag))) {
+            fail("remainingFields tem de ser uma lista de tags de 3 dígitos")
+        }
+        if (state.askedField !== undefined && (typeof state.askedField !== "string" || !TAG_PATTERN.test(state.askedField))) {
+            fail(`askedField "${String(state.askedField)}" não é uma tag válida`)
+        }
+        if (
+            state.askedSubfield !== undefined &&
+            (typeof state.askedSubfield !== "string" || !SUBFIELD_CODE_PATTERN.test(state.askedSubfield))
+        ) {
+            fail(`askedSubfield "${String(state.askedSubfield)}" não é um código de subcampo ou indicador válido`)
+        }
+        if (state.askedForm !== undefined && !isStringList(state.askedForm)) fail("askedForm tem de ser uma lista de códigos")
+        if (
+            state.autoFilledCount !== undefined &&
+            !(Number.isInteger(state.autoFilledCount) && (state.autoFilledCount as number) >= 0)
+        ) {
+            fail("autoFilledCount tem de ser um número inteiro não negativo")
+        }
+        for (const key of ["repeatingField", "groupedQuestions"] as const) {
+            if (state[key] !== undefined && typeof state[key] !== "boolean") fail(`${key} tem de ser verdadeiro ou falso`)
+        }
+        if (state.mode !== undefined && state.mode !== "all" && state.mode !== "mandatory") {
+            fail(`O modo "${String(state.mode)}" não existe (use "all" ou "mandatory")`)
+        }
+        if (state.leader !== undefined && (typeof state.leader !== "string" || state.leader.length !== 24)) {
+            fail("leader tem de ter 24 caracteres")
+        }
+        if (
+            state.repeatConfirmation !== undefined &&
+            (!isObject(state.repeatConfirmation) ||
+                typeof state.repeatConfirmation.field !== "string" ||
+                !TAG_PATTERN.test(state.repeatConfirmation.field))
+        ) {
+            fail("repeatConfirmation tem de indicar a tag do campo a repetir")
+        }
+        if (
+            state.currentRepeatOccurrence !== undefined &&
+            (!isObject(state.currentRepeatOccurrence) ||
+                typeof state.currentRepeatOccurrence.tag !== "string" ||
+                !isObject(state.currentRepeatOccurrence.subfields))
+        ) {
+            fail("currentRepeatOccurrence tem de ter a tag e os subcampos da ocorrência")
+        }
+        if (
+            state.optionalGroups !== undefined &&
+            (!Array.isArray(state.optionalGroups) ||
+                !state.optionalGroups.every((group) => isObject(group) && typeof group.id === "string" && isStringList(group.fields)))
+        ) {
+            fail("optionalGroups tem de ser uma lista de grupos (id e campos)")
+        }
+        if (state.editingRecordId !== undefined && (typeof state.editingRecordId !== "string" || !state.editingRecordId)) {
+            fail("editingRecordId tem de ser o ID do registo em edição")
+        }
+        if (
+            state.fieldConfidence !== undefined &&
+            (!isObject(state.fieldConfidence) ||
+                !Object.values(state.fieldConfidence).every((score) => typeof score === "number" && score >= 0 && score <= 1))
+        ) {
+            fail("fieldConfidence tem de associar cada valor a uma confiança entre 0 e 1")
+        }
+        if (
+            state.confirmingFields !== undefined &&
+            (!isStringList(state.confirmingFields) || !state.confirmingFields.every((tag) => TAG_PATTERN.test(tag)))
+        ) {
+            fail("confirmingFields tem de ser uma lista de tags de 3 dígitos")
+        }
+        if (
+            state.provenance !== undefined &&
+            (!isObject(state.provenance) ||
+                !Object.entries(state.provenance).every(
+                    ([tag, occurrences]) =>
+                        TAG_PATTERN.test(tag) &&
+                        Array.isArray(occurrences) &&
+                        occurrences.every((occurrence) => isProvenance(occurrence, true)),
+                ))
+        ) {
+            fail(`provenance tem de associar cada tag à origem das suas ocorrências (${PROVENANCE_SOURCES.join(", ")})`)
+        }
+        if (errors.length > 0) return errors
+
+        // Combinações ilegais
+        const step = state.step as ConversationStep
+        if (state.askedSubfield !== undefined && state.askedField === undefined) {
+            fail(`askedSubfield "${state.askedSubfield}" sem askedField`)
+        }
+        if (state.askedForm !== undefined && state.askedField === undefined) fail("askedForm sem askedField")
+        if (STEPS_WITH_TEMPLATE.includes(step) && state.currentTemplate === undefined) {
+            fail(`O passo "${step}" precisa de um template`)
+        }
+        if ((step === "confirmation" || step === "completed") && (state.remainingFields as string[]).length > 0) {
+            fail(`O passo "${step}" não pode ter campos por preencher (${(state.remainingFields as string[]).join(", ")})`)
+        }
+        if ((state.optionalGroups as unknown[] | undefined)?.length && state.mode !== "mandatory") {
+            fail('Só o modo "mandatory" tem grupos de campos opcionais')
+        }
+        const unfilled = ((state.confirmingFields as string[] | undefined) ?? []).filter(
+            (tag) => !(tag in (state.filledFields as Record<string, unknown>)),
+        )
+        if (unfilled.length > 0) fail(`confirmingFields tem campos por preencher (${unfilled.join(", ")})`)
+
+        return errors
+    }
+}
+
+export const dialogStateMachine = new DialogStateMachine()
@@ -0,0 +1,86 @@
+import type { CatalogResponse, DialogProgress } from "../app/types/unimarc"
+
+/**
+ * Evento Server-Sent Events do diálogo: progresso intermédio ou resposta final
+ */
+export interface DialogStreamEvent {
+    event: "progress" | "result"
+    data: DialogProgress | CatalogResponse
+}
+
+/**
+ * Streaming das respostas da rota /api/uni-dialog (Server-Sent Events).
+ *
+ * A rota envia eventos "progress" enquanto trabalha (template selecionado, cada campo lido,
+ * verificação de duplicados, ...) e termina sempre com um único evento "result", que tem
+ * a mesma resposta que o modo sem streaming.
+ */
+export class DialogStreamService {
+    /**
+     * Formata um evento no formato SSE ("event: ...\ndata: ...\n\n")
+     */
+    formatEvent({ event, data }: DialogStreamEvent): string {
+        return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+    }
+
+    /**
+     * Lê os eventos completos de um buffer; o texto de um evento ainda incompleto fica em "rest"
+     */
+    parseEvents(buffer: string): { events: DialogStreamEvent[]; rest: string } {
+        const blocks = buffer.split("\n\n")
+        const rest = blocks.pop() ?? ""
+
+        const events = blocks.flatMap((block): DialogStreamEvent[] => {
+            let event = "message"
+            const data: string[] = []
+            for (const line of block.split("\n")) {
+                if (line.startsWith("event:")) event = line.slice(6).trim()
+                else if (line.startsWith("data:")) data.push(line.slice(5).trimStart())
+            }
+            if ((event !== "progress" && event !== "result") || data.length === 0) return []
+            try {
+                return [{ event, data: JSON.parse(data.join("\n")) }]
+            } catch {
+                return []
+            }
+        })
+
+        return { events, rest }
+    }
+
+    /**
+     * Envia um pedido ao diálogo em modo streaming e devolve a resposta final.
+     * Se o servidor responder sem streaming, a resposta é lida como JSON normal.
+     */
+    async post(payload: object, onProgress: (progress: DialogProgress) => void): Promise<CatalogResponse> {
+        const res = await fetch("/api/uni-dialog", {
+            method: "POST",
+            headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+            body: JSON.stringify({ ...payload, stream: true }),
+        })
+
+        if (!res.body || !res.headers.get("Content-Type")?.includes("text/event-stream")) {
+            return res.json()
+        }
+
+        const reader = res.body.getReader()
+        const decoder = new TextDecoder()
+        let buffer = ""
+
+        while (true) {
+            const { done, value } = await reader.read()
+            buffer += decoder.decode(value, { stream: !done })
+
+            const { events, rest } = this.parseEvents(done ? `${buffer}\n\n` : buffer)
+            buffer = rest
+            for (const { event, data } of events) {
+                if (event === "result") return data as CatalogResponse
+                onProgress(data as DialogProgress)
+            }
+
+            if (done) throw new Error("A ligação terminou antes da resposta final")
+        }
+    }
+}
+
+export const dialogStream = new DialogStreamService()
@@ -0,0 +1,134 @@
+import { isObject } from "./filled-fields"
+import { indicatorService } from "./indicators"
+
+/**
+ * Chave do objeto JSON do preenchimento automático com a confiança de cada valor:
+ * { "200": { "a": "Título" }, "_confidence": { "200$a": 0.9, "001": 0.4 } }
+ */
+export const CONFIDENCE_KEY = "_confidence"
+
+/**
+ * Confiança abaixo da qual um valor proposto pela IA é destacado na revisão
+ */
+export const LOW_CONFIDENCE = 0.7
+
+/**
+ * Confiança (0 a 1) dos valores preenchidos pela IA, com chave "tag" (campo inteiro)
+ * ou "tag$código" (subcampo); valores sem entrada são considerados certos
+ */
+export type FieldConfidence = Record<string, number>
+
+/**
+ * Confiança dos valores do preenchimento automático em massa.
+ *
+ * Os valores com pouca confiança (abaixo de LOW_CONFIDENCE) são destacados na revisão. Com a variável
+ * de ambiente AI_CONFIRMATION_THRESHOLD (0 a 1; por omissão 0, desligado), os valores abaixo desse limiar
+ * são também mostrados ao utilizador, um campo de cada vez, para os confirmar antes de continuar o diálogo.
+ * Os valores confirmados ou corrigidos pelo utilizador deixam de ter confiança associada.
+ */
+export class FieldConfidenceService {
+    /**
+     * Limiar de confirmação configurado para esta instalação (0 = nunca pedir confirmação)
+     */
+    getConfirmationThreshold(): number {
+        const configured = Number(process.env.AI_CONFIRMATION_THRESHOLD)
+        return Number.isFinite(configured) && configured > 0 && configured <= 1 ? configured : 0
+    }
+
+    /**
+     * Separa a confiança dos campos na resposta da IA; aceita valores de 0 a 1 ou percentagens (0 a 100)
+     */
+    extract(aiFields: Record<string, unknown>): { fields: Record<string, unknown>; confidence: FieldConfidence } {
+        const { [CONFIDENCE_KEY]: raw, ...fields } = aiFields
+        const confidence: FieldConfidence = {}
+        if (isObject(raw)) {
+            for (const [key, value] of Object.entries(raw)) {
+                const score = typeof value === "string" ? Number(value.replace("%", "")) : value
+                if (typeof score !== "number" || !Number.isFinite(score) || score < 0 || score > 100) continue
+                confidence[key.trim()] = score > 1 ? score / 100 : score
+            }
+        }
+        return { fields, confidence }
+    }
+
+    /**
+     * Mantém só a confiança dos campos e subcampos que ficaram preenchidos (os restantes foram rejeitados)
+     */
+    forFields(confidence: FieldConfidence, filledFields: Record<string, unknown>): FieldConfidence {
+        return Object.fromEntries(
+            Object.entries(confidence).filter(([key]) => {
+                const [tag, code] = key.split("$")
+                if (!(tag in filledFields)) return false
+                if (!code) return true
+                const occurrences: unknown[] = [filledFields[tag]].flat()
+                return occurrences.some((occurrence) => isObject(occurrence) && code in occurrence)
+            }),
+        )
+    }
+
+    /**
+     * Valores com confiança abaixo do limiar (por omissão, o de destaque na revisão)
+     */
+    lowConfidence(confidence: FieldConfidence | undefined, threshold = this.getHighlightThreshold()): FieldConfidence {
+        return Object.fromEntries(Object.entries(confidence ?? {}).filter(([, score]) => score < threshold))
+    }
+
+    /**
+     * Campos a confirmar pelo utilizador (algum valor abaixo do limiar de confirmação), por ordem de tag
+     */
+    fieldsToConfirm(confidence: FieldConfidence | undefined, threshold = this.getConfirmationThreshold()): string[] {
+        if (threshold <= 0) return []
+        const tags = Object.keys(this.lowConfidence(confidence, threshold)).map((key) => key.split("$")[0])
+        return [...new Set(tags)].sort()
+    }
+
+    /**
+     * Confiança de um campo (campo inteiro e cada subcampo)
+     */
+    ofField(confidence: FieldConfidence | undefined, tag: string): FieldConfidence {
+        return Object.fromEntries(
+            Object.entries(confidence ?? {}).filter(([key]) => key === tag || key.startsWith(`${tag}$`)),
+        )
+    }
+
+    /**
+     * Retira a confiança de um campo (valor confirmado, corrigido ou apagado pelo utilizador)
+     */
+    forget(confidence: FieldConfidence | undefined, tag: string): FieldConfidence {
+        const fieldKeys = this.ofField(confidence, tag)
+        return Object.fromEntries(Object.entries(confidence ?? {}).filter(([key]) => !(key in fieldKeys)))
+    }
+
+    /**
+     * Descrição dos valores de um campo com pouca confiança (ex: "$a Memorial do Convento (55%)")
+     */
+    describe(confidence: FieldConfidence | undefined, filledFields: Record<string, unknown>, tag: string): string[] {
+        const occurrences: unknown[] = [filledFields[tag]].flat()
+        return Object.entries(this.ofField(confidence, tag))
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([key, score]) => {
+                const code = key.split("$")[1]
+                const values = code
+                    ? occurrences.flatMap((occurrence) => (isObject(occurrence) ? [occurrence[code]].flat() : []))
+                    : occurrences.map((occurrence) => this.formatValue(occurrence))
+                const label = code ? `$${code} ` : ""
+                return `${label}${values.filter((v) => v !== undefined).join(" | ")} (${Math.round(score * 100)}%)`
+            })
+    }
+
+    // Limiar de destaque: o de pouca confiança, ou o de confirmação se for mais alto
+    private getHighlightThreshold(): number {
+        return Math.max(LOW_CONFIDENCE, this.getConfirmationThreshold())
+    }
+
+    // Valor de um campo inteiro: texto, ou "$código valor" de cada subcampo (sem indicadores)
+    private formatValue(value: unknown): string {
+        if (!isObject(value)) return String(value)
+        return Object.entries(value)
+            .filter(([code]) => !indicatorService.isIndicatorKey(code))
+            .flatMap(([code, v]) => [v].flat().map((item) => `$${code} ${String(item)}`))
+            .join(" ")
+    }
+}
+
+export const fieldConfidenceService = new FieldConfidenceService()
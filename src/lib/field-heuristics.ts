@@ -1,10 +1,13 @@
-import type { Template } from "../app/types/unimarc"
+import type { DataField, MarcSchema, Template } from "../app/types/unimarc"
+import { recordLeaderService } from "./record-leader"
+import { codedValueService, DEFAULT_COUNTRY_CODE, DEFAULT_LANGUAGE_CODE } from "./coded-values"
 
 /**
  * Interface que define uma heurística de preenchimento automático de campos.
  * Cada heurística contém:
  * - pattern: Expressão regular para identificar o tipo de material
- * - fields: Mapeamento de tags UNIMARC para valores ou funções geradoras
+ * - fields: Mapeamento de destinos para valores ou funções geradoras.
+ *   O destino é uma tag ("300") ou uma tag com subcampo ("215$a")
  */
 interface FieldHeuristic {
     pattern: RegExp
@@ -12,7 +15,32 @@ interface FieldHeuristic {
 }
 
 /**
- * Conjunto de heurísticas para diferentes tipos de materiais culturais.
+ * Campos inferidos: valor simples (campos sem subcampos) ou objeto de subcampos ({ a: "...", f: "..." })
+ */
+export type InferredFields = Record<string, string | Record<string, string>>
+
+/**
+ * Conjunto de regras de inferência para um formato (MARC21 ou UNIMARC).
+ * Os destinos usam a mesma notação das heurísticas: "245" ou "200$a".
+ */
+interface InferenceRuleSet {
+    schema: MarcSchema
+    materials: FieldHeuristic[]
+    title: string[]     // Destinos do título, por ordem de preferência (usa-se o primeiro existente no template)
+    responsibility: string[]        // Menção de responsabilidade (tal como aparece na descrição)
+    author: string[]        // Autor como ponto de acesso
+    authorForenames?: string        // Parte do nome que não é elemento de entrada (UNIMARC 700$b)
+    year: string[]
+    place: string[]
+    publisher: string[]
+    language: string[]
+    codedData?: string      // Dados gerais de processamento (UNIMARC 100$a)
+    autoControlFields: string[]     // Campos de controlo que podem ser gerados automaticamente
+    autoDataFields: string[]        // Campos de dados que podem ser extraídos da descrição
+}
+
+/**
+ * Conjunto de heurísticas para diferentes tipos de materiais culturais (MARC21).
  * Ordem de avaliação é importante - a primeira correspondência será aplicada.
  */
 const MATERIAL_HEURISTICS: FieldHeuristic[] = [
@@ -50,6 +78,77 @@ const MATERIAL_HEURISTICS: FieldHeuristic[] = [
     },
 ]
 
+/**
+ * Heurísticas equivalentes para templates UNIMARC: a descrição física vai para 215$a
+ */
+const UNIMARC_MATERIAL_HEURISTICS: FieldHeuristic[] = [
+    {
+        pattern: /cd|disco|álbum|album|música|music/i,
+        fields: {
+            "215$a": "1 disco sonoro",
+        },
+    },
+    {
+        pattern: /livro|book|romance|ensaio|manual/i,
+        fields: {
+            "215$a": (match, desc) => {
+                const pages = desc.match(/(\d+)\s*p[áa]g/i)
+                return pages ? `${pages[1]} p.` : "p."
+            },
+        },
+    },
+    {
+        pattern: /dvd|filme|movie|cinema/i,
+        fields: {
+            "215$a": "1 disco óptico (DVD)",
+        },
+    },
+]
+
+/**
+ * Regras MARC21 (tags 245, 100, 260/264, 300...)
+ */
+const MARC21_RULES: InferenceRuleSet = {
+    schema: "marc21",
+    materials: MATERIAL_HEURISTICS,
+    title: ["245"],
+    responsibility: [],
+    author: ["100"],
+    year: ["264", "260"],
+    place: [],
+    publisher: [],
+    language: [],
+    autoControlFields: ["001", "003", "005", "008", "040", "041"],
+    autoDataFields: ["100", "245", "260", "264", "300", "337", "338"],
+}
+
+/**
+ * Regras UNIMARC (tags 200, 700, 210, 215, 101, 100)
+ */
+const UNIMARC_RULES: InferenceRuleSet = {
+    schema: "unimarc",
+    materials: UNIMARC_MATERIAL_HEURISTICS,
+    title: ["200$a"],
+    responsibility: ["200$f"],
+    author: ["700$a"],
+    authorForenames: "700$b",
+    year: ["210$d"],
+    place: ["210$a"],
+    publisher: ["210$c"],
+    language: ["101$a"],
+    codedData: "100$a",
+    autoControlFields: ["001", "003", "005"],
+    autoDataFields: ["100", "101", "200", "210", "215", "700"],
+}
+
+/**
+ * Padrões para extração de local e editor, no estilo ISBD ("Lisboa : Caminho, 1982")
+ * ou em linguagem corrente ("editora Caminho", "publicado em Lisboa")
+ */
+const PUBLICATION_PATTERN = /([A-ZÀ-Ý][^,:;"'«»]+?)\s*:\s*([^,;]+?),\s*(?:19|20)\d{2}/
+const PUBLISHER_PATTERNS = [/(?:editora|edi[çc][õo]es|editado por|publicado por)\s+([^,;]+)/i]
+const PLACE_PATTERNS = [/(?:publicado|editado|impresso)\s+em\s+([A-ZÀ-Ý][\wÀ-ÿ]+(?:\s+[A-ZÀ-Ý][\wÀ-ÿ]+)*)/]
+
 /**
  * Padrões para extração de títulos de descrições textuais.
  * Ordenados por probabilidade de acerto - avaliação é feita em ordem.
@@ -72,8 +171,9 @@ const AUTHOR_PATTERNS = [
 ]
 
 /**
- * Classe responsável pela inferência automática de campos UNIMARC.
+ * Classe responsável pela inferência automática de campos UNIMARC (ou MARC21, conforme o template).
  * Implementa:
+ * - Escolha do conjunto de regras a partir das tags do template
  * - Identificação de tipo de material
  * - Extração estruturada de metadados
  * - Geração de campos de controle
@@ -81,60 +181,92 @@ const AUTHOR_PATTERNS = [
  */
 export class FieldInferenceEngine {
     /**
-     * Infere campos UNIMARC com base na descrição textual e template.
-     * 
+     * Infere campos com base na descrição textual e template.
+     *
      * Fluxo de processamento:
      * 1. Aplica heurísticas de tipo de material
-     * 2. Extrai título (campo 245)
-     * 3. Extrai autor (campo 100)
-     * 4. Extrai ano de publicação (campo 260/264)
-     * 
+     * 2. Extrai título e menção de responsabilidade (245 | 200$a/$f)
+     * 3. Extrai autor (100 | 700$a/$b)
+     * 4. Extrai local, editor e ano de publicação (260/264 | 210$a/$c/$d)
+     * 5. Deteta a língua (101$a) e gera os dados codificados (100$a) - só UNIMARC
+     *
+     * Só são devolvidos destinos que existem no template.
+     *
      * @param description Descrição textual do item
-     * @param template Template UNIMARC sendo utilizado
-     * @returns Objeto com campos inferidos { [tag]: valor }
+     * @param template Template sendo utilizado
+     * @returns Objeto com campos inferidos { [tag]: valor } ou { [tag]: { [subcampo]: valor } }
      */
-    inferFields(description: string, template: Template): Record<string, string> {
-        const inferred: Record<string, string> = {}
+    inferFields(description: string, template: Template): InferredFields {
+        const rules = this.getRuleSet(template)
+        const inferred: InferredFields = {}
+        const assign = (targets: string[] | string | undefined, value: string | null) => {
+            if (value === null) return
+            const target = [targets ?? []].flat().find((t) => this.templateHasTarget(template, t))
+            if (target) this.setTarget(inferred, target, value)
+        }
 
         // 1. Aplica heurísticas de tipo de material (livro, CD, DVD, etc.)
-        for (const heuristic of MATERIAL_HEURISTICS) {
+        for (const heuristic of rules.materials) {
             if (heuristic.pattern.test(description)) {
-                for (const [field, value] of Object.entries(heuristic.fields)) {
-                    // Garante que o campo existe no template atual
-                    if (this.templateHasField(template, field)) {
-                        inferred[field] =
-                            typeof value === "function" ? value(description.match(heuristic.pattern)!, description) : value
-                    }
+                for (const [target, value] of Object.entries(heuristic.fields)) {
+                    assign(
+                        target,
+                        typeof value === "function" ? value(description.match(heuristic.pattern)!, description) : value,
+                    )
                 }
                 break // Só aplica a primeira heurística que tiver correspondência
             }
         }
 
-        // 2. Tenta extrair o título (campo 245)
-        if (this.templateHasField(template, "245")) {
-            const title = this.extractTitle(description)
-            if (title) inferred["245"] = title
-        }
+        // 2. Título e menção de responsabilidade
+        assign(rules.title, this.extractTitle(description))
+        const author = this.extractAuthor(description)
+        assign(rules.responsibility, author)
 
-        // 3. Tenta extrair o autor (campo 100)
-        if (this.templateHasField(template, "100")) {
-            const author = this.extractAuthor(description)
-            if (author) inferred["100"] = author
+        // 3. Autor como ponto de acesso (em UNIMARC separa apelido e nomes próprios)
+        if (author && rules.authorForenames) {
+            const { surname, forenames } = this.splitPersonalName(author)
+            assign(rules.author, surname)
+            assign(rules.authorForenames, forenames)
+        } else {
+            assign(rules.author, author)
         }
 
-        // 4. Extrai o ano de publicação (campo 260 ou 264)
+        // 4. Publicação
         const year = this.extractYear(description)
-        if (year) {
-            if (this.templateHasField(template, "264")) {
-                inferred["264"] = year
-            } else if (this.templateHasField(template, "260")) {
-                inferred["260"] = year
-            }
+        const publication = this.extractPublication(description)
+        assign(rules.year, year)
+        assign(rules.place, publication.place)
+        assign(rules.publisher, publication.publisher)
+
+        // 5. Língua e dados codificados
+        const language = this.extractLanguage(description)
+        assign(rules.language, language)
+        if (rules.codedData) {
+            const isSerial = recordLeaderService.fromTemplate(template)[7] === "s"
+            assign(rules.codedData, this.buildCodedData(year, isSerial))
         }
 
         return inferred
     }
 
+    /**
+     * Deteta o formato do template pelas tags do título: 200 (UNIMARC) ou 245 (MARC21).
+     * Sem nenhuma das duas assume UNIMARC.
+     */
+    detectSchema(template: Template): MarcSchema {
+        if (this.templateHasField(template, "200")) return "unimarc"
+        if (this.templateHasField(template, "245")) return "marc21"
+        return "unimarc"
+    }
+
+    /**
+     * Devolve o conjunto de regras adequado ao template
+     */
+    private getRuleSet(template: Template): InferenceRuleSet {
+        return this.detectSchema(template) === "marc21" ? MARC21_RULES : UNIMARC_RULES
+    }
+
     /**
      * Verifica se o template contém um determinado campo (tag)
      */
@@ -142,6 +274,33 @@ export class FieldInferenceEngine {
         return [...template.controlFields, ...template.dataFields].some((field) => field.tag === tag)
     }
 
+    /**
+     * Verifica se o template contém um destino ("300" ou "215$a").
+     * Campos de dados sem subcampos definidos aceitam qualquer código.
+     */
+    private templateHasTarget(template: Template, target: string): boolean {
+        const [tag, code] = target.split("$")
+        if (!code) return this.templateHasField(template, tag)
+
+        const field = template.dataFields.find((f: DataField) => f.tag === tag)
+        if (!field) return false
+        return !field.subFieldDef?.length || field.subFieldDef.some((sf) => sf.code === code)
+    }
+
+    /**
+     * Guarda um valor no destino indicado, agrupando subcampos da mesma tag
+     */
+    private setTarget(inferred: InferredFields, target: string, value: string): void {
+        const [tag, code] = target.split("$")
+        if (!code) {
+            inferred[tag] = value
+            return
+        }
+
+        const current = inferred[tag]
+        inferred[tag] = { ...(typeof current === "object" ? current : {}), [code]: value }
+    }
+
     /**
      * Tenta extrair o título da descrição usando padrões definidos
      */
@@ -168,6 +327,21 @@ export class FieldInferenceEngine {
         return null
     }
 
+    /**
+     * Separa um nome pessoal em elemento de entrada (apelido) e nomes próprios.
+     * Aceita a forma invertida ("Saramago, José") ou direta ("José Saramago").
+     */
+    private splitPersonalName(name: string): { surname: string; forenames: string | null } {
+        if (name.includes(",")) {
+            const [surname, ...rest] = name.split(",")
+            return { surname: surname.trim(), forenames: rest.join(",").trim() || null }
+        }
+
+        const parts = name.trim().split(/\s+/)
+        if (parts.length === 1) return { surname: parts[0], forenames: null }
+        return { surname: parts[parts.length - 1], forenames: parts.slice(0, -1).join(" ") }
+    }
+
     /**
      * Extrai o ano da descrição (apenas anos entre 1900 e 2099)
      */
@@ -176,6 +350,53 @@ export class FieldInferenceEngine {
         return yearMatch ? yearMatch[0] : null
     }
 
+    /**
+     * Extrai local e editor, preferindo a forma ISBD "Local : Editor, Ano"
+     */
+    private extractPublication(description: string): { place: string | null; publisher: string | null } {
+        const isbd = description.match(PUBLICATION_PATTERN)
+        if (isbd) {
+            const place = isbd[1].trim().split(/[.;]\s*/).pop() ?? ""
+            return { place: place.trim() || null, publisher: isbd[2].trim() || null }
+        }
+
+        const firstMatch = (patterns: RegExp[]) => {
+            for (const pattern of patterns) {
+                const match = description.match(pattern)
+                if (match && match[1]?.trim()) return match[1].trim()
+            }
+            return null
+        }
+        return { place: firstMatch(PLACE_PATTERNS), publisher: firstMatch(PUBLISHER_PATTERNS) }
+    }
+
+    /**
+     * Deteta a língua do documento (lista ISO 639-2); por omissão assume português
+     */
+    private extractLanguage(description: string): string {
+        return codedValueService.detectLanguage(description) ?? DEFAULT_LANGUAGE_CODE
+    }
+
+    /**
+     * Gera os dados gerais de processamento (UNIMARC 100$a, 36 caracteres):
+     * data de entrada (0-7), tipo de data (8), data 1 (9-12), data 2 (13-16),
+     * público-alvo (17-19), publicação oficial (20), registo modificado (21),
+     * língua de catalogação (22-24), transliteração (25), conjuntos de caracteres (26-33)
+     * e alfabeto do título (34-35)
+     */
+    private buildCodedData(year: string | null, isSerial: boolean): string {
+        const entered = new Date().toISOString().slice(0, 10).replace(/-/g, "")
+
+        // d = monografia com data única, a = publicação em série em curso, f = data incerta
+        let dates: string
+        if (isSerial) dates = `a${year ?? "    "}9999`
+        else if (year) dates = `d${year}    `
+        else dates = "f        "
+
+        // A língua de catalogação é a da agência (português), não a do documento (101$a)
+        return `${entered}${dates}m  y0${DEFAULT_LANGUAGE_CODE}y50      ba`
+    }
+
     /**
      * Retorna todos os campos (controlFields + dataFields) existentes num template
      */
@@ -222,7 +443,8 @@ export class FieldInferenceEngine {
                 const currentYear = new Date().getFullYear().toString()
                 const year2digit = currentYear.substring(2)
                 // Formato: YYMMDD + s + YYYY + 4 espaços + país + 12 espaços + idioma + d
-                return `${year2digit}0101s${currentYear}    pt            000 0 por d`
+                const country = DEFAULT_COUNTRY_CODE.toLowerCase()
+                return `${year2digit}0101s${currentYear}    ${country}            000 0 ${this.extractLanguage(description)} d`
 
             case "040":
                 // Fonte da catalogação
@@ -230,7 +452,7 @@ export class FieldInferenceEngine {
 
             case "041":
                 // Código de idioma
-                return "por"
+                return this.extractLanguage(description)
 
             default:
                 return ""
@@ -238,16 +460,12 @@ export class FieldInferenceEngine {
     }
 
     /**
-     * Verifica se um campo pode ser preenchido automaticamente
+     * Verifica se um campo pode ser preenchido automaticamente.
+     * Sem template considera as tags de ambos os formatos.
      */
-    canAutoFill(tag: string): boolean {
-        // Campos de controle que podem ser gerados automaticamente
-        const autoControlFields = ["001", "003", "005", "008", "040", "041"]
-
-        // Campos de dados que podem ser extraídos da descrição
-        const autoDataFields = ["100", "245", "260", "264", "300", "337", "338"]
-
-        return autoControlFields.includes(tag) || autoDataFields.includes(tag)
+    canAutoFill(tag: string, template?: Template): boolean {
+        const ruleSets = template ? [this.getRuleSet(template)] : [MARC21_RULES, UNIMARC_RULES]
+        return ruleSets.some((rules) => rules.autoControlFields.includes(tag) || rules.autoDataFields.includes(tag))
     }
 }
 
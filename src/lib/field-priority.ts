@@ -0,0 +1,107 @@
+import type { DataField, DialogMode, OptionalFieldGroup, Template } from "../app/types/unimarc"
+import { type IndicatorKey, indicatorService } from "./indicators"
+
+/**
+ * Grupos de campos opcionais oferecidos no modo "mandatory", por ordem de importância.
+ * Um campo pertence ao primeiro grupo com um prefixo que corresponda ao início da etiqueta;
+ * os restantes ficam no grupo "outros".
+ */
+export const OPTIONAL_FIELD_GROUPS: Array<{ id: string; name: string; prefixes: string[] }> = [
+    {
+        id: "descricao",
+        name: "Descrição e responsabilidade",
+        prefixes: ["010", "011", "101", "102", "200", "205", "210", "215", "225", "70", "71"],
+    },
+    { id: "assuntos", name: "Assuntos e classificação", prefixes: ["6"] },
+    { id: "notas", name: "Notas e resumo", prefixes: ["3"] },
+    { id: "ligacoes", name: "Ligações e títulos relacionados", prefixes: ["4", "5"] },
+]
+
+// Grupo dos campos opcionais que não pertencem a nenhum dos grupos acima
+const OTHER_FIELDS_GROUP = { id: "outros", name: "Outros campos" }
+
+/**
+ * Campos a perguntar no diálogo de um template
+ */
+export interface FieldsToAsk {
+    fields: string[]
+    optionalGroups: OptionalFieldGroup[]
+}
+
+/**
+ * Ordem e seleção dos campos e subcampos perguntados no diálogo de catalogação.
+ *
+ * No modo "all" (por omissão) são perguntados todos os campos, indicadores e subcampos.
+ * No modo "mandatory" são perguntados só os campos obrigatórios e, nestes, só os subcampos
+ * obrigatórios; os campos opcionais são depois oferecidos em grupos (OPTIONAL_FIELD_GROUPS)
+ * e, quando escolhidos, perguntados por inteiro.
+ */
+export class FieldPriorityService {
+    /**
+     * Separa os campos por preencher (já ordenados) em campos a perguntar e grupos de opcionais
+     */
+    getFieldsToAsk(template: Template, tags: string[], mode: DialogMode = "all"): FieldsToAsk {
+        if (mode !== "mandatory") return { fields: tags, optionalGroups: [] }
+
+        const fieldDefs = [...template.controlFields, ...template.dataFields]
+        const isMandatory = (tag: string) => fieldDefs.some((f) => f.tag === tag && f.mandatory)
+        const optionalTags = tags.filter((tag) => !isMandatory(tag))
+
+        const optionalGroups = [...OPTIONAL_FIELD_GROUPS, OTHER_FIELDS_GROUP]
+            .map(({ id, name }) => ({
+                id,
+                name,
+                fields: optionalTags.filter((tag) => this.groupOf(tag) === id),
+            }))
+            .filter((group) => group.fields.length > 0)
+
+        return { fields: tags.filter(isMandatory), optionalGroups }
+    }
+
+    /**
+     * Indicadores perguntados numa ocorrência do campo
+     * (no modo "mandatory" ficam em branco nos campos obrigatórios)
+     */
+    getIndicatorsToAsk(field: DataField, mode: DialogMode = "all", language = "pt"): IndicatorKey[] {
+        if (this.asksOnlyMandatory(field, mode)) return []
+        return indicatorService.getDefinedIndicators(field, language).map((indicator) => indicator.key)
+    }
+
+    /**
+     * Subcampos perguntados numa ocorrência do campo, pela ordem do template.
+     * Um campo obrigatório sem subcampos obrigatórios é perguntado por inteiro.
+     */
+    getSubfieldsToAsk(field: DataField, mode: DialogMode = "all"): string[] {
+        const subfields = field.subFieldDef ?? []
+        const mandatory = subfields.filter((sf) => sf.mandatory)
+        if (this.asksOnlyMandatory(field, mode) && mandatory.length > 0) return mandatory.map((sf) => sf.code)
+        return subfields.map((sf) => sf.code)
+    }
+
+    /**
+     * Próximo subcampo a perguntar depois de currentCode (o primeiro, sem currentCode);
+     * undefined quando a ocorrência está completa
+     */
+    getNextSubfield(field: DataField, currentCode: string | undefined, mode: DialogMode = "all"): string | undefined {
+        const toAsk = this.getSubfieldsToAsk(field, mode)
+        if (!currentCode) return toAsk[0]
+
+        // Posição no template, para funcionar mesmo que o subcampo atual não esteja na lista a perguntar
+        const order = (field.subFieldDef ?? []).map((sf) => sf.code)
+        const currentIndex = order.indexOf(currentCode)
+        return toAsk.find((code) => order.indexOf(code) > currentIndex)
+    }
+
+    /**
+     * Id do grupo de opcionais a que pertence um campo
+     */
+    groupOf(tag: string): string {
+        return OPTIONAL_FIELD_GROUPS.find((group) => group.prefixes.some((prefix) => tag.startsWith(prefix)))?.id ?? OTHER_FIELDS_GROUP.id
+    }
+
+    private asksOnlyMandatory(field: DataField, mode: DialogMode): boolean {
+        return mode === "mandatory" && field.mandatory
+    }
+}
+
+export const fieldPriority = new FieldPriorityService()
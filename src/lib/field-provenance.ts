@@ -0,0 +1,176 @@
+import type {
+    FieldProvenance,
+    OccurrenceProvenance,
+    ProvenanceSource,
+    RecordProvenance,
+} from "../app/types/unimarc"
+import { isObject } from "./filled-fields"
+import { indicatorService } from "./indicators"
+
+// Origens de valores propostos automaticamente, cuja exatidão é medida pelas correções do utilizador
+export const AUTOMATIC_SOURCES: readonly ProvenanceSource[] = ["ai"]
+
+/**
+ * Exatidão de uma origem automática (e do modelo, na IA): valores gravados tal como propostos
+ * e valores corrigidos pelo utilizador
+ */
+export interface ProvenanceAccuracy {
+    source: ProvenanceSource
+    model?: string
+    kept: number
+    corrected: number
+    accuracy: number | null     // kept / (kept + corrected); null sem valores
+}
+
+/**
+ * Relatório da origem dos valores gravados (um valor = um subcampo, ou o valor de um campo sem subcampos)
+ */
+export interface ProvenanceReport {
+    values: Record<ProvenanceSource, number>
+    unknown: number     // Valores gravados antes de a origem ser registada
+    accuracy: ProvenanceAccuracy[]
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+/**
+ * Origem de cada valor preenchido no diálogo de catalogação (IA, catalogador ou importação),
+ * guardada por ocorrência e subcampo em ConversationState.provenance e gravada com cada linha
+ * de CatalogField.
+ *
+ * Um valor alterado pelo utilizador fica com a origem "user" e guarda a origem do valor que substituiu,
+ * o que permite medir a exatidão das propostas automáticas (ver report).
+ */
+export class FieldProvenanceService {
+    /**
+     * A mesma origem para todas as ocorrências dos campos indicados (ex: preenchimento automático)
+     */
+    forFields(filledFields: Record<string, unknown>, origin: FieldProvenance): RecordProvenance {
+        return Object.fromEntries(
+            Object.entries(filledFields).map(([tag, value]) => [tag, [value].flat().map(() => ({ ...origin }))]),
+        )
+    }
+
+    /**
+     * Atualiza a origem de um campo depois de o seu valor mudar (previous -> current).
+     *
+     * As ocorrências e subcampos que não mudaram mantêm a origem; os restantes passam a ter a origem
+     * indicada e guardam a que tinham antes. Sem valor atual, a origem anterior é mantida: um valor
+     * rejeitado (ex: pouca confiança, __EDIT_FIELD__) fica registado como substituído pela resposta seguinte.
+     */
+    track(
+        provenance: RecordProvenance | undefined,
+        tag: string,
+        previous: unknown,
+        current: unknown,
+        origin: FieldProvenance,
+    ): RecordProvenance {
+        if (current === undefined) return { ...provenance }
+
+        const before: unknown[] = previous === undefined ? [] : [previous].flat()
+        const entries = provenance?.[tag] ?? []
+        const occurrences = [current]
+            .flat()
+            .map((value, index) => this.trackOccurrence(entries[index], before[index], value, origin))
+        return { ...provenance, [tag]: occurrences }
+    }
+
+    /**
+     * Origem de um subcampo de uma ocorrência (a da ocorrência, se o subcampo não tiver uma própria)
+     */
+    ofSubfield(occurrence: OccurrenceProvenance, code: string): FieldProvenance {
+        const { subfields, ...fieldProvenance } = occurrence
+        return subfields?.[code] ?? fieldProvenance
+    }
+
+    /**
+     * Origens distintas de uma ocorrência (campo e subcampos), para apresentação
+     */
+    sourcesOf(occurrence: OccurrenceProvenance): FieldProvenance[] {
+        const { subfields, ...fieldProvenance } = occurrence
+        const all = [fieldProvenance, ...Object.values(subfields ?? {})]
+        return all.filter(
+            (item, index) => all.findIndex((other) => other.source === item.source && other.model === item.model) === index,
+        )
+    }
+
+    /**
+     * Conta a origem dos valores gravados e a exatidão de cada origem automática (por modelo, na IA)
+     */
+    report(fields: Array<{ subfields: unknown; provenance: unknown }>): ProvenanceReport {
+        const values: Record<ProvenanceSource, number> = { ai: 0, user: 0, import: 0 }
+        const accuracy = new Map<string, ProvenanceAccuracy>()
+        let unknown = 0
+
+        const count = (source: ProvenanceSource, model: string | undefined, kept: boolean) => {
+            if (!AUTOMATIC_SOURCES.includes(source)) return
+            const key = `${source}:${model ?? ""}`
+            const entry = accuracy.get(key) ?? { source, ...(model ? { model } : {}), kept: 0, corrected: 0, accuracy: null }
+            if (kept) entry.kept++
+            else entry.corrected++
+            accuracy.set(key, entry)
+        }
+
+        for (const field of fields) {
+            const codes = isObject(field.subfields)
+                ? Object.keys(field.subfields).filter((code) => !indicatorService.isIndicatorKey(code))
+                : [""]
+            if (!isObject(field.provenance) || typeof field.provenance.source !== "string") {
+                unknown += codes.length
+                continue
+            }
+
+            for (const code of codes) {
+                const { source, model, replaced } = this.ofSubfield(field.provenance as unknown as OccurrenceProvenance, code)
+                if (!(source in values)) continue
+                values[source]++
+                count(source, model, true)
+                if (replaced) count(replaced.source, replaced.model, false)
+            }
+        }
+
+        return {
+            values,
+            unknown,
+            accuracy: Array.from(accuracy.values()).map((entry) => ({
+                ...entry,
+                accuracy: entry.kept + entry.corrected > 0 ? entry.kept / (entry.kept + entry.corrected) : null,
+            })),
+        }
+    }
+
+    // Origem de uma ocorrência depois da alteração; os subcampos que mantêm uma origem diferente ficam listados
+    private trackOccurrence(
+        entry: OccurrenceProvenance | undefined,
+        previous: unknown,
+        current: unknown,
+        origin: FieldProvenance,
+    ): OccurrenceProvenance {
+        if (entry && previous !== undefined && sameValue(previous, current)) return entry
+
+        const occurrence = this.replace(entry, origin)
+        if (!isObject(current)) return occurrence
+
+        const subfields: Record<string, FieldProvenance> = {}
+        for (const [code, value] of Object.entries(current)) {
+            const before = entry ? this.ofSubfield(entry, code) : undefined
+            const unchanged = isObject(previous) && code in previous && sameValue(previous[code], value)
+            const subfield = before && unchanged ? before : this.replace(before, origin)
+            if (!sameValue(subfield, occurrence)) subfields[code] = subfield
+        }
+        return Object.keys(subfields).length > 0 ? { ...occurrence, subfields } : occurrence
+    }
+
+    // Nova origem de um valor, com a origem do valor substituído; um valor que volta a ser alterado
+    // pela mesma origem mantém o registo do que substituiu da primeira vez
+    private replace(before: FieldProvenance | undefined, origin: FieldProvenance): FieldProvenance {
+        const provenance: FieldProvenance = { source: origin.source, ...(origin.model ? { model: origin.model } : {}) }
+        if (!before) return provenance
+        if (before.source === origin.source && before.model === origin.model) {
+            return before.replaced ? { ...provenance, replaced: before.replaced } : provenance
+        }
+        return { ...provenance, replaced: { source: before.source, ...(before.model ? { model: before.model } : {}) } }
+    }
+}
+
+export const fieldProvenanceService = new FieldProvenanceService()
@@ -0,0 +1,84 @@
+import { indicatorService } from "./indicators"
+
+/**
+ * Valor retirado ao normalizar campos preenchidos automaticamente
+ */
+export interface RejectedFieldValue {
+    tag: string
+    subfield?: string
+    value: string
+    error: string
+    occurrenceRemoved: boolean // A ocorrência ficou sem subcampos e foi retirada (marcado só na última rejeição)
+}
+
+/**
+ * Verificação de um valor de campo de controlo (sem subcampo) ou de subcampo: o valor a guardar
+ * (eventualmente convertido), o erro que o retira, ou null quando o destino não é verificado
+ */
+export type FieldValueCheck = { value: unknown } | { error: string } | null
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+
+// Texto de um valor para mensagens e rejeições (valores que não são texto aparecem em JSON)
+export const describeValue = (value: unknown): string => (typeof value === "string" ? value : JSON.stringify(value) ?? String(value))
+
+/**
+ * Aplica checkValue a cada valor de filledFields (ex: resultado do preenchimento automático), elemento a
+ * elemento nos subcampos repetidos: os valores convertidos substituem os originais e os inválidos são retirados.
+ * Ocorrências que ficam sem subcampos são removidas, para que o campo volte a ser perguntado.
+ */
+export function normalizeFilledFields(
+    filledFields: Record<string, unknown>,
+    checkValue: (tag: string, subfield: string | undefined, value: unknown) => FieldValueCheck,
+): { filledFields: Record<string, unknown>; rejected: RejectedFieldValue[] } {
+    const result: Record<string, unknown> = { ...filledFields }
+    const rejected: RejectedFieldValue[] = []
+
+    for (const tag of Object.keys(result)) {
+        const isArray = Array.isArray(result[tag])
+        let changed = false
+        const items = (isArray ? (result[tag] as unknown[]) : [result[tag]]).flatMap((item) => {
+            if (!isObject(item)) {
+                const check = checkValue(tag, undefined, item)
+                if (!check) return [item]
+                if ("value" in check) {
+                    changed ||= check.value !== item
+                    return [check.value]
+                }
+                changed = true
+                rejected.push({ tag, value: describeValue(item), error: check.error, occurrenceRemoved: true })
+                return []
+            }
+
+            const occurrence = { ...item }
+            const invalid: RejectedFieldValue[] = []
+            for (const [code, value] of Object.entries(indicatorService.split(item).subfields)) {
+                const values = Array.isArray(value) ? value : [value]
+                const kept = values.flatMap((v) => {
+                    const check = checkValue(tag, code, v)
+                    if (!check) return [v]
+                    if ("value" in check) return [check.value]
+                    invalid.push({ tag, subfield: code, value: describeValue(v), error: check.error, occurrenceRemoved: false })
+                    return []
+                })
+                if (kept.length === values.length && kept.every((v, i) => v === values[i])) continue
+
+                changed = true
+                if (kept.length === 0) delete occurrence[code]
+                else occurrence[code] = Array.isArray(value) ? kept : kept[0]
+            }
+
+            const occurrenceRemoved = invalid.length > 0 && !indicatorService.hasSubfields(occurrence)
+            if (occurrenceRemoved) invalid[invalid.length - 1].occurrenceRemoved = true
+            rejected.push(...invalid)
+            return occurrenceRemoved ? [] : [occurrence]
+        })
+
+        if (!changed) continue
+        if (items.length === 0) delete result[tag]
+        else result[tag] = isArray ? items : items[0]
+    }
+
+    return { filledFields: result, rejected }
+}
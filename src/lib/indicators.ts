@@ -0,0 +1,92 @@
+import type { DataField, FieldDefinition, Translation } from "../app/types/unimarc"
+
+/**
+ * Chaves usadas para guardar os indicadores junto dos subcampos de uma ocorrência
+ * em filledFields (ex: { ind1: "1", a: "Título" }). Nunca colidem com códigos de subcampo,
+ * que têm sempre um único carácter.
+ */
+export const INDICATOR_KEYS = ["ind1", "ind2"] as const
+export type IndicatorKey = (typeof INDICATOR_KEYS)[number]
+
+// Valor de indicador em branco
+export const BLANK_INDICATOR = " "
+
+/**
+ * Indicador definido para um campo, com nome e dicas traduzidos
+ */
+export interface IndicatorDefinition {
+    key: IndicatorKey
+    name: string
+    tips: string[]
+}
+
+/**
+ * Leitura, normalização e separação dos indicadores de campos de dados
+ */
+export class IndicatorService {
+    isIndicatorKey(key: string): key is IndicatorKey {
+        return (INDICATOR_KEYS as readonly string[]).includes(key)
+    }
+
+    /**
+     * Indicadores com significado para o campo: só são perguntados os que têm nome ou dicas
+     * na tradução (na língua pedida ou, em alternativa, em qualquer língua)
+     */
+    getDefinedIndicators(fieldDef: FieldDefinition | undefined, language = "pt"): IndicatorDefinition[] {
+        if (!fieldDef || !("subFieldDef" in fieldDef)) return []
+
+        const translations = (fieldDef as DataField).translations ?? []
+        const translation = translations.find((t) => t.language === language)
+
+        return INDICATOR_KEYS.flatMap((key) => {
+            const nameKey = key === "ind1" ? "ind1Name" : "ind2Name"
+            const tipsKey = key === "ind1" ? "ind1Tips" : "ind2Tips"
+            const hasInfo = (t?: Translation) => !!t && (!!t[nameKey] || (t[tipsKey]?.length ?? 0) > 0)
+            const source = hasInfo(translation) ? translation : translations.find(hasInfo)
+            if (!source) return []
+
+            return [{ key, name: source[nameKey] || `Indicador ${key.slice(3)}`, tips: source[tipsKey] ?? [] }]
+        })
+    }
+
+    /**
+     * Normaliza a resposta a um indicador:
+     * - vazio, "#", "_" ou "branco" -> " "
+     * - um único dígito ou letra -> o próprio carácter (minúsculo)
+     * - qualquer outro valor -> null (inválido)
+     */
+    normalize(value: unknown): string | null {
+        if (value === undefined || value === null) return BLANK_INDICATOR
+        const trimmed = String(value).trim().toLowerCase()
+
+        if (["", "#", "_", "branco", "blank", "vazio"].includes(trimmed)) return BLANK_INDICATOR
+        if (/^[0-9a-z]$/.test(trimmed)) return trimmed
+        return null
+    }
+
+    /**
+     * Separa os indicadores dos subcampos de um objeto de ocorrência.
+     * Indicadores inválidos ou ausentes ficam em branco.
+     */
+    split(occurrence: Record<string, unknown>): { ind1: string; ind2: string; subfields: Record<string, unknown> } {
+        const subfields: Record<string, unknown> = {}
+        for (const [code, value] of Object.entries(occurrence)) {
+            if (!this.isIndicatorKey(code)) subfields[code] = value
+        }
+
+        return {
+            ind1: this.normalize(occurrence.ind1) ?? BLANK_INDICATOR,
+            ind2: this.normalize(occurrence.ind2) ?? BLANK_INDICATOR,
+            subfields,
+        }
+    }
+
+    /**
+     * Indica se uma ocorrência tem subcampos (ignorando indicadores)
+     */
+    hasSubfields(occurrence: Record<string, unknown> | undefined): boolean {
+        return Object.keys(occurrence ?? {}).some((code) => !this.isIndicatorKey(code))
+    }
+}
+
+export const indicatorService = new IndicatorService()
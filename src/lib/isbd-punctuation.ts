@@ -0,0 +1,177 @@
+import type { FieldOccurrence } from "./unimarc-serializer"
+
+/**
+ * Onde fica a pontuação ISBD de cada biblioteca:
+ * - generated: os subcampos são gravados sem pontuação e esta é gerada na apresentação (convenção UNIMARC)
+ * - stored: a pontuação que precede cada subcampo é gravada no fim do subcampo anterior
+ *   (ex: "200  $aTítulo :$eSubtítulo /$fAutor"), como esperam alguns sistemas de gestão
+ */
+export type PunctuationMode = "generated" | "stored"
+
+/**
+ * Modo por omissão; cada instalação pode mudá-lo com a variável de ambiente ISBD_PUNCTUATION
+ */
+export const DEFAULT_PUNCTUATION_MODE: PunctuationMode = "generated"
+
+/**
+ * Pontuação ISBD que precede cada subcampo quando este não é o primeiro da ocorrência.
+ * Chave "tag$subcampo"; só estes subcampos (e o $a, primeiro elemento de cada área) levam pontuação ISBD.
+ * Os restantes ficam como foram escritos e são separados por um espaço na apresentação.
+ */
+export const ISBD_SEPARATORS: Record<string, string> = {
+    // Título e menção de responsabilidade
+    "200$a": " ; ",
+    "200$c": ". ",
+    "200$d": " = ",
+    "200$e": " : ",
+    "200$f": " / ",
+    "200$g": " ; ",
+    "200$h": ". ",
+    "200$i": ". ",
+    // Edição
+    "205$b": ", ",
+    "205$d": " = ",
+    "205$f": " / ",
+    "205$g": " ; ",
+    // Publicação
+    "210$a": " ; ",
+    "210$c": " : ",
+    "210$d": ", ",
+    // Descrição física
+    "215$c": " : ",
+    "215$d": " ; ",
+    "215$e": " + ",
+    // Coleção
+    "225$d": " = ",
+    "225$e": " : ",
+    "225$f": " / ",
+    "225$h": ". ",
+    "225$i": ". ",
+    "225$v": " ; ",
+    "225$x": ", ",
+}
+
+// Áreas ISBD: campos com pontuação definida em ISBD_SEPARATORS
+const ISBD_AREAS = new Set(Object.keys(ISBD_SEPARATORS).map((key) => key.split("$")[0]))
+
+// Pontuação de separação no início ou no fim de um valor, separada do texto por um espaço como manda a ISBD
+// (", " e ". " tratados à parte), para não cortar valores como "C++" ou "A/B"
+const LEADING_SEPARATOR = /^\s*(?:[:;/=+]|\.(?!\.))\s+/
+const TRAILING_SEPARATOR = /(?:\s+[:;/=+]|\s*,)\s*$/
+// Ponto final que faz parte do valor: abreviaturas curtas ("p.", "ed.", "cm."), iniciais ("J.") e reticências
+const KEPT_PERIOD = /(?:(?<!\p{L})\p{L}{1,3}\.|\.\.\.)$/u
+
+/**
+ * Normalização da pontuação ISBD dos subcampos, antes de gravar e de gerar o textUnimarc
+ */
+export class IsbdPunctuationService {
+    /**
+     * Modo configurado para esta instalação (ISBD_PUNCTUATION=generated|stored)
+     */
+    getMode(): PunctuationMode {
+        const configured = process.env.ISBD_PUNCTUATION
+        return configured === "stored" || configured === "generated" ? configured : DEFAULT_PUNCTUATION_MODE
+    }
+
+    /**
+     * Retira a pontuação ISBD das extremidades de um valor, mantendo abreviaturas e reticências
+     */
+    strip(value: string): string {
+        let result = value.trim().replace(LEADING_SEPARATOR, "")
+        let previous: string
+        do {
+            previous = result
+            result = result.replace(TRAILING_SEPARATOR, "")
+            if (result.endsWith(".") && !KEPT_PERIOD.test(result)) result = result.slice(0, -1)
+            result = result.trimEnd()
+        } while (result !== previous)
+        return result
+    }
+
+    /**
+     * Indica se o subcampo leva pontuação ISBD (entrada em ISBD_SEPARATORS ou $a de uma área ISBD)
+     */
+    isIsbdSubfield(tag: string, code: string): boolean {
+        return `${tag}$${code}` in ISBD_SEPARATORS || (code === "a" && ISBD_AREAS.has(tag))
+    }
+
+    /**
+     * Normaliza os subcampos ISBD de uma ocorrência segundo o modo:
+     * retira sempre a pontuação existente e, no modo "stored", acrescenta a pontuação ISBD
+     * que precede o subcampo seguinte ao fim do subcampo anterior.
+     * Os restantes subcampos (ex: 856$u, notas) ficam inalterados.
+     */
+    normalizeSubfields(
+        tag: string,
+        subfields: Record<string, string | string[]>,
+        mode: PunctuationMode = this.getMode(),
+    ): Record<string, string | string[]> {
+        const isIsbd = (code: string) => this.isIsbdSubfield(tag, code)
+        const entries = this.flatten(subfields)
+            .map(([code, value]) => [code, isIsbd(code) ? this.strip(value) : value] as [string, string])
+            .filter(([code, value]) => !isIsbd(code) || value.length > 0)
+
+        if (mode === "stored") {
+            for (let i = 0; i < entries.length - 1; i++) {
+                if (!isIsbd(entries[i][0])) continue
+                const separator = ISBD_SEPARATORS[`${tag}$${entries[i + 1][0]}`]
+                // Só a pontuação é gravada; o espaço que a segue pertence à apresentação
+                if (separator && separator.trim()) entries[i][1] = `${entries[i][1]}${separator.trimEnd()}`
+            }
+        }
+
+        const normalized = new Map<string, string[]>()
+        for (const [code, value] of entries.filter(([code]) => isIsbd(code))) {
+            normalized.set(code, [...(normalized.get(code) ?? []), value])
+        }
+
+        const result: Record<string, string | string[]> = {}
+        for (const [code, original] of Object.entries(subfields)) {
+            if (!isIsbd(code)) {
+                result[code] = original
+                continue
+            }
+            const values = normalized.get(code)
+            if (values) result[code] = Array.isArray(original) ? values : values[0]
+        }
+        return result
+    }
+
+    /**
+     * Aplica normalizeSubfields a todas as ocorrências de dados (campos de controlo ficam iguais)
+     */
+    normalizeOccurrences(occurrences: FieldOccurrence[], mode: PunctuationMode = this.getMode()): FieldOccurrence[] {
+        return occurrences.map((occurrence) =>
+            occurrence.subfields
+                ? { ...occurrence, subfields: this.normalizeSubfields(occurrence.tag, occurrence.subfields, mode) }
+                : occurrence,
+        )
+    }
+
+    /**
+     * Texto de apresentação ISBD de uma ocorrência (ex: "Título : subtítulo / Autor").
+     * Funciona nos dois modos: a pontuação gravada nos subcampos ISBD é retirada e gerada de novo.
+     */
+    formatDisplay(tag: string, subfields: Record<string, unknown>): string {
+        const entries = this.flatten(subfields)
+            .map(([code, value]) => [code, this.isIsbdSubfield(tag, code) ? this.strip(value) : value.trim()] as [string, string])
+            .filter(([, value]) => value.length > 0)
+
+        return entries
+            .map(([code, value], i) => (i === 0 ? value : `${ISBD_SEPARATORS[`${tag}$${code}`] ?? " "}${value}`))
+            .join("")
+    }
+
+    /**
+     * Lista [código, valor] pela ordem dos subcampos, com os subcampos repetidos expandidos
+     */
+    private flatten(subfields: Record<string, unknown>): Array<[string, string]> {
+        return Object.entries(subfields).flatMap(([code, value]) =>
+            (Array.isArray(value) ? value : [value])
+                .filter((v): v is string | number => typeof v === "string" || typeof v === "number")
+                .map((v) => [code, String(v)] as [string, string]),
+        )
+    }
+}
+
+export const isbdPunctuation = new IsbdPunctuationService()
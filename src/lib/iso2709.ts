@@ -0,0 +1,274 @@
+import type { FieldType, Prisma } from "@prisma/client"
+import type { FieldOccurrence, ImportedRecord } from "./unimarc-serializer"
+
+/**
+ * Delimitadores definidos pela norma ISO 2709
+ */
+export const SUBFIELD_DELIMITER = "\x1F"   // IS1 - antecede cada código de subcampo
+export const FIELD_TERMINATOR = "\x1E"     // IS2 - termina o diretório e cada campo
+export const RECORD_TERMINATOR = "\x1D"    // IS3 - termina o registo
+
+/**
+ * Campo tal como está guardado em CatalogField (apenas o necessário para exportação)
+ */
+export interface ExportableField {
+    tag: string
+    value: string | null
+    subfields: Prisma.JsonValue | null
+    fieldType: FieldType | string
+    ind1?: string | null
+    ind2?: string | null
+}
+
+/**
+ * Registo pronto a exportar: campos e, opcionalmente, a etiqueta de registo (leader)
+ */
+export interface ExportableRecord {
+    leader?: string | null
+    fields: ExportableField[]
+}
+
+// Maiores valores que cabem nas posições numéricas do formato: comprimento do campo no diretório (4 dígitos),
+// posição inicial do campo no diretório e comprimento do registo na etiqueta (5 dígitos)
+export const MAX_FIELD_LENGTH = 9999
+export const MAX_FIELD_OFFSET = 99999
+export const MAX_RECORD_LENGTH = 99999
+
+// Etiqueta de registo por omissão: registo novo (n), texto impresso (a), monografia (m)
+// Posições 0-4 (comprimento) e 12-16 (endereço base) são calculadas na codificação
+export const DEFAULT_LEADER = "00000nam  2200000   450 "
+
+/**
+ * Codificador/descodificador de registos no formato de intercâmbio ISO 2709.
+ *
+ * Estrutura de cada registo:
+ * 1. Etiqueta de registo (24 caracteres)
+ * 2. Diretório - uma entrada de 12 caracteres por campo (tag, comprimento, posição inicial)
+ * 3. Campos variáveis, cada um terminado por IS2
+ * 4. Terminador de registo IS3
+ *
+ * Comprimentos e posições são sempre calculados em bytes UTF-8.
+ */
+export class Iso2709Codec {
+    /**
+     * Codifica um único registo em ISO 2709
+     * @throws Error se um campo ou o registo excederem os comprimentos que o formato consegue representar
+     */
+    encodeRecord(record: ExportableRecord): string {
+        const fieldEntries = this.sortFields(record.fields).flatMap((field) =>
+            this.encodeField(field).map((data) => ({ tag: field.tag, data })),
+        )
+
+        // Constrói o diretório e calcula as posições de cada campo dentro da área de dados
+        let directory = ""
+        let offset = 0
+        for (const entry of fieldEntries) {
+            const length = this.byteLength(entry.data)
+            if (length > MAX_FIELD_LENGTH) {
+                throw new Error(
+                    `O campo ${entry.tag} tem ${length} bytes e excede o máximo de ${MAX_FIELD_LENGTH} bytes por campo do formato ISO 2709`,
+                )
+            }
+            if (offset > MAX_FIELD_OFFSET) {
+                throw new Error(
+                    `O campo ${entry.tag} começa na posição ${offset} e excede a posição máxima de ${MAX_FIELD_OFFSET} do diretório ISO 2709`,
+                )
+            }
+            directory += entry.tag.padStart(3, "0").slice(0, 3) + this.pad(length, 4) + this.pad(offset, 5)
+            offset += length
+        }
+        directory += FIELD_TERMINATOR
+
+        const data = fieldEntries.map((entry) => entry.data).join("")
+        const baseAddress = 24 + this.byteLength(directory)
+        const recordLength = baseAddress + this.byteLength(data) + 1 // +1 para o terminador de registo
+        if (recordLength > MAX_RECORD_LENGTH) {
+            throw new Error(
+                `O registo tem ${recordLength} bytes e excede o máximo de ${MAX_RECORD_LENGTH} bytes do formato ISO 2709`,
+            )
+        }
+
+        const leader = this.buildLeader(record.leader, recordLength, baseAddress)
+        return leader + directory + data + RECORD_TERMINATOR
+    }
+
+    /**
+     * Codifica vários registos num único ficheiro (.mrc), concatenando-os
+     * @throws Error se algum registo não puder ser codificado (ver encodeRecord)
+     */
+    encodeCollection(records: ExportableRecord[]): string {
+        return records.map((record) => this.encodeRecord(record)).join("")
+    }
+
+    /**
+     * Divide um ficheiro (.mrc) nos seus registos, usando o terminador IS3.
+     * Trabalha sobre bytes para que os comprimentos UTF-8 do diretório sejam respeitados.
+     */
+    splitRecords(data: Buffer): Buffer[] {
+        const records: Buffer[] = []
+        let start = 0
+
+        for (let i = 0; i < data.length; i++) {
+            if (data[i] === RECORD_TERMINATOR.charCodeAt(0)) {
+                const chunk = data.subarray(start, i + 1)
+                // Ignora quebras de linha entre registos, comuns em ficheiros editados à mão
+                if (chunk.toString("utf8").trim().length > 1) records.push(chunk)
+                start = i + 1
+            }
+        }
+
+        // Resto do ficheiro sem terminador final
+        const rest = data.subarray(start)
+        if (rest.toString("utf8").trim().length > 0) records.push(rest)
+
+        return records.map((record) => this.trimLeadingWhitespace(record))
+    }
+
+    /**
+     * Descodifica um único registo ISO 2709
+     * @throws Error se a etiqueta de registo ou o diretório forem inválidos
+     */
+    decodeRecord(data: Buffer): ImportedRecord {
+        if (data.length < 25) {
+            throw new Error("Registo ISO 2709 demasiado curto")
+        }
+
+        const leader = data.subarray(0, 24).toString("utf8")
+        const baseAddress = Number.parseInt(leader.slice(12, 17), 10)
+
+        if (Number.isNaN(baseAddress) || baseAddress <= 24 || baseAddress > data.length) {
+            throw new Error(`Endereço base inválido na etiqueta de registo: "${leader.slice(12, 17)}"`)
+        }
+
+        // O diretório termina com IS2 imediatamente antes do endereço base
+        const directory = data.subarray(24, baseAddress - 1).toString("utf8")
+        if (directory.length % 12 !== 0) {
+            throw new Error("Diretório ISO 2709 com comprimento inválido")
+        }
+
+        const fields: FieldOccurrence[] = []
+        for (let i = 0; i < directory.length; i += 12) {
+            const tag = directory.slice(i, i + 3)
+            const length = Number.parseInt(directory.slice(i + 3, i + 7), 10)
+            const start = Number.parseInt(directory.slice(i + 7, i + 12), 10)
+
+            if (Number.isNaN(length) || Number.isNaN(start)) {
+                throw new Error(`Entrada de diretório inválida para o campo ${tag}`)
+            }
+
+            const raw = data
+                .subarray(baseAddress + start, baseAddress + start + length)
+                .toString("utf8")
+                .replace(new RegExp(`${FIELD_TERMINATOR}$`), "")
+
+            fields.push(this.decodeField(tag, raw))
+        }
+
+        return { leader, fields }
+    }
+
+    /**
+     * Descodifica os dados de um campo: campos 00X são de controlo, os restantes têm
+     * dois indicadores seguidos de subcampos delimitados por IS1
+     */
+    private decodeField(tag: string, raw: string): FieldOccurrence {
+        if (tag.startsWith("00")) {
+            return { tag, fieldType: "CONTROL", value: raw, subfields: null }
+        }
+
+        const ind1 = raw[0] && raw[0] !== SUBFIELD_DELIMITER ? raw[0] : " "
+        const ind2 = raw[1] && raw[1] !== SUBFIELD_DELIMITER ? raw[1] : " "
+
+        const subfields: Record<string, string | string[]> = {}
+        for (const chunk of raw.slice(2).split(SUBFIELD_DELIMITER).slice(1)) {
+            if (chunk.length === 0) continue
+            const code = chunk[0]
+            const value = chunk.slice(1)
+            const existing = subfields[code]
+            // Códigos repetidos dentro do mesmo campo tornam-se arrays
+            if (existing === undefined) subfields[code] = value
+            else subfields[code] = Array.isArray(existing) ? [...existing, value] : [existing, value]
+        }
+
+        return { tag, fieldType: "DATA", value: null, subfields, ind1, ind2 }
+    }
+
+    private trimLeadingWhitespace(data: Buffer): Buffer {
+        let start = 0
+        while (start < data.length && (data[start] === 0x0a || data[start] === 0x0d || data[start] === 0x20)) start++
+        return data.subarray(start)
+    }
+
+    /**
+     * Codifica um campo numa ou mais cadeias de dados (terminadas por IS2).
+     * Registos antigos gravados com { occurrences: [...] } geram um campo por ocorrência.
+     */
+    private encodeField(field: ExportableField): string[] {
+        if (field.fieldType === "CONTROL") {
+            return [(field.value ?? "") + FIELD_TERMINATOR]
+        }
+
+        const indicators = (field.ind1 || " ") + (field.ind2 || " ")
+
+        const subfields = field.subfields
+        if (subfields && typeof subfields === "object" && !Array.isArray(subfields)) {
+            const occurrences = (subfields as Record<string, unknown>).occurrences
+            const subfieldSets = Array.isArray(occurrences) ? occurrences : [subfields]
+
+            return subfieldSets
+                .map((set) => this.encodeSubfields(set))
+                .filter((encoded) => encoded.length > 0)
+                .map((encoded) => indicators + encoded + FIELD_TERMINATOR)
+        }
+
+        // Campo de dados sem subcampos estruturados: o valor vai para $a
+        if (field.value) {
+            return [indicators + SUBFIELD_DELIMITER + "a" + field.value + FIELD_TERMINATOR]
+        }
+        return []
+    }
+
+    /**
+     * Codifica um objeto de subcampos ({ a: "x", b: ["y", "z"] }) em IS1 + código + valor
+     */
+    private encodeSubfields(subfields: unknown): string {
+        if (!subfields || typeof subfields !== "object") return ""
+
+        return Object.entries(subfields as Record<string, unknown>)
+            .flatMap(([code, value]) => (Array.isArray(value) ? value : [value]).map((v) => [code, v] as const))
+            .filter(([, v]) => v !== null && v !== undefined && String(v).trim() !== "")
+            .map(([code, v]) => SUBFIELD_DELIMITER + code + String(v))
+            .join("")
+    }
+
+    /**
+     * Preenche a etiqueta de registo com o comprimento total e o endereço base dos dados
+     */
+    private buildLeader(leader: string | null | undefined, recordLength: number, baseAddress: number): string {
+        const base = (leader && leader.length === 24 ? leader : DEFAULT_LEADER).split("")
+
+        base.splice(0, 5, ...this.pad(recordLength, 5))
+        base.splice(10, 2, "2", "2")    // Número de indicadores e comprimento do código de subcampo
+        base.splice(12, 5, ...this.pad(baseAddress, 5))
+        base.splice(20, 3, "4", "5", "0")   // Mapa de entradas do diretório (posição 23 depende do formato)
+
+        return base.join("")
+    }
+
+    /**
+     * Ordena os campos numericamente por tag, mantendo a ordem original em caso de empate
+     */
+    private sortFields(fields: ExportableField[]): ExportableField[] {
+        return [...fields].sort((a, b) => Number.parseInt(a.tag) - Number.parseInt(b.tag))
+    }
+
+    private byteLength(value: string): number {
+        return Buffer.byteLength(value, "utf8")
+    }
+
+    private pad(value: number, width: number): string {
+        return String(value).padStart(width, "0")
+    }
+}
+
+export const iso2709Codec = new Iso2709Codec()
@@ -0,0 +1,65 @@
+/**
+ * Leitura incremental de um objeto JSON recebido aos bocados (ex: resposta da OpenAI em streaming).
+ *
+ * Devolve cada propriedade do primeiro nível assim que o seu valor termina, para se poder mostrar
+ * cada campo preenchido antes de a resposta estar completa. Texto antes do objeto (ex: "```json")
+ * é ignorado; entradas que não sejam JSON válido são ignoradas aqui e tratadas no parse final.
+ */
+export class JsonObjectStreamParser {
+    private buffer = ""
+    private position = 0
+    private depth = 0
+    private inString = false
+    private escaped = false
+    private entryStart = 0
+
+    /**
+     * Acrescenta um bocado de texto e devolve as propriedades [chave, valor] que ficaram completas
+     */
+    push(chunk: string): Array<[string, unknown]> {
+        this.buffer += chunk
+        const entries: Array<[string, unknown]> = []
+
+        for (; this.position < this.buffer.length; this.position++) {
+            const char = this.buffer[this.position]
+
+            if (this.inString) {
+                if (this.escaped) this.escaped = false
+                else if (char === "\\") this.escaped = true
+                else if (char === '"') this.inString = false
+                continue
+            }
+
+            // Antes do objeto (ou depois de fechado) só interessa o início de um objeto
+            if (this.depth === 0 && char !== "{") continue
+
+            if (char === '"') {
+                this.inString = true
+            } else if (char === "{" || char === "[") {
+                this.depth++
+                if (this.depth === 1) this.entryStart = this.position + 1
+            } else if (char === "}" || char === "]") {
+                if (this.depth === 1) entries.push(...this.readEntry(this.position))
+                this.depth--
+            } else if (char === "," && this.depth === 1) {
+                entries.push(...this.readEntry(this.position))
+                this.entryStart = this.position + 1
+            }
+        }
+
+        return entries
+    }
+
+    /**
+     * Lê a propriedade entre entryStart e end (ex: '"200": {"a": "Título"}')
+     */
+    private readEntry(end: number): Array<[string, unknown]> {
+        const text = this.buffer.slice(this.entryStart, end).trim()
+        if (!text) return []
+        try {
+            return Object.entries(JSON.parse(`{${text}}`) as Record<string, unknown>)
+        } catch {
+            return []
+        }
+    }
+}
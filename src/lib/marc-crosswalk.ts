@@ -0,0 +1,242 @@
+import { DEFAULT_LEADER, type ExportableRecord } from "./iso2709"
+import type { FieldOccurrence, ImportedRecord } from "./unimarc-serializer"
+
+/**
+ * Correspondência entre um campo MARC21 e um campo UNIMARC.
+ *
+ * - subfields: código MARC21 -> código UNIMARC (subcampos sem correspondência são reportados)
+ * - direction: "both" (omissão) aplica-se nos dois sentidos; "toUnimarc" só na importação
+ *   (ex: 264 e 260 convergem em 210, mas a exportação usa apenas 260)
+ */
+export interface CrosswalkMapping {
+    marc21: string
+    unimarc: string
+    subfields: Record<string, string>
+    direction?: "both" | "toUnimarc" | "toMarc21"
+}
+
+/**
+ * Resultado de uma conversão: registo convertido e o que ficou por mapear
+ */
+export interface CrosswalkResult {
+    record: ImportedRecord
+    unmappedTags: string[]          // Campos inteiros sem correspondência
+    unmappedSubfields: string[]     // Subcampos descartados, no formato "245$h"
+}
+
+// Subcampos de nomes de pessoa (MARC21 100/700 <-> UNIMARC 700/701)
+const PERSONAL_NAME = { a: "a", b: "d", c: "c", d: "f", q: "g", "4": "4" }
+// Subcampos de nomes de coletividade (MARC21 110/710 <-> UNIMARC 710/712)
+const CORPORATE_NAME = { a: "a", b: "b", "4": "4" }
+// Subcampos de assuntos; em UNIMARC $y é geográfico e $z cronológico (o inverso de MARC21)
+const SUBJECT = { a: "a", x: "x", y: "z", z: "y", v: "j", "2": "2" }
+
+/**
+ * Tabela de correspondências dos campos bibliográficos principais.
+ * Para suportar um novo campo basta acrescentar uma entrada (ou usar registerMapping).
+ */
+export const DEFAULT_CROSSWALK: CrosswalkMapping[] = [
+    { marc21: "001", unimarc: "001", subfields: {} },
+    { marc21: "005", unimarc: "005", subfields: {} },
+    { marc21: "020", unimarc: "010", subfields: { a: "a", q: "b", c: "d", z: "z" } },
+    { marc21: "022", unimarc: "011", subfields: { a: "a", y: "y", z: "z" } },
+    { marc21: "041", unimarc: "101", subfields: { a: "a", h: "c" } },
+    { marc21: "044", unimarc: "102", subfields: { a: "a" } },
+    { marc21: "080", unimarc: "675", subfields: { a: "a", "2": "v" } },
+    { marc21: "082", unimarc: "676", subfields: { a: "a", "2": "v" } },
+    { marc21: "100", unimarc: "700", subfields: PERSONAL_NAME },
+    { marc21: "110", unimarc: "710", subfields: CORPORATE_NAME },
+    { marc21: "245", unimarc: "200", subfields: { a: "a", b: "e", c: "f", n: "h", p: "i" } },
+    { marc21: "246", unimarc: "517", subfields: { a: "a", b: "e" } },
+    { marc21: "250", unimarc: "205", subfields: { a: "a", b: "f" } },
+    { marc21: "260", unimarc: "210", subfields: { a: "a", b: "c", c: "d" } },
+    { marc21: "264", unimarc: "210", subfields: { a: "a", b: "c", c: "d" }, direction: "toUnimarc" },
+    { marc21: "300", unimarc: "215", subfields: { a: "a", b: "c", c: "d", e: "e" } },
+    { marc21: "490", unimarc: "225", subfields: { a: "a", v: "v", x: "x" } },
+    { marc21: "500", unimarc: "300", subfields: { a: "a" } },
+    { marc21: "504", unimarc: "320", subfields: { a: "a" } },
+    { marc21: "505", unimarc: "327", subfields: { a: "a" } },
+    { marc21: "520", unimarc: "330", subfields: { a: "a" } },
+    { marc21: "600", unimarc: "600", subfields: { ...PERSONAL_NAME, ...SUBJECT } },
+    { marc21: "610", unimarc: "601", subfields: { ...CORPORATE_NAME, ...SUBJECT } },
+    { marc21: "650", unimarc: "606", subfields: SUBJECT },
+    { marc21: "651", unimarc: "607", subfields: SUBJECT },
+    { marc21: "653", unimarc: "610", subfields: { a: "a" } },
+    { marc21: "700", unimarc: "701", subfields: PERSONAL_NAME },
+    { marc21: "710", unimarc: "712", subfields: CORPORATE_NAME },
+    { marc21: "856", unimarc: "856", subfields: { u: "u", z: "z" } },
+]
+
+/**
+ * Conversão de registos entre MARC21 e UNIMARC com base numa tabela de correspondências.
+ * Campos e subcampos sem correspondência são descartados e reportados no resultado.
+ * Os indicadores têm significados diferentes nos dois formatos, por isso ficam em branco.
+ */
+export class MarcCrosswalk {
+    private mappings: CrosswalkMapping[]
+
+    constructor(mappings: CrosswalkMapping[] = DEFAULT_CROSSWALK) {
+        this.mappings = [...mappings]
+    }
+
+    /**
+     * Acrescenta (ou substitui, para o mesmo par de tags e sentido) uma correspondência
+     */
+    registerMapping(mapping: CrosswalkMapping): void {
+        this.mappings = this.mappings.filter(
+            (m) => !(m.marc21 === mapping.marc21 && m.unimarc === mapping.unimarc && m.direction === mapping.direction),
+        )
+        this.mappings.push(mapping)
+    }
+
+    getMappings(): CrosswalkMapping[] {
+        return [...this.mappings]
+    }
+
+    /**
+     * Converte um registo MARC21 em UNIMARC
+     */
+    marc21ToUnimarc(record: ImportedRecord): CrosswalkResult {
+        const index = this.buildIndex("toUnimarc")
+        const result = this.convertFields(record.fields, (tag) => {
+            const mapping = index.get(tag)
+            return mapping ? { tag: mapping.unimarc, subfields: mapping.subfields } : undefined
+        })
+
+        return { ...result, record: { leader: this.convertLeader(record.leader, " ", " "), fields: result.record.fields } }
+    }
+
+    /**
+     * Converte um registo UNIMARC em MARC21
+     */
+    unimarcToMarc21(record: ImportedRecord): CrosswalkResult {
+        const index = this.buildIndex("toMarc21")
+        const result = this.convertFields(record.fields, (tag) => {
+            const mapping = index.get(tag)
+            if (!mapping) return undefined
+            // Inverte a correspondência de subcampos (código UNIMARC -> código MARC21)
+            const subfields = Object.fromEntries(Object.entries(mapping.subfields).map(([marc, uni]) => [uni, marc]))
+            return { tag: mapping.marc21, subfields }
+        })
+
+        return { ...result, record: { leader: this.convertLeader(record.leader, "a", "0"), fields: result.record.fields } }
+    }
+
+    /**
+     * Converte um registo gravado (tal como é exportado) em MARC21, pronto para os codificadores
+     */
+    exportAsMarc21(record: ExportableRecord): ExportableRecord & { unmappedTags: string[] } {
+        const occurrences = record.fields.flatMap((field): FieldOccurrence[] => {
+            if (field.fieldType === "CONTROL") {
+                return [{ tag: field.tag, fieldType: "CONTROL", value: field.value, subfields: null }]
+            }
+
+            const stored = field.subfields
+            if (!stored || typeof stored !== "object" || Array.isArray(stored)) {
+                return field.value ? [{ tag: field.tag, fieldType: "DATA", value: null, subfields: { a: field.value } }] : []
+            }
+
+            // Registos antigos gravados com { occurrences: [...] } têm uma ocorrência por elemento
+            const occurrenceList = (stored as Record<string, unknown>).occurrences
+            const sets = Array.isArray(occurrenceList) ? occurrenceList : [stored]
+            return sets.map((set) => ({
+                tag: field.tag,
+                fieldType: "DATA",
+                value: null,
+                subfields: (set ?? {}) as Record<string, string | string[]>,
+            }))
+        })
+
+        const { record: converted, unmappedTags } = this.unimarcToMarc21({ leader: record.leader ?? null, fields: occurrences })
+
+        return {
+            leader: converted.leader,
+            fields: converted.fields.map((f) => ({ tag: f.tag, value: f.value, subfields: f.subfields, fieldType: f.fieldType })),
+            unmappedTags,
+        }
+    }
+
+    /**
+     * Aplica a correspondência a cada campo, juntando subcampos que convergem no mesmo código
+     */
+    private convertFields(
+        fields: FieldOccurrence[],
+        resolve: (tag: string) => { tag: string; subfields: Record<string, string> } | undefined,
+    ): CrosswalkResult {
+        const converted: FieldOccurrence[] = []
+        const unmappedTags = new Set<string>()
+        const unmappedSubfields = new Set<string>()
+
+        for (const field of fields) {
+            const target = resolve(field.tag)
+            if (!target) {
+                unmappedTags.add(field.tag)
+                continue
+            }
+
+            if (field.fieldType === "CONTROL") {
+                converted.push({ tag: target.tag, fieldType: "CONTROL", value: field.value, subfields: null })
+                continue
+            }
+
+            const subfields: Record<string, string | string[]> = {}
+            for (const [code, value] of Object.entries(field.subfields ?? {})) {
+                const targetCode = target.subfields[code]
+                if (!targetCode) {
+                    unmappedSubfields.add(`${field.tag}$${code}`)
+                    continue
+                }
+
+                const values = Array.isArray(value) ? value : [value]
+                const existing = subfields[targetCode]
+                const merged = existing === undefined ? values : [...(Array.isArray(existing) ? existing : [existing]), ...values]
+                subfields[targetCode] = merged.length === 1 ? merged[0] : merged
+            }
+
+            if (Object.keys(subfields).length > 0) {
+                converted.push({ tag: target.tag, fieldType: "DATA", value: null, subfields })
+            }
+        }
+
+        return {
+            record: { leader: null, fields: converted },
+            unmappedTags: [...unmappedTags].sort(),
+            unmappedSubfields: [...unmappedSubfields].sort(),
+        }
+    }
+
+    /**
+     * Índice tag de origem -> correspondência, para o sentido pedido.
+     * Em caso de tags repetidas vence a primeira entrada da tabela.
+     */
+    private buildIndex(direction: "toUnimarc" | "toMarc21"): Map<string, CrosswalkMapping> {
+        const index = new Map<string, CrosswalkMapping>()
+        for (const mapping of this.mappings) {
+            const applies = !mapping.direction || mapping.direction === "both" || mapping.direction === direction
+            if (!applies) continue
+            const key = direction === "toUnimarc" ? mapping.marc21 : mapping.unimarc
+            if (!index.has(key)) index.set(key, mapping)
+        }
+        return index
+    }
+
+    /**
+     * Mantém estado, tipo de registo e nível bibliográfico (posições 5-7); as restantes
+     * posições seguem a etiqueta por omissão, com as posições 9 e 23 próprias de cada formato.
+     * Em MARC21 a posição 9 é "a" (Unicode): os codificadores escrevem sempre UTF-8, e em branco
+     * os leitores MARC21 assumiriam MARC-8.
+     */
+    private convertLeader(leader: string | null, position9: string, position23: string): string {
+        const source = leader && leader.length === 24 ? leader : DEFAULT_LEADER
+        return (
+            DEFAULT_LEADER.slice(0, 5) +
+            source.slice(5, 8) +
+            DEFAULT_LEADER.slice(8, 9) +
+            position9 +
+            DEFAULT_LEADER.slice(10, 23) +
+            position23
+        )
+    }
+}
+
+export const marcCrosswalk = new MarcCrosswalk()
@@ -0,0 +1,190 @@
+import { DEFAULT_LEADER, type ExportableRecord } from "./iso2709"
+import type { FieldOccurrence, ImportedRecord } from "./unimarc-serializer"
+
+// Namespace MARCXML (slim), também usado para intercâmbio de registos UNIMARC
+const MARCXML_NAMESPACE = "http://www.loc.gov/MARC21/slim"
+
+/**
+ * Serializador e parser de registos em XML no estilo MARCXML:
+ *
+ * <record>
+ *   <leader>...</leader>
+ *   <controlfield tag="001">...</controlfield>
+ *   <datafield tag="200" ind1=" " ind2=" "><subfield code="a">...</subfield></datafield>
+ * </record>
+ *
+ * O parser aceita elementos com ou sem prefixo de namespace (ex: <marc:record>).
+ */
+export class MarcXmlCodec {
+    /**
+     * Serializa um único registo como elemento <record>
+     */
+    encodeRecord(record: ExportableRecord, indent = ""): string {
+        const lines: string[] = [`${indent}<record>`]
+        const inner = indent + "  "
+
+        lines.push(`${inner}<leader>${this.escape(record.leader || DEFAULT_LEADER)}</leader>`)
+
+        const fields = [...record.fields].sort((a, b) => Number.parseInt(a.tag) - Number.parseInt(b.tag))
+        for (const field of fields) {
+            if (field.fieldType === "CONTROL") {
+                lines.push(`${inner}<controlfield tag="${this.escape(field.tag)}">${this.escape(field.value ?? "")}</controlfield>`)
+                continue
+            }
+
+            const ind1 = this.escape(field.ind1 || " ")
+            const ind2 = this.escape(field.ind2 || " ")
+            for (const subfieldSet of this.subfieldSets(field.subfields, field.value)) {
+                lines.push(`${inner}<datafield tag="${this.escape(field.tag)}" ind1="${ind1}" ind2="${ind2}">`)
+                for (const [code, value] of subfieldSet) {
+                    lines.push(`${inner}  <subfield code="${this.escape(code)}">${this.escape(value)}</subfield>`)
+                }
+                lines.push(`${inner}</datafield>`)
+            }
+        }
+
+        lines.push(`${indent}</record>`)
+        return lines.join("\n")
+    }
+
+    /**
+     * Serializa vários registos num documento <collection> completo
+     */
+    encodeCollection(records: ExportableRecord[]): string {
+        return [
+            `<?xml version="1.0" encoding="UTF-8"?>`,
+            `<collection xmlns="${MARCXML_NAMESPACE}">`,
+            ...records.map((record) => this.encodeRecord(record, "  ")),
+            `</collection>`,
+        ].join("\n")
+    }
+
+    /**
+     * Lê um documento XML (<collection> ou <record> isolado) e devolve os registos encontrados
+     * @throws Error se o documento não contiver nenhum registo válido
+     */
+    parseCollection(xml: string): ImportedRecord[] {
+        // Remove declaração XML e comentários para simplificar a leitura
+        const cleaned = xml.replace(/<\?xml[\s\S]*?\?>/g, "").replace(/<!--[\s\S]*?-->/g, "")
+
+        const records: ImportedRecord[] = []
+        const recordPattern = /<(?:[\w-]+:)?record\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?record>/g
+
+        for (const match of cleaned.matchAll(recordPattern)) {
+            records.push(this.parseRecord(match[1]))
+        }
+
+        if (records.length === 0) {
+            throw new Error("XML inválido: nenhum elemento <record> encontrado")
+        }
+
+        return records
+    }
+
+    /**
+     * Lê o conteúdo de um elemento <record>
+     */
+    private parseRecord(content: string): ImportedRecord {
+        const leaderMatch = content.match(/<(?:[\w-]+:)?leader\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?leader>/)
+        const fields: FieldOccurrence[] = []
+
+        // Percorre campos de controlo e de dados pela ordem em que aparecem no documento
+        const fieldPattern =
+            /<(?:[\w-]+:)?(controlfield|datafield)\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?(?:controlfield|datafield)>/g
+
+        for (const match of content.matchAll(fieldPattern)) {
+            const [, element, rawAttributes, inner] = match
+            const attributes = this.parseAttributes(rawAttributes)
+            const tag = attributes.tag
+
+            if (!tag) {
+                throw new Error(`XML inválido: elemento <${element}> sem atributo "tag"`)
+            }
+
+            if (element === "controlfield") {
+                fields.push({ tag, fieldType: "CONTROL", value: this.unescape(inner), subfields: null })
+                continue
+            }
+
+            const subfields: Record<string, string | string[]> = {}
+            const subfieldPattern = /<(?:[\w-]+:)?subfield\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?subfield>/g
+
+            for (const subMatch of inner.matchAll(subfieldPattern)) {
+                const code = this.parseAttributes(subMatch[1]).code
+                if (!code) {
+                    throw new Error(`XML inválido: subcampo sem atributo "code" no campo ${tag}`)
+                }
+
+                const value = this.unescape(subMatch[2])
+                const existing = subfields[code]
+                // Códigos repetidos dentro do mesmo campo tornam-se arrays
+                if (existing === undefined) subfields[code] = value
+                else subfields[code] = Array.isArray(existing) ? [...existing, value] : [existing, value]
+            }
+
+            fields.push({
+                tag,
+                fieldType: "DATA",
+                value: null,
+                subfields,
+                ind1: attributes.ind1 || " ",
+                ind2: attributes.ind2 || " ",
+            })
+        }
+
+        return { leader: leaderMatch ? this.unescape(leaderMatch[1]) : null, fields }
+    }
+
+    /**
+     * Converte os subcampos guardados em listas de pares [código, valor], uma lista por ocorrência.
+     * Registos antigos gravados com { occurrences: [...] } geram um <datafield> por ocorrência.
+     */
+    private subfieldSets(subfields: unknown, value: string | null): Array<Array<[string, string]>> {
+        if (!subfields || typeof subfields !== "object" || Array.isArray(subfields)) {
+            return value ? [[["a", value]]] : []
+        }
+
+        const occurrences = (subfields as Record<string, unknown>).occurrences
+        const sets = Array.isArray(occurrences) ? occurrences : [subfields]
+
+        return sets
+            .map((set) =>
+                Object.entries((set ?? {}) as Record<string, unknown>)
+                    .flatMap(([code, v]) => (Array.isArray(v) ? v : [v]).map((item) => [code, item] as const))
+                    .filter(([, v]) => v !== null && v !== undefined && String(v).trim() !== "")
+                    .map(([code, v]) => [code, String(v)] as [string, string]),
+            )
+            .filter((set) => set.length > 0)
+    }
+
+    private parseAttributes(raw: string): Record<string, string> {
+        const attributes: Record<string, string> = {}
+        for (const match of raw.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+            attributes[match[1]] = this.unescape(match[2] ?? match[3] ?? "")
+        }
+        return attributes
+    }
+
+    private escape(value: string): string {
+        return value
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&apos;")
+    }
+
+    private unescape(value: string): string {
+        return value
+            .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+            .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(Number.parseInt(hex, 16)))
+            .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number.parseInt(dec, 10)))
+            .replace(/&lt;/g, "<")
+            .replace(/&gt;/g, ">")
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'")
+            .replace(/&amp;/g, "&")
+    }
+}
+
+export const marcXmlCodec = new MarcXmlCodec()
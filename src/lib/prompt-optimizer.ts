@@ -1,4 +1,8 @@
-import type { Template, ConversationStep } from "../app/types/unimarc"
+import type { Template, PromptStep } from "../app/types/unimarc"
+import { indicatorService } from "./indicators"
+import { codedValueService } from "./coded-values"
+import { subfieldRuleService } from "./subfield-rules"
+import { CONFIDENCE_KEY } from "./field-confidence"
 
 /**
  * Interface que define a estrutura de um prompt otimizado para chamadas à API da OpenAI
@@ -44,7 +48,7 @@ export class PromptOptimizer {
      *         - Campo não existe no template especificado
      */
     buildPrompt(
-        step: ConversationStep,
+        step: PromptStep,
         description: string,
         options: {
             templates?: Template[]
@@ -108,7 +112,7 @@ export class PromptOptimizer {
      * Constrói um prompt para tentar preencher TODOS os campos/subcampos de uma só vez
      * 
      * - Usa GPT-4 para extrair o máximo possível de informações
-     * - Retorna APENAS JSON no formato { "200": { "a": "...", "b": "..." }, "101": { "a": "..."} }
+     * - Retorna APENAS JSON no formato { "200": { "ind1": "1", "a": "...", "b": "..." }, "101": { "a": "..."} }
      * - Campos não inferidos devem ser omitidos ou retornados com string vazia
      */
     private buildBulkFieldFillingPrompt(
@@ -131,6 +135,8 @@ export class PromptOptimizer {
         5. Seja conservador - só inclua valores que tem a certeza
         6. Para campos de controle como 001, 005, 008, gere valores apropriados
         7. NÃO inclua texto explicativo, apenas o JSON
+        8. Para campos de dados com indicadores definidos, proponha-os com as chaves "ind1"/"ind2" (ex: "200": {"ind1": "1", "a": "Título"}); use "#" para indicador em branco
+        9. Indique a sua confiança (0 a 1) em cada valor na chave "${CONFIDENCE_KEY}", no fim do JSON, por campo de controle ou por subcampo (ex: "${CONFIDENCE_KEY}": {"001": 0.95, "200$a": 0.9, "200$f": 0.6}); valores deduzidos ou adivinhados têm confiança baixa
         
         ESTRUTURA DO TEMPLATE:
         ${templateStructure}`
@@ -171,11 +177,23 @@ export class PromptOptimizer {
             const fieldName = translation?.name || field.tag
             structure += `- ${field.tag}: ${fieldName}\n`
 
+            // Indicadores com nome definido (ex: "ind1: Significado do título")
+            indicatorService.getDefinedIndicators(field, language).forEach((indicator) => {
+                const tips = indicator.tips.length > 0 ? ` (${indicator.tips.join("; ")})` : ""
+                structure += `  - ${indicator.key}: ${indicator.name}${tips}\n`
+            })
+
             if (field.subFieldDef && field.subFieldDef.length > 0) {
                 field.subFieldDef.forEach((subfield) => {
                     const subTranslation = subfield.translations?.find((t) => t.language === language)
                     const subName = subTranslation?.label || subfield.code
-                    structure += `  - $${subfield.code}: ${subName}\n`
+                    // Subcampos codificados (101, 102): indica a lista e alguns códigos válidos
+                    const codes = codedValueService.suggest(field.tag, subfield.code, language, 5).map((c) => c.code)
+                    const codeHint = codes.length > 0 ? ` (código, ex: ${codes.join(", ")})` : ""
+                    // Subcampos com regras de formato (datas, extensão...): valores fora do formato são descartados
+                    const format = subfieldRuleService.describe(field.tag, subfield.code, language)
+                    const formatHint = format ? ` (formato: ${format})` : ""
+                    structure += `  - $${subfield.code}: ${subName}${codeHint}${formatHint}\n`
                 })
             }
         })
@@ -0,0 +1,163 @@
+import type { MarcSchema, Template } from "../app/types/unimarc"
+import { databaseService } from "./database"
+import { fieldProvenanceService } from "./field-provenance"
+import { isbdPunctuation } from "./isbd-punctuation"
+import { iso2709Codec } from "./iso2709"
+import { marcCrosswalk } from "./marc-crosswalk"
+import { recordLeaderService } from "./record-leader"
+import { unimarcSerializer, type ImportedRecord } from "./unimarc-serializer"
+
+/**
+ * Relatório devolvido no fim de uma importação em lote
+ */
+export interface ImportReport {
+    total: number
+    created: Array<{ index: number; recordId: string; title: string | null }>
+    duplicates: Array<{ index: number; existingRecordId: string; title: string | null }>
+    failed: Array<{ index: number; error: string }>
+    unmappedFields: Array<{ index: number; tags: string[] }>    // Tags que não existem no template, por registo
+    unmappedMarc21: Array<{ index: number; tags: string[] }>    // Tags/subcampos MARC21 sem correspondência UNIMARC
+}
+
+/**
+ * Pipeline de importação de registos externos para CatalogRecord/CatalogField.
+ *
+ * Para cada registo:
+ * 0. Converte registos MARC21 para UNIMARC (ver MarcCrosswalk)
+ * 1. Mapeia os campos para o template escolhido (campos desconhecidos são reportados e ignorados)
+ * 2. Verifica duplicados com as estratégias do DatabaseService
+ * 3. Grava os registos novos, com textUnimarc gerado pelo serializador e a origem "import" em cada campo
+ *
+ * Uma falha num registo não interrompe os restantes.
+ */
+export class RecordImportService {
+    /**
+     * Importa um ficheiro ISO 2709 (.mrc) com um ou mais registos
+     */
+    async importIso2709(
+        data: Buffer,
+        template: Template,
+        language = "pt",
+        schema: MarcSchema = "unimarc",
+    ): Promise<ImportReport> {
+        const entries = iso2709Codec.splitRecords(data).map((chunk) => {
+            try {
+                return { record: iso2709Codec.decodeRecord(chunk) }
+            } catch (error) {
+                return { error: error instanceof Error ? error.message : "Registo ISO 2709 inválido" }
+            }
+        })
+
+        return this.importRecords(entries, template, language, "ISO 2709", schema)
+    }
+
+    /**
+     * Importa os registos lidos de um documento MARCXML (ver MarcXmlCodec.parseCollection)
+     */
+    async importMarcXml(
+        records: ImportedRecord[],
+        template: Template,
+        language = "pt",
+        schema: MarcSchema = "unimarc",
+    ): Promise<ImportReport> {
+        return this.importRecords(records.map((record) => ({ record })), template, language, "MARCXML", schema)
+    }
+
+    /**
+     * Processa registos já lidos, pela ordem em que aparecem no ficheiro
+     */
+    private async importRecords(
+        entries: Array<{ record?: ImportedRecord; error?: string }>,
+        template: Template,
+        language: string,
+        sourceFormat: string,
+        schema: MarcSchema,
+    ): Promise<ImportReport> {
+        const report: ImportReport = {
+            total: entries.length,
+            created: [],
+            duplicates: [],
+            failed: [],
+            unmappedFields: [],
+            unmappedMarc21: [],
+        }
+
+        for (const [index, entry] of entries.entries()) {
+            if (!entry.record) {
+                report.failed.push({ index, error: entry.error || "Registo inválido" })
+                continue
+            }
+
+            try {
+                let record = entry.record
+                if (schema === "marc21") {
+                    const converted = marcCrosswalk.marc21ToUnimarc(record)
+                    const unmapped = [...converted.unmappedTags, ...converted.unmappedSubfields]
+                    if (unmapped.length > 0) {
+                        report.unmappedMarc21.push({ index, tags: unmapped })
+                    }
+                    record = converted.record
+                }
+
+                const { filledFields, unknownTags } = unimarcSerializer.fromOccurrences(record.fields, template)
+                if (unknownTags.length > 0) {
+                    report.unmappedFields.push({ index, tags: unknownTags })
+                }
+
+                // Todos os valores ficam com a origem "import"
+                const provenance = fieldProvenanceService.forFields(filledFields, { source: "import" })
+                const occurrences = isbdPunctuation.normalizeOccurrences(
+                    unimarcSerializer.toOccurrences(filledFields, template, provenance),
+                )
+                if (occurrences.length === 0) {
+                    report.failed.push({ index, error: "Nenhum campo do registo existe no template" })
+                    continue
+                }
+
+                const fields = unimarcSerializer.toRecordFields(occurrences, language)
+                const title = this.extractTitle(fields)
+
+                // Registos MARC21 já trazem a etiqueta convertida pelo crosswalk
+                const leader = recordLeaderService.normalize(record.leader, recordLeaderService.fromTemplate(template))
+
+                const existingRecordId = await databaseService.findDuplicate(fields, template.name)
+                if (existingRecordId) {
+                    report.duplicates.push({ index, existingRecordId, title })
+                    continue
+                }
+
+                const recordId = await databaseService.saveRecord({
+                    templateId: template.id,
+                    templateName: template.name,
+                    templateDesc: `Registo importado de ${sourceFormat}${schema === "marc21" ? " (MARC21)" : ""} - ${new Date().toLocaleDateString()}`,
+                    filledFields,
+                    template,
+                    textUnimarc: unimarcSerializer.formatText(occurrences, leader),
+                    fields,
+                    leader,
+                })
+                report.created.push({ index, recordId, title })
+            } catch (error) {
+                console.error(`Erro ao importar registo ${index}:`, error)
+                report.failed.push({ index, error: error instanceof Error ? error.message : "Erro desconhecido" })
+            }
+        }
+
+        console.log(
+            `Importação ${sourceFormat} concluída: ${report.created.length} criados, ${report.duplicates.length} duplicados, ${report.failed.length} falhados`,
+        )
+        return report
+    }
+
+    /**
+     * Título (200$a) usado para identificar o registo no relatório
+     */
+    private extractTitle(fields: ReturnType<typeof unimarcSerializer.toRecordFields>): string | null {
+        const subfields = fields.find((f) => f.tag === "200")?.subfields as Record<string, string | string[]> | null
+        const title = subfields?.a
+        if (!title) return null
+        return Array.isArray(title) ? title[0] : title
+    }
+}
+
+export const recordImportService = new RecordImportService()
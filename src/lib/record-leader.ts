@@ -0,0 +1,136 @@
+import type { LeaderPosition, LeaderPositionInfo, Template } from "../app/types/unimarc"
+import { DEFAULT_LEADER } from "./iso2709"
+
+/**
+ * Posições da etiqueta de registo UNIMARC que o catalogador pode alterar.
+ * As restantes (comprimento, endereço base, mapa do diretório) são calculadas na exportação.
+ */
+export const LEADER_POSITIONS: LeaderPosition[] = [
+    {
+        position: 5,
+        name: "Estado do registo",
+        values: {
+            c: "Registo corrigido",
+            d: "Registo eliminado",
+            n: "Registo novo",
+            o: "Registo de nível superior previamente editado",
+            p: "Registo pré-publicação completado",
+        },
+    },
+    {
+        position: 6,
+        name: "Tipo de registo",
+        values: {
+            a: "Texto impresso",
+            b: "Texto manuscrito",
+            c: "Música impressa",
+            d: "Música manuscrita",
+            e: "Cartografia impressa",
+            f: "Cartografia manuscrita",
+            g: "Projeções e vídeo",
+            i: "Gravação sonora não musical",
+            j: "Gravação sonora musical",
+            k: "Gráficos bidimensionais",
+            l: "Recurso eletrónico",
+            m: "Multimédia",
+            r: "Objetos tridimensionais",
+        },
+    },
+    {
+        position: 7,
+        name: "Nível bibliográfico",
+        values: { a: "Analítico (componente)", c: "Coleção", i: "Recurso integrante", m: "Monografia", s: "Publicação em série" },
+    },
+    {
+        position: 8,
+        name: "Nível hierárquico",
+        values: {
+            " ": "Não definido",
+            "0": "Sem relação hierárquica",
+            "1": "Registo de nível superior",
+            "2": "Registo abaixo do nível superior",
+        },
+    },
+    {
+        position: 17,
+        name: "Nível de codificação",
+        values: { " ": "Nível completo", "1": "Subnível 1", "2": "Subnível 2 (pré-publicação)", "3": "Subnível 3" },
+    },
+    {
+        position: 18,
+        name: "Forma de catalogação descritiva",
+        values: { " ": "ISBD completo", i: "ISBD parcial ou incompleto", n: "Não ISBD" },
+    },
+]
+
+/**
+ * Regras de dedução do tipo de registo e do nível bibliográfico a partir do template.
+ * A primeira regra cujo padrão ocorre no nome/descrição do template é aplicada.
+ */
+const TEMPLATE_RULES: Array<{ pattern: RegExp; typeOfRecord: string; bibliographicLevel: string }> = [
+    { pattern: /peri[oó]dic|revista|jornal|serial|magazine/i, typeOfRecord: "a", bibliographicLevel: "s" },
+    { pattern: /\bcd\b|[aá]udio|audio|m[uú]sica|disco|vinil/i, typeOfRecord: "j", bibliographicLevel: "m" },
+    { pattern: /\bdvd\b|v[ií]deo|filme|blu-?ray/i, typeOfRecord: "g", bibliographicLevel: "m" },
+    { pattern: /partitura|score/i, typeOfRecord: "c", bibliographicLevel: "m" },
+    { pattern: /mapa|cartogr/i, typeOfRecord: "e", bibliographicLevel: "m" },
+    { pattern: /manuscrit/i, typeOfRecord: "b", bibliographicLevel: "m" },
+    { pattern: /eletr[oó]nic|electr[oó]nic|e-?book|digital/i, typeOfRecord: "l", bibliographicLevel: "m" },
+]
+
+/**
+ * Geração, validação e edição da etiqueta de registo (leader) de 24 caracteres
+ */
+export class RecordLeaderService {
+    /**
+     * Gera a etiqueta de um registo novo a partir do template (por omissão: texto impresso, monografia)
+     */
+    fromTemplate(template?: Pick<Template, "name" | "description">): string {
+        const text = template ? `${template.name} ${template.description ?? ""}` : ""
+        const rule = TEMPLATE_RULES.find((r) => r.pattern.test(text))
+
+        let leader = DEFAULT_LEADER
+        if (rule) {
+            leader = this.setPosition(leader, 6, rule.typeOfRecord)
+            leader = this.setPosition(leader, 7, rule.bibliographicLevel)
+        }
+        return leader
+    }
+
+    /**
+     * Garante uma etiqueta com 24 caracteres; valores inválidos dão lugar à etiqueta por omissão
+     */
+    normalize(leader: string | null | undefined, fallback: string = DEFAULT_LEADER): string {
+        if (!leader || leader.length !== 24) return fallback
+        return leader
+    }
+
+    /**
+     * Altera uma única posição da etiqueta
+     * @throws Error se a posição não for editável ou o valor não for permitido
+     */
+    setPosition(leader: string, position: number, value: string): string {
+        const definition = LEADER_POSITIONS.find((p) => p.position === position)
+        if (!definition) {
+            throw new Error(`A posição ${position} da etiqueta de registo não é editável`)
+        }
+        if (value.length !== 1 || !(value in definition.values)) {
+            throw new Error(`Valor "${value}" inválido para ${definition.name} (posição ${position})`)
+        }
+
+        const normalized = this.normalize(leader)
+        return normalized.slice(0, position) + value + normalized.slice(position + 1)
+    }
+
+    /**
+     * Descreve as posições editáveis com o valor atual (usado na revisão de campos)
+     */
+    describe(leader: string): LeaderPositionInfo[] {
+        const normalized = this.normalize(leader)
+        return LEADER_POSITIONS.map((definition) => {
+            const value = normalized[definition.position]
+            return { ...definition, value, label: definition.values[value] ?? "Valor desconhecido" }
+        })
+    }
+}
+
+export const recordLeaderService = new RecordLeaderService()
@@ -0,0 +1,182 @@
+import type { DataField, Template, ValidationIssue, ValidationResult } from "../app/types/unimarc"
+import { isValidFieldValue } from "./is-valid-field-value"
+import { indicatorService } from "./indicators"
+import { codedValueService } from "./coded-values"
+import { dialogMessages, type DialogMessages } from "./dialog-messages"
+
+/**
+ * Validação estrutural de um registo (filledFields) contra o seu template.
+ *
+ * Erros (impedem a gravação):
+ * - Campo ou subcampo obrigatório em falta
+ * - Campo não repetível com várias ocorrências (array)
+ * - Subcampo não repetível com vários valores
+ * - Indicador inválido
+ * - Código fora da lista em subcampos codificados (línguas em 101, país em 102)
+ * - Campo de controlo com subcampos
+ *
+ * Avisos:
+ * - Campo que não existe no template
+ * - Subcampo que não está definido em subFieldDef
+ * - Campo de dados preenchido com um valor simples (sem subcampos)
+ *
+ * As mensagens são escritas na língua indicada (a do diálogo de catalogação; português por omissão).
+ */
+export class RecordValidator {
+    validate(filledFields: Record<string, unknown>, template: Template, language = "pt"): ValidationResult {
+        const messages = dialogMessages.get(language).validation
+        const issues: ValidationIssue[] = []
+        const fieldDefs = [...template.controlFields, ...template.dataFields]
+
+        // Campos fora do template
+        for (const tag of Object.keys(filledFields)) {
+            if (!fieldDefs.some((f) => f.tag === tag)) {
+                issues.push({ severity: "warning", tag, message: messages.unknownField(tag) })
+            }
+        }
+
+        for (const fieldDef of fieldDefs) {
+            const { tag } = fieldDef
+            const rawValue = filledFields[tag]
+            const isDataField = "subFieldDef" in fieldDef
+
+            if (!isValidFieldValue(rawValue) || (isDataField && !this.hasValues(rawValue))) {
+                if (fieldDef.mandatory) {
+                    issues.push({ severity: "error", tag, message: messages.mandatoryFieldMissing(tag) })
+                }
+                continue
+            }
+
+            if (Array.isArray(rawValue) && !fieldDef.repeatable) {
+                issues.push({
+                    severity: "error",
+                    tag,
+                    message: messages.fieldNotRepeatable(tag, rawValue.length),
+                })
+            }
+
+            const items = Array.isArray(rawValue) ? rawValue : [rawValue]
+            items.forEach((item, index) => {
+                const occurrence = Array.isArray(rawValue) ? index : undefined
+                if (isDataField) {
+                    this.validateDataOccurrence(item, fieldDef as DataField, occurrence, issues, messages)
+                } else if (typeof item === "object" && item !== null) {
+                    issues.push({
+                        severity: "error",
+                        tag,
+                        occurrence,
+                        message: messages.controlFieldWithSubfields(tag),
+                    })
+                }
+            })
+        }
+
+        return { valid: !issues.some((issue) => issue.severity === "error"), issues }
+    }
+
+    /**
+     * Valida uma ocorrência de campo de dados: indicadores, subcampos obrigatórios,
+     * repetibilidade e códigos definidos
+     */
+    private validateDataOccurrence(
+        item: unknown,
+        fieldDef: DataField,
+        occurrence: number | undefined,
+        issues: ValidationIssue[],
+        messages: DialogMessages["validation"],
+    ): void {
+        const { tag } = fieldDef
+
+        if (typeof item !== "object" || item === null) {
+            if (isValidFieldValue(item)) {
+                issues.push({
+                    severity: "warning",
+                    tag,
+                    occurrence,
+                    message: messages.fieldWithoutSubfields(tag),
+                })
+            }
+            return
+        }
+
+        const values = item as Record<string, unknown>
+
+        for (const key of ["ind1", "ind2"] as const) {
+            if (key in values && indicatorService.normalize(values[key]) === null) {
+                issues.push({
+                    severity: "error",
+                    tag,
+                    occurrence,
+                    message: messages.invalidFieldIndicator(tag, key, String(values[key])),
+                })
+            }
+        }
+
+        const { subfields } = indicatorService.split(values)
+        for (const [code, value] of Object.entries(subfields)) {
+            if (!isValidFieldValue(value)) continue
+
+            const subfieldDef = fieldDef.subFieldDef.find((sf) => sf.code === code)
+            if (!subfieldDef) {
+                issues.push({
+                    severity: "warning",
+                    tag,
+                    subfield: code,
+                    occurrence,
+                    message: messages.undefinedSubfield(code, tag),
+                })
+                continue
+            }
+
+            const validValues = Array.isArray(value) ? value.filter((v) => isValidFieldValue(v)) : [value]
+            if (validValues.length > 1 && !subfieldDef.repeatable) {
+                issues.push({
+                    severity: "error",
+                    tag,
+                    subfield: code,
+                    occurrence,
+                    message: messages.subfieldTooManyValues(code, tag, validValues.length),
+                })
+            }
+
+            const unknownCode = validValues.find((v) => {
+                const check = codedValueService.check(tag, code, v)
+                return check !== null && check.code !== v
+            })
+            if (unknownCode !== undefined) {
+                issues.push({
+                    severity: "error",
+                    tag,
+                    subfield: code,
+                    occurrence,
+                    message: messages.invalidCode(String(unknownCode), code, tag),
+                })
+            }
+        }
+
+        for (const subfieldDef of fieldDef.subFieldDef) {
+            if (subfieldDef.mandatory && !isValidFieldValue(subfields[subfieldDef.code])) {
+                issues.push({
+                    severity: "error",
+                    tag,
+                    subfield: subfieldDef.code,
+                    occurrence,
+                    message: messages.mandatorySubfieldMissing(subfieldDef.code, tag),
+                })
+            }
+        }
+    }
+
+    /**
+     * Indica se o valor de um campo de dados tem algum conteúdo para além dos indicadores
+     */
+    private hasValues(rawValue: unknown): boolean {
+        const items = Array.isArray(rawValue) ? rawValue : [rawValue]
+        return items.some((item) => {
+            if (typeof item !== "object" || item === null) return isValidFieldValue(item)
+            return isValidFieldValue(indicatorService.split(item as Record<string, unknown>).subfields)
+        })
+    }
+}
+
+export const recordValidator = new RecordValidator()
@@ -0,0 +1,197 @@
+import { dialogMessages } from "./dialog-messages"
+import { normalizeFilledFields, type RejectedFieldValue } from "./filled-fields"
+
+export type StandardNumberType = "ISBN" | "ISSN"
+
+/**
+ * Campos/subcampos UNIMARC que guardam números normalizados (010$a = ISBN, 011$a = ISSN)
+ */
+export const STANDARD_NUMBER_FIELDS: Record<string, { subfield: string; type: StandardNumberType }> = {
+    "010": { subfield: "a", type: "ISBN" },
+    "011": { subfield: "a", type: "ISSN" },
+}
+
+/**
+ * Resultado da verificação de um número normalizado:
+ * - normalized: forma compacta usada em comparações (ISBN sempre convertido para ISBN-13)
+ * - display: forma a gravar no registo (mantém a hifenização indicada pelo catalogador)
+ */
+export interface StandardNumberCheck {
+    type: StandardNumberType
+    valid: boolean
+    normalized: string | null
+    display: string | null
+    error?: string
+}
+
+/**
+ * Validação e normalização de ISBN-10/13 e ISSN (dígitos de controlo incluídos)
+ */
+export class StandardNumberService {
+    /**
+     * Valida um ISBN-10 ou ISBN-13. Aceita hífenes, espaços e o prefixo "ISBN".
+     */
+    isbn(value: string, language = "pt"): StandardNumberCheck {
+        const messages = dialogMessages.get(language).validation
+        const { compact, separated } = this.clean(value, "ISBN")
+        const invalid = (error: string): StandardNumberCheck => ({
+            type: "ISBN",
+            valid: false,
+            normalized: null,
+            display: null,
+            error,
+        })
+
+        if (/^\d{9}[\dX]$/.test(compact)) {
+            const expected = this.isbn10CheckDigit(compact.slice(0, 9))
+            if (compact[9] !== expected) {
+                return invalid(messages.isbnCheckDigit(value.trim(), expected))
+            }
+            return this.valid("ISBN", this.isbn10To13(compact), separated ?? compact)
+        }
+
+        if (/^\d{13}$/.test(compact)) {
+            if (!/^97[89]/.test(compact)) return invalid(messages.isbn13Prefix(value.trim()))
+            const expected = this.ean13CheckDigit(compact.slice(0, 12))
+            if (compact[12] !== expected) {
+                return invalid(messages.isbnCheckDigit(value.trim(), expected))
+            }
+            return this.valid("ISBN", compact, separated ?? compact)
+        }
+
+        return invalid(messages.isbnLength(value.trim()))
+    }
+
+    /**
+     * Valida um ISSN. Aceita "1234-5679", "12345679" e o prefixo "ISSN"; a forma gravada é sempre NNNN-NNNN.
+     */
+    issn(value: string, language = "pt"): StandardNumberCheck {
+        const messages = dialogMessages.get(language).validation
+        const { compact } = this.clean(value, "ISSN")
+
+        if (!/^\d{7}[\dX]$/.test(compact)) {
+            return {
+                type: "ISSN",
+                valid: false,
+                normalized: null,
+                display: null,
+                error: messages.issnLength(value.trim()),
+            }
+        }
+
+        const sum = compact
+            .slice(0, 7)
+            .split("")
+            .reduce((acc, digit, i) => acc + Number(digit) * (8 - i), 0)
+        const remainder = (11 - (sum % 11)) % 11
+        const expected = remainder === 10 ? "X" : String(remainder)
+        if (compact[7] !== expected) {
+            return {
+                type: "ISSN",
+                valid: false,
+                normalized: null,
+                display: null,
+                error: messages.issnCheckDigit(value.trim(), expected),
+            }
+        }
+
+        return this.valid("ISSN", compact, `${compact.slice(0, 4)}-${compact.slice(4)}`)
+    }
+
+    /**
+     * Tipo de número normalizado guardado num campo/subcampo, ou null se não for um deles
+     */
+    typeFor(tag: string, subfield?: string): StandardNumberType | null {
+        const definition = STANDARD_NUMBER_FIELDS[tag]
+        return definition && definition.subfield === subfield ? definition.type : null
+    }
+
+    /**
+     * Verifica o valor de um campo/subcampo; null quando o destino não guarda números normalizados.
+     * Num subcampo repetido (array) devolve a verificação do primeiro elemento inválido (ou do primeiro,
+     * se todos forem válidos; normalizeFields normaliza cada um); outros valores que não sejam texto são inválidos.
+     */
+    check(tag: string, subfield: string | undefined, value: unknown, language = "pt"): StandardNumberCheck | null {
+        const type = this.typeFor(tag, subfield)
+        if (!type) return null
+
+        if (Array.isArray(value)) {
+            const checks = value.map((item) => this.check(tag, subfield, item, language)!)
+            return checks.find((check) => !check.valid) ?? checks[0] ?? this.notText(type, value, language)
+        }
+        if (typeof value !== "string") return this.notText(type, value, language)
+        return type === "ISBN" ? this.isbn(value, language) : this.issn(value, language)
+    }
+
+    /**
+     * Chave de comparação para detetar duplicados (ISBN-13 ou ISSN compactos).
+     * Devolve null quando o destino não é um número normalizado ou o valor é inválido.
+     */
+    comparisonKey(tag: string, subfield: string | undefined, value: unknown): string | null {
+        return this.check(tag, subfield, value)?.normalized ?? null
+    }
+
+    /**
+     * Normaliza 010$a/011$a em filledFields (ex: resultado do preenchimento automático):
+     * valores válidos passam à forma de apresentação e valores inválidos são retirados
+     */
+    normalizeFields(filledFields: Record<string, unknown>): {
+        filledFields: Record<string, unknown>
+        rejected: RejectedFieldValue[]
+    } {
+        return normalizeFilledFields(filledFields, (tag, subfield, value) => {
+            const check = this.check(tag, subfield, value)
+            if (!check) return null
+            return check.valid ? { value: check.display } : { error: check.error! }
+        })
+    }
+
+    /**
+     * Retira o prefixo e os separadores. Quando o valor tinha separadores, devolve também
+     * a forma hifenizada (separadores uniformizados) para apresentação.
+     */
+    private clean(value: string, prefix: StandardNumberType): { compact: string; separated: string | null } {
+        const withoutPrefix = value
+            .trim()
+            .replace(new RegExp(`^${prefix}(-1[03])?:?\\s*`, "i"), "")
+            .toUpperCase()
+        const compact = withoutPrefix.replace(/[\s-]/g, "")
+        const separated = /[\s-]/.test(withoutPrefix) ? withoutPrefix.replace(/[\s-]+/g, "-") : null
+        return { compact, separated }
+    }
+
+    private notText(type: StandardNumberType, value: unknown, language: string): StandardNumberCheck {
+        return {
+            type,
+            valid: false,
+            normalized: null,
+            display: null,
+            error: dialogMessages.get(language).validation.numberNotText(JSON.stringify(value), type),
+        }
+    }
+
+    private valid(type: StandardNumberType, normalized: string, display: string): StandardNumberCheck {
+        return { type, valid: true, normalized, display }
+    }
+
+    private isbn10CheckDigit(first9: string): string {
+        const sum = first9.split("").reduce((acc, digit, i) => acc + Number(digit) * (10 - i), 0)
+        const remainder = (11 - (sum % 11)) % 11
+        return remainder === 10 ? "X" : String(remainder)
+    }
+
+    private ean13CheckDigit(first12: string): string {
+        const sum = first12.split("").reduce((acc, digit, i) => acc + Number(digit) * (i % 2 === 0 ? 1 : 3), 0)
+        return String((10 - (sum % 10)) % 10)
+    }
+
+    /**
+     * Converte um ISBN-10 (compacto) para ISBN-13 com o prefixo 978
+     */
+    private isbn10To13(isbn10: string): string {
+        const first12 = `978${isbn10.slice(0, 9)}`
+        return first12 + this.ean13CheckDigit(first12)
+    }
+}
+
+export const standardNumberService = new StandardNumberService()
@@ -0,0 +1,140 @@
+import type { DataField, DialogMode, SubfieldFormEntry } from "../app/types/unimarc"
+import { codedValueService } from "./coded-values"
+import { dialogMessages } from "./dialog-messages"
+import { fieldPriority } from "./field-priority"
+import { BLANK_INDICATOR, indicatorService } from "./indicators"
+import { isValidFieldValue } from "./is-valid-field-value"
+import { standardNumberService } from "./standard-numbers"
+import { subfieldRuleService } from "./subfield-rules"
+
+/**
+ * Respostas a uma pergunta agrupada: código -> valor (vários valores nos subcampos repetíveis)
+ */
+export type SubfieldAnswers = Record<string, string | string[]>
+
+/**
+ * Resultado da verificação das respostas a uma pergunta agrupada
+ */
+export interface SubfieldFormCheck {
+    valid: boolean
+    subfields: Record<string, string | string[]> // Valores normalizados; respostas em branco ficam de fora
+    errors: Record<string, string> // Código -> motivo da rejeição
+}
+
+/**
+ * Perguntas agrupadas: todos os indicadores e subcampos de uma ocorrência num só formulário.
+ *
+ * As respostas passam pelas mesmas verificações das perguntas de um só subcampo (números normalizados,
+ * valores codificados e regras dos subcampos). Os subcampos repetíveis aceitam vários valores de uma vez,
+ * que é o equivalente a responder "sim" à repetição do subcampo.
+ */
+export class SubfieldFormService {
+    /**
+     * Códigos perguntados no formulário, a partir de "from" (ex: depois de desfazer uma resposta a meio)
+     */
+    getCodes(field: DataField, mode: DialogMode = "all", language = "pt", from?: string): string[] {
+        const codes = [
+            ...fieldPriority.getIndicatorsToAsk(field, mode, language),
+            ...fieldPriority.getSubfieldsToAsk(field, mode),
+        ]
+        const start = from ? codes.indexOf(from) : -1
+        return start > 0 ? codes.slice(start) : codes
+    }
+
+    /**
+     * Entradas do formulário, com nomes e dicas das traduções dos subcampos e indicadores
+     */
+    buildEntries(field: DataField, codes: string[], language = "pt"): SubfieldFormEntry[] {
+        const indicators = indicatorService.getDefinedIndicators(field, language)
+
+        return codes.flatMap((code): SubfieldFormEntry[] => {
+            const indicator = indicators.find((i) => i.key === code)
+            if (indicator) {
+                return [{ code, name: indicator.name, mandatory: false, repeatable: false, tips: indicator.tips }]
+            }
+
+            const subfieldDef = field.subFieldDef.find((sf) => sf.code === code)
+            if (!subfieldDef) return []
+
+            const translation = subfieldDef.translations?.find((t) => t.language === language)
+            const suggestedCodes = codedValueService.suggest(field.tag, code, language)
+            return [
+                {
+                    code,
+                    name: translation?.label || code,
+                    mandatory: subfieldDef.mandatory,
+                    repeatable: subfieldDef.repeatable,
+                    tips: translation?.tips ?? [],
+                    format: subfieldRuleService.describe(field.tag, code, language) ?? undefined,
+                    ...(suggestedCodes.length > 0 ? { suggestedCodes } : {}),
+                },
+            ]
+        })
+    }
+
+    /**
+     * Verifica e normaliza as respostas aos códigos do formulário
+     */
+    check(field: DataField, codes: string[], answers: SubfieldAnswers, language = "pt"): SubfieldFormCheck {
+        const subfields: Record<string, string | string[]> = {}
+        const errors: Record<string, string> = {}
+
+        const messages = dialogMessages.get(language).validation
+
+        for (const code of Object.keys(answers)) {
+            if (!codes.includes(code)) errors[code] = messages.subfieldNotAsked(code)
+        }
+
+        for (const code of codes) {
+            const answer = answers[code]
+            if (answer === undefined || answer === null) continue
+
+            const values = (Array.isArray(answer) ? answer : [answer])
+                .map((value) => String(value).trim())
+                .filter((value) => isValidFieldValue(value))
+
+            if (indicatorService.isIndicatorKey(code)) {
+                const indicator = indicatorService.normalize(values[0] ?? "")
+                if (values.length > 1 || indicator === null) {
+                    errors[code] = messages.invalidIndicator(values.join(", "))
+                } else if (indicator !== BLANK_INDICATOR) {
+                    subfields[code] = indicator
+                }
+                continue
+            }
+
+            if (values.length === 0) continue
+            const subfieldDef = field.subFieldDef.find((sf) => sf.code === code)
+            if (values.length > 1 && !subfieldDef?.repeatable) {
+                errors[code] = messages.subfieldNotRepeatable(code)
+                continue
+            }
+
+            const error = values
+                .map(
+                    (value) =>
+                        standardNumberService.check(field.tag, code, value, language)?.error ??
+                        codedValueService.check(field.tag, code, value, language)?.error ??
+                        subfieldRuleService.check(field.tag, code, value, language)?.error,
+                )
+                .find(Boolean)
+            if (error) {
+                errors[code] = error
+                continue
+            }
+
+            // Números normalizados na forma de apresentação e valores codificados como código
+            const normalized = values.map(
+                (value) =>
+                    standardNumberService.check(field.tag, code, value)?.display ??
+                    codedValueService.check(field.tag, code, value, language)?.code ??
+                    value,
+            )
+            subfields[code] = subfieldDef?.repeatable ? normalized : normalized[0]
+        }
+
+        return { valid: Object.keys(errors).length === 0, subfields, errors }
+    }
+}
+
+export const subfieldForm = new SubfieldFormService()
@@ -0,0 +1,270 @@
+import { dialogMessages, type DialogLanguage, type DialogMessages } from "./dialog-messages"
+import { describeValue, normalizeFilledFields, type RejectedFieldValue } from "./filled-fields"
+
+/**
+ * Formatos de data reconhecidos pelas regras:
+ * - publication: data de publicação ISBD ("1995", "[1995?]", "c1995", "[199-?]", "1995-2001", "s.d.")
+ * - yyyymmdd: data compacta (AAAAMMDD), verificada no calendário
+ * - lifespan: datas de nascimento/morte de uma pessoa ("1922-2010", "1950-", "n. 1950")
+ */
+export type DateFormat = "publication" | "yyyymmdd" | "lifespan"
+
+/**
+ * Regra de validação de um campo de controlo ("005") ou subcampo ("210$d").
+ * Todas as verificações definidas têm de passar; description explica ao catalogador (em cada língua do diálogo) o que é esperado.
+ */
+export interface SubfieldRule {
+    description: Record<DialogLanguage, string>
+    pattern?: RegExp
+    date?: DateFormat
+    range?: { min?: number; max?: number } // Anos (com date) ou números presentes no valor
+    enumeration?: string[]
+    minLength?: number
+    maxLength?: number
+}
+
+/**
+ * Resultado da verificação de um valor contra a regra do seu destino
+ */
+export interface SubfieldRuleCheck {
+    valid: boolean
+    error?: string
+}
+
+const DATE_PATTERNS: Record<DateFormat, RegExp> = {
+    publication: /^\[?(?:c|p|©|℗)?\s?\d{3}[\d-]\??\]?(?:\s?-\s?\[?\d{4}\??\]?)?\.?$|^\[?s\.\s?d\.\]?$/i,
+    yyyymmdd: /^\d{8}$/,
+    lifespan: /^\(?(?:n\.\s?)?\d{3,4}\??(?:-(?:\d{3,4}\??)?)?\)?$/i,
+}
+
+const NEXT_YEAR = new Date().getFullYear() + 1
+const ROMAN_OR_DIGIT = /\d|\b[ivxlcdm]+\b/i
+const PERSON_DATES: SubfieldRule = {
+    description: {
+        pt: "datas da pessoa (ex: 1922-2010, 1950-)",
+        en: "dates of the person (e.g. 1922-2010, 1950-)",
+        es: "fechas de la persona (ej: 1922-2010, 1950-)",
+    },
+    date: "lifespan",
+    range: { max: NEXT_YEAR },
+}
+const RELATOR_CODE: SubfieldRule = {
+    description: {
+        pt: "código de função com 3 dígitos (ex: 070 = autor, 730 = tradutor)",
+        en: "3-digit relator code (e.g. 070 = author, 730 = translator)",
+        es: "código de función de 3 dígitos (ej: 070 = autor, 730 = traductor)",
+    },
+    pattern: /^\d{3}$/,
+}
+
+/**
+ * Regras UNIMARC por destino: tag para campos de controlo, tag$subcampo para campos de dados
+ */
+export const SUBFIELD_RULES: Record<string, SubfieldRule> = {
+    "005": {
+        description: {
+            pt: "data e hora da última transação (AAAAMMDDHHMMSS.F)",
+            en: "date and time of the latest transaction (YYYYMMDDHHMMSS.F)",
+            es: "fecha y hora de la última transacción (AAAAMMDDHHMMSS.F)",
+        },
+        pattern: /^\d{14}\.\d$/,
+    },
+    "100$a": {
+        description: {
+            pt: "dados gerais de processamento com 36 caracteres, a começar pela data de entrada (AAAAMMDD) e o tipo de data",
+            en: "general processing data with 36 characters, starting with the date entered on file (YYYYMMDD) and the type of date",
+            es: "datos generales de proceso con 36 caracteres, empezando por la fecha de entrada (AAAAMMDD) y el tipo de fecha",
+        },
+        pattern: /^\d{8}[a-ku]/,
+        minLength: 36,
+        maxLength: 36,
+    },
+    "106$a": {
+        description: {
+            pt: "designação do suporte físico (d, e, f, g, h, i, r ou z)",
+            en: "physical medium designator (d, e, f, g, h, i, r or z)",
+            es: "designación del soporte físico (d, e, f, g, h, i, r o z)",
+        },
+        enumeration: ["d", "e", "f", "g", "h", "i", "r", "z"],
+    },
+    "200$v": {
+        description: {
+            pt: "designação do volume com o respetivo número (ex: 2, vol. 3, III)",
+            en: "volume designation with its number (e.g. 2, vol. 3, III)",
+            es: "designación del volumen con su número (ej: 2, vol. 3, III)",
+        },
+        pattern: ROMAN_OR_DIGIT,
+    },
+    "210$d": {
+        description: {
+            pt: "data de publicação (ex: 1995, [1995?], c1995, 1995-2001)",
+            en: "date of publication (e.g. 1995, [1995?], c1995, 1995-2001)",
+            es: "fecha de publicación (ej: 1995, [1995?], c1995, 1995-2001)",
+        },
+        date: "publication",
+        range: { min: 1000, max: NEXT_YEAR },
+    },
+    "210$h": {
+        description: {
+            pt: "data de impressão (ex: 1995, [1995?])",
+            en: "date of manufacture (e.g. 1995, [1995?])",
+            es: "fecha de impresión (ej: 1995, [1995?])",
+        },
+        date: "publication",
+        range: { min: 1000, max: NEXT_YEAR },
+    },
+    "215$a": {
+        description: {
+            pt: "extensão com o número de unidades (ex: 310 p., 2 vol., XII, 250 p.)",
+            en: "extent with the number of units (e.g. 310 p., 2 vol., XII, 250 p.)",
+            es: "extensión con el número de unidades (ej: 310 p., 2 vol., XII, 250 p.)",
+        },
+        pattern: ROMAN_OR_DIGIT,
+    },
+    "215$d": {
+        description: {
+            pt: "dimensões em centímetros (ex: 24 cm, 21 x 30 cm)",
+            en: "dimensions in centimetres (e.g. 24 cm, 21 x 30 cm)",
+            es: "dimensiones en centímetros (ej: 24 cm, 21 x 30 cm)",
+        },
+        pattern: /\d+\s*(?:x\s*\d+\s*)?(?:cm|mm)\b/i,
+    },
+    "225$v": {
+        description: {
+            pt: "numeração na coleção (ex: 12, vol. 3)",
+            en: "numbering within the series (e.g. 12, vol. 3)",
+            es: "numeración dentro de la colección (ej: 12, vol. 3)",
+        },
+        pattern: ROMAN_OR_DIGIT,
+    },
+    "700$f": PERSON_DATES,
+    "701$f": PERSON_DATES,
+    "702$f": PERSON_DATES,
+    "700$4": RELATOR_CODE,
+    "701$4": RELATOR_CODE,
+    "702$4": RELATOR_CODE,
+    "801$a": {
+        description: {
+            pt: "código de país com 2 letras (ex: PT)",
+            en: "2-letter country code (e.g. PT)",
+            es: "código de país de 2 letras (ej: PT)",
+        },
+        pattern: /^[A-Z]{2}$/,
+    },
+    "801$c": {
+        description: {
+            pt: "data da transação (AAAAMMDD)",
+            en: "date of the transaction (YYYYMMDD)",
+            es: "fecha de la transacción (AAAAMMDD)",
+        },
+        date: "yyyymmdd",
+    },
+    "856$u": {
+        description: {
+            pt: "endereço eletrónico completo (ex: https://...)",
+            en: "full electronic address (e.g. https://...)",
+            es: "dirección electrónica completa (ej: https://...)",
+        },
+        pattern: /^(?:https?|ftp):\/\/\S+$/i,
+        maxLength: 2000,
+    },
+}
+
+/**
+ * Regras de validação por campo/subcampo (datas, extensão, enumerações, comprimentos)
+ */
+export class SubfieldRuleService {
+    getRule(tag: string, subfield?: string): SubfieldRule | null {
+        return SUBFIELD_RULES[subfield ? `${tag}$${subfield}` : tag] ?? null
+    }
+
+    /**
+     * Descrição do formato esperado na língua do diálogo; null quando o destino não tem regra definida
+     */
+    describe(tag: string, subfield: string | undefined, language = "pt"): string | null {
+        return this.getRule(tag, subfield)?.description[dialogMessages.resolveLanguage(language)] ?? null
+    }
+
+    /**
+     * Verifica um valor; null quando o destino não tem regra definida.
+     * Num subcampo repetido (array) cada elemento é verificado; outros valores que não sejam texto são inválidos.
+     */
+    check(tag: string, subfield: string | undefined, value: unknown, language = "pt"): SubfieldRuleCheck | null {
+        const rule = this.getRule(tag, subfield)
+        if (!rule) return null
+
+        const messages = dialogMessages.get(language).validation
+        const target = subfield ? `${tag}$${subfield}` : tag
+        const expected = this.describe(tag, subfield, language)!
+        if (Array.isArray(value)) {
+            const checks = value.map((item) => this.check(tag, subfield, item, language)!)
+            return checks.find((check) => !check.valid) ?? { valid: true }
+        }
+        if (typeof value !== "string") {
+            return { valid: false, error: messages.ruleNotText(describeValue(value), target, expected) }
+        }
+
+        const error = this.firstError(rule, value.trim(), messages)
+        return error ? { valid: false, error: messages.ruleFailed(value.trim(), target, error, expected) } : { valid: true }
+    }
+
+    /**
+     * Retira de filledFields (ex: resultado do preenchimento automático) os valores que falham as regras
+     */
+    normalizeFields(filledFields: Record<string, unknown>): {
+        filledFields: Record<string, unknown>
+        rejected: RejectedFieldValue[]
+    } {
+        return normalizeFilledFields(filledFields, (tag, subfield, value) => {
+            const check = this.check(tag, subfield, value)
+            return check?.valid === false ? { error: check.error! } : null
+        })
+    }
+
+    /**
+     * Primeira verificação da regra que falha, descrita em poucas palavras (ou null se o valor é válido)
+     */
+    private firstError(rule: SubfieldRule, value: string, messages: DialogMessages["validation"]): string | null {
+        if (rule.minLength !== undefined && value.length < rule.minLength) {
+            return rule.minLength === rule.maxLength
+                ? messages.lengthInsteadOf(value.length, rule.minLength)
+                : messages.shorterThan(rule.minLength)
+        }
+        if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+            return rule.minLength === rule.maxLength
+                ? messages.lengthInsteadOf(value.length, rule.maxLength)
+                : messages.longerThan(rule.maxLength)
+        }
+        if (rule.enumeration && !rule.enumeration.includes(value)) {
+            return messages.notAllowedValue
+        }
+        if (rule.pattern && !rule.pattern.test(value)) {
+            return messages.invalidFormat
+        }
+        if (rule.date && !DATE_PATTERNS[rule.date].test(value)) {
+            return messages.invalidDateFormat
+        }
+        if (rule.date === "yyyymmdd" && !this.isCalendarDate(value)) {
+            return messages.nonexistentDate
+        }
+        if (rule.range) {
+            const { min = -Infinity, max = Infinity } = rule.range
+            // Com data verificam-se os anos (4 dígitos); sem data, todos os números do valor
+            const numbers = (value.match(rule.date ? /\d{4}/g : /\d+/g) ?? []).map(Number)
+            const outside = numbers.find((n) => n < min || n > max)
+            if (outside !== undefined) {
+                const limits = [Number.isFinite(min) ? messages.rangeMin(min) : null, Number.isFinite(max) ? messages.rangeMax(max) : null]
+                return messages.outOfRange(outside, limits.filter(Boolean).join(", "))
+            }
+        }
+        return null
+    }
+
+    private isCalendarDate(value: string): boolean {
+        const [year, month, day] = [value.slice(0, 4), value.slice(4, 6), value.slice(6, 8)].map(Number)
+        const date = new Date(Date.UTC(year, month - 1, day))
+        return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    }
+}
+
+export const subfieldRuleService = new SubfieldRuleService()
@@ -0,0 +1,445 @@
+import type { FieldType, Prisma } from "@prisma/client"
+import type {
+    DataField,
+    FieldDefinition,
+    OccurrenceProvenance,
+    RecordField,
+    RecordProvenance,
+    Template,
+} from "../app/types/unimarc"
+import { isValidFieldValue } from "./is-valid-field-value"
+import { BLANK_INDICATOR, indicatorService } from "./indicators"
+
+/**
+ * Uma ocorrência de campo já normalizada, pronta a ser gravada como CatalogField
+ * ou serializada como uma linha de texto UNIMARC.
+ */
+export interface FieldOccurrence {
+    tag: string
+    fieldType: FieldType
+    value: string | null    // Valor simples (campos de controlo ou campos de dados sem subcampos)
+    subfields: Record<string, string | string[]> | null     // Subcampos válidos (campos de dados)
+    ind1?: string   // Indicadores (campos de dados); ausentes = em branco
+    ind2?: string
+    fieldDef?: FieldDefinition
+    provenance?: OccurrenceProvenance   // Origem dos valores (ver FieldProvenanceService)
+}
+
+/**
+ * Registo lido de um formato externo (MARCXML, ISO 2709...), antes de ser mapeado para um template
+ */
+export interface ImportedRecord {
+    leader: string | null
+    fields: FieldOccurrence[]
+}
+
+/**
+ * Erro de sintaxe no texto UNIMARC, associado à linha (a contar de 1)
+ */
+export interface TextLineError {
+    line: number
+    message: string
+}
+
+/**
+ * Resultado da leitura de texto UNIMARC editado à mão
+ */
+export interface ParsedText {
+    leader: string | null
+    filledFields: Record<string, unknown>
+    errors: TextLineError[]
+}
+
+/**
+ * Serializador determinístico de registos UNIMARC.
+ *
+ * Converte a estrutura `filledFields` usada no diálogo de catalogação em:
+ * - ocorrências normalizadas (uma por linha/CatalogField)
+ * - texto UNIMARC de apresentação (ex: "200  $aTítulo$fAutor")
+ *
+ * Ambas as saídas partem da mesma normalização, garantindo que o `textUnimarc`
+ * gravado corresponde exatamente às linhas de CatalogField.
+ * O texto pode ser lido de volta com parseText (edição manual do registo).
+ */
+export class UnimarcSerializer {
+    /**
+     * Normaliza os campos preenchidos numa lista de ocorrências.
+     *
+     * Regras:
+     * 1. Campos repetíveis (arrays) geram uma ocorrência por item
+     * 2. Subcampos repetíveis (arrays) mantêm-se como array de valores válidos
+     * 3. Valores inválidos ("não", "n/a", vazios...) são descartados, tal como em isValidFieldValue
+     * 4. Ocorrências sem valor nem subcampos válidos são ignoradas, tal como objetos em campos de controlo
+     *    (tags fora do template são campos de dados se o valor for um objeto de subcampos)
+     * 5. O resultado é ordenado numericamente por tag (ordem estável dentro da mesma tag)
+     * 6. Com a origem dos valores (provenance), cada ocorrência leva a sua entrada
+     */
+    toOccurrences(
+        filledFields: Record<string, unknown>,
+        template?: Template,
+        provenance?: RecordProvenance,
+    ): FieldOccurrence[] {
+        const occurrences: FieldOccurrence[] = []
+
+        for (const [tag, rawValue] of Object.entries(filledFields)) {
+            const fieldDef = template
+                ? [...template.controlFields, ...template.dataFields].find((f) => f.tag === tag)
+                : undefined
+
+            // Campos de dados têm definição de subcampos; sem definição, decide o valor de cada ocorrência
+            const fieldType: FieldType | undefined = fieldDef ? ("subFieldDef" in fieldDef ? "DATA" : "CONTROL") : undefined
+            const items = Array.isArray(rawValue) ? rawValue : [rawValue]
+
+            for (const [index, item] of items.entries()) {
+                const occurrence = this.buildOccurrence(tag, fieldType, item, fieldDef)
+                const itemProvenance = provenance?.[tag]?.[index]
+                if (occurrence) occurrences.push(itemProvenance ? { ...occurrence, provenance: itemProvenance } : occurrence)
+            }
+        }
+
+        return occurrences.sort((a, b) => Number.parseInt(a.tag) - Number.parseInt(b.tag))
+    }
+
+    /**
+     * Converte os campos preenchidos em texto UNIMARC (uma linha por ocorrência)
+     */
+    serialize(filledFields: Record<string, unknown>, template?: Template, leader?: string): string {
+        return this.formatText(this.toOccurrences(filledFields, template), leader)
+    }
+
+    /**
+     * Formata ocorrências já normalizadas, precedidas da etiqueta de registo ("LDR ...") quando existe
+     */
+    formatText(occurrences: FieldOccurrence[], leader?: string | null): string {
+        const lines = occurrences.map((occurrence) => this.formatOccurrence(occurrence))
+        return (leader ? [`LDR ${leader}`, ...lines] : lines).join("\n")
+    }
+
+    /**
+     * Formata uma única ocorrência:
+     * - Controlo: "001 12345"
+     * - Dados: "2001 $aTítulo$bSubtítulo" (tag seguida dos dois indicadores; espaço = em branco)
+     * Nos subcampos, "$" e "\" dos valores são escritos como "\$" e "\\", para que parseText os leia de volta
+     */
+    formatOccurrence(occurrence: FieldOccurrence): string {
+        if (occurrence.fieldType === "CONTROL") {
+            return `${occurrence.tag} ${occurrence.value ?? ""}`
+        }
+
+        const indicators = (occurrence.ind1 || BLANK_INDICATOR) + (occurrence.ind2 || BLANK_INDICATOR)
+
+        if (!occurrence.subfields) {
+            return `${occurrence.tag}${indicators}${occurrence.value ?? ""}`
+        }
+
+        const subfieldText = Object.entries(occurrence.subfields)
+            .flatMap(([code, value]) =>
+                (Array.isArray(value) ? value : [value]).map((v) => `$${code}${this.escapeSubfieldValue(v)}`),
+            )
+            .join("")
+
+        return `${occurrence.tag}${indicators}${subfieldText}`
+    }
+
+    /**
+     * Converte ocorrências nas linhas a gravar em CatalogField,
+     * acrescentando os nomes traduzidos do campo e dos subcampos
+     */
+    toRecordFields(occurrences: FieldOccurrence[], language = "pt"): RecordField[] {
+        return occurrences.map((occurrence) => {
+            // Nome do campo na língua pedida, com a tag como alternativa
+            const fieldName =
+                occurrence.fieldDef?.translations.find((t) => t.language === language)?.name || occurrence.tag
+
+            // Mapeamento código -> nome do subcampo (apenas campos de dados)
+            let subfieldNames: Record<string, string> | null = null
+            if (occurrence.subfields && occurrence.fieldDef && "subFieldDef" in occurrence.fieldDef) {
+                subfieldNames = {}
+                for (const sf of occurrence.fieldDef.subFieldDef) {
+                    const sfTranslation = sf.translations?.find((t) => t.language === language)
+                    subfieldNames[sf.code] = sfTranslation?.label || sf.code
+                }
+            }
+
+            return {
+                tag: occurrence.tag,
+                value: occurrence.value,
+                subfields: occurrence.subfields,
+                fieldType: occurrence.fieldType,
+                fieldName,
+                subfieldNames,
+                ind1: occurrence.fieldType === "DATA" ? occurrence.ind1 || BLANK_INDICATOR : null,
+                ind2: occurrence.fieldType === "DATA" ? occurrence.ind2 || BLANK_INDICATOR : null,
+                provenance: (occurrence.provenance ?? null) as Prisma.JsonValue,
+            }
+        })
+    }
+
+    /**
+     * Operação inversa de toOccurrences: reconstrói a estrutura filledFields do diálogo
+     * a partir de ocorrências lidas de um formato externo.
+     *
+     * - Campos repetíveis tornam-se arrays de ocorrências
+     * - Subcampos repetíveis tornam-se arrays de valores
+     * - Em campos/subcampos não repetíveis, só a primeira ocorrência é mantida
+     * - Indicadores não brancos são guardados como "ind1"/"ind2" junto dos subcampos
+     * - Tags que não existem no template são devolvidas em `unknownTags` e ignoradas
+     * - A origem das ocorrências mantidas é devolvida em `provenance` (só os campos em que todas a têm)
+     */
+    fromOccurrences(
+        occurrences: FieldOccurrence[],
+        template: Template,
+    ): { filledFields: Record<string, unknown>; unknownTags: string[]; provenance: RecordProvenance } {
+        const filledFields: Record<string, unknown> = {}
+        const unknownTags = new Set<string>()
+        const provenance: RecordProvenance = {}
+        const withoutProvenance = new Set<string>()
+        const keepProvenance = (occurrence: FieldOccurrence) => {
+            if (occurrence.provenance) provenance[occurrence.tag] = [...(provenance[occurrence.tag] ?? []), occurrence.provenance]
+            else withoutProvenance.add(occurrence.tag)
+        }
+
+        for (const occurrence of occurrences) {
+            const fieldDef = [...template.controlFields, ...template.dataFields].find((f) => f.tag === occurrence.tag)
+            if (!fieldDef) {
+                unknownTags.add(occurrence.tag)
+                continue
+            }
+
+            let value: unknown
+            if ("subFieldDef" in fieldDef && occurrence.subfields) {
+                const dataFieldDef = fieldDef as DataField
+                const subfields: Record<string, string | string[]> = {}
+                for (const key of ["ind1", "ind2"] as const) {
+                    const indicator = occurrence[key]
+                    if (indicator && indicator !== BLANK_INDICATOR) subfields[key] = indicator
+                }
+                for (const [code, subvalue] of Object.entries(occurrence.subfields)) {
+                    const subfieldDef = dataFieldDef.subFieldDef.find((sf) => sf.code === code)
+                    const values = Array.isArray(subvalue) ? subvalue : [subvalue]
+                    subfields[code] = subfieldDef?.repeatable ? values : values[0]
+                }
+                value = subfields
+            } else {
+                value = occurrence.value ?? ""
+            }
+
+            if (fieldDef.repeatable) {
+                const existing = filledFields[occurrence.tag]
+                filledFields[occurrence.tag] = Array.isArray(existing) ? [...existing, value] : [value]
+                keepProvenance(occurrence)
+            } else if (!(occurrence.tag in filledFields)) {
+                filledFields[occurrence.tag] = value
+                keepProvenance(occurrence)
+            }
+        }
+
+        for (const tag of withoutProvenance) delete provenance[tag]
+        return { filledFields, unknownTags: Array.from(unknownTags), provenance }
+    }
+
+    /**
+     * Reconstrói filledFields a partir das linhas gravadas em CatalogField (ex: retomar um rascunho)
+     */
+    fromRecordFields(
+        fields: Pick<RecordField, "tag" | "value" | "subfields" | "fieldType" | "ind1" | "ind2" | "provenance">[],
+        template: Template,
+    ): Record<string, unknown> {
+        return this.fromRecordFieldsWithProvenance(fields, template).filledFields
+    }
+
+    /**
+     * Como fromRecordFields, devolvendo também a origem gravada de cada ocorrência
+     */
+    fromRecordFieldsWithProvenance(
+        fields: Pick<RecordField, "tag" | "value" | "subfields" | "fieldType" | "ind1" | "ind2" | "provenance">[],
+        template: Template,
+    ): { filledFields: Record<string, unknown>; provenance: RecordProvenance } {
+        const occurrences = fields.map(
+            (field): FieldOccurrence => ({
+                tag: field.tag,
+                fieldType: field.fieldType,
+                value: field.value || null,
+                subfields: (field.subfields as Record<string, string | string[]> | null) ?? null,
+                ind1: field.ind1 ?? undefined,
+                ind2: field.ind2 ?? undefined,
+                provenance: (field.provenance as OccurrenceProvenance | null) ?? undefined,
+            }),
+        )
+        const { filledFields, provenance } = this.fromOccurrences(occurrences, template)
+        return { filledFields, provenance }
+    }
+
+    /**
+     * Operação inversa de formatText: lê texto UNIMARC (uma ocorrência por linha)
+     * e reconstrói a estrutura filledFields do diálogo para o template indicado.
+     *
+     * Sintaxe aceite:
+     * - "LDR <etiqueta>" (opcional, só na primeira linha)
+     * - Controlo: "001 12345"
+     * - Dados: tag, até dois indicadores e subcampos ("200  $aTítulo$bSubtítulo", "2001 $aTítulo")
+     * - Nos subcampos, "\$" é um "$" do valor e "\\" uma barra invertida
+     * - Linhas vazias são ignoradas
+     *
+     * Para além da sintaxe, cada linha é verificada contra o template: tags desconhecidas,
+     * campos ou subcampos não repetíveis repetidos e subcampos não definidos são erros.
+     * Os erros são devolvidos por linha; com erros, filledFields não deve ser gravado.
+     */
+    parseText(text: string, template: Template): ParsedText {
+        const errors: TextLineError[] = []
+        const occurrences: FieldOccurrence[] = []
+        let leader: string | null = null
+
+        text.split(/\r?\n/).forEach((rawLine, index) => {
+            const lineNumber = index + 1
+            const line = rawLine.replace(/\s+$/, "")
+            const fail = (message: string) => errors.push({ line: lineNumber, message })
+            if (!line.trim()) return
+
+            if (line.startsWith("LDR")) {
+                if (occurrences.length > 0 || leader !== null) fail("A etiqueta de registo (LDR) tem de ser a primeira linha")
+                // A etiqueta termina muitas vezes em espaço, por isso usa-se a linha original
+                else leader = rawLine.slice(4).padEnd(24, " ").slice(0, 24)
+                return
+            }
+
+            const tag = line.slice(0, 3)
+            if (!/^\d{3}$/.test(tag)) return fail(`Tag inválida: "${tag}"`)
+
+            const fieldDef = [...template.controlFields, ...template.dataFields].find((f) => f.tag === tag)
+            if (!fieldDef) return fail(`O campo ${tag} não existe no template`)
+
+            if (!fieldDef.repeatable && occurrences.some((o) => o.tag === tag)) {
+                return fail(`O campo ${tag} não é repetível`)
+            }
+
+            const rest = line.slice(3)
+            if (!("subFieldDef" in fieldDef)) {
+                if (rest && !rest.startsWith(" ")) return fail(`Falta o espaço entre a tag ${tag} e o valor`)
+                const value = rest.slice(1)
+                if (!value.trim()) return fail(`O campo de controlo ${tag} não tem valor`)
+                occurrences.push({ tag, fieldType: "CONTROL", value, subfields: null, fieldDef })
+                return
+            }
+
+            const dollar = rest.indexOf("$")
+            if (dollar === -1) return fail(`O campo ${tag} não tem subcampos (ex: ${tag}  $a...)`)
+            if (dollar > 2) return fail(`Indicadores inválidos no campo ${tag}: "${rest.slice(0, dollar)}"`)
+
+            const [ind1, ind2] = rest.slice(0, dollar).padEnd(2, BLANK_INDICATOR).split("")
+            const normalizedInd1 = indicatorService.normalize(ind1)
+            const normalizedInd2 = indicatorService.normalize(ind2)
+            if (normalizedInd1 === null || normalizedInd2 === null) {
+                return fail(`Indicadores inválidos no campo ${tag}: "${rest.slice(0, dollar)}"`)
+            }
+
+            const subfields: Record<string, string | string[]> = {}
+            for (const chunk of this.splitSubfields(rest.slice(dollar + 1))) {
+                const code = chunk.charAt(0)
+                const value = chunk.slice(1)
+                if (!code) return fail(`Código de subcampo em falta no campo ${tag}`)
+
+                const subfieldDef = (fieldDef as DataField).subFieldDef.find((sf) => sf.code === code)
+                if (!subfieldDef) return fail(`O subcampo $${code} não existe no campo ${tag}`)
+                if (!value.trim()) return fail(`O subcampo $${code} do campo ${tag} está vazio`)
+
+                if (code in subfields) {
+                    if (!subfieldDef.repeatable) return fail(`O subcampo $${code} do campo ${tag} não é repetível`)
+                    subfields[code] = [subfields[code], value].flat()
+                } else {
+                    subfields[code] = subfieldDef.repeatable ? [value] : value
+                }
+            }
+
+            occurrences.push({
+                tag,
+                fieldType: "DATA",
+                value: null,
+                subfields,
+                ind1: normalizedInd1,
+                ind2: normalizedInd2,
+                fieldDef,
+            })
+        })
+
+        return { leader, filledFields: this.fromOccurrences(occurrences, template).filledFields, errors }
+    }
+
+    /**
+     * Constrói uma ocorrência a partir de um item de filledFields, descartando valores inválidos
+     */
+    private buildOccurrence(
+        tag: string,
+        definedType: FieldType | undefined,
+        item: unknown,
+        fieldDef?: FieldDefinition,
+    ): FieldOccurrence | null {
+        const isSubfieldObject = typeof item === "object" && item !== null && !Array.isArray(item)
+        const fieldType: FieldType = definedType ?? (isSubfieldObject ? "DATA" : "CONTROL")
+        if (fieldType === "DATA" && isSubfieldObject) {
+            const { ind1, ind2, subfields: rawSubfields } = indicatorService.split(item as Record<string, unknown>)
+            const subfields = this.filterSubfields(rawSubfields, fieldDef as DataField)
+            if (Object.keys(subfields).length === 0) return null
+            return { tag, fieldType, value: null, subfields, ind1, ind2, fieldDef }
+        }
+
+        // Objetos e listas não têm representação como valor simples ("[object Object]")
+        if (typeof item === "object" || !isValidFieldValue(item)) return null
+        return { tag, fieldType, value: String(item).trim(), subfields: null, fieldDef }
+    }
+
+    /**
+     * Escreve "$" e "\" de um valor de subcampo com barra invertida, para não serem lidos como delimitadores
+     */
+    private escapeSubfieldValue(value: string): string {
+        return value.replace(/[\\$]/g, (char) => `\\${char}`)
+    }
+
+    /**
+     * Separa o texto dos subcampos (depois do primeiro "$") em "código+valor", respeitando "\$" e "\\"
+     */
+    private splitSubfields(text: string): string[] {
+        const chunks = [""]
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i]
+            if (char === "\\" && i + 1 < text.length) chunks[chunks.length - 1] += text[++i]
+            else if (char === "$") chunks.push("")
+            else chunks[chunks.length - 1] += char
+        }
+        return chunks
+    }
+
+    /**
+     * Mantém apenas subcampos com valores válidos (texto ou números), preservando a ordem definida no template.
+     * Objetos e listas dentro de um subcampo são descartados: não têm representação como texto ("[object Object]").
+     */
+    private filterSubfields(
+        subfields: Record<string, unknown>,
+        dataField?: DataField,
+    ): Record<string, string | string[]> {
+        const order = dataField?.subFieldDef?.map((sf) => sf.code) ?? []
+        const codes = Object.keys(subfields).sort((a, b) => {
+            const idxA = order.indexOf(a)
+            const idxB = order.indexOf(b)
+            // Subcampos desconhecidos ficam no fim, pela ordem em que chegaram
+            return (idxA === -1 ? order.length : idxA) - (idxB === -1 ? order.length : idxB)
+        })
+
+        const isText = (value: unknown): value is string | number =>
+            (typeof value === "string" || typeof value === "number") && isValidFieldValue(value)
+
+        const filtered: Record<string, string | string[]> = {}
+        for (const code of codes) {
+            const value = subfields[code]
+            if (Array.isArray(value)) {
+                const validValues = value.filter(isText).map((v) => String(v).trim())
+                if (validValues.length > 0) filtered[code] = validValues
+            } else if (isText(value)) {
+                filtered[code] = String(value).trim()
+            }
+        }
+        return filtered
+    }
+}
+
+export const unimarcSerializer = new UnimarcSerializer()